@@ -8,12 +8,31 @@
  * @module
  */
 
+import type * as billing from "../billing.js";
+import type * as clips from "../clips.js";
+import type * as clock from "../clock.js";
+import type * as crons from "../crons.js";
 import type * as firecrawl from "../firecrawl.js";
 import type * as gameMutations from "../gameMutations.js";
+import type * as gameStaff from "../gameStaff.js";
 import type * as games from "../games.js";
+import type * as http from "../http.js";
+import type * as leagues from "../leagues.js";
+import type * as lineups from "../lineups.js";
+import type * as notificationDelivery from "../notificationDelivery.js";
+import type * as notifications from "../notifications.js";
+import type * as organizations from "../organizations.js";
+import type * as recordings from "../recordings.js";
+import type * as replays from "../replays.js";
 import type * as seed from "../seed.js";
+import type * as standings from "../standings.js";
+import type * as stats from "../stats.js";
+import type * as streamHealth from "../streamHealth.js";
+import type * as streamProviders from "../streamProviders.js";
 import type * as streams from "../streams.js";
 import type * as teamImports from "../teamImports.js";
+import type * as tournaments from "../tournaments.js";
+import type * as users from "../users.js";
 
 import type {
   ApiFromModules,
@@ -30,12 +49,31 @@ import type {
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  billing: typeof billing;
+  clips: typeof clips;
+  clock: typeof clock;
+  crons: typeof crons;
   firecrawl: typeof firecrawl;
   gameMutations: typeof gameMutations;
+  gameStaff: typeof gameStaff;
   games: typeof games;
+  http: typeof http;
+  leagues: typeof leagues;
+  lineups: typeof lineups;
+  notificationDelivery: typeof notificationDelivery;
+  notifications: typeof notifications;
+  organizations: typeof organizations;
+  recordings: typeof recordings;
+  replays: typeof replays;
   seed: typeof seed;
+  standings: typeof standings;
+  stats: typeof stats;
+  streamHealth: typeof streamHealth;
+  streamProviders: typeof streamProviders;
   streams: typeof streams;
   teamImports: typeof teamImports;
+  tournaments: typeof tournaments;
+  users: typeof users;
 }>;
 declare const fullApiWithMounts: typeof fullApi;
 
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest"
+import { billingFromProducts, verifyWebhookSignature } from "./billing"
+
+const SECRET = `whsec_${btoa("test webhook secret")}`
+
+async function sign(secret: string, id: string, timestamp: string, body: string) {
+  const keyBytes = Uint8Array.from(atob(secret.replace(/^whsec_/, "")), (c) => c.charCodeAt(0))
+  const key = await crypto.subtle.importKey(
+    "raw",
+    keyBytes,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  )
+  const digest = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${id}.${timestamp}.${body}`)
+  )
+  return btoa(String.fromCharCode(...new Uint8Array(digest)))
+}
+
+async function signedHeaders(body: string, timestamp = Math.floor(Date.now() / 1000)) {
+  const id = "msg_test"
+  const signature = await sign(SECRET, id, String(timestamp), body)
+  return new Headers({
+    "svix-id": id,
+    "svix-timestamp": String(timestamp),
+    "svix-signature": `v1,${signature}`,
+  })
+}
+
+describe("verifyWebhookSignature", () => {
+  const body = JSON.stringify({ type: "customer.products.updated", data: {} })
+
+  it("accepts a correctly signed delivery", async () => {
+    expect(await verifyWebhookSignature(SECRET, await signedHeaders(body), body)).toBe(true)
+  })
+
+  it("accepts a valid signature among several in the header", async () => {
+    const headers = await signedHeaders(body)
+    headers.set("svix-signature", `v1,bm90IHRoaXMgb25l ${headers.get("svix-signature")}`)
+    expect(await verifyWebhookSignature(SECRET, headers, body)).toBe(true)
+  })
+
+  it("rejects a tampered body", async () => {
+    const headers = await signedHeaders(body)
+    expect(await verifyWebhookSignature(SECRET, headers, body.replace("updated", "deleted"))).toBe(
+      false
+    )
+  })
+
+  it("rejects a delivery signed with another secret", async () => {
+    const headers = await signedHeaders(body)
+    expect(await verifyWebhookSignature(`whsec_${btoa("other")}`, headers, body)).toBe(false)
+  })
+
+  it("rejects a stale timestamp", async () => {
+    const staleTimestamp = Math.floor(Date.now() / 1000) - 10 * 60
+    expect(
+      await verifyWebhookSignature(SECRET, await signedHeaders(body, staleTimestamp), body)
+    ).toBe(false)
+  })
+
+  it("rejects a delivery without signature headers", async () => {
+    expect(await verifyWebhookSignature(SECRET, new Headers(), body)).toBe(false)
+  })
+})
+
+describe("billingFromProducts", () => {
+  it("maps an active product to its plan", () => {
+    expect(billingFromProducts([{ id: "pro", status: "active" }])).toEqual({
+      plan: "pro",
+      billingStatus: "active",
+    })
+  })
+
+  it("prefers premium over pro", () => {
+    expect(
+      billingFromProducts([
+        { id: "pro", status: "active" },
+        { id: "premium", status: "active" },
+      ])
+    ).toEqual({ plan: "premium", billingStatus: "active" })
+  })
+
+  it("keeps the plan of a past-due subscription", () => {
+    expect(billingFromProducts([{ id: "premium", status: "past_due" }])).toEqual({
+      plan: "premium",
+      billingStatus: "past_due",
+    })
+  })
+
+  it("treats a paid product that is no longer active as cancelled", () => {
+    expect(billingFromProducts([{ id: "pro", status: "expired" }])).toEqual({
+      plan: "free",
+      billingStatus: "cancelled",
+    })
+  })
+
+  it("is free without paid products", () => {
+    expect(billingFromProducts([])).toEqual({ plan: "free", billingStatus: undefined })
+    expect(billingFromProducts([{ id: "free", status: "active" }])).toEqual({
+      plan: "free",
+      billingStatus: undefined,
+    })
+  })
+})
@@ -0,0 +1,412 @@
+/**
+ * Billing plans, limits and entitlements
+ * Each user's Autumn plan and subscription status are cached on their user record,
+ * kept current by the Autumn webhook (POST /autumn/webhook, see http.ts) and by
+ * syncPlan on sign-in. An organization gets the plan of its owners (getOrgPlan).
+ * Queries and mutations decide entitlements from the cache without calling Autumn. Rejections throw a ConvexError carrying PlanLimitErrorData,
+ * which the client renders with an upgrade prompt.
+ */
+
+import {
+  action,
+  httpAction,
+  internalMutation,
+  internalQuery,
+  query,
+  type MutationCtx,
+  type QueryCtx,
+} from "./_generated/server"
+import { ConvexError, v } from "convex/values"
+import { internal } from "./_generated/api"
+import type { Doc, Id } from "./_generated/dataModel"
+import { getActiveOrgId, getCurrentUser } from "./organizations"
+
+const AUTUMN_API_URL = "https://api.useautumn.com/v1"
+
+// Reject webhook deliveries signed more than this long ago (replay protection)
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60
+
+export type Plan = NonNullable<Doc<"users">["plan"]>
+
+export type BillingStatus = NonNullable<Doc<"users">["billingStatus"]>
+
+export type LimitedResource = "games" | "teams" | "liveStreams"
+
+export type Feature = "liveStreaming" | "advancedAnalytics" | "tournaments"
+
+// Keep in sync with useFeatureAccess() in src/utils/feature-gates.ts
+// liveStreams is the number of games an organization can stream at the same time
+export const PLAN_LIMITS: Record<Plan, Record<LimitedResource, number>> = {
+  free: { games: 5, teams: 2, liveStreams: 0 },
+  pro: { games: Infinity, teams: Infinity, liveStreams: 2 },
+  premium: { games: Infinity, teams: Infinity, liveStreams: 8 },
+}
+
+export const PLAN_FEATURES: Record<Plan, Record<Feature, boolean>> = {
+  free: { liveStreaming: false, advancedAnalytics: false, tournaments: false },
+  pro: { liveStreaming: true, advancedAnalytics: true, tournaments: false },
+  premium: { liveStreaming: true, advancedAnalytics: true, tournaments: true },
+}
+
+const PLAN_RANK: Record<Plan, number> = { free: 0, pro: 1, premium: 2 }
+
+const FEATURE_LABELS: Record<Feature, string> = {
+  liveStreaming: "Live streaming",
+  advancedAnalytics: "Advanced analytics",
+  tournaments: "Tournament management",
+}
+
+export type PlanLimitErrorData =
+  | {
+      code: "PLAN_LIMIT"
+      resource: LimitedResource
+      limit: number
+      plan: Plan
+      upgradeTo: "pro" | "premium"
+      message: string
+    }
+  | {
+      code: "PLAN_FEATURE"
+      feature: Feature
+      plan: Plan
+      upgradeTo: "pro" | "premium"
+      message: string
+    }
+
+const productsValidator = v.array(v.object({ id: v.string(), status: v.string() }))
+
+type AutumnProduct = { id: string; status: string }
+
+/**
+ * Plan and subscription status from a customer's Autumn products
+ * A past-due subscription keeps its plan so the status can be shown, but grants
+ * nothing until paid (see effectivePlan). Paid products that are no longer active
+ * or past due mean the subscription was cancelled.
+ */
+export function billingFromProducts(products: AutumnProduct[]): {
+  plan: Plan
+  billingStatus?: BillingStatus
+} {
+  for (const plan of ["premium", "pro"] as const) {
+    const product = products.find(
+      (p) => p.id === plan && (p.status === "active" || p.status === "past_due")
+    )
+    if (product) {
+      return { plan, billingStatus: product.status === "past_due" ? "past_due" : "active" }
+    }
+  }
+
+  const hadPaidPlan = products.some((p) => p.id === "pro" || p.id === "premium")
+  return { plan: "free", billingStatus: hadPaidPlan ? "cancelled" : undefined }
+}
+
+/**
+ * Plan a user's entitlements come from; past-due and cancelled subscriptions fall back to free
+ */
+export function effectivePlan(user: Doc<"users"> | null): Plan {
+  if (!user || user.billingStatus === "past_due" || user.billingStatus === "cancelled") {
+    return "free"
+  }
+  return user.plan ?? "free"
+}
+
+/**
+ * Plan an organization's entitlements and limits come from: the best effective plan
+ * among its owners, so members and assigned staff get what the organization pays for
+ * Outside an organization, the user's own plan applies.
+ */
+export async function getOrgPlan(
+  ctx: QueryCtx,
+  orgId: Id<"organizations"> | undefined,
+  user: Doc<"users"> | null
+): Promise<Plan> {
+  if (!orgId) return effectivePlan(user)
+
+  const owners = (
+    await ctx.db
+      .query("orgMembers")
+      .withIndex("orgId", (q) => q.eq("orgId", orgId))
+      .collect()
+  ).filter((member) => member.role === "owner")
+
+  let best: Plan = "free"
+  for (const owner of owners) {
+    const plan = effectivePlan(await ctx.db.get(owner.userId))
+    if (PLAN_RANK[plan] > PLAN_RANK[best]) best = plan
+  }
+  return best
+}
+
+/**
+ * Plan of the signed-in user's active organization (free when signed out)
+ */
+export async function getCallerPlan(ctx: QueryCtx): Promise<Plan> {
+  const user = await getCurrentUser(ctx)
+  return await getOrgPlan(ctx, await getActiveOrgId(ctx, user), user)
+}
+
+/**
+ * Plan of the signed-in user's active organization, for actions
+ */
+export const callerPlan = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<Plan> => await getCallerPlan(ctx),
+})
+
+/**
+ * Reject use of a feature the plan doesn't include
+ */
+export function requireFeature(plan: Plan, feature: Feature) {
+  if (PLAN_FEATURES[plan][feature]) return
+
+  const upgradeTo = PLAN_FEATURES.pro[feature] ? "pro" : "premium"
+  throw new ConvexError<PlanLimitErrorData>({
+    code: "PLAN_FEATURE",
+    feature,
+    plan,
+    upgradeTo,
+    message: `${FEATURE_LABELS[feature]} isn't included in the ${plan} plan. Upgrade to ${
+      upgradeTo === "pro" ? "Pro" : "Premium"
+    } to use it.`,
+  })
+}
+
+/**
+ * Plan, limits and usage of the signed-in user's active organization (free and empty
+ * when signed out)
+ * Shown by the admin dashboard's usage meter.
+ */
+export const getPlanUsage = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    const orgId = await getActiveOrgId(ctx, user)
+    const plan = await getOrgPlan(ctx, orgId, user)
+
+    return {
+      plan,
+      limits: PLAN_LIMITS[plan],
+      games: user ? await countPlanUsage(ctx, orgId, "games") : 0,
+      teams: user ? await countPlanUsage(ctx, orgId, "teams") : 0,
+    }
+  },
+})
+
+/**
+ * Reject a create that would take an organization past its plan limit
+ * The limit comes from the organization's plan (see getOrgPlan) and usage is counted in
+ * that organization only. Outside an organization, the user's own plan applies to
+ * records without one.
+ */
+export async function requirePlanCapacity(
+  ctx: MutationCtx,
+  user: Doc<"users">,
+  orgId: Id<"organizations"> | undefined,
+  resource: "games" | "teams",
+  adding = 1
+) {
+  const plan = await getOrgPlan(ctx, orgId, user)
+  const limit = PLAN_LIMITS[plan][resource]
+  if (limit === Infinity) return
+
+  if ((await countPlanUsage(ctx, orgId, resource)) + adding > limit) {
+    throw new ConvexError<PlanLimitErrorData>({
+      code: "PLAN_LIMIT",
+      resource,
+      limit,
+      plan,
+      upgradeTo: "pro",
+      message: `The ${plan} plan is limited to ${limit} ${resource}. Upgrade to Pro for unlimited ${resource}.`,
+    })
+  }
+}
+
+/**
+ * Games or teams in an organization (or without one when orgId is undefined)
+ */
+async function countPlanUsage(
+  ctx: QueryCtx,
+  orgId: Id<"organizations"> | undefined,
+  resource: "games" | "teams"
+) {
+  const records =
+    resource === "games"
+      ? await ctx.db.query("games").withIndex("orgId", (q) => q.eq("orgId", orgId)).collect()
+      : await ctx.db.query("teams").withIndex("orgId", (q) => q.eq("orgId", orgId)).collect()
+  return records.length
+}
+
+/**
+ * Reject starting a live stream when the organization is already streaming as many
+ * games as the plan allows
+ */
+export function requireLiveStreamCapacity(plan: Plan, liveStreams: number) {
+  const limit = PLAN_LIMITS[plan].liveStreams
+  if (liveStreams < limit) return
+
+  const streams = `${limit} live stream${limit === 1 ? "" : "s"}`
+  if (plan === "premium") {
+    throw new Error(`The premium plan is limited to ${streams} at a time. End another stream first.`)
+  }
+
+  throw new ConvexError<PlanLimitErrorData>({
+    code: "PLAN_LIMIT",
+    resource: "liveStreams",
+    limit,
+    plan,
+    upgradeTo: "premium",
+    message: `The ${plan} plan is limited to ${streams} at a time. Upgrade to Premium to stream up to ${PLAN_LIMITS.premium.liveStreams} games at once.`,
+  })
+}
+
+/**
+ * Refresh the signed-in user's cached plan from Autumn
+ * Autumn customers are keyed by Clerk user id (see src/routes/api.autumn.$.ts).
+ */
+export const syncPlan = action({
+  args: {},
+  handler: async (ctx): Promise<Plan> => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error("Not authenticated")
+    }
+
+    const secretKey = process.env.AUTUMN_SECRET_KEY
+    if (!secretKey) {
+      throw new Error(
+        "Missing AUTUMN_SECRET_KEY. Please configure it in your Convex dashboard."
+      )
+    }
+
+    const response = await fetch(
+      `${AUTUMN_API_URL}/customers/${encodeURIComponent(identity.subject)}`,
+      { headers: { Authorization: `Bearer ${secretKey}` } }
+    )
+
+    let products: AutumnProduct[] = []
+    if (response.ok) {
+      const customer = (await response.json()) as { products?: AutumnProduct[] }
+      products = (customer.products ?? []).map(({ id, status }) => ({ id, status }))
+    } else if (response.status !== 404) {
+      throw new Error(`Autumn error ${response.status}: ${await response.text()}`)
+    }
+
+    await ctx.runMutation(internal.billing.recordBilling, {
+      clerkId: identity.subject,
+      products,
+    })
+
+    return billingFromProducts(products).plan
+  },
+})
+
+/**
+ * Autumn webhook
+ * Deliveries are signed Svix-style with AUTUMN_WEBHOOK_SECRET ("whsec_..."). Any event
+ * carrying a customer with its products updates that customer's cached plan.
+ */
+export const autumnWebhook = httpAction(async (ctx, request) => {
+  const secret = process.env.AUTUMN_WEBHOOK_SECRET
+  if (!secret) {
+    console.error("Missing AUTUMN_WEBHOOK_SECRET. Please configure it in your Convex dashboard.")
+    return new Response("Webhook not configured", { status: 500 })
+  }
+
+  const body = await request.text()
+  if (!(await verifyWebhookSignature(secret, request.headers, body))) {
+    return new Response("Invalid signature", { status: 401 })
+  }
+
+  let payload: {
+    type?: string
+    data?: { customer?: { id?: string | null; products?: AutumnProduct[] } }
+  }
+  try {
+    payload = JSON.parse(body)
+  } catch {
+    return new Response("Invalid JSON", { status: 400 })
+  }
+
+  const customer = payload.data?.customer
+  if (!customer?.id || !customer.products) {
+    // Not a customer event; acknowledge so Autumn doesn't retry
+    return new Response(null, { status: 204 })
+  }
+
+  await ctx.runMutation(internal.billing.recordBilling, {
+    clerkId: customer.id,
+    products: customer.products.map(({ id, status }) => ({ id, status })),
+  })
+
+  return new Response(null, { status: 204 })
+})
+
+/**
+ * Cache a user's plan and subscription status from their Autumn products
+ */
+export const recordBilling = internalMutation({
+  args: {
+    clerkId: v.string(),
+    products: productsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db
+      .query("users")
+      .withIndex("clerkId", (q) => q.eq("clerkId", args.clerkId))
+      .first()
+
+    if (!user) {
+      console.warn(`Billing update for unknown customer ${args.clerkId}`)
+      return
+    }
+
+    const { plan, billingStatus } = billingFromProducts(args.products)
+    await ctx.db.patch(user._id, { plan, billingStatus, planSyncedAt: Date.now() })
+  },
+})
+
+/**
+ * Check a Svix-style signature: HMAC-SHA256 over "<id>.<timestamp>.<body>", base64,
+ * in a space-separated "v1,<signature>" list
+ */
+export async function verifyWebhookSignature(secret: string, headers: Headers, body: string) {
+  const id = headers.get("svix-id") ?? headers.get("webhook-id")
+  const timestamp = headers.get("svix-timestamp") ?? headers.get("webhook-timestamp")
+  const signatures = headers.get("svix-signature") ?? headers.get("webhook-signature")
+  if (!id || !timestamp || !signatures) return false
+
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > WEBHOOK_TOLERANCE_SECONDS) {
+    return false
+  }
+
+  const keyBytes = Uint8Array.from(atob(secret.replace(/^whsec_/, "")), (c) => c.charCodeAt(0))
+  const key = await crypto.subtle.importKey(
+    "raw",
+    keyBytes,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  )
+  const digest = await crypto.subtle.sign(
+    "HMAC",
+    key,
+    new TextEncoder().encode(`${id}.${timestamp}.${body}`)
+  )
+  const expected = btoa(String.fromCharCode(...new Uint8Array(digest)))
+
+  return signatures
+    .split(" ")
+    .some((entry) => {
+      const [version, signature] = entry.split(",")
+      return version === "v1" && signature !== undefined && timingSafeEqual(signature, expected)
+    })
+}
+
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
@@ -0,0 +1,145 @@
+/**
+ * Highlight clips
+ * A clip is a range of a game's recording around one of its events (usually a goal).
+ * Nothing is re-encoded: the clip page plays the recording between the clip's offsets,
+ * so clips are cheap to make and disappear with their recording.
+ */
+
+import { mutation, query, type MutationCtx } from "./_generated/server"
+import { v } from "convex/values"
+import type { Doc } from "./_generated/dataModel"
+import { getGameAccess, requireGameAccess } from "./gameStaff"
+import { getCurrentUser, requireUser } from "./organizations"
+import { findRecordingAt } from "./replays"
+
+const DEFAULT_SECONDS_BEFORE = 10
+const DEFAULT_SECONDS_AFTER = 5
+const MAX_CLIP_SECONDS = 120
+
+/**
+ * A clip with its recording and the game's teams, for the shareable clip page
+ * Returns null when the clip, its recording or its game is gone, or the recording is hidden.
+ */
+export const getClip = query({
+  args: { clipId: v.id("clips") },
+  handler: async (ctx, args) => {
+    const clip = await ctx.db.get(args.clipId)
+    if (!clip) return null
+
+    const [recording, game] = await Promise.all([
+      ctx.db.get(clip.recordingId),
+      ctx.db.get(clip.gameId),
+    ])
+    if (!recording || recording.hidden || !game) return null
+
+    const [homeTeam, awayTeam, user] = await Promise.all([
+      ctx.db.get(game.homeTeamId),
+      ctx.db.get(game.awayTeamId),
+      getCurrentUser(ctx),
+    ])
+
+    return {
+      ...clip,
+      recording,
+      game: {
+        _id: game._id,
+        scheduledStart: game.scheduledStart,
+        homeTeamName: homeTeam?.name ?? "Unknown team",
+        awayTeamName: awayTeam?.name ?? "Unknown team",
+      },
+      canManage: user ? (await getGameAccess(ctx, user, game)).canManage : false,
+    }
+  },
+})
+
+/**
+ * Cut a clip from the recording that covers a game event
+ * Requires: permission to manage the event's game
+ */
+export const createClip = mutation({
+  args: {
+    eventId: v.id("events"),
+    secondsBefore: v.optional(v.number()),
+    secondsAfter: v.optional(v.number()),
+    title: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+
+    const event = await ctx.db.get(args.eventId)
+    if (!event || event.voided) {
+      throw new Error("Event not found")
+    }
+
+    const game = await requireGameAccess(ctx, user, event.gameId, "manage")
+
+    const secondsBefore = args.secondsBefore ?? DEFAULT_SECONDS_BEFORE
+    const secondsAfter = args.secondsAfter ?? DEFAULT_SECONDS_AFTER
+    if (secondsBefore < 0 || secondsAfter < 0 || secondsBefore + secondsAfter === 0) {
+      throw new Error("Clip must include some time around the event")
+    }
+    if (secondsBefore + secondsAfter > MAX_CLIP_SECONDS) {
+      throw new Error(`Clips can be at most ${MAX_CLIP_SECONDS} seconds long`)
+    }
+
+    const recordings = await ctx.db
+      .query("recordings")
+      .withIndex("gameId", (q) => q.eq("gameId", event.gameId))
+      .collect()
+    const position = findRecordingAt(recordings, event.timestamp)
+    if (!position) {
+      throw new Error("No ready recording covers this event")
+    }
+
+    const { recording, offsetSeconds } = position
+    const startSeconds = Math.max(0, offsetSeconds - secondsBefore)
+    const endSeconds =
+      recording.durationSeconds !== undefined
+        ? Math.min(recording.durationSeconds, offsetSeconds + secondsAfter)
+        : offsetSeconds + secondsAfter
+
+    const title = args.title?.trim() || event.description
+
+    return await ctx.db.insert("clips", {
+      gameId: event.gameId,
+      recordingId: recording._id,
+      eventId: event._id,
+      title,
+      startSeconds,
+      endSeconds,
+      createdBy: user._id,
+      orgId: game.orgId,
+    })
+  },
+})
+
+/**
+ * Delete a clip
+ * Requires: permission to manage the clip's game
+ */
+export const deleteClip = mutation({
+  args: { clipId: v.id("clips") },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+
+    const clip = await ctx.db.get(args.clipId)
+    if (!clip) {
+      throw new Error("Clip not found")
+    }
+
+    await requireGameAccess(ctx, user, clip.gameId, "manage")
+    await ctx.db.delete(args.clipId)
+  },
+})
+
+/**
+ * Delete the clips cut from a recording
+ */
+export async function deleteRecordingClips(ctx: MutationCtx, recording: Doc<"recordings">) {
+  const clips = await ctx.db
+    .query("clips")
+    .withIndex("recordingId", (q) => q.eq("recordingId", recording._id))
+    .collect()
+
+  await Promise.all(clips.map((clip) => ctx.db.delete(clip._id)))
+}
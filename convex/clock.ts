@@ -0,0 +1,32 @@
+/**
+ * Game clock helpers shared by queries and mutations
+ * The clock is stored as the seconds remaining at `runningSince`; while it runs the
+ * live value is derived from elapsed server time instead of being pushed by clients
+ */
+
+import type { Doc } from "./_generated/dataModel"
+
+type ClockState = Pick<Doc<"gameState">, "clockSeconds" | "runningSince">
+
+/**
+ * Seconds left on the clock at `now`
+ */
+export function getClockSeconds(state: ClockState, now = Date.now()) {
+  if (state.runningSince === undefined) {
+    return state.clockSeconds
+  }
+  return Math.max(0, Math.ceil(state.clockSeconds - (now - state.runningSince) / 1000))
+}
+
+/**
+ * Game state with the clock resolved for reads
+ * `clockAsOf` is the server time the value was computed at so clients can keep
+ * counting down locally while `runningSince` is set
+ */
+export function withDerivedClock<T extends ClockState>(state: T, now = Date.now()) {
+  return {
+    ...state,
+    clockSeconds: getClockSeconds(state, now),
+    clockAsOf: now,
+  }
+}
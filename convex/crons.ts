@@ -0,0 +1,18 @@
+/**
+ * Scheduled jobs
+ */
+
+import { cronJobs } from "convex/server"
+import { internal } from "./_generated/api"
+import { POLL_INTERVAL_SECONDS } from "./streamHealth"
+
+const crons = cronJobs()
+
+// Record stream health and end streams whose publisher is gone (see streamHealth.ts)
+crons.interval(
+  "poll live streams",
+  { seconds: POLL_INTERVAL_SECONDS },
+  internal.streamHealth.pollLiveStreams
+)
+
+export default crons
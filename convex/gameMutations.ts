@@ -3,8 +3,30 @@
  * These functions handle all write operations with proper authentication
  */
 
-import { mutation } from "./_generated/server"
+import { internalMutation, mutation, type MutationCtx } from "./_generated/server"
+import type { WithoutSystemFields } from "convex/server"
 import { v } from "convex/values"
+import { internal } from "./_generated/api"
+import { requirePlanCapacity } from "./billing"
+import { getClockSeconds } from "./clock"
+import { requireGameAccess } from "./gameStaff"
+import { notifySubscribers } from "./notifications"
+import { getActiveOrgId, requireOrgRole } from "./organizations"
+import { deleteRecordings } from "./recordings"
+import { removeGameStats, syncGameStats } from "./stats"
+import { advanceBracketWinner, retractBracketWinner } from "./tournaments"
+import { defaultPermissions, getPendingInvitation, normalizeEmail, recordPermissionChange } from "./users"
+import type { Doc, Id } from "./_generated/dataModel"
+
+type Side = "home" | "away"
+
+const otherSide = (side: Side): Side => (side === "home" ? "away" : "home")
+
+/**
+ * Event types a scorekeeper may undo, void or edit
+ * Game lifecycle events (start, period end, game end) are managed by their own mutations
+ */
+const CORRECTABLE_EVENT_TYPES: Doc<"events">["type"][] = ["goal", "turnover", "timeout"]
 
 /**
  * Create a new game
@@ -21,6 +43,7 @@ export const createGame = mutation({
     awayTeamId: v.id("teams"),
     scheduledStart: v.number(),
     venue: v.string(),
+    field: v.optional(v.string()),
     ruleConfig: v.object({
       stallCount: v.union(v.literal(6), v.literal(7), v.literal(10)),
       targetScore: v.optional(v.number()),
@@ -40,6 +63,7 @@ export const createGame = mutation({
       endZoneDepth: v.number(),
       surface: v.string(),
     })),
+    seasonId: v.optional(v.id("seasons")),
   },
   handler: async (ctx, args) => {
     // Get authenticated user
@@ -57,6 +81,26 @@ export const createGame = mutation({
       throw new Error("Not authorized to create games")
     }
     
+    const orgId = await getActiveOrgId(ctx, user)
+    await requireOrgRole(ctx, user, orgId, "admin")
+    
+    // Both teams must belong to the game's organization
+    for (const teamId of [args.homeTeamId, args.awayTeamId]) {
+      const team = await ctx.db.get(teamId)
+      if (!team || team.orgId !== orgId) {
+        throw new Error("Team not found")
+      }
+    }
+    
+    await requirePlanCapacity(ctx, user, orgId, "games")
+    
+    if (args.seasonId) {
+      const season = await ctx.db.get(args.seasonId)
+      if (!season || season.orgId !== orgId) {
+        throw new Error("Season not found")
+      }
+    }
+    
     // Create game
     const gameId = await ctx.db.insert("games", {
       format: args.format,
@@ -65,9 +109,12 @@ export const createGame = mutation({
       awayTeamId: args.awayTeamId,
       scheduledStart: args.scheduledStart,
       venue: args.venue,
+      field: args.field?.trim() || undefined,
       fieldInfo: args.fieldInfo,
       ruleConfig: args.ruleConfig,
       genderRatioRequired: args.genderRatioRequired ?? false,
+      seasonId: args.seasonId,
+      orgId,
     })
     
     // Initialize game state
@@ -126,10 +173,7 @@ export const recordGoal = mutation({
     }
     
     // Get game to check format and rules
-    const game = await ctx.db.get(args.gameId)
-    if (!game) {
-      throw new Error("Game not found")
-    }
+    const game = await requireGameAccess(ctx, user, args.gameId, "score")
     
     // Get current game state
     const gameState = await ctx.db
@@ -146,8 +190,13 @@ export const recordGoal = mutation({
       ? gameState.homeScore + 1 
       : gameState.awayScore + 1
     
+    // The team that was scored on receives the pull and starts the next point on offense
+    const receivingTeam = otherSide(args.scoringTeam)
+    
     await ctx.db.patch(gameState._id, {
       [args.scoringTeam === "home" ? "homeScore" : "awayScore"]: newScore,
+      possession: receivingTeam,
+      pointStartedWith: receivingTeam,
       lastUpdateTime: Date.now(),
       lastUpdatedBy: user._id,
     })
@@ -156,7 +205,7 @@ export const recordGoal = mutation({
     const eventId = await ctx.db.insert("events", {
       gameId: args.gameId,
       timestamp: Date.now(),
-      clockSeconds: gameState.clockSeconds,
+      clockSeconds: getClockSeconds(gameState),
       period: gameState.period,
       type: "goal",
       scoringTeam: args.scoringTeam,
@@ -167,41 +216,30 @@ export const recordGoal = mutation({
       recordedBy: user._id,
     })
     
+    await notifySubscribers(ctx, eventId)
+    
     // Check if game should auto-end (tournament format: target score reached)
-    if (
-      game.status === "live" &&
-      game.format === "tournament" &&
-      game.ruleConfig.targetScore
-    ) {
-      // Check if the new score reaches the target
-      if (newScore >= game.ruleConfig.targetScore) {
-        // Auto-end game when target score is reached
-        await ctx.db.patch(args.gameId, {
-          status: "completed",
-          endTime: Date.now(),
-        })
-        
-        // Record game end event
-        await ctx.db.insert("events", {
-          gameId: args.gameId,
-          timestamp: Date.now(),
-          clockSeconds: gameState.clockSeconds,
-          period: gameState.period,
-          type: "gameEnd",
-          description: `Game ended: Target score of ${game.ruleConfig.targetScore} reached`,
-          recordedBy: user._id,
-        })
-      }
-    }
+    await endGameIfTargetReached(
+      ctx,
+      game,
+      {
+        ...gameState,
+        [args.scoringTeam === "home" ? "homeScore" : "awayScore"]: newScore,
+      },
+      user._id
+    )
+    
+    await syncGameStats(ctx, args.gameId)
     
     return { eventId, newScore }
   },
 })
 
 /**
- * Update game clock
- * Controls timing for all game formats
- * Automatically ends game when timer reaches 0 (for time-based formats)
+ * Set the game clock (manual correction)
+ * A running clock is anchored to server time and expires on its own via a scheduled
+ * function. Setting it to 0 ends the period (for time-based formats); the game
+ * only ends when the final period expires
  */
 export const updateClock = mutation({
   args: {
@@ -224,10 +262,7 @@ export const updateClock = mutation({
       throw new Error("User not found")
     }
     
-    const game = await ctx.db.get(args.gameId)
-    if (!game) {
-      throw new Error("Game not found")
-    }
+    const game = await requireGameAccess(ctx, user, args.gameId, "score")
     
     const gameState = await ctx.db
       .query("gameState")
@@ -238,37 +273,287 @@ export const updateClock = mutation({
       throw new Error("Game state not found")
     }
     
+    const previousClockSeconds = getClockSeconds(gameState)
+    const clockSeconds = Math.max(0, args.clockSeconds)
+    const runningSince = args.clockRunning && clockSeconds > 0 ? Date.now() : undefined
+    
     await ctx.db.patch(gameState._id, {
-      clockSeconds: args.clockSeconds,
-      clockRunning: args.clockRunning,
+      clockSeconds,
+      clockRunning: runningSince !== undefined,
+      runningSince,
       lastUpdateTime: Date.now(),
       lastUpdatedBy: user._id,
     })
     
-    // Check if game should auto-end (timer reached 0 for time-based formats)
-    // Only auto-end if clock is running and reaches 0, and game is still live
+    if (runningSince !== undefined) {
+      await scheduleClockExpiry(ctx, args.gameId, clockSeconds, runningSince)
+    }
+    
+    // Roll over to the next period when the timer reaches 0 (time-based formats)
+    // Only on the transition to 0 so a repeated 0 update can't skip a period
     if (
       game.status === "live" &&
-      args.clockSeconds <= 0 &&
+      previousClockSeconds > 0 &&
+      clockSeconds <= 0 &&
       (game.format === "professional" || game.format === "recreational")
     ) {
-      // Auto-end game when timer reaches 0
-      await ctx.db.patch(args.gameId, {
-        status: "completed",
-        endTime: Date.now(),
-      })
-      
-      // Record game end event
-      await ctx.db.insert("events", {
-        gameId: args.gameId,
-        timestamp: Date.now(),
-        clockSeconds: 0,
-        period: gameState.period,
-        type: "gameEnd",
-        description: "Game ended: Time expired",
-        recordedBy: user._id,
-      })
+      await advancePeriod(
+        ctx,
+        game,
+        { ...gameState, clockSeconds: 0, runningSince: undefined },
+        user._id,
+        "Game ended: Time expired"
+      )
+    }
+  },
+})
+
+/**
+ * Start the game clock from its current value
+ * The server records when it started; the period ends on schedule even with no client open
+ */
+export const startClock = mutation({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error("Not authenticated")
+    }
+    
+    const user = await ctx.db
+      .query("users")
+      .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first()
+    
+    if (!user) {
+      throw new Error("User not found")
+    }
+    
+    const game = await requireGameAccess(ctx, user, args.gameId, "score")
+    
+    if (game.status !== "live") {
+      throw new Error("The clock can only run during a live game")
+    }
+    
+    const gameState = await ctx.db
+      .query("gameState")
+      .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+      .first()
+    
+    if (!gameState) {
+      throw new Error("Game state not found")
+    }
+    
+    if (gameState.runningSince !== undefined) {
+      return
+    }
+    
+    if (gameState.timeoutActive) {
+      throw new Error("End the timeout before starting the clock")
+    }
+    
+    if (gameState.clockSeconds <= 0) {
+      throw new Error("No time left on the clock")
+    }
+    
+    const now = Date.now()
+    
+    await ctx.db.patch(gameState._id, {
+      clockRunning: true,
+      runningSince: now,
+      lastUpdateTime: now,
+      lastUpdatedBy: user._id,
+    })
+    
+    await scheduleClockExpiry(ctx, args.gameId, gameState.clockSeconds, now)
+  },
+})
+
+/**
+ * Stop the game clock, freezing the remaining time
+ */
+export const stopClock = mutation({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error("Not authenticated")
+    }
+    
+    const user = await ctx.db
+      .query("users")
+      .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first()
+    
+    if (!user) {
+      throw new Error("User not found")
+    }
+    
+    await requireGameAccess(ctx, user, args.gameId, "score")
+    
+    const gameState = await ctx.db
+      .query("gameState")
+      .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+      .first()
+    
+    if (!gameState) {
+      throw new Error("Game state not found")
+    }
+    
+    if (gameState.runningSince === undefined) {
+      return
+    }
+    
+    await ctx.db.patch(gameState._id, {
+      ...stoppedClock(gameState),
+      lastUpdateTime: Date.now(),
+      lastUpdatedBy: user._id,
+    })
+  },
+})
+
+/**
+ * Scheduled when the clock starts to end the period once it runs out
+ * No-op if the clock was stopped or restarted in the meantime
+ */
+export const expireClock = internalMutation({
+  args: {
+    gameId: v.id("games"),
+    runningSince: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const gameState = await ctx.db
+      .query("gameState")
+      .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+      .first()
+    
+    if (!gameState || gameState.runningSince !== args.runningSince) {
+      return
+    }
+    
+    const game = await ctx.db.get(args.gameId)
+    if (game?.status !== "live") {
+      await ctx.db.patch(gameState._id, stoppedClock(gameState))
+      return
+    }
+    
+    await advancePeriod(
+      ctx,
+      game,
+      { ...gameState, clockSeconds: 0, runningSince: undefined },
+      gameState.lastUpdatedBy,
+      "Game ended: Time expired"
+    )
+  },
+})
+
+/**
+ * Scheduled at game start for the soft and hard cap times in ruleConfig.capRules
+ * Both caps lower the target to the higher score plus one (never above targetScore).
+ * Under a hard cap the game also ends after the current point unless it leaves the
+ * score tied, in which case one more point decides it.
+ */
+export const applyCap = internalMutation({
+  args: {
+    gameId: v.id("games"),
+    cap: v.union(v.literal("soft"), v.literal("hard")),
+  },
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get(args.gameId)
+    if (game?.status !== "live" || game.format !== "tournament") {
+      return
+    }
+    
+    const gameState = await ctx.db
+      .query("gameState")
+      .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+      .first()
+    
+    if (!gameState || gameState.capStatus === "hard" || gameState.capStatus === args.cap) {
+      return
+    }
+    
+    const leadingScore = Math.max(gameState.homeScore, gameState.awayScore)
+    const currentTarget = gameState.cappedTarget ?? game.ruleConfig.targetScore
+    const cappedTarget = currentTarget
+      ? Math.min(currentTarget, leadingScore + 1)
+      : leadingScore + 1
+    const now = Date.now()
+    
+    await ctx.db.patch(gameState._id, {
+      capStatus: args.cap,
+      cappedTarget,
+      lastUpdateTime: now,
+    })
+    
+    await ctx.db.insert("events", {
+      gameId: args.gameId,
+      timestamp: now,
+      clockSeconds: getClockSeconds(gameState, now),
+      period: gameState.period,
+      type: "cap",
+      description:
+        args.cap === "soft"
+          ? `Soft cap: game to ${cappedTarget}`
+          : gameState.homeScore === gameState.awayScore
+          ? `Hard cap: game to ${cappedTarget}, next point wins`
+          : `Hard cap: game to ${cappedTarget}, game ends after this point unless it ties the score`,
+      recordedBy: gameState.lastUpdatedBy,
+    })
+  },
+})
+
+
+/**
+ * End the current period (quarter or half) and start the next one
+ * Ends the game instead when called in the final period
+ * Requires: permission to score the game (see gameStaff.ts)
+ */
+export const endPeriod = mutation({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error("Not authenticated")
+    }
+    
+    const user = await ctx.db
+      .query("users")
+      .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first()
+    
+    if (!user) {
+      throw new Error("User not found")
+    }
+    
+    const game = await requireGameAccess(ctx, user, args.gameId, "score")
+    
+    if (game.status !== "live") {
+      throw new Error(`Cannot end a period for a game with status: ${game.status}`)
+    }
+    
+    const gameState = await ctx.db
+      .query("gameState")
+      .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+      .first()
+    
+    if (!gameState) {
+      throw new Error("Game state not found")
     }
+    
+    return await advancePeriod(
+      ctx,
+      game,
+      gameState,
+      user._id,
+      "Game ended: Final period completed"
+    )
   },
 })
 
@@ -296,14 +581,11 @@ export const updateGameStatus = mutation({
       .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
       .first()
     
-    if (!user?.canManageGames) {
-      throw new Error("Not authorized to update game status")
+    if (!user) {
+      throw new Error("User not found")
     }
     
-    const game = await ctx.db.get(args.gameId)
-    if (!game) {
-      throw new Error("Game not found")
-    }
+    const game = await requireGameAccess(ctx, user, args.gameId, "score")
     
     // Update game status
     await ctx.db.patch(args.gameId, {
@@ -323,22 +605,27 @@ export const updateGameStatus = mutation({
       .first()
     
     if (gameState) {
-      await ctx.db.insert("events", {
+      const eventId = await ctx.db.insert("events", {
         gameId: args.gameId,
         timestamp: Date.now(),
-        clockSeconds: gameState.clockSeconds,
+        clockSeconds: getClockSeconds(gameState),
         period: gameState.period,
         type: args.status === "completed" ? "gameEnd" : "periodEnd",
         description: `Game status changed to ${args.status}`,
         recordedBy: user._id,
       })
+      
+      if (args.status === "completed" && game.status !== "completed") {
+        await notifySubscribers(ctx, eventId)
+        await advanceBracketWinner(ctx, game, gameState, user._id)
+      }
     }
   },
 })
 
 /**
  * Start a game (convenience mutation to set status to live)
- * Requires: User must have canManageGames permission
+ * Requires: permission to score the game (see gameStaff.ts)
  */
 export const startGame = mutation({
   args: {
@@ -355,14 +642,11 @@ export const startGame = mutation({
       .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
       .first()
     
-    if (!user?.canManageGames) {
-      throw new Error("Not authorized to start games")
+    if (!user) {
+      throw new Error("User not found")
     }
     
-    const game = await ctx.db.get(args.gameId)
-    if (!game) {
-      throw new Error("Game not found")
-    }
+    const game = await requireGameAccess(ctx, user, args.gameId, "score")
     
     if (game.status !== "upcoming") {
       throw new Error(`Cannot start game with status: ${game.status}`)
@@ -374,6 +658,19 @@ export const startGame = mutation({
       actualStart: Date.now(),
     })
     
+    // Cap times are measured from the start of the game
+    const capRules = game.ruleConfig.capRules
+    if (capRules) {
+      await ctx.scheduler.runAfter(capRules.softCapTime * 60 * 1000, internal.gameMutations.applyCap, {
+        gameId: args.gameId,
+        cap: "soft",
+      })
+      await ctx.scheduler.runAfter(capRules.hardCapTime * 60 * 1000, internal.gameMutations.applyCap, {
+        gameId: args.gameId,
+        cap: "hard",
+      })
+    }
+    
     // Record event
     const gameState = await ctx.db
       .query("gameState")
@@ -381,10 +678,16 @@ export const startGame = mutation({
       .first()
     
     if (gameState) {
+      // Remember who received the opening pull so corrections can replay possession
+      await ctx.db.patch(gameState._id, {
+        openingPossession: gameState.possession,
+        pointStartedWith: gameState.possession,
+      })
+      
       await ctx.db.insert("events", {
         gameId: args.gameId,
         timestamp: Date.now(),
-        clockSeconds: gameState.clockSeconds,
+        clockSeconds: getClockSeconds(gameState),
         period: gameState.period,
         type: "periodEnd",
         description: "Game started",
@@ -396,7 +699,7 @@ export const startGame = mutation({
 
 /**
  * End a game (convenience mutation to set status to completed)
- * Requires: User must have canManageGames permission
+ * Requires: permission to score the game (see gameStaff.ts)
  */
 export const endGame = mutation({
   args: {
@@ -413,14 +716,11 @@ export const endGame = mutation({
       .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
       .first()
     
-    if (!user?.canManageGames) {
-      throw new Error("Not authorized to end games")
+    if (!user) {
+      throw new Error("User not found")
     }
     
-    const game = await ctx.db.get(args.gameId)
-    if (!game) {
-      throw new Error("Game not found")
-    }
+    const game = await requireGameAccess(ctx, user, args.gameId, "score")
     
     if (game.status !== "live") {
       throw new Error(`Cannot end game with status: ${game.status}`)
@@ -439,15 +739,20 @@ export const endGame = mutation({
       .first()
     
     if (gameState) {
-      await ctx.db.insert("events", {
+      await ctx.db.patch(gameState._id, stoppedClock(gameState))
+      
+      const eventId = await ctx.db.insert("events", {
         gameId: args.gameId,
         timestamp: Date.now(),
-        clockSeconds: gameState.clockSeconds,
+        clockSeconds: getClockSeconds(gameState),
         period: gameState.period,
         type: "gameEnd",
         description: "Game ended manually",
         recordedBy: user._id,
       })
+      
+      await notifySubscribers(ctx, eventId)
+      await advanceBracketWinner(ctx, game, gameState, user._id)
     }
   },
 })
@@ -475,6 +780,8 @@ export const updatePossession = mutation({
       throw new Error("User not found")
     }
     
+    await requireGameAccess(ctx, user, args.gameId, "score")
+    
     const gameState = await ctx.db
       .query("gameState")
       .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
@@ -524,6 +831,8 @@ export const recordTurnover = mutation({
       throw new Error("User not found")
     }
     
+    await requireGameAccess(ctx, user, args.gameId, "score")
+    
     const gameState = await ctx.db
       .query("gameState")
       .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
@@ -546,7 +855,7 @@ export const recordTurnover = mutation({
     await ctx.db.insert("events", {
       gameId: args.gameId,
       timestamp: Date.now(),
-      clockSeconds: gameState.clockSeconds,
+      clockSeconds: getClockSeconds(gameState),
       period: gameState.period,
       type: "turnover",
       turnoverType: args.turnoverType,
@@ -555,24 +864,810 @@ export const recordTurnover = mutation({
       description: `Turnover: ${args.turnoverType}`,
       recordedBy: user._id,
     })
+    
+    await syncGameStats(ctx, args.gameId)
   },
 })
 
 /**
- * Create a new team
+ * Call a timeout
+ * Decrements the calling team's timeouts, stops the clock and records a timeout event.
+ * The timeout expires automatically after ruleConfig.timeoutDuration seconds.
  */
-export const createTeam = mutation({
+export const callTimeout = mutation({
   args: {
-    name: v.string(),
-    abbreviation: v.string(),
-    colors: v.object({
-      primary: v.string(),
-      secondary: v.string(),
-    }),
-    logo: v.optional(v.string()),
-    division: v.optional(v.union(
-      v.literal("open"),
-      v.literal("womens"),
+    gameId: v.id("games"),
+    team: v.union(v.literal("home"), v.literal("away")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error("Not authenticated")
+    }
+    
+    const user = await ctx.db
+      .query("users")
+      .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first()
+    
+    if (!user) {
+      throw new Error("User not found")
+    }
+    
+    const game = await requireGameAccess(ctx, user, args.gameId, "score")
+    
+    if (game.status !== "live") {
+      throw new Error("Timeouts can only be called during a live game")
+    }
+    
+    const gameState = await ctx.db
+      .query("gameState")
+      .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+      .first()
+    
+    if (!gameState) {
+      throw new Error("Game state not found")
+    }
+    
+    if (gameState.timeoutActive) {
+      throw new Error("A timeout is already in progress")
+    }
+    
+    const remainingField = args.team === "home" ? "homeTimeoutsRemaining" : "awayTimeoutsRemaining"
+    const remaining = gameState[remainingField]
+    if (remaining <= 0) {
+      throw new Error(`No timeouts remaining for the ${args.team} team`)
+    }
+    
+    // The event timestamp doubles as the timeout's start so it can be matched on undo
+    const now = Date.now()
+    
+    await ctx.db.patch(gameState._id, {
+      [remainingField]: remaining - 1,
+      ...stoppedClock(gameState, now),
+      timeoutActive: {
+        team: args.team,
+        startTime: now,
+      },
+      lastUpdateTime: now,
+      lastUpdatedBy: user._id,
+    })
+    
+    const eventId = await ctx.db.insert("events", {
+      gameId: args.gameId,
+      timestamp: now,
+      clockSeconds: getClockSeconds(gameState, now),
+      period: gameState.period,
+      type: "timeout",
+      team: args.team,
+      description: `Timeout called by ${args.team} team`,
+      recordedBy: user._id,
+    })
+    
+    await ctx.scheduler.runAfter(
+      game.ruleConfig.timeoutDuration * 1000,
+      internal.gameMutations.expireTimeout,
+      { gameId: args.gameId, startTime: now }
+    )
+    
+    return { eventId, timeoutsRemaining: remaining - 1 }
+  },
+})
+
+/**
+ * End the active timeout early
+ * The clock stays stopped until the scorekeeper restarts it
+ */
+export const endTimeout = mutation({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error("Not authenticated")
+    }
+    
+    const user = await ctx.db
+      .query("users")
+      .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first()
+    
+    if (!user) {
+      throw new Error("User not found")
+    }
+    
+    await requireGameAccess(ctx, user, args.gameId, "score")
+    
+    const gameState = await ctx.db
+      .query("gameState")
+      .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+      .first()
+    
+    if (!gameState) {
+      throw new Error("Game state not found")
+    }
+    
+    if (!gameState.timeoutActive) {
+      throw new Error("No timeout in progress")
+    }
+    
+    await ctx.db.patch(gameState._id, {
+      timeoutActive: undefined,
+      lastUpdateTime: Date.now(),
+      lastUpdatedBy: user._id,
+    })
+  },
+})
+
+/**
+ * Scheduled by callTimeout to clear the timeout once its duration has elapsed
+ * No-op if that timeout was already ended, undone or replaced by a newer one
+ */
+export const expireTimeout = internalMutation({
+  args: {
+    gameId: v.id("games"),
+    startTime: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const gameState = await ctx.db
+      .query("gameState")
+      .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+      .first()
+    
+    if (gameState?.timeoutActive?.startTime !== args.startTime) {
+      return
+    }
+    
+    await ctx.db.patch(gameState._id, {
+      timeoutActive: undefined,
+      lastUpdateTime: Date.now(),
+    })
+  },
+})
+
+/**
+ * Clock fields for a stopped clock holding the time left at `now`
+ */
+function stoppedClock(gameState: Doc<"gameState">, now = Date.now()) {
+  return {
+    clockSeconds: getClockSeconds(gameState, now),
+    clockRunning: false,
+    runningSince: undefined,
+  }
+}
+
+/**
+ * Schedule expireClock for when a clock started at `runningSince` runs out
+ */
+async function scheduleClockExpiry(
+  ctx: MutationCtx,
+  gameId: Id<"games">,
+  clockSeconds: number,
+  runningSince: number
+) {
+  await ctx.scheduler.runAt(runningSince + clockSeconds * 1000, internal.gameMutations.expireClock, {
+    gameId,
+    runningSince,
+  })
+}
+
+/**
+ * Period layout for a game's rules
+ * Quarters when quarterLength is set, otherwise two halves (untimed if no halfLength)
+ */
+function getPeriodStructure(game: Doc<"games">) {
+  const { quarterLength, halfLength } = game.ruleConfig
+  if (quarterLength) {
+    return { periodCount: 4, periodSeconds: quarterLength * 60, usesQuarters: true }
+  }
+  return { periodCount: 2, periodSeconds: (halfLength ?? 0) * 60, usesQuarters: false }
+}
+
+/**
+ * Which half a period belongs to (timeouts are allotted per half)
+ */
+function halfOfPeriod(game: Doc<"games">, period: number) {
+  const { periodCount } = getPeriodStructure(game)
+  return Math.ceil(period / (periodCount / 2))
+}
+
+/**
+ * Team that receives the pull to open a period
+ * Pulls alternate: the opening receiver receives again in odd periods
+ */
+function receivingTeamForPeriod(openingPossession: Side, period: number): Side {
+  return period % 2 === 1 ? openingPossession : otherSide(openingPossession)
+}
+
+function formatPeriodName(game: Doc<"games">, period: number) {
+  const { usesQuarters } = getPeriodStructure(game)
+  if (usesQuarters) {
+    return `Q${period}`
+  }
+  return period === 1 ? "1st half" : "2nd half"
+}
+
+/**
+ * Close out the current period and set up the next one
+ * Writes a periodEnd event, resets the clock from the rules, resets timeouts at halftime
+ * and gives the pull to the next receiving team. After the final period the game is
+ * completed with a gameEnd event instead.
+ */
+async function advancePeriod(
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  gameState: Doc<"gameState">,
+  userId: Id<"users">,
+  gameEndDescription: string
+) {
+  const { periodCount, periodSeconds } = getPeriodStructure(game)
+  const now = Date.now()
+  const clockSeconds = getClockSeconds(gameState, now)
+  
+  if (gameState.period >= periodCount) {
+    await ctx.db.patch(game._id, {
+      status: "completed",
+      endTime: now,
+    })
+    
+    await ctx.db.patch(gameState._id, {
+      ...stoppedClock(gameState, now),
+      timeoutActive: undefined,
+      lastUpdateTime: now,
+      lastUpdatedBy: userId,
+    })
+    
+    const eventId = await ctx.db.insert("events", {
+      gameId: game._id,
+      timestamp: now,
+      clockSeconds,
+      period: gameState.period,
+      type: "gameEnd",
+      description: gameEndDescription,
+      recordedBy: userId,
+    })
+    
+    await notifySubscribers(ctx, eventId)
+    await advanceBracketWinner(ctx, game, gameState, userId)
+    
+    return { gameEnded: true, period: gameState.period }
+  }
+  
+  const nextPeriod = gameState.period + 1
+  const isHalftime = halfOfPeriod(game, nextPeriod) !== halfOfPeriod(game, gameState.period)
+  const receivingTeam = receivingTeamForPeriod(
+    gameState.openingPossession ?? "home",
+    nextPeriod
+  )
+  
+  const eventId = await ctx.db.insert("events", {
+    gameId: game._id,
+    timestamp: now,
+    clockSeconds,
+    period: gameState.period,
+    type: "periodEnd",
+    description: isHalftime ? "Halftime" : `End of ${formatPeriodName(game, gameState.period)}`,
+    recordedBy: userId,
+  })
+  
+  await notifySubscribers(ctx, eventId)
+  
+  await ctx.db.patch(gameState._id, {
+    period: nextPeriod,
+    clockSeconds: periodSeconds,
+    clockRunning: false,
+    runningSince: undefined,
+    possession: receivingTeam,
+    pointStartedWith: receivingTeam,
+    timeoutActive: undefined,
+    ...(isHalftime
+      ? {
+          homeTimeoutsRemaining: game.ruleConfig.timeoutsPerHalf,
+          awayTimeoutsRemaining: game.ruleConfig.timeoutsPerHalf,
+        }
+      : {}),
+    lastUpdateTime: now,
+    lastUpdatedBy: userId,
+  })
+  
+  return { gameEnded: false, period: nextPeriod }
+}
+
+/**
+ * Why a tournament game is over at this score, or null if play continues
+ * Once a cap is in effect the capped target replaces targetScore, and under a hard cap
+ * any point that doesn't leave the score tied is the last one
+ */
+function getGameEndReason(
+  game: Doc<"games">,
+  state: Pick<Doc<"gameState">, "homeScore" | "awayScore" | "capStatus" | "cappedTarget">
+) {
+  const targetScore = game.ruleConfig.targetScore
+  if (game.format !== "tournament" || !targetScore) {
+    return null
+  }
+  
+  const target = state.cappedTarget ?? targetScore
+  if (Math.max(state.homeScore, state.awayScore) >= target) {
+    return state.cappedTarget === undefined
+      ? `Game ended: Target score of ${targetScore} reached`
+      : `Game ended: Capped target of ${target} reached`
+  }
+  
+  if (state.capStatus === "hard" && state.homeScore !== state.awayScore) {
+    return "Game ended: Hard cap"
+  }
+  
+  return null
+}
+
+/**
+ * End a tournament game once either team reaches the (possibly capped) target score
+ * Returns true if the game was ended
+ */
+async function endGameIfTargetReached(
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  state: Pick<
+    Doc<"gameState">,
+    "homeScore" | "awayScore" | "clockSeconds" | "runningSince" | "period" | "capStatus" | "cappedTarget"
+  >,
+  userId: Id<"users">
+) {
+  if (game.status !== "live") {
+    return false
+  }
+  
+  const reason = getGameEndReason(game, state)
+  if (!reason) {
+    return false
+  }
+  
+  // Auto-end game when target score is reached
+  await ctx.db.patch(game._id, {
+    status: "completed",
+    endTime: Date.now(),
+  })
+  
+  // Record game end event
+  const eventId = await ctx.db.insert("events", {
+    gameId: game._id,
+    timestamp: Date.now(),
+    clockSeconds: getClockSeconds(state),
+    period: state.period,
+    type: "gameEnd",
+    description: reason,
+    recordedBy: userId,
+  })
+  
+  await notifySubscribers(ctx, eventId)
+  await advanceBracketWinner(ctx, game, state, userId)
+  
+  return true
+}
+
+/**
+ * Recompute score, possession and timeouts from the non-voided event log
+ * The team scored on starts the next point on offense; every turnover flips possession.
+ * Each new period starts with that period's receiving team, and only timeouts from the
+ * current half count against the remaining allotment. Lines set for points past the
+ * current one (e.g. after undoing a goal) are deleted.
+ * Manual possession overrides (updatePossession) are not events and are not replayed.
+ */
+async function replayGameState(
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  gameState: Doc<"gameState">,
+  userId: Id<"users">
+) {
+  const events = await ctx.db
+    .query("events")
+    .withIndex("gameId_timestamp", (q) => q.eq("gameId", gameState.gameId))
+    .order("asc")
+    .collect()
+  
+  const openingPossession: Side = gameState.openingPossession ?? "home"
+  const currentHalf = halfOfPeriod(game, gameState.period)
+  
+  let homeScore = 0
+  let awayScore = 0
+  let period = 1
+  let pointStartedWith: Side = openingPossession
+  let possession: Side = pointStartedWith
+  let homeTimeoutsRemaining = game.ruleConfig.timeoutsPerHalf
+  let awayTimeoutsRemaining = game.ruleConfig.timeoutsPerHalf
+  
+  const startPeriod = (nextPeriod: number) => {
+    period = nextPeriod
+    pointStartedWith = receivingTeamForPeriod(openingPossession, period)
+    possession = pointStartedWith
+  }
+  
+  for (const event of events) {
+    if (event.voided) continue
+    
+    if (event.period > period) {
+      startPeriod(event.period)
+    }
+    
+    if (event.type === "goal" && event.scoringTeam) {
+      if (event.scoringTeam === "home") {
+        homeScore++
+      } else {
+        awayScore++
+      }
+      pointStartedWith = otherSide(event.scoringTeam)
+      possession = pointStartedWith
+    } else if (event.type === "turnover") {
+      possession = otherSide(possession)
+    } else if (event.type === "timeout" && halfOfPeriod(game, event.period) === currentHalf) {
+      if (event.team === "home") {
+        homeTimeoutsRemaining--
+      } else if (event.team === "away") {
+        awayTimeoutsRemaining--
+      }
+    }
+  }
+  
+  // A period that has started but has no events yet still resets possession
+  if (gameState.period > period) {
+    startPeriod(gameState.period)
+  }
+  
+  const staleLineups = await ctx.db
+    .query("lineups")
+    .withIndex("gameId_point", (q) =>
+      q.eq("gameId", gameState.gameId).gt("pointNumber", homeScore + awayScore + 1)
+    )
+    .collect()
+  await Promise.all(staleLineups.map((lineup) => ctx.db.delete(lineup._id)))
+  
+  // Drop the running timeout if the event that started it was voided
+  const activeTimeoutEvent = events.find(
+    (event) =>
+      event.type === "timeout" &&
+      !event.voided &&
+      event.timestamp === gameState.timeoutActive?.startTime
+  )
+  const timeoutActive = activeTimeoutEvent?.team
+    ? { team: activeTimeoutEvent.team, startTime: activeTimeoutEvent.timestamp }
+    : undefined
+  
+  const replayed = {
+    homeScore,
+    awayScore,
+    possession,
+    pointStartedWith,
+    homeTimeoutsRemaining,
+    awayTimeoutsRemaining,
+    timeoutActive,
+  }
+  
+  await ctx.db.patch(gameState._id, {
+    ...replayed,
+    lastUpdateTime: Date.now(),
+    lastUpdatedBy: userId,
+  })
+  
+  return { ...gameState, ...replayed }
+}
+
+/**
+ * Void a single event, optionally record its replacement, replay game state and settle
+ * the game result
+ * If the voided goal had ended a tournament game and the target is no longer reached,
+ * the automatic game end is voided too and the game goes back to live.
+ */
+async function voidEventAndReplay(
+  ctx: MutationCtx,
+  event: Doc<"events">,
+  userId: Id<"users">,
+  reason: string,
+  replacement?: WithoutSystemFields<Doc<"events">>
+) {
+  const game = await ctx.db.get(event.gameId)
+  if (!game) {
+    throw new Error("Game not found")
+  }
+  
+  const gameState = await ctx.db
+    .query("gameState")
+    .withIndex("gameId", (q) => q.eq("gameId", event.gameId))
+    .first()
+  
+  if (!gameState) {
+    throw new Error("Game state not found")
+  }
+  
+  await ctx.db.patch(event._id, {
+    voided: true,
+    voidedAt: Date.now(),
+    voidedBy: userId,
+    voidReason: reason,
+  })
+  
+  const replacementId = replacement ? await ctx.db.insert("events", replacement) : undefined
+  
+  const replayed = await replayGameState(ctx, game, gameState, userId)
+  
+  if (
+    game.status === "completed" &&
+    event.type === "goal" &&
+    game.format === "tournament" &&
+    game.ruleConfig.targetScore &&
+    !getGameEndReason(game, replayed)
+  ) {
+    const laterGameEnds = await ctx.db
+      .query("events")
+      .withIndex("gameId_timestamp", (q) =>
+        q.eq("gameId", event.gameId).gte("timestamp", event.timestamp)
+      )
+      .filter((q) => q.eq(q.field("type"), "gameEnd"))
+      .collect()
+    
+    await Promise.all(
+      laterGameEnds
+        .filter((gameEnd) => !gameEnd.voided)
+        .map((gameEnd) =>
+          ctx.db.patch(gameEnd._id, {
+            voided: true,
+            voidedAt: Date.now(),
+            voidedBy: userId,
+            voidReason: "Final goal was corrected",
+          })
+        )
+    )
+    
+    await ctx.db.patch(game._id, {
+      status: "live",
+      endTime: undefined,
+    })
+    
+    await retractBracketWinner(ctx, game)
+    
+    return {
+      game: { ...game, status: "live" as const, endTime: undefined },
+      gameState: replayed,
+      replacementId,
+    }
+  }
+  
+  return { game, gameState: replayed, replacementId }
+}
+
+/**
+ * Undo the most recent goal or turnover
+ * The event is voided (not deleted) and score/possession are rebuilt from the event log
+ */
+export const undoLastEvent = mutation({
+  args: {
+    gameId: v.id("games"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error("Not authenticated")
+    }
+    
+    const user = await ctx.db
+      .query("users")
+      .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first()
+    
+    if (!user) {
+      throw new Error("User not found")
+    }
+    
+    await requireGameAccess(ctx, user, args.gameId, "score")
+    
+    const lastEvent = await ctx.db
+      .query("events")
+      .withIndex("gameId_timestamp", (q) => q.eq("gameId", args.gameId))
+      .order("desc")
+      .filter((q) => q.neq(q.field("voided"), true))
+      .filter((q) =>
+        q.or(...CORRECTABLE_EVENT_TYPES.map((type) => q.eq(q.field("type"), type)))
+      )
+      .first()
+    
+    if (!lastEvent) {
+      throw new Error("Nothing to undo")
+    }
+    
+    await voidEventAndReplay(ctx, lastEvent, user._id, "Undone by scorekeeper")
+    await syncGameStats(ctx, args.gameId)
+    
+    return { voidedEventId: lastEvent._id }
+  },
+})
+
+/**
+ * Void a specific event
+ * Keeps the event in the audit trail but excludes it from score and possession
+ */
+export const voidEvent = mutation({
+  args: {
+    eventId: v.id("events"),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error("Not authenticated")
+    }
+    
+    const user = await ctx.db
+      .query("users")
+      .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first()
+    
+    if (!user) {
+      throw new Error("User not found")
+    }
+    
+    const event = await ctx.db.get(args.eventId)
+    if (!event) {
+      throw new Error("Event not found")
+    }
+    
+    await requireGameAccess(ctx, user, event.gameId, "score")
+    
+    if (event.voided) {
+      throw new Error("Event has already been voided")
+    }
+    
+    if (!CORRECTABLE_EVENT_TYPES.includes(event.type)) {
+      throw new Error(`Cannot void ${event.type} events`)
+    }
+    
+    await voidEventAndReplay(ctx, event, user._id, args.reason?.trim() || "Voided by scorekeeper")
+    await syncGameStats(ctx, event.gameId)
+  },
+})
+
+/**
+ * Correct a goal, turnover or timeout
+ * Corrections that only change players or the turnover type are patched onto the event.
+ * Changing the scoring team of a goal or the team of a timeout voids the original and
+ * records a corrected copy at the same point in the log, then replays game state.
+ * Player fields accept null to clear a previously recorded player.
+ */
+export const editEvent = mutation({
+  args: {
+    eventId: v.id("events"),
+    team: v.optional(v.union(v.literal("home"), v.literal("away"))),
+    scoringTeam: v.optional(v.union(v.literal("home"), v.literal("away"))),
+    scoredBy: v.optional(v.union(v.id("players"), v.null())),
+    assistedBy: v.optional(v.union(v.id("players"), v.null())),
+    hockeyAssistBy: v.optional(v.union(v.id("players"), v.null())),
+    turnoverType: v.optional(v.union(
+      v.literal("drop"),
+      v.literal("throwaway"),
+      v.literal("block"),
+      v.literal("stall"),
+      v.literal("out-of-bounds"),
+      v.literal("other")
+    )),
+    turnoverBy: v.optional(v.union(v.id("players"), v.null())),
+    forcedBy: v.optional(v.union(v.id("players"), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error("Not authenticated")
+    }
+    
+    const user = await ctx.db
+      .query("users")
+      .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first()
+    
+    if (!user) {
+      throw new Error("User not found")
+    }
+    
+    const original = await ctx.db.get(args.eventId)
+    if (!original) {
+      throw new Error("Event not found")
+    }
+    
+    await requireGameAccess(ctx, user, original.gameId, "score")
+    
+    if (original.voided) {
+      throw new Error("Cannot edit a voided event")
+    }
+    
+    if (!CORRECTABLE_EVENT_TYPES.includes(original.type)) {
+      throw new Error(`Cannot edit ${original.type} events`)
+    }
+    
+    // undefined keeps the recorded value, null clears it
+    const pick = <T,>(next: T | null | undefined, current: T | undefined) =>
+      next === undefined ? current : (next ?? undefined)
+    
+    const {
+      _id,
+      _creationTime,
+      voided,
+      voidedAt,
+      voidedBy,
+      voidReason,
+      replacesEventId,
+      ...recorded
+    } = original
+    
+    const corrected = {
+      ...recorded,
+      team: pick(args.team, original.team),
+      scoringTeam: pick(args.scoringTeam, original.scoringTeam),
+      scoredBy: pick(args.scoredBy, original.scoredBy),
+      assistedBy: pick(args.assistedBy, original.assistedBy),
+      hockeyAssistBy: pick(args.hockeyAssistBy, original.hockeyAssistBy),
+      turnoverType: pick(args.turnoverType, original.turnoverType),
+      turnoverBy: pick(args.turnoverBy, original.turnoverBy),
+      forcedBy: pick(args.forcedBy, original.forcedBy),
+      recordedBy: user._id,
+      replacesEventId: original._id,
+    }
+    
+    corrected.description =
+      corrected.type === "goal"
+        ? `Goal scored by ${corrected.scoringTeam} team`
+        : corrected.type === "timeout"
+        ? `Timeout called by ${corrected.team} team`
+        : `Turnover: ${corrected.turnoverType}`
+    
+    // Stat-only corrections leave score, possession, timeouts and the game result alone
+    if (corrected.team === original.team && corrected.scoringTeam === original.scoringTeam) {
+      await ctx.db.patch(original._id, {
+        scoredBy: corrected.scoredBy,
+        assistedBy: corrected.assistedBy,
+        hockeyAssistBy: corrected.hockeyAssistBy,
+        turnoverType: corrected.turnoverType,
+        turnoverBy: corrected.turnoverBy,
+        forcedBy: corrected.forcedBy,
+        description: corrected.description,
+      })
+      await syncGameStats(ctx, original.gameId)
+      
+      return { eventId: original._id }
+    }
+    
+    // Keep the original timestamp so the correction sits at the same point in the log
+    const { game, gameState, replacementId } = await voidEventAndReplay(
+      ctx,
+      original,
+      user._id,
+      "Corrected by scorekeeper",
+      corrected
+    )
+    
+    if (gameState.homeTimeoutsRemaining < 0 || gameState.awayTimeoutsRemaining < 0) {
+      throw new Error("That team has no timeouts remaining")
+    }
+    await endGameIfTargetReached(ctx, game, gameState, user._id)
+    await syncGameStats(ctx, original.gameId)
+    
+    return { eventId: replacementId! }
+  },
+})
+
+/**
+ * Create a new team
+ */
+export const createTeam = mutation({
+  args: {
+    name: v.string(),
+    abbreviation: v.string(),
+    colors: v.object({
+      primary: v.string(),
+      secondary: v.string(),
+    }),
+    logo: v.optional(v.string()),
+    division: v.optional(v.union(
+      v.literal("open"),
+      v.literal("womens"),
       v.literal("mixed")
     )),
   },
@@ -591,7 +1686,12 @@ export const createTeam = mutation({
       throw new Error("Not authorized to create teams")
     }
     
-    return await ctx.db.insert("teams", args)
+    const orgId = await getActiveOrgId(ctx, user)
+    await requireOrgRole(ctx, user, orgId, "admin")
+    
+    await requirePlanCapacity(ctx, user, orgId, "teams")
+    
+    return await ctx.db.insert("teams", { ...args, orgId })
   },
 })
 
@@ -630,6 +1730,12 @@ export const updateTeam = mutation({
     }
     
     const { teamId, ...updates } = args
+    const team = await ctx.db.get(teamId)
+    if (!team) {
+      throw new Error("Team not found")
+    }
+    await requireOrgRole(ctx, user, team.orgId, "admin", "Team not found")
+    
     await ctx.db.patch(teamId, updates)
     
     return teamId
@@ -666,6 +1772,8 @@ export const deleteTeam = mutation({
       throw new Error("Team not found")
     }
     
+    await requireOrgRole(ctx, user, team.orgId, "admin", "Team not found")
+    
     // Check if team is used in any games (as home or away team)
     const [homeGames, awayGames] = await Promise.all([
       ctx.db
@@ -700,9 +1808,236 @@ export const deleteTeam = mutation({
   },
 })
 
+/**
+ * Add a player to a team roster
+ * Requires: User must have canManageTeams permission
+ * Checks: Jersey number must be unique among the team's active players
+ */
+export const createPlayer = mutation({
+  args: {
+    teamId: v.id("teams"),
+    firstName: v.string(),
+    lastName: v.string(),
+    jerseyNumber: v.number(),
+    position: v.union(v.literal("handler"), v.literal("cutter")),
+    primaryLine: v.union(v.literal("O"), v.literal("D"), v.literal("both")),
+    gender: v.optional(v.union(v.literal("M"), v.literal("F"))),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error("Not authenticated")
+    }
+    
+    const user = await ctx.db
+      .query("users")
+      .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first()
+    
+    if (!user?.canManageTeams) {
+      throw new Error("Not authorized to manage players")
+    }
+    
+    const team = await ctx.db.get(args.teamId)
+    if (!team) {
+      throw new Error("Team not found")
+    }
+    
+    await requireOrgRole(ctx, user, team.orgId, "admin", "Team not found")
+    
+    if (!Number.isInteger(args.jerseyNumber) || args.jerseyNumber < 0 || args.jerseyNumber > 99) {
+      throw new Error("Jersey number must be a whole number between 0 and 99")
+    }
+    
+    // Check for a jersey number clash on the active roster
+    const activePlayers = await ctx.db
+      .query("players")
+      .withIndex("teamId_active", (q) =>
+        q.eq("teamId", args.teamId).eq("isActive", true)
+      )
+      .collect()
+    
+    const clash = activePlayers.find((p) => p.jerseyNumber === args.jerseyNumber)
+    if (clash) {
+      throw new Error(
+        `Jersey #${args.jerseyNumber} is already worn by ${clash.firstName} ${clash.lastName}`
+      )
+    }
+    
+    return await ctx.db.insert("players", {
+      ...args,
+      firstName: args.firstName.trim(),
+      lastName: args.lastName.trim(),
+      isActive: true,
+      orgId: team.orgId,
+    })
+  },
+})
+
+/**
+ * Update a player's details
+ * Requires: User must have canManageTeams permission
+ * Checks: Jersey number must stay unique among the team's active players
+ */
+export const updatePlayer = mutation({
+  args: {
+    playerId: v.id("players"),
+    firstName: v.string(),
+    lastName: v.string(),
+    jerseyNumber: v.number(),
+    position: v.union(v.literal("handler"), v.literal("cutter")),
+    primaryLine: v.union(v.literal("O"), v.literal("D"), v.literal("both")),
+    gender: v.optional(v.union(v.literal("M"), v.literal("F"))),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error("Not authenticated")
+    }
+    
+    const user = await ctx.db
+      .query("users")
+      .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first()
+    
+    if (!user?.canManageTeams) {
+      throw new Error("Not authorized to manage players")
+    }
+    
+    const player = await ctx.db.get(args.playerId)
+    if (!player) {
+      throw new Error("Player not found")
+    }
+    
+    await requireOrgRole(ctx, user, player.orgId, "admin", "Player not found")
+    
+    if (!Number.isInteger(args.jerseyNumber) || args.jerseyNumber < 0 || args.jerseyNumber > 99) {
+      throw new Error("Jersey number must be a whole number between 0 and 99")
+    }
+    
+    // Inactive players may share a number with someone on the active roster
+    if (player.isActive) {
+      const activePlayers = await ctx.db
+        .query("players")
+        .withIndex("teamId_active", (q) =>
+          q.eq("teamId", player.teamId).eq("isActive", true)
+        )
+        .collect()
+      
+      const clash = activePlayers.find(
+        (p) => p._id !== args.playerId && p.jerseyNumber === args.jerseyNumber
+      )
+      if (clash) {
+        throw new Error(
+          `Jersey #${args.jerseyNumber} is already worn by ${clash.firstName} ${clash.lastName}`
+        )
+      }
+    }
+    
+    const { playerId, ...updates } = args
+    await ctx.db.patch(playerId, {
+      ...updates,
+      firstName: updates.firstName.trim(),
+      lastName: updates.lastName.trim(),
+    })
+    
+    return playerId
+  },
+})
+
+/**
+ * Activate or deactivate a player
+ * Inactive players stay linked to recorded events but are hidden from scorekeeper pickers
+ * Requires: User must have canManageTeams permission
+ * Checks: Reactivating must not clash with an active player's jersey number
+ */
+export const setPlayerActive = mutation({
+  args: {
+    playerId: v.id("players"),
+    isActive: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error("Not authenticated")
+    }
+    
+    const user = await ctx.db
+      .query("users")
+      .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first()
+    
+    if (!user?.canManageTeams) {
+      throw new Error("Not authorized to manage players")
+    }
+    
+    const player = await ctx.db.get(args.playerId)
+    if (!player) {
+      throw new Error("Player not found")
+    }
+    
+    await requireOrgRole(ctx, user, player.orgId, "admin", "Player not found")
+    
+    if (args.isActive && !player.isActive) {
+      const clash = await ctx.db
+        .query("players")
+        .withIndex("teamId_active", (q) =>
+          q.eq("teamId", player.teamId).eq("isActive", true)
+        )
+        .filter((q) => q.eq(q.field("jerseyNumber"), player.jerseyNumber))
+        .first()
+      
+      if (clash) {
+        throw new Error(
+          `Cannot reactivate: Jersey #${player.jerseyNumber} is already worn by ${clash.firstName} ${clash.lastName}`
+        )
+      }
+    }
+    
+    await ctx.db.patch(args.playerId, { isActive: args.isActive })
+  },
+})
+
+/**
+ * Permanently delete a player
+ * Requires: User must have canManageTeams permission
+ * Note: Events keep their player references; prefer deactivating players with recorded stats
+ */
+export const deletePlayer = mutation({
+  args: {
+    playerId: v.id("players"),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error("Not authenticated")
+    }
+    
+    const user = await ctx.db
+      .query("users")
+      .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first()
+    
+    if (!user?.canManageTeams) {
+      throw new Error("Not authorized to manage players")
+    }
+    
+    const player = await ctx.db.get(args.playerId)
+    if (!player) {
+      throw new Error("Player not found")
+    }
+    
+    await requireOrgRole(ctx, user, player.orgId, "admin", "Player not found")
+    
+    await ctx.db.delete(args.playerId)
+    
+    return { success: true }
+  },
+})
+
 /**
  * Update game rules (only allowed for upcoming games)
- * Requires: User must have canManageGames permission
+ * Requires: permission to manage the game (see gameStaff.ts)
  */
 export const updateGameRules = mutation({
   args: {
@@ -731,14 +2066,11 @@ export const updateGameRules = mutation({
       .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
       .first()
     
-    if (!user?.canManageGames) {
-      throw new Error("Not authorized to update game rules")
+    if (!user) {
+      throw new Error("User not found")
     }
     
-    const game = await ctx.db.get(args.gameId)
-    if (!game) {
-      throw new Error("Game not found")
-    }
+    const game = await requireGameAccess(ctx, user, args.gameId, "manage")
     
     if (game.status !== "upcoming") {
       throw new Error("Can only update rules for upcoming games")
@@ -775,8 +2107,10 @@ export const updateGameRules = mutation({
 
 /**
  * Delete a game and all related data
- * Requires: User must have canManageGames permission
- * Deletes: game, gameState, events, and subscriptions related to the game
+ * Requires: permission to manage the game (see gameStaff.ts)
+ * Deletes: game, gameState, events, subscriptions, staff assignments, stream credentials and
+ * recordings related to the game, and schedules deletion of its live input and recorded
+ * videos from the stream provider
  */
 export const deleteGame = mutation({
   args: {
@@ -793,17 +2127,24 @@ export const deleteGame = mutation({
       .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
       .first()
     
-    if (!user?.canManageGames) {
-      throw new Error("Not authorized to delete games")
+    if (!user) {
+      throw new Error("User not found")
     }
     
-    const game = await ctx.db.get(args.gameId)
-    if (!game) {
-      throw new Error("Game not found")
-    }
+    const game = await requireGameAccess(ctx, user, args.gameId, "manage")
     
     // Delete all related data in parallel
-    const [gameStates, events, subscriptions] = await Promise.all([
+    const [
+      gameStates,
+      events,
+      lineups,
+      subscriptions,
+      notifications,
+      staff,
+      streamCredentials,
+      recordings,
+      healthSamples,
+    ] = await Promise.all([
       ctx.db
         .query("gameState")
         .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
@@ -812,18 +2153,62 @@ export const deleteGame = mutation({
         .query("events")
         .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
         .collect(),
+      ctx.db
+        .query("lineups")
+        .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+        .collect(),
       ctx.db
         .query("subscriptions")
         .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
         .collect(),
+      ctx.db
+        .query("notifications")
+        .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+        .collect(),
+      ctx.db
+        .query("gameStaff")
+        .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+        .collect(),
+      ctx.db
+        .query("streamCredentials")
+        .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+        .collect(),
+      ctx.db
+        .query("recordings")
+        .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+        .collect(),
+      ctx.db
+        .query("streamHealthSamples")
+        .withIndex("gameId_timestamp", (q) => q.eq("gameId", args.gameId))
+        .collect(),
     ])
     
     // Delete all related records
     await Promise.all([
       ...gameStates.map((state) => ctx.db.delete(state._id)),
       ...events.map((event) => ctx.db.delete(event._id)),
+      ...lineups.map((lineup) => ctx.db.delete(lineup._id)),
       ...subscriptions.map((sub) => ctx.db.delete(sub._id)),
+      ...notifications.map((notification) => ctx.db.delete(notification._id)),
+      ...staff.map((assignment) => ctx.db.delete(assignment._id)),
+      ...streamCredentials.map((credentials) => ctx.db.delete(credentials._id)),
+      ...healthSamples.map((sample) => ctx.db.delete(sample._id)),
     ])
+    await deleteRecordings(ctx, recordings)
+    
+    // The live input would otherwise stay billable in Cloudflare with nothing pointing at it
+    if (game.streamId) {
+      await ctx.scheduler.runAfter(0, internal.streams.deleteLiveInput, {
+        liveInputId: game.streamId,
+      })
+    }
+    
+    await removeGameStats(ctx, game)
+    
+    // A deleted bracket game frees its slot so the matchup can be rescheduled
+    if (game.bracketSlotId) {
+      await ctx.db.patch(game.bracketSlotId, { gameId: undefined })
+    }
     
     // Finally, delete the game itself
     await ctx.db.delete(args.gameId)
@@ -834,40 +2219,75 @@ export const deleteGame = mutation({
 
 /**
  * Create a new user (typically called during first sign-in)
+ * The email is taken from the Clerk token, never the client, since org memberships and
+ * game staff are granted by email. The role comes from a pending invitation for that
+ * email, if there is one.
+ * Otherwise the first user of a deployment becomes an admin and everyone else a viewer;
+ * admins change roles afterwards from the user console (see users.ts).
  */
 export const createUser = mutation({
   args: {
     clerkId: v.string(),
-    email: v.string(),
     name: v.string(),
-    role: v.optional(v.union(
-      v.literal("admin"),
-      v.literal("scorekeeper"),
-      v.literal("viewer")
-    )),
   },
   handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity || identity.subject !== args.clerkId) {
+      throw new Error("Not authenticated")
+    }
+    
     // Check if user already exists
     const existing = await ctx.db
       .query("users")
       .withIndex("clerkId", (q) => q.eq("clerkId", args.clerkId))
       .first()
     
+    const email = identity.email && normalizeEmail(identity.email)
     if (existing) {
+      // Keep the stored email in step with Clerk (rows used to store the client's)
+      if (email && existing.email !== email) {
+        await ctx.db.patch(existing._id, { email })
+      }
       return existing._id
     }
     
-    // Create new user with default permissions
-    const role = args.role ?? "viewer"
+    if (!email) {
+      throw new Error("Your sign-in has no email address")
+    }
     
-    return await ctx.db.insert("users", {
+    const invitation = await getPendingInvitation(ctx, email)
+    const isFirstUser = (await ctx.db.query("users").first()) === null
+    const permissions = invitation
+      ? {
+          role: invitation.role,
+          canManageGames: invitation.canManageGames,
+          canManageTeams: invitation.canManageTeams,
+        }
+      : defaultPermissions(isFirstUser ? "admin" : "viewer")
+    
+    const userId = await ctx.db.insert("users", {
       clerkId: args.clerkId,
-      email: args.email,
+      email,
       name: args.name,
-      role,
-      canManageGames: role === "admin",
-      canManageTeams: role === "admin",
+      ...permissions,
     })
+    
+    if (invitation) {
+      await ctx.db.patch(invitation._id, {
+        status: "accepted",
+        acceptedBy: userId,
+        acceptedAt: Date.now(),
+      })
+    }
+    
+    await recordPermissionChange(ctx, {
+      action: invitation ? "invitation_accepted" : "user_created",
+      userId,
+      email,
+      changedBy: invitation?.invitedBy,
+      after: permissions,
+    })
+    
+    return userId
   },
 })
-
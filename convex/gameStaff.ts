@@ -0,0 +1,214 @@
+/**
+ * Game staff and game-level authorization
+ * Every write to a game goes through requireGameAccess. A user may act on a game when:
+ * - score: assigned as its scorekeeper, or a scorekeeper (or higher) in the game's organization
+ * - stream: assigned as its streamer
+ * - manage: a game manager (canManageGames, plus the admin role in the game's organization)
+ * Game managers can also score and stream. Games without an organization can only be
+ * scored by managers and assigned staff. Observers see the scorekeeper console read-only.
+ */
+
+import { mutation, query, type QueryCtx } from "./_generated/server"
+import { v } from "convex/values"
+import type { Doc, Id } from "./_generated/dataModel"
+import { getCurrentUser, getOrgRole, hasOrgRank, requireOrgRole, requireUser } from "./organizations"
+import { normalizeEmail } from "./users"
+
+export type GameStaffRole = Doc<"gameStaff">["role"]
+
+export type GameCapability = "score" | "stream" | "manage"
+
+export type GameAccess = {
+  staffRole: GameStaffRole | null
+  canObserve: boolean
+  canScore: boolean
+  canStream: boolean
+  canManage: boolean
+}
+
+const NOT_AUTHORIZED: Record<GameCapability, string> = {
+  score: "Not authorized to score this game",
+  stream: "Not authorized to stream this game",
+  manage: "Not authorized to manage this game",
+}
+
+/**
+ * Assign a user to a game by email, or change their assignment
+ * Requires: permission to manage the game
+ */
+export const assignGameStaff = mutation({
+  args: {
+    gameId: v.id("games"),
+    email: v.string(),
+    role: v.union(v.literal("scorekeeper"), v.literal("streamer"), v.literal("observer")),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+    await requireGameAccess(ctx, user, args.gameId, "manage")
+
+    const staffUser = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", normalizeEmail(args.email)))
+      .first()
+    if (!staffUser) {
+      throw new Error("No user with that email has signed in yet")
+    }
+
+    const existing = await getAssignment(ctx, args.gameId, staffUser._id)
+    if (existing) {
+      await ctx.db.patch(existing._id, { role: args.role, assignedBy: user._id })
+      return existing._id
+    }
+
+    return await ctx.db.insert("gameStaff", {
+      gameId: args.gameId,
+      userId: staffUser._id,
+      role: args.role,
+      assignedBy: user._id,
+    })
+  },
+})
+
+/**
+ * Remove a user's assignment to a game
+ * Requires: permission to manage the game
+ */
+export const removeGameStaff = mutation({
+  args: { staffId: v.id("gameStaff") },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+
+    const assignment = await ctx.db.get(args.staffId)
+    if (!assignment) {
+      throw new Error("Assignment not found")
+    }
+
+    await requireGameAccess(ctx, user, assignment.gameId, "manage")
+    await ctx.db.delete(args.staffId)
+  },
+})
+
+/**
+ * Staff assigned to a game, for the people who manage it (empty otherwise)
+ */
+export const listGameStaff = query({
+  args: { gameId: v.id("games") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    const game = await ctx.db.get(args.gameId)
+    if (!user || !game || !(await getGameAccess(ctx, user, game)).canManage) {
+      return []
+    }
+
+    const staff = await ctx.db
+      .query("gameStaff")
+      .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+      .collect()
+
+    return await Promise.all(
+      staff.map(async (assignment) => {
+        const staffUser = await ctx.db.get(assignment.userId)
+        return {
+          ...assignment,
+          name: staffUser?.name ?? "Unknown user",
+          email: staffUser?.email ?? "",
+        }
+      })
+    )
+  },
+})
+
+/**
+ * What the signed-in user may do on a game (null when signed out or the game is missing)
+ */
+export const getMyGameAccess = query({
+  args: { gameId: v.id("games") },
+  handler: async (ctx, args): Promise<GameAccess | null> => {
+    const user = await getCurrentUser(ctx)
+    const game = await ctx.db.get(args.gameId)
+    if (!user || !game) return null
+
+    return await getGameAccess(ctx, user, game)
+  },
+})
+
+/**
+ * What a user may do on a game, from their assignment, organization role and permissions
+ */
+export async function getGameAccess(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  game: Doc<"games">
+): Promise<GameAccess> {
+  const assignment = await getAssignment(ctx, game._id, user._id)
+  const staffRole = assignment?.role ?? null
+  const orgRole = game.orgId ? await getOrgRole(ctx, user, game.orgId) : null
+
+  const canManage = user.canManageGames && (!game.orgId || hasOrgRank(orgRole, "admin"))
+  const canScore =
+    canManage || staffRole === "scorekeeper" || (!!game.orgId && hasOrgRank(orgRole, "scorekeeper"))
+  const canStream = canManage || staffRole === "streamer"
+
+  return {
+    staffRole,
+    canObserve: staffRole !== null || canScore || canStream,
+    canScore,
+    canStream,
+    canManage,
+  }
+}
+
+/**
+ * Load a game and require the user to be allowed to score, stream or manage it
+ * Games in an organization the user isn't working in, and isn't staffed on, are reported
+ * as not found.
+ */
+export async function requireGameAccess(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  gameId: Id<"games">,
+  capability: GameCapability
+) {
+  const game = await ctx.db.get(gameId)
+  if (!game) {
+    throw new Error("Game not found")
+  }
+
+  const access = await getGameAccess(ctx, user, game)
+  const allowed = { score: access.canScore, stream: access.canStream, manage: access.canManage }
+  if (allowed[capability]) {
+    return game
+  }
+
+  if (game.orgId && access.staffRole === null && !(await getOrgRole(ctx, user, game.orgId))) {
+    throw new Error("Game not found")
+  }
+  throw new Error(NOT_AUTHORIZED[capability])
+}
+
+/**
+ * Require permission to manage the games of an organization, for records that hold games
+ * (tournaments, leagues, seasons)
+ * Same rule as canManage on a game: canManageGames, plus the admin role in the record's
+ * organization. Records in an organization the user isn't working in are reported as
+ * not found.
+ */
+export async function requireGameManager(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  orgId: Id<"organizations"> | undefined,
+  message = "Not authorized to manage games",
+  notFoundMessage = "Not found"
+) {
+  await requireOrgRole(ctx, user, orgId, "admin", notFoundMessage)
+  if (!user.canManageGames) {
+    throw new Error(message)
+  }
+}
+
+async function getAssignment(ctx: QueryCtx, gameId: Id<"games">, userId: Id<"users">) {
+  return await ctx.db
+    .query("gameStaff")
+    .withIndex("gameId_userId", (q) => q.eq("gameId", gameId).eq("userId", userId))
+    .first()
+}
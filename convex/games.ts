@@ -1,10 +1,16 @@
 /**
  * Query functions for games, game state, and events
  * These functions provide read access to game data with real-time subscriptions
+ * Lists are scoped to the caller's active organization; lookups by id stay public
+ * so shared game links keep working
  */
 
 import { query } from "./_generated/server"
 import { v } from "convex/values"
+import type { Doc } from "./_generated/dataModel"
+import { withDerivedClock } from "./clock"
+import { getCallerOrgId } from "./organizations"
+import { withoutStreamSecrets } from "./streams"
 
 /**
  * Get a single game by ID with full details including teams and current state
@@ -26,10 +32,10 @@ export const getGame = query({
     ])
     
     return {
-      ...game,
+      ...withoutStreamSecrets(game),
       homeTeam,
       awayTeam,
-      state: gameState,
+      state: gameState && withDerivedClock(gameState),
     }
   },
 })
@@ -37,25 +43,32 @@ export const getGame = query({
 /**
  * Get real-time game state for live updates
  * This is the primary subscription for live scoreboard updates
+ * clockSeconds is derived from runningSince; clients tick locally from clockAsOf
  */
 export const getGameState = query({
   args: { gameId: v.id("games") },
   handler: async (ctx, args) => {
-    return await ctx.db
+    const gameState = await ctx.db
       .query("gameState")
       .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
       .first()
+    
+    return gameState && withDerivedClock(gameState)
   },
 })
 
 /**
  * Get game events (play-by-play log)
  * Returns events in reverse chronological order (most recent first)
+ * Voided events are excluded unless includeVoided is set (audit views)
+ * Line substitutions are excluded unless includeSubstitutions is set
  */
 export const getGameEvents = query({
   args: { 
     gameId: v.id("games"),
     limit: v.optional(v.number()),
+    includeVoided: v.optional(v.boolean()),
+    includeSubstitutions: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
     // Use default limit of 100 to avoid conditional query building
@@ -63,6 +76,12 @@ export const getGameEvents = query({
       .query("events")
       .withIndex("gameId_timestamp", (q) => q.eq("gameId", args.gameId))
       .order("desc")
+      .filter((q) =>
+        args.includeVoided ? true : q.neq(q.field("voided"), true)
+      )
+      .filter((q) =>
+        args.includeSubstitutions ? true : q.neq(q.field("type"), "substitution")
+      )
       .take(args.limit ?? 100)
     
     // Fetch player details for events that reference players
@@ -90,6 +109,7 @@ export const getGameEvents = query({
 /**
  * List games filtered by status
  * Used for dashboard views (live games, upcoming games, etc.)
+ * Members see their active organization's games; everyone else sees every game
  */
 export const listGames = query({
   args: { 
@@ -103,22 +123,41 @@ export const listGames = query({
   },
   handler: async (ctx, args) => {
     const defaultLimit = args.limit ?? 50
+    const orgId = await getCallerOrgId(ctx)
     
     // Use separate query paths to avoid type issues with conditional query building
-    const games = args.status
-      ? await ctx.db
-          .query("games")
-          .withIndex("status_scheduledStart", (q) => q.eq("status", args.status!))
-          .order("desc")
-          .take(defaultLimit)
-      : await ctx.db
-          .query("games")
-          .order("desc")
-          .take(defaultLimit)
+    let games: Doc<"games">[]
+    if (orgId) {
+      games = args.status
+        ? await ctx.db
+            .query("games")
+            .withIndex("orgId_status_scheduledStart", (q) =>
+              q.eq("orgId", orgId).eq("status", args.status!)
+            )
+            .order("desc")
+            .take(defaultLimit)
+        : await ctx.db
+            .query("games")
+            .withIndex("orgId", (q) => q.eq("orgId", orgId))
+            .order("desc")
+            .take(defaultLimit)
+    } else {
+      games = args.status
+        ? await ctx.db
+            .query("games")
+            .withIndex("status_scheduledStart", (q) => q.eq("status", args.status!))
+            .order("desc")
+            .take(defaultLimit)
+        : await ctx.db
+            .query("games")
+            .order("desc")
+            .take(defaultLimit)
+    }
     
     // Fetch team details for each game
     const gamesWithTeams = await Promise.all(
-      games.map(async (game) => {
+      games.map(async (fullGame) => {
+        const game = withoutStreamSecrets(fullGame)
         const [homeTeam, awayTeam, gameState] = await Promise.all([
           ctx.db.get(game.homeTeamId),
           ctx.db.get(game.awayTeamId),
@@ -132,7 +171,7 @@ export const listGames = query({
           ...game,
           homeTeam,
           awayTeam,
-          state: gameState,
+          state: gameState && withDerivedClock(gameState),
         }
       })
     )
@@ -144,14 +183,23 @@ export const listGames = query({
 /**
  * Get all live games with their current state
  * Optimized query for live game dashboard
+ * Scoped like listGames
  */
 export const getLiveGames = query({
   args: {},
   handler: async (ctx) => {
-    const liveGames = await ctx.db
-      .query("games")
-      .withIndex("status_scheduledStart", (q) => q.eq("status", "live"))
-      .collect()
+    const orgId = await getCallerOrgId(ctx)
+    const liveGames = orgId
+      ? await ctx.db
+          .query("games")
+          .withIndex("orgId_status_scheduledStart", (q) =>
+            q.eq("orgId", orgId).eq("status", "live")
+          )
+          .collect()
+      : await ctx.db
+          .query("games")
+          .withIndex("status_scheduledStart", (q) => q.eq("status", "live"))
+          .collect()
     
     const gamesWithDetails = await Promise.all(
       liveGames.map(async (game) => {
@@ -165,10 +213,10 @@ export const getLiveGames = query({
         ])
         
         return {
-          ...game,
+          ...withoutStreamSecrets(game),
           homeTeam,
           awayTeam,
-          state: gameState,
+          state: gameState && withDerivedClock(gameState),
         }
       })
     )
@@ -188,12 +236,17 @@ export const getTeam = query({
 })
 
 /**
- * List all teams
+ * List the teams of the caller's active organization
+ * Outside an organization, lists teams that don't belong to one
  */
 export const listTeams = query({
   args: {},
   handler: async (ctx) => {
-    return await ctx.db.query("teams").collect()
+    const orgId = await getCallerOrgId(ctx)
+    return await ctx.db
+      .query("teams")
+      .withIndex("orgId", (q) => q.eq("orgId", orgId))
+      .collect()
   },
 })
 
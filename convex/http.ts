@@ -0,0 +1,18 @@
+/**
+ * HTTP endpoints
+ * Served from the deployment's .convex.site URL
+ */
+
+import { httpRouter } from "convex/server"
+import { autumnWebhook } from "./billing"
+
+const http = httpRouter()
+
+// Autumn subscription events (configure this URL as the webhook endpoint in Autumn)
+http.route({
+  path: "/autumn/webhook",
+  method: "POST",
+  handler: autumnWebhook,
+})
+
+export default http
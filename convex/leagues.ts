@@ -0,0 +1,195 @@
+/**
+ * Leagues and seasons
+ * A season groups regular games (via games.seasonId) into one standings table
+ * computed from completed games and their final scores
+ */
+
+import { mutation, query } from "./_generated/server"
+import { v } from "convex/values"
+import type { Id } from "./_generated/dataModel"
+import { requireGameAccess, requireGameManager } from "./gameStaff"
+import { getActiveOrgId, getCallerOrgId, requireUser } from "./organizations"
+import { completedResults, computeStandings } from "./standings"
+import { removeGameStats, syncGameStats } from "./stats"
+
+/**
+ * Create a league
+ * Requires: canManageGames and the admin role in the active organization
+ */
+export const createLeague = mutation({
+  args: {
+    name: v.string(),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+    const orgId = await getActiveOrgId(ctx, user)
+    await requireGameManager(ctx, user, orgId, "Not authorized to create leagues")
+
+    if (!args.name.trim()) {
+      throw new Error("League name is required")
+    }
+
+    return await ctx.db.insert("leagues", {
+      name: args.name.trim(),
+      description: args.description?.trim() || undefined,
+      createdBy: user._id,
+      orgId,
+    })
+  },
+})
+
+/**
+ * Create a season within a league
+ * Requires: canManageGames and the admin role in the league's organization
+ */
+export const createSeason = mutation({
+  args: {
+    leagueId: v.id("leagues"),
+    name: v.string(),
+    startDate: v.number(),
+    endDate: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+    const league = await ctx.db.get(args.leagueId)
+    if (!league) {
+      throw new Error("League not found")
+    }
+
+    await requireGameManager(
+      ctx,
+      user,
+      league.orgId,
+      "Not authorized to create seasons",
+      "League not found"
+    )
+
+    if (!args.name.trim()) {
+      throw new Error("Season name is required")
+    }
+
+    if (args.endDate !== undefined && args.endDate < args.startDate) {
+      throw new Error("Season must end after it starts")
+    }
+
+    return await ctx.db.insert("seasons", {
+      leagueId: args.leagueId,
+      name: args.name.trim(),
+      startDate: args.startDate,
+      endDate: args.endDate,
+      createdBy: user._id,
+      orgId: league.orgId,
+    })
+  },
+})
+
+/**
+ * Add a game to a season, or remove it from its season
+ * Tournament games keep their own standings and can't join a season, and games only join
+ * seasons of their own organization
+ * Requires: permission to manage the game
+ */
+export const setGameSeason = mutation({
+  args: {
+    gameId: v.id("games"),
+    seasonId: v.optional(v.id("seasons")),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+    const game = await requireGameAccess(ctx, user, args.gameId, "manage")
+
+    if (args.seasonId) {
+      if (game.tournamentId) {
+        throw new Error("Tournament games can't be added to a season")
+      }
+      const season = await ctx.db.get(args.seasonId)
+      if (!season || season.orgId !== game.orgId) {
+        throw new Error("Season not found")
+      }
+    }
+
+    // Move the game's player stats from the old season's totals to the new one's
+    await removeGameStats(ctx, game)
+    await ctx.db.patch(args.gameId, { seasonId: args.seasonId })
+    await syncGameStats(ctx, args.gameId)
+  },
+})
+
+/**
+ * List the leagues of the caller's active organization with their seasons, newest season first
+ * Outside an organization, lists leagues that don't belong to one
+ */
+export const listLeagues = query({
+  args: {},
+  handler: async (ctx) => {
+    const orgId = await getCallerOrgId(ctx)
+    const leagues = await ctx.db
+      .query("leagues")
+      .withIndex("orgId_name", (q) => q.eq("orgId", orgId))
+      .collect()
+
+    return await Promise.all(
+      leagues.map(async (league) => ({
+        ...league,
+        seasons: await ctx.db
+          .query("seasons")
+          .withIndex("leagueId_startDate", (q) => q.eq("leagueId", league._id))
+          .order("desc")
+          .collect(),
+      }))
+    )
+  },
+})
+
+/**
+ * Season standings table
+ * Every team with a game in the season is listed; only completed games count.
+ * Ranked by win percentage, then head-to-head among tied teams, then point
+ * differential, then points scored.
+ */
+export const getStandings = query({
+  args: { seasonId: v.id("seasons") },
+  handler: async (ctx, args) => {
+    const season = await ctx.db.get(args.seasonId)
+    if (!season) return null
+
+    const league = await ctx.db.get(season.leagueId)
+
+    const games = await ctx.db
+      .query("games")
+      .withIndex("seasonId", (q) => q.eq("seasonId", args.seasonId))
+      .collect()
+
+    const gamesWithState = await Promise.all(
+      games.map(async (game) => ({
+        ...game,
+        state: await ctx.db
+          .query("gameState")
+          .withIndex("gameId", (q) => q.eq("gameId", game._id))
+          .first(),
+      }))
+    )
+
+    const teamIds = [
+      ...new Set(games.flatMap((game): Id<"teams">[] => [game.homeTeamId, game.awayTeamId])),
+    ]
+
+    const standings = await Promise.all(
+      computeStandings(teamIds, completedResults(gamesWithState)).map(async (row) => ({
+        ...row,
+        team: await ctx.db.get(row.teamId),
+      }))
+    )
+
+    return {
+      season,
+      league,
+      standings,
+      gamesPlayed: gamesWithState.filter((game) => game.status === "completed").length,
+      gamesRemaining: gamesWithState.filter(
+        (game) => game.status !== "completed" && game.status !== "cancelled"
+      ).length,
+    }
+  },
+})
@@ -0,0 +1,266 @@
+/**
+ * Line tracking: which players are on the field for each point
+ * Lineups feed substitution events, live gender ratios and per-player
+ * points played / plus-minus
+ */
+
+import { mutation, query } from "./_generated/server"
+import { v } from "convex/values"
+import type { Doc, Id } from "./_generated/dataModel"
+import { getClockSeconds } from "./clock"
+import { requireGameAccess } from "./gameStaff"
+
+const PLAYERS_ON_FIELD = 7
+
+/**
+ * Set the line for the upcoming (or current) point
+ * Records substitution events against the team's previous line and updates the
+ * team's gender ratio in gameState for mixed games
+ */
+export const setLine = mutation({
+  args: {
+    gameId: v.id("games"),
+    team: v.union(v.literal("home"), v.literal("away")),
+    playerIds: v.array(v.id("players")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity()
+    if (!identity) {
+      throw new Error("Not authenticated")
+    }
+
+    const user = await ctx.db
+      .query("users")
+      .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+      .first()
+
+    if (!user) {
+      throw new Error("User not found")
+    }
+
+    const game = await requireGameAccess(ctx, user, args.gameId, "score")
+
+    if (game.status !== "live" && game.status !== "upcoming") {
+      throw new Error(`Cannot set a line for a game with status: ${game.status}`)
+    }
+
+    const gameState = await ctx.db
+      .query("gameState")
+      .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+      .first()
+
+    if (!gameState) {
+      throw new Error("Game state not found")
+    }
+
+    if (new Set(args.playerIds).size !== args.playerIds.length) {
+      throw new Error("A player can only be on the line once")
+    }
+
+    if (args.playerIds.length !== PLAYERS_ON_FIELD) {
+      throw new Error(
+        `A line must have exactly ${PLAYERS_ON_FIELD} players (got ${args.playerIds.length})`
+      )
+    }
+
+    // Validate players belong to this team and are active
+    const teamId = args.team === "home" ? game.homeTeamId : game.awayTeamId
+    const players = await Promise.all(args.playerIds.map((id) => ctx.db.get(id)))
+
+    for (const player of players) {
+      if (!player || player.teamId !== teamId) {
+        throw new Error("All players must be on the team's roster")
+      }
+      if (!player.isActive) {
+        throw new Error(`#${player.jerseyNumber} ${player.lastName} is not an active player`)
+      }
+    }
+
+    const genderRatio = {
+      male: players.filter((p) => p?.gender === "M").length,
+      female: players.filter((p) => p?.gender === "F").length,
+    }
+
+    // Mixed division: every player needs a gender and the line must be 4-3 either way
+    if (game.genderRatioRequired) {
+      if (genderRatio.male + genderRatio.female !== PLAYERS_ON_FIELD) {
+        throw new Error("Every player on a mixed line needs a gender set on the roster")
+      }
+      if (Math.abs(genderRatio.male - genderRatio.female) !== 1) {
+        throw new Error(
+          `Mixed lines must be 4-3 (got ${genderRatio.male}M / ${genderRatio.female}F)`
+        )
+      }
+    }
+
+    const pointNumber = gameState.homeScore + gameState.awayScore + 1
+    const line = gameState.pointStartedWith === args.team ? "O" : "D"
+
+    // A line already set for this point is replaced. It, or else the team's line from
+    // the latest earlier point, is the baseline for substitutions.
+    const current = await ctx.db
+      .query("lineups")
+      .withIndex("gameId_team_point", (q) =>
+        q.eq("gameId", args.gameId).eq("team", args.team).eq("pointNumber", pointNumber)
+      )
+      .first()
+    const previous =
+      current ??
+      (await ctx.db
+        .query("lineups")
+        .withIndex("gameId_team_point", (q) =>
+          q.eq("gameId", args.gameId).eq("team", args.team).lt("pointNumber", pointNumber)
+        )
+        .order("desc")
+        .first())
+
+    const lineup = {
+      line,
+      playerIds: args.playerIds,
+      genderRatio,
+      setAt: Date.now(),
+      setBy: user._id,
+    } as const
+
+    let lineupId: Id<"lineups">
+    if (current) {
+      await ctx.db.patch(current._id, lineup)
+      lineupId = current._id
+    } else {
+      lineupId = await ctx.db.insert("lineups", {
+        gameId: args.gameId,
+        team: args.team,
+        pointNumber,
+        ...lineup,
+      })
+    }
+
+    // Pair players coming off with players coming on
+    if (previous) {
+      const playersOut = previous.playerIds.filter((id) => !args.playerIds.includes(id))
+      const playersIn = args.playerIds.filter((id) => !previous.playerIds.includes(id))
+      const playersById = new Map(
+        players.flatMap((p) => (p ? [[p._id, p] as const] : []))
+      )
+
+      for (let i = 0; i < playersIn.length; i++) {
+        const playerIn = playersById.get(playersIn[i])
+        await ctx.db.insert("events", {
+          gameId: args.gameId,
+          timestamp: Date.now(),
+          clockSeconds: getClockSeconds(gameState),
+          period: gameState.period,
+          type: "substitution",
+          team: args.team,
+          playerIn: playersIn[i],
+          playerOut: playersOut[i],
+          line,
+          description: `Substitution (${args.team}): #${playerIn?.jerseyNumber} ${playerIn?.lastName} on`,
+          recordedBy: user._id,
+        })
+      }
+    }
+
+    if (game.genderRatioRequired) {
+      await ctx.db.patch(gameState._id, {
+        [args.team === "home" ? "homeGenderRatio" : "awayGenderRatio"]: genderRatio,
+        lastUpdateTime: Date.now(),
+        lastUpdatedBy: user._id,
+      })
+    }
+
+    return { lineupId, pointNumber, line }
+  },
+})
+
+/**
+ * Get both teams' lines for a point
+ */
+export const getPointLineups = query({
+  args: {
+    gameId: v.id("games"),
+    pointNumber: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const lineups = await ctx.db
+      .query("lineups")
+      .withIndex("gameId_point", (q) =>
+        q.eq("gameId", args.gameId).eq("pointNumber", args.pointNumber)
+      )
+      .collect()
+
+    return {
+      home: lineups.find((l) => l.team === "home") ?? null,
+      away: lineups.find((l) => l.team === "away") ?? null,
+    }
+  },
+})
+
+/**
+ * Points played and plus/minus per player for a game
+ * A completed point counts +1 for everyone on the scoring team's line and -1 for
+ * everyone on the other line. Points without a recorded line are skipped.
+ */
+export const getLineupStats = query({
+  args: { gameId: v.id("games") },
+  handler: async (ctx, args) => {
+    const [lineups, goals] = await Promise.all([
+      ctx.db
+        .query("lineups")
+        .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+        .collect(),
+      ctx.db
+        .query("events")
+        .withIndex("gameId_timestamp", (q) => q.eq("gameId", args.gameId))
+        .order("asc")
+        .filter((q) =>
+          q.and(q.eq(q.field("type"), "goal"), q.neq(q.field("voided"), true))
+        )
+        .collect(),
+    ])
+
+    const stats = new Map<
+      Id<"players">,
+      {
+        playerId: Id<"players">
+        team: "home" | "away"
+        pointsPlayed: number
+        offensePoints: number
+        defensePoints: number
+        plusMinus: number
+      }
+    >()
+
+    for (const lineup of lineups) {
+      // Point n was won by whoever scored the n-th goal
+      const goal: Doc<"events"> | undefined = goals[lineup.pointNumber - 1]
+      if (!goal?.scoringTeam) continue
+
+      for (const playerId of lineup.playerIds) {
+        const entry = stats.get(playerId) ?? {
+          playerId,
+          team: lineup.team,
+          pointsPlayed: 0,
+          offensePoints: 0,
+          defensePoints: 0,
+          plusMinus: 0,
+        }
+        entry.pointsPlayed++
+        if (lineup.line === "O") {
+          entry.offensePoints++
+        } else {
+          entry.defensePoints++
+        }
+        entry.plusMinus += goal.scoringTeam === lineup.team ? 1 : -1
+        stats.set(playerId, entry)
+      }
+    }
+
+    return await Promise.all(
+      [...stats.values()].map(async (entry) => ({
+        ...entry,
+        player: await ctx.db.get(entry.playerId),
+      }))
+    )
+  },
+})
@@ -0,0 +1,236 @@
+"use node";
+import { v } from "convex/values";
+import { appendFile } from "node:fs/promises";
+import { internal } from "./_generated/api";
+import { internalAction } from "./_generated/server";
+
+/**
+ * A message ready to hand to a provider
+ */
+export interface OutgoingMessage {
+  channel: "email" | "sms";
+  to: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * Email/SMS delivery backend
+ *
+ * Providers are picked per channel with NOTIFICATION_EMAIL_PROVIDER
+ * ("resend" | "log" | "file") and NOTIFICATION_SMS_PROVIDER ("twilio" | "log" | "file").
+ * Both default to "log", so deployments without credentials never send real messages.
+ */
+export interface NotificationProvider {
+  name: string;
+  send(message: OutgoingMessage): Promise<{ messageId?: string }>;
+}
+
+/**
+ * Writes messages to the Convex function logs
+ */
+const logProvider: NotificationProvider = {
+  name: "log",
+  async send(message) {
+    console.log(
+      `[notification:${message.channel}] to=${message.to} subject=${JSON.stringify(message.subject)}\n${message.body}`
+    );
+    return {};
+  },
+};
+
+/**
+ * Appends messages as JSON lines to NOTIFICATIONS_LOG_FILE, for local deployments
+ */
+function fileProvider(): NotificationProvider {
+  const path = process.env.NOTIFICATIONS_LOG_FILE || "notifications.log";
+  return {
+    name: "file",
+    async send(message) {
+      await appendFile(
+        path,
+        `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`
+      );
+      return {};
+    },
+  };
+}
+
+/**
+ * Email through the Resend API
+ */
+function resendProvider(): NotificationProvider {
+  const apiKey = process.env.RESEND_API_KEY;
+  const from = process.env.NOTIFICATION_EMAIL_FROM;
+  if (!apiKey || !from) {
+    throw new Error(
+      "Missing RESEND_API_KEY or NOTIFICATION_EMAIL_FROM. Please configure them in your Convex dashboard."
+    );
+  }
+
+  return {
+    name: "resend",
+    async send(message) {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.body,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Resend error ${response.status}: ${await response.text()}`);
+      }
+
+      const data = (await response.json()) as { id?: string };
+      return { messageId: data.id };
+    },
+  };
+}
+
+/**
+ * SMS through the Twilio Messages API
+ */
+function twilioProvider(): NotificationProvider {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const from = process.env.TWILIO_FROM_NUMBER;
+  if (!accountSid || !authToken || !from) {
+    throw new Error(
+      "Missing TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN or TWILIO_FROM_NUMBER. Please configure them in your Convex dashboard."
+    );
+  }
+
+  return {
+    name: "twilio",
+    async send(message) {
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({
+            To: message.to,
+            From: from,
+            Body: `${message.subject}\n${message.body}`,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        throw new Error(`Twilio error ${response.status}: ${await response.text()}`);
+      }
+
+      const data = (await response.json()) as { sid?: string };
+      return { messageId: data.sid };
+    },
+  };
+}
+
+/**
+ * Provider configured for a channel
+ */
+export function getNotificationProvider(channel: OutgoingMessage["channel"]): NotificationProvider {
+  const configured =
+    channel === "email"
+      ? process.env.NOTIFICATION_EMAIL_PROVIDER
+      : process.env.NOTIFICATION_SMS_PROVIDER;
+
+  switch (configured || "log") {
+    case "log":
+      return logProvider;
+    case "file":
+      return fileProvider();
+    case "resend":
+      if (channel !== "email") break;
+      return resendProvider();
+    case "twilio":
+      if (channel !== "sms") break;
+      return twilioProvider();
+  }
+
+  throw new Error(`Unknown ${channel} notification provider: ${configured}`);
+}
+
+/**
+ * Send one outbox row and record the result
+ */
+export const deliver = internalAction({
+  args: { notificationId: v.id("notifications") },
+  handler: async (ctx, args) => {
+    const notification = await ctx.runQuery(internal.notifications.getNotification, {
+      notificationId: args.notificationId,
+    });
+    if (!notification || notification.status !== "pending") {
+      return;
+    }
+
+    let providerName = "unknown";
+    try {
+      const provider = getNotificationProvider(notification.channel);
+      providerName = provider.name;
+      const { messageId } = await provider.send({
+        channel: notification.channel,
+        to: notification.to,
+        subject: notification.subject,
+        body: notification.body,
+      });
+      await ctx.runMutation(internal.notifications.recordDelivery, {
+        notificationId: args.notificationId,
+        status: "sent",
+        provider: providerName,
+        providerMessageId: messageId,
+      });
+    } catch (error) {
+      await ctx.runMutation(internal.notifications.recordDelivery, {
+        notificationId: args.notificationId,
+        status: "failed",
+        provider: providerName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  },
+});
+
+/**
+ * Email an invitation created from the user console
+ * Links to SITE_URL when it's configured. A failed send is logged; the invitation
+ * still applies when the person signs in.
+ */
+export const sendInvitation = internalAction({
+  args: {
+    email: v.string(),
+    role: v.union(v.literal("admin"), v.literal("scorekeeper"), v.literal("viewer")),
+    invitedBy: v.string(),
+  },
+  handler: async (_ctx, args) => {
+    const siteUrl = process.env.SITE_URL;
+    const body = [
+      `${args.invitedBy} invited you to DiscLeader as a ${args.role}.`,
+      siteUrl
+        ? `Sign in at ${siteUrl} with this email address to get started.`
+        : "Sign in to DiscLeader with this email address to get started.",
+    ].join("\n\n");
+
+    try {
+      await getNotificationProvider("email").send({
+        channel: "email",
+        to: args.email,
+        subject: "You're invited to DiscLeader",
+        body,
+      });
+    } catch (error) {
+      console.error(`Failed to send invitation to ${args.email}:`, error);
+    }
+  },
+});
@@ -0,0 +1,409 @@
+/**
+ * Notifications
+ * Users subscribe to a game or a team. When a goal, period end or game end event is
+ * recorded, notifySubscribers schedules a fan-out that writes one outbox row per user
+ * and channel; each row is sent by the delivery action in notificationDelivery.ts
+ */
+
+import {
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  type MutationCtx,
+} from "./_generated/server"
+import { v } from "convex/values"
+import { internal } from "./_generated/api"
+import type { Doc, Id } from "./_generated/dataModel"
+import { getCurrentUser, requireUser } from "./organizations"
+
+type NotifyOn = Doc<"subscriptions">["notifyOn"]
+
+const notifyOnValidator = v.object({
+  goals: v.boolean(),
+  periodEnd: v.boolean(),
+  gameEnd: v.boolean(),
+  scheduleChanges: v.boolean(),
+})
+
+const DEFAULT_NOTIFY_ON: NotifyOn = {
+  goals: true,
+  periodEnd: true,
+  gameEnd: true,
+  scheduleChanges: true,
+}
+
+// Event types that notify, and the subscription setting that controls each
+const NOTIFY_ON_BY_EVENT_TYPE: Partial<Record<Doc<"events">["type"], keyof NotifyOn>> = {
+  goal: "goals",
+  periodEnd: "periodEnd",
+  gameEnd: "gameEnd",
+}
+
+/**
+ * Follow a game or a team
+ * Subscribing again updates notifyOn on the existing subscription
+ */
+export const subscribe = mutation({
+  args: {
+    gameId: v.optional(v.id("games")),
+    teamId: v.optional(v.id("teams")),
+    notifyOn: v.optional(notifyOnValidator),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+
+    if (!!args.gameId === !!args.teamId) {
+      throw new Error("Subscribe to either a game or a team")
+    }
+
+    if (args.gameId && !(await ctx.db.get(args.gameId))) {
+      throw new Error("Game not found")
+    }
+
+    if (args.teamId && !(await ctx.db.get(args.teamId))) {
+      throw new Error("Team not found")
+    }
+
+    const existing = (
+      await ctx.db
+        .query("subscriptions")
+        .withIndex("userId", (q) => q.eq("userId", user._id))
+        .collect()
+    ).find((sub) => sub.gameId === args.gameId && sub.teamId === args.teamId)
+
+    if (existing) {
+      if (args.notifyOn) {
+        await ctx.db.patch(existing._id, { notifyOn: args.notifyOn })
+      }
+      return existing._id
+    }
+
+    return await ctx.db.insert("subscriptions", {
+      userId: user._id,
+      gameId: args.gameId,
+      teamId: args.teamId,
+      notifyOn: args.notifyOn ?? DEFAULT_NOTIFY_ON,
+    })
+  },
+})
+
+/**
+ * Stop following a game or team
+ */
+export const unsubscribe = mutation({
+  args: { subscriptionId: v.id("subscriptions") },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+
+    const subscription = await ctx.db.get(args.subscriptionId)
+    if (!subscription || subscription.userId !== user._id) {
+      throw new Error("Subscription not found")
+    }
+
+    await ctx.db.delete(args.subscriptionId)
+  },
+})
+
+/**
+ * Change which events a subscription notifies about
+ */
+export const updateSubscription = mutation({
+  args: {
+    subscriptionId: v.id("subscriptions"),
+    notifyOn: notifyOnValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+
+    const subscription = await ctx.db.get(args.subscriptionId)
+    if (!subscription || subscription.userId !== user._id) {
+      throw new Error("Subscription not found")
+    }
+
+    await ctx.db.patch(args.subscriptionId, { notifyOn: args.notifyOn })
+  },
+})
+
+/**
+ * Choose the channels notifications are delivered on
+ */
+export const updateNotificationPreferences = mutation({
+  args: {
+    email: v.boolean(),
+    sms: v.boolean(),
+    phone: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+
+    const phone = args.phone?.replace(/[\s()-]/g, "") || undefined
+    if (phone && !/^\+[1-9]\d{6,14}$/.test(phone)) {
+      throw new Error("Enter the phone number in international format, e.g. +15551234567")
+    }
+    if (args.sms && !phone) {
+      throw new Error("A phone number is required for text notifications")
+    }
+
+    await ctx.db.patch(user._id, {
+      notificationPreferences: { email: args.email, sms: args.sms, phone },
+    })
+  },
+})
+
+/**
+ * The signed-in user's subscriptions (empty when signed out)
+ */
+export const listMySubscriptions = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return []
+
+    return await ctx.db
+      .query("subscriptions")
+      .withIndex("userId", (q) => q.eq("userId", user._id))
+      .collect()
+  },
+})
+
+/**
+ * Everything the signed-in user follows: teams with their upcoming and live games,
+ * followed games, and delivery preferences. Null when signed out.
+ */
+export const getMyFollowing = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) return null
+
+    const subscriptions = await ctx.db
+      .query("subscriptions")
+      .withIndex("userId", (q) => q.eq("userId", user._id))
+      .collect()
+
+    const withDetails = async (game: Doc<"games">) => {
+      const [homeTeam, awayTeam, state] = await Promise.all([
+        ctx.db.get(game.homeTeamId),
+        ctx.db.get(game.awayTeamId),
+        ctx.db
+          .query("gameState")
+          .withIndex("gameId", (q) => q.eq("gameId", game._id))
+          .first(),
+      ])
+      return { ...game, homeTeam, awayTeam, state }
+    }
+
+    const teams = await Promise.all(
+      subscriptions
+        .filter((sub) => sub.teamId)
+        .map(async (subscription) => {
+          const teamId = subscription.teamId!
+          const [team, homeGames, awayGames] = await Promise.all([
+            ctx.db.get(teamId),
+            ctx.db
+              .query("games")
+              .withIndex("homeTeamId", (q) => q.eq("homeTeamId", teamId))
+              .collect(),
+            ctx.db
+              .query("games")
+              .withIndex("awayTeamId", (q) => q.eq("awayTeamId", teamId))
+              .collect(),
+          ])
+          const games = [...homeGames, ...awayGames]
+            .filter((game) => game.status === "live" || game.status === "upcoming")
+            .sort((a, b) => a.scheduledStart - b.scheduledStart)
+          return {
+            subscription,
+            team,
+            games: await Promise.all(games.map(withDetails)),
+          }
+        })
+    )
+
+    const games = await Promise.all(
+      subscriptions
+        .filter((sub) => sub.gameId)
+        .map(async (subscription) => {
+          const game = await ctx.db.get(subscription.gameId!)
+          return { subscription, game: game && (await withDetails(game)) }
+        })
+    )
+
+    return {
+      preferences: user.notificationPreferences ?? { email: true, sms: false },
+      teams: teams.filter((entry) => entry.team !== null),
+      games: games
+        .filter((entry) => entry.game !== null)
+        .sort((a, b) => (a.game?.scheduledStart ?? 0) - (b.game?.scheduledStart ?? 0)),
+    }
+  },
+})
+
+/**
+ * Schedule notifications for a newly recorded event
+ * Called by the game mutations after inserting a goal, periodEnd or gameEnd event.
+ * Fan-out runs in its own transaction so scoring isn't slowed down by large followings.
+ */
+export async function notifySubscribers(ctx: MutationCtx, eventId: Id<"events">) {
+  await ctx.scheduler.runAfter(0, internal.notifications.fanOut, { eventId })
+}
+
+/**
+ * Write an outbox row for every subscriber and channel, and schedule delivery
+ * A game subscription takes precedence over team subscriptions for the same user,
+ * so each user gets at most one message per channel
+ */
+export const fanOut = internalMutation({
+  args: { eventId: v.id("events") },
+  handler: async (ctx, args) => {
+    const event = await ctx.db.get(args.eventId)
+    if (!event || event.voided) return
+
+    const setting = NOTIFY_ON_BY_EVENT_TYPE[event.type]
+    if (!setting) return
+
+    const game = await ctx.db.get(event.gameId)
+    if (!game) return
+
+    const [gameSubs, homeSubs, awaySubs] = await Promise.all([
+      ctx.db
+        .query("subscriptions")
+        .withIndex("gameId", (q) => q.eq("gameId", game._id))
+        .collect(),
+      ctx.db
+        .query("subscriptions")
+        .withIndex("teamId", (q) => q.eq("teamId", game.homeTeamId))
+        .collect(),
+      ctx.db
+        .query("subscriptions")
+        .withIndex("teamId", (q) => q.eq("teamId", game.awayTeamId))
+        .collect(),
+    ])
+
+    const wantsEvent = new Map<Id<"users">, boolean>()
+    for (const sub of gameSubs) {
+      wantsEvent.set(sub.userId, sub.notifyOn[setting])
+    }
+    for (const sub of [...homeSubs, ...awaySubs]) {
+      if (gameSubs.some((gameSub) => gameSub.userId === sub.userId)) continue
+      wantsEvent.set(sub.userId, (wantsEvent.get(sub.userId) ?? false) || sub.notifyOn[setting])
+    }
+
+    const userIds = [...wantsEvent.entries()].filter(([, wants]) => wants).map(([userId]) => userId)
+    if (userIds.length === 0) return
+
+    const message = await buildMessage(ctx, event, game)
+
+    for (const userId of userIds) {
+      const user = await ctx.db.get(userId)
+      if (!user) continue
+
+      // Users who never set preferences get email only
+      const preferences = user.notificationPreferences ?? { email: true, sms: false }
+      const recipients: { channel: "email" | "sms"; to: string }[] = []
+      if (preferences.email && user.email) {
+        recipients.push({ channel: "email", to: user.email })
+      }
+      if (preferences.sms && preferences.phone) {
+        recipients.push({ channel: "sms", to: preferences.phone })
+      }
+
+      for (const recipient of recipients) {
+        const notificationId = await ctx.db.insert("notifications", {
+          userId,
+          gameId: game._id,
+          eventId: event._id,
+          ...recipient,
+          ...message,
+          status: "pending",
+        })
+        await ctx.scheduler.runAfter(0, internal.notificationDelivery.deliver, { notificationId })
+      }
+    }
+  },
+})
+
+/**
+ * Load an outbox row for delivery
+ */
+export const getNotification = internalQuery({
+  args: { notificationId: v.id("notifications") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.notificationId)
+  },
+})
+
+/**
+ * Record the outcome of a delivery attempt
+ */
+export const recordDelivery = internalMutation({
+  args: {
+    notificationId: v.id("notifications"),
+    status: v.union(v.literal("sent"), v.literal("failed")),
+    provider: v.string(),
+    providerMessageId: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.notificationId, {
+      status: args.status,
+      provider: args.provider,
+      providerMessageId: args.providerMessageId,
+      error: args.error,
+      sentAt: args.status === "sent" ? Date.now() : undefined,
+    })
+  },
+})
+
+/**
+ * Subject and body for an event, with the score as of that event
+ */
+async function buildMessage(ctx: MutationCtx, event: Doc<"events">, game: Doc<"games">) {
+  const [homeTeam, awayTeam, goals] = await Promise.all([
+    ctx.db.get(game.homeTeamId),
+    ctx.db.get(game.awayTeamId),
+    ctx.db
+      .query("events")
+      .withIndex("gameId_timestamp", (q) =>
+        q.eq("gameId", game._id).lte("timestamp", event.timestamp)
+      )
+      .filter((q) => q.and(q.eq(q.field("type"), "goal"), q.neq(q.field("voided"), true)))
+      .collect(),
+  ])
+
+  const home = homeTeam?.abbreviation ?? "HOME"
+  const away = awayTeam?.abbreviation ?? "AWAY"
+  const homeScore = goals.filter((goal) => goal.scoringTeam === "home").length
+  const awayScore = goals.filter((goal) => goal.scoringTeam === "away").length
+  const scoreLine = `${home} ${homeScore} - ${awayScore} ${away}`
+
+  if (event.type === "goal") {
+    const team = event.scoringTeam === "home" ? homeTeam : awayTeam
+    const [scorer, assist] = await Promise.all([
+      event.scoredBy ? ctx.db.get(event.scoredBy) : null,
+      event.assistedBy ? ctx.db.get(event.assistedBy) : null,
+    ])
+    const credit = scorer
+      ? `${scorer.firstName} ${scorer.lastName} scores${
+          assist ? ` from ${assist.firstName} ${assist.lastName}` : ""
+        }. `
+      : ""
+    return {
+      subject: `Goal ${team?.name ?? event.scoringTeam}! ${scoreLine}`,
+      body: `${credit}${scoreLine}`,
+    }
+  }
+
+  if (event.type === "gameEnd") {
+    return {
+      subject: `Final: ${scoreLine}`,
+      body: `${event.description}. Final score: ${scoreLine}`,
+    }
+  }
+
+  return {
+    subject: `${event.description}: ${scoreLine}`,
+    body: `${event.description}. Score: ${scoreLine}`,
+  }
+}
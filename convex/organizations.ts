@@ -0,0 +1,357 @@
+/**
+ * Organizations (clubs and leagues)
+ * Teams, games, players, tournaments, leagues and seasons belong to an organization
+ * through orgId. Each user works in one active organization at a time; lists are scoped
+ * to it and writes require a membership role there. Records without an orgId predate
+ * organizations and are only listed to users outside one until adopted
+ * (adoptUnassignedRecords). Game lists outside an organization show every game, since
+ * they back the public dashboard; lookups by id stay public.
+ */
+
+import { internalMutation, mutation, query, type QueryCtx } from "./_generated/server"
+import { v } from "convex/values"
+import type { Doc, Id } from "./_generated/dataModel"
+import { syncStatOrgIds } from "./stats"
+import { normalizeEmail } from "./users"
+
+export type OrgRole = Doc<"orgMembers">["role"]
+
+const orgRoleValidator = v.union(
+  v.literal("owner"),
+  v.literal("admin"),
+  v.literal("scorekeeper"),
+  v.literal("viewer")
+)
+
+// Higher ranks include everything lower ranks can do
+const ROLE_RANK: Record<OrgRole, number> = {
+  viewer: 0,
+  scorekeeper: 1,
+  admin: 2,
+  owner: 3,
+}
+
+/**
+ * Create an organization; the creator becomes its owner and switches to it
+ * The organization gets the plan of its owners (see getOrgPlan in billing.ts).
+ */
+export const createOrganization = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+
+    const name = args.name.trim()
+    if (!name) {
+      throw new Error("Organization name is required")
+    }
+
+    const orgId = await ctx.db.insert("organizations", {
+      name,
+      createdBy: user._id,
+    })
+
+    await ctx.db.insert("orgMembers", { orgId, userId: user._id, role: "owner" })
+    await ctx.db.patch(user._id, { activeOrgId: orgId })
+
+    return orgId
+  },
+})
+
+/**
+ * Switch the active organization
+ * Pass no orgId to leave organizations and see unscoped data only
+ */
+export const setActiveOrganization = mutation({
+  args: { orgId: v.optional(v.id("organizations")) },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+
+    if (args.orgId && !(await getMembership(ctx, args.orgId, user._id))) {
+      throw new Error("Not a member of this organization")
+    }
+
+    await ctx.db.patch(user._id, { activeOrgId: args.orgId })
+  },
+})
+
+/**
+ * Add an existing user to an organization by email, or change their role
+ * Requires: owner or admin role in the organization; only owners can grant owner
+ */
+export const setMemberRole = mutation({
+  args: {
+    orgId: v.id("organizations"),
+    email: v.string(),
+    role: orgRoleValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+    const membership = await requireOrgRole(ctx, user, args.orgId, "admin")
+    if (args.role === "owner" && membership?.role !== "owner") {
+      throw new Error("Only owners can add owners")
+    }
+
+    const member = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", normalizeEmail(args.email)))
+      .first()
+    if (!member) {
+      throw new Error("No user with that email has signed in yet")
+    }
+
+    const existing = await getMembership(ctx, args.orgId, member._id)
+    if (existing) {
+      if (existing.role === "owner" && membership?.role !== "owner") {
+        throw new Error("Only owners can change an owner's role")
+      }
+      await ctx.db.patch(existing._id, { role: args.role })
+      return existing._id
+    }
+
+    return await ctx.db.insert("orgMembers", {
+      orgId: args.orgId,
+      userId: member._id,
+      role: args.role,
+    })
+  },
+})
+
+/**
+ * Remove a member from an organization
+ * Requires: owner or admin role; an organization always keeps at least one owner
+ */
+export const removeMember = mutation({
+  args: { memberId: v.id("orgMembers") },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+
+    const member = await ctx.db.get(args.memberId)
+    if (!member) {
+      throw new Error("Member not found")
+    }
+
+    const membership = await requireOrgRole(ctx, user, member.orgId, "admin")
+    if (member.role === "owner") {
+      if (membership?.role !== "owner") {
+        throw new Error("Only owners can remove an owner")
+      }
+      const owners = (
+        await ctx.db
+          .query("orgMembers")
+          .withIndex("orgId", (q) => q.eq("orgId", member.orgId))
+          .collect()
+      ).filter((m) => m.role === "owner")
+      if (owners.length === 1) {
+        throw new Error("An organization needs at least one owner")
+      }
+    }
+
+    await ctx.db.delete(args.memberId)
+
+    const removedUser = await ctx.db.get(member.userId)
+    if (removedUser?.activeOrgId === member.orgId) {
+      await ctx.db.patch(removedUser._id, { activeOrgId: undefined })
+    }
+  },
+})
+
+/**
+ * Organizations the signed-in user belongs to, and which one is active
+ */
+export const listMyOrganizations = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user) {
+      return { activeOrgId: undefined, organizations: [] }
+    }
+
+    const memberships = await ctx.db
+      .query("orgMembers")
+      .withIndex("userId", (q) => q.eq("userId", user._id))
+      .collect()
+
+    const organizations = await Promise.all(
+      memberships.map(async (membership) => ({
+        ...(await ctx.db.get(membership.orgId))!,
+        role: membership.role,
+      }))
+    )
+
+    return {
+      activeOrgId: await getActiveOrgId(ctx, user),
+      organizations: organizations.sort((a, b) => a.name.localeCompare(b.name)),
+    }
+  },
+})
+
+/**
+ * Members of the active organization
+ */
+export const listMembers = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    const orgId = user ? await getActiveOrgId(ctx, user) : undefined
+    if (!orgId) return []
+
+    const members = await ctx.db
+      .query("orgMembers")
+      .withIndex("orgId", (q) => q.eq("orgId", orgId))
+      .collect()
+
+    return await Promise.all(
+      members.map(async (member) => ({ ...member, user: await ctx.db.get(member.userId) }))
+    )
+  },
+})
+
+/**
+ * Move every team, game, player, tournament, league and season without an organization
+ * into one
+ * Run once from the dashboard when a deployment starts using organizations. Player stat
+ * totals follow their players.
+ */
+export const adoptUnassignedRecords = internalMutation({
+  args: { orgId: v.id("organizations") },
+  handler: async (ctx, args) => {
+    const counts = { teams: 0, games: 0, players: 0, tournaments: 0, leagues: 0, seasons: 0 }
+
+    for (const table of ["teams", "games", "players", "seasons"] as const) {
+      const records = await ctx.db
+        .query(table)
+        .withIndex("orgId", (q) => q.eq("orgId", undefined))
+        .collect()
+      for (const record of records) {
+        await ctx.db.patch(record._id, { orgId: args.orgId })
+      }
+      counts[table] = records.length
+    }
+
+    const tournaments = await ctx.db
+      .query("tournaments")
+      .withIndex("orgId_startDate", (q) => q.eq("orgId", undefined))
+      .collect()
+    const leagues = await ctx.db
+      .query("leagues")
+      .withIndex("orgId_name", (q) => q.eq("orgId", undefined))
+      .collect()
+    for (const record of [...tournaments, ...leagues]) {
+      await ctx.db.patch(record._id, { orgId: args.orgId })
+    }
+    counts.tournaments = tournaments.length
+    counts.leagues = leagues.length
+    await syncStatOrgIds(ctx)
+
+    return counts
+  },
+})
+
+/**
+ * The signed-in user's record (null when signed out or not synced yet)
+ */
+export async function getCurrentUser(ctx: QueryCtx) {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) {
+    return null
+  }
+
+  return await ctx.db
+    .query("users")
+    .withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+    .first()
+}
+
+/**
+ * The signed-in user's record, for mutations that need one
+ */
+export async function requireUser(ctx: QueryCtx) {
+  const identity = await ctx.auth.getUserIdentity()
+  if (!identity) {
+    throw new Error("Not authenticated")
+  }
+
+  const user = await getCurrentUser(ctx)
+  if (!user) {
+    throw new Error("User not found")
+  }
+
+  return user
+}
+
+/**
+ * The user's active organization, if they are still a member of it
+ */
+export async function getActiveOrgId(
+  ctx: QueryCtx,
+  user: Doc<"users"> | null
+): Promise<Id<"organizations"> | undefined> {
+  if (!user?.activeOrgId) return undefined
+  const membership = await getMembership(ctx, user.activeOrgId, user._id)
+  return membership ? user.activeOrgId : undefined
+}
+
+/**
+ * Active organization of the signed-in user (undefined when signed out or not in one)
+ */
+export async function getCallerOrgId(ctx: QueryCtx) {
+  return await getActiveOrgId(ctx, await getCurrentUser(ctx))
+}
+
+/**
+ * Require at least `role` in the organization a record belongs to
+ * Records outside the user's active organization are reported as not found.
+ * Records without an organization are left to the caller's existing permission checks.
+ */
+export async function requireOrgRole(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  orgId: Id<"organizations"> | undefined,
+  role: OrgRole,
+  notFoundMessage = "Not found"
+) {
+  if (!orgId) return null
+
+  const membership =
+    user.activeOrgId === orgId ? await getMembership(ctx, orgId, user._id) : null
+  if (!membership) {
+    throw new Error(notFoundMessage)
+  }
+
+  if (ROLE_RANK[membership.role] < ROLE_RANK[role]) {
+    throw new Error("Not authorized in this organization")
+  }
+
+  return membership
+}
+
+/**
+ * The user's role in an organization, or null unless it is their active organization
+ */
+export async function getOrgRole(
+  ctx: QueryCtx,
+  user: Doc<"users">,
+  orgId: Id<"organizations">
+): Promise<OrgRole | null> {
+  if (user.activeOrgId !== orgId) return null
+  const membership = await getMembership(ctx, orgId, user._id)
+  return membership?.role ?? null
+}
+
+/**
+ * Whether a role includes everything `required` can do
+ */
+export function hasOrgRank(role: OrgRole | null, required: OrgRole) {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required]
+}
+
+async function getMembership(
+  ctx: QueryCtx,
+  orgId: Id<"organizations">,
+  userId: Id<"users">
+) {
+  return await ctx.db
+    .query("orgMembers")
+    .withIndex("orgId_userId", (q) => q.eq("orgId", orgId).eq("userId", userId))
+    .first()
+}
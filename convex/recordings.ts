@@ -0,0 +1,333 @@
+/**
+ * Stream recordings
+ * Live inputs record automatically. When a game's stream ends, syncRecordings copies the
+ * provider's recording list into the recordings table, retrying while the provider is
+ * still processing. Recordings are replayed on the public game page unless hidden, and
+ * the people who manage a game can rename, hide or delete its recordings. Deleted
+ * recordings leave a tombstone in deletedRecordings, since not every provider can delete
+ * the video and the next sync would otherwise import it again.
+ */
+
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+  type MutationCtx,
+} from "./_generated/server"
+import { v } from "convex/values"
+import { internal } from "./_generated/api"
+import type { Doc, Id } from "./_generated/dataModel"
+import { deleteRecordingClips } from "./clips"
+import { getGameAccess, requireGameAccess } from "./gameStaff"
+import { getCallerOrgId, getCurrentUser, requireUser } from "./organizations"
+import { getStreamProvider } from "./streamProviders"
+
+// Providers need a little while to finish a recording after the stream ends
+const SYNC_RETRY_MS = 60 * 1000
+const SYNC_MAX_ATTEMPTS = 10
+
+const recordingStatusValidator = v.union(
+  v.literal("ready"),
+  v.literal("processing"),
+  v.literal("failed")
+)
+
+/**
+ * Replays of a game's stream, oldest first
+ * Hidden recordings are left out.
+ */
+export const listGameRecordings = query({
+  args: { gameId: v.id("games") },
+  handler: async (ctx, args) => {
+    const recordings = await ctx.db
+      .query("recordings")
+      .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+      .collect()
+
+    return recordings
+      .filter((recording) => !recording.hidden)
+      .sort((a, b) => a.startedAt - b.startedAt)
+  },
+})
+
+/**
+ * Recordings of the games the caller manages in their active organization, newest first
+ * Returns null for users who can't manage games.
+ */
+export const listRecordings = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx)
+    if (!user?.canManageGames) {
+      return null
+    }
+
+    const orgId = await getCallerOrgId(ctx)
+    const recordings = await ctx.db
+      .query("recordings")
+      .withIndex("orgId", (q) => q.eq("orgId", orgId))
+      .collect()
+
+    const withGames = await Promise.all(
+      recordings.map(async (recording) => {
+        const game = await ctx.db.get(recording.gameId)
+        if (!game || !(await getGameAccess(ctx, user, game)).canManage) {
+          return null
+        }
+
+        const [homeTeam, awayTeam] = await Promise.all([
+          ctx.db.get(game.homeTeamId),
+          ctx.db.get(game.awayTeamId),
+        ])
+        return {
+          ...recording,
+          game: {
+            _id: game._id,
+            scheduledStart: game.scheduledStart,
+            homeTeamName: homeTeam?.name ?? "Unknown team",
+            awayTeamName: awayTeam?.name ?? "Unknown team",
+          },
+        }
+      })
+    )
+
+    return withGames
+      .filter((recording) => recording !== null)
+      .sort((a, b) => b.startedAt - a.startedAt)
+  },
+})
+
+/**
+ * Rename a recording
+ * Requires: permission to manage the recording's game
+ */
+export const renameRecording = mutation({
+  args: {
+    recordingId: v.id("recordings"),
+    title: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireRecordingAccess(ctx, args.recordingId)
+
+    const title = args.title.trim()
+    if (!title) {
+      throw new Error("Recording title can't be empty")
+    }
+
+    await ctx.db.patch(args.recordingId, { title })
+  },
+})
+
+/**
+ * Hide a recording from the public game page, or show it again
+ * Requires: permission to manage the recording's game
+ */
+export const setRecordingHidden = mutation({
+  args: {
+    recordingId: v.id("recordings"),
+    hidden: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    await requireRecordingAccess(ctx, args.recordingId)
+    await ctx.db.patch(args.recordingId, { hidden: args.hidden })
+  },
+})
+
+/**
+ * Delete a recording, and the video from the stream provider
+ * Requires: permission to manage the recording's game
+ */
+export const deleteRecording = mutation({
+  args: { recordingId: v.id("recordings") },
+  handler: async (ctx, args) => {
+    const recording = await requireRecordingAccess(ctx, args.recordingId)
+    await deleteRecordings(ctx, [recording])
+  },
+})
+
+/**
+ * Copy the stream provider's recordings of a game's live input into recordings
+ * Scheduled when a game's stream ends; reschedules itself while nothing has been
+ * recorded yet or recordings are still processing.
+ */
+export const syncRecordings = internalAction({
+  args: {
+    gameId: v.id("games"),
+    attempt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const attempt = args.attempt ?? 1
+    const game = await ctx.runQuery(internal.recordings.getRecordingSource, {
+      gameId: args.gameId,
+    })
+    if (!game?.streamId) return
+
+    const provider = getStreamProvider()
+    const recordings = await provider.listRecordings(game.streamId)
+
+    await ctx.runMutation(internal.recordings.saveRecordings, {
+      gameId: args.gameId,
+      liveInputId: game.streamId,
+      provider: provider.name,
+      recordings: recordings.map((recording) => ({
+        providerRecordingId: recording.id,
+        startedAt: recording.startedAt,
+        durationSeconds: recording.durationSeconds,
+        status: recording.status,
+        playbackUrl: recording.playbackUrl,
+        thumbnailUrl: recording.thumbnailUrl,
+      })),
+    })
+
+    const pending =
+      recordings.length === 0 || recordings.some((recording) => recording.status === "processing")
+    if (pending && attempt < SYNC_MAX_ATTEMPTS) {
+      await ctx.scheduler.runAfter(SYNC_RETRY_MS, internal.recordings.syncRecordings, {
+        gameId: args.gameId,
+        attempt: attempt + 1,
+      })
+    }
+  },
+})
+
+/**
+ * Insert new recordings for a game and refresh the status of known ones
+ * Titles and visibility set by admins are kept, and deleted recordings are skipped.
+ */
+export const saveRecordings = internalMutation({
+  args: {
+    gameId: v.id("games"),
+    liveInputId: v.string(),
+    provider: v.string(),
+    recordings: v.array(
+      v.object({
+        providerRecordingId: v.string(),
+        startedAt: v.number(),
+        durationSeconds: v.optional(v.number()),
+        status: recordingStatusValidator,
+        playbackUrl: v.optional(v.string()),
+        thumbnailUrl: v.optional(v.string()),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get(args.gameId)
+    if (!game) return
+
+    const [homeTeam, awayTeam] = await Promise.all([
+      ctx.db.get(game.homeTeamId),
+      ctx.db.get(game.awayTeamId),
+    ])
+    const gameTitle = `${homeTeam?.name ?? "Home"} vs ${awayTeam?.name ?? "Away"}`
+
+    let count = (
+      await ctx.db
+        .query("recordings")
+        .withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+        .collect()
+    ).length
+
+    for (const recording of [...args.recordings].sort((a, b) => a.startedAt - b.startedAt)) {
+      const existing = await ctx.db
+        .query("recordings")
+        .withIndex("providerRecordingId", (q) =>
+          q.eq("providerRecordingId", recording.providerRecordingId)
+        )
+        .first()
+
+      if (existing) {
+        await ctx.db.patch(existing._id, {
+          durationSeconds: recording.durationSeconds,
+          status: recording.status,
+          playbackUrl: recording.playbackUrl,
+          thumbnailUrl: recording.thumbnailUrl,
+        })
+        continue
+      }
+
+      const deleted = await ctx.db
+        .query("deletedRecordings")
+        .withIndex("providerRecordingId", (q) =>
+          q.eq("providerRecordingId", recording.providerRecordingId)
+        )
+        .first()
+      if (deleted?.provider === args.provider) continue
+
+      count++
+      await ctx.db.insert("recordings", {
+        gameId: args.gameId,
+        liveInputId: args.liveInputId,
+        provider: args.provider,
+        ...recording,
+        title: count === 1 ? gameTitle : `${gameTitle} (part ${count})`,
+        hidden: false,
+        orgId: game.orgId,
+      })
+    }
+  },
+})
+
+/**
+ * The live input a game streamed from
+ */
+export const getRecordingSource = internalQuery({
+  args: { gameId: v.id("games") },
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get(args.gameId)
+    return game ? { streamId: game.streamId } : null
+  },
+})
+
+/**
+ * Delete a recording's video from the stream provider that made it
+ */
+export const deleteProviderRecording = internalAction({
+  args: {
+    provider: v.string(),
+    providerRecordingId: v.string(),
+  },
+  handler: async (_ctx, args) => {
+    const provider = getStreamProvider()
+    if (provider.name !== args.provider) {
+      console.error(
+        `Recording ${args.providerRecordingId} was made by ${args.provider}, not ${provider.name}; it was not deleted`
+      )
+      return
+    }
+
+    await provider.deleteRecording(args.providerRecordingId)
+  },
+})
+
+/**
+ * Delete recordings and their clips, and schedule deletion of their videos from the
+ * stream provider
+ */
+export async function deleteRecordings(ctx: MutationCtx, recordings: Doc<"recordings">[]) {
+  for (const recording of recordings) {
+    await deleteRecordingClips(ctx, recording)
+    await ctx.db.delete(recording._id)
+    await ctx.db.insert("deletedRecordings", {
+      provider: recording.provider,
+      providerRecordingId: recording.providerRecordingId,
+      deletedAt: Date.now(),
+    })
+    await ctx.scheduler.runAfter(0, internal.recordings.deleteProviderRecording, {
+      provider: recording.provider,
+      providerRecordingId: recording.providerRecordingId,
+    })
+  }
+}
+
+async function requireRecordingAccess(ctx: MutationCtx, recordingId: Id<"recordings">) {
+  const user = await requireUser(ctx)
+  const recording = await ctx.db.get(recordingId)
+  if (!recording) {
+    throw new Error("Recording not found")
+  }
+
+  await requireGameAccess(ctx, user, recording.gameId, "manage")
+  return recording
+}
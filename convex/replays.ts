@@ -0,0 +1,39 @@
+/**
+ * Replay helpers shared by clip mutations and the replay player
+ * Maps a wall-clock time of the game (e.g. a play-by-play event) to a position in one of
+ * its recordings
+ */
+
+import type { Doc } from "./_generated/dataModel"
+
+/**
+ * Recordings that can be played back: ready and with a playback URL
+ */
+export function getPlayableRecordings(recordings: Doc<"recordings">[]) {
+  return recordings.filter((recording) => recording.status === "ready" && recording.playbackUrl)
+}
+
+/**
+ * The playable recording covering a wall-clock time, and how far into it that time is
+ * A recording without a known duration is assumed to run until the next playable one
+ * starts (or indefinitely if it is the last). Where recordings overlap, the one that
+ * started last wins.
+ */
+export function findRecordingAt(recordings: Doc<"recordings">[], timestamp: number) {
+  const playable = getPlayableRecordings(recordings).sort((a, b) => a.startedAt - b.startedAt)
+
+  for (let i = playable.length - 1; i >= 0; i--) {
+    const recording = playable[i]
+    if (recording.startedAt > timestamp) continue
+
+    const endsAt =
+      recording.durationSeconds !== undefined
+        ? recording.startedAt + recording.durationSeconds * 1000
+        : (playable[i + 1]?.startedAt ?? Infinity)
+    if (timestamp <= endsAt) {
+      return { recording, offsetSeconds: (timestamp - recording.startedAt) / 1000 }
+    }
+  }
+
+  return null
+}
@@ -1,6 +1,13 @@
 import { defineSchema, defineTable } from "convex/server"
 import { v } from "convex/values"
 
+// A user's role and permission flags, as recorded in the permission audit log
+const permissionsValidator = v.object({
+  role: v.union(v.literal("admin"), v.literal("scorekeeper"), v.literal("viewer")),
+  canManageGames: v.boolean(),
+  canManageTeams: v.boolean(),
+})
+
 export default defineSchema({
   // 1. GAMES - Core game entity
   games: defineTable({
@@ -26,6 +33,7 @@ export default defineSchema({
     actualStart: v.optional(v.number()),
     endTime: v.optional(v.number()),
     venue: v.string(),
+    field: v.optional(v.string()), // Field at the venue, e.g. "Field 3"; each field has one live stream slot
     
     // Field Information
     fieldInfo: v.optional(v.object({
@@ -52,9 +60,9 @@ export default defineSchema({
     // Mixed Division Support
     genderRatioRequired: v.optional(v.boolean()),
     
-    // Cloudflare Stream Integration
-    streamId: v.optional(v.string()), // Cloudflare Stream video ID
-    streamKey: v.optional(v.string()), // Live input key (admin only, encrypted)
+    // Live Streaming (see streamProviders.ts)
+    streamId: v.optional(v.string()), // Stream provider live input ID
+    streamKey: v.optional(v.string()), // Deprecated: moved to streamCredentials (see streams.migrateStreamCredentials)
     streamStatus: v.optional(v.union(
       v.literal("upcoming"),
       v.literal("live"),
@@ -62,14 +70,30 @@ export default defineSchema({
       v.literal("failed")
     )),
     streamUrl: v.optional(v.string()), // HLS manifest URL
-    webRtcPublishUrl: v.optional(v.string()), // WebRTC publish URL (WHIP)
+    webRtcPublishUrl: v.optional(v.string()), // Deprecated: moved to streamCredentials
     webRtcPlaybackUrl: v.optional(v.string()), // WebRTC playback URL (WHEP)
     streamStartTime: v.optional(v.number()), // Unix timestamp
     streamEndTime: v.optional(v.number()),
+    
+    // Tournament Play
+    tournamentId: v.optional(v.id("tournaments")),
+    poolId: v.optional(v.id("pools")), // Set for pool play games
+    bracketSlotId: v.optional(v.id("bracketSlots")), // Set for bracket games
+    
+    // League Play
+    seasonId: v.optional(v.id("seasons")),
+    
+    // Owning organization (unset for records created before organizations)
+    orgId: v.optional(v.id("organizations")),
   })
     .index("status_scheduledStart", ["status", "scheduledStart"])
+    .index("orgId", ["orgId"])
+    .index("orgId_status_scheduledStart", ["orgId", "status", "scheduledStart"])
     .index("homeTeamId", ["homeTeamId"])
     .index("awayTeamId", ["awayTeamId"])
+    .index("tournamentId", ["tournamentId"])
+    .index("poolId", ["poolId"])
+    .index("seasonId", ["seasonId"])
     .index("streamStatus", ["streamStatus"]),
   
   // 2. GAME STATE - Real-time game data (separate for performance)
@@ -84,10 +108,14 @@ export default defineSchema({
     period: v.number(), // Quarter/half number
     clockSeconds: v.number(),
     clockRunning: v.boolean(),
+    runningSince: v.optional(v.number()), // Server time the clock last started; clockSeconds is the value at that moment
+    capStatus: v.optional(v.union(v.literal("soft"), v.literal("hard"))), // Set when the soft/hard cap time passes
+    cappedTarget: v.optional(v.number()), // Target score after a cap (higher score + 1, at most targetScore)
     
     // Possession
     possession: v.union(v.literal("home"), v.literal("away")),
     pointStartedWith: v.union(v.literal("home"), v.literal("away")),
+    openingPossession: v.optional(v.union(v.literal("home"), v.literal("away"))), // Captured at game start for event replay
     
     // Timeouts
     homeTimeoutsRemaining: v.number(),
@@ -127,9 +155,13 @@ export default defineSchema({
       v.literal("substitution"),
       v.literal("penalty"),
       v.literal("periodEnd"),
+      v.literal("cap"),
       v.literal("gameEnd")
     ),
     
+    // Team that called a timeout or made a substitution
+    team: v.optional(v.union(v.literal("home"), v.literal("away"))),
+    
     // Goal Details
     scoringTeam: v.optional(v.union(v.literal("home"), v.literal("away"))),
     scoredBy: v.optional(v.id("players")),
@@ -158,10 +190,35 @@ export default defineSchema({
     
     // Audit
     recordedBy: v.id("users"),
+    
+    // Corrections (events are never deleted, only voided)
+    voided: v.optional(v.boolean()),
+    voidedAt: v.optional(v.number()),
+    voidedBy: v.optional(v.id("users")),
+    voidReason: v.optional(v.string()),
+    replacesEventId: v.optional(v.id("events")), // Set on the corrected copy created by editEvent
   })
     .index("gameId_timestamp", ["gameId", "timestamp"])
     .index("gameId", ["gameId"]),
   
+  // 3b. LINEUPS - Players on the field for each point
+  lineups: defineTable({
+    gameId: v.id("games"),
+    team: v.union(v.literal("home"), v.literal("away")),
+    pointNumber: v.number(), // 1-based; total goals before the point + 1
+    line: v.union(v.literal("O"), v.literal("D")),
+    playerIds: v.array(v.id("players")),
+    genderRatio: v.optional(v.object({
+      male: v.number(),
+      female: v.number(),
+    })),
+    setAt: v.number(),
+    setBy: v.id("users"),
+  })
+    .index("gameId", ["gameId"])
+    .index("gameId_team_point", ["gameId", "team", "pointNumber"])
+    .index("gameId_point", ["gameId", "pointNumber"]),
+  
   // 4. TEAMS
   teams: defineTable({
     name: v.string(),
@@ -176,7 +233,9 @@ export default defineSchema({
       v.literal("womens"),
       v.literal("mixed")
     )),
-  }),
+    orgId: v.optional(v.id("organizations")),
+  })
+    .index("orgId", ["orgId"]),
   
   // 5. PLAYERS
   players: defineTable({
@@ -190,9 +249,11 @@ export default defineSchema({
     gender: v.optional(v.union(v.literal("M"), v.literal("F"))),
     
     isActive: v.boolean(),
+    orgId: v.optional(v.id("organizations")), // Same as the team's
   })
     .index("teamId_active", ["teamId", "isActive"])
-    .index("teamId", ["teamId"]),
+    .index("teamId", ["teamId"])
+    .index("orgId", ["orgId"]),
   
   // 6. USERS (for authentication & admin)
   users: defineTable({
@@ -211,6 +272,18 @@ export default defineSchema({
       sms: v.boolean(),
       phone: v.optional(v.string()),
     })),
+    
+    // Billing (cached from Autumn by the billing webhook and syncPlan; unset means free)
+    plan: v.optional(v.union(v.literal("free"), v.literal("pro"), v.literal("premium"))),
+    billingStatus: v.optional(v.union(
+      v.literal("active"),
+      v.literal("past_due"),
+      v.literal("cancelled")
+    )),
+    planSyncedAt: v.optional(v.number()),
+    
+    // Organization the user is working in (see organizations.ts)
+    activeOrgId: v.optional(v.id("organizations")),
   })
     .index("clerkId", ["clerkId"])
     .index("email", ["email"]),
@@ -231,4 +304,293 @@ export default defineSchema({
     .index("userId", ["userId"])
     .index("gameId", ["gameId"])
     .index("teamId", ["teamId"]),
+  
+  // 8. TOURNAMENTS
+  tournaments: defineTable({
+    name: v.string(),
+    venue: v.string(),
+    startDate: v.number(),
+    
+    // Rules applied to every game the tournament schedules
+    ruleConfig: v.object({
+      stallCount: v.union(v.literal(6), v.literal(7), v.literal(10)),
+      targetScore: v.optional(v.number()),
+      quarterLength: v.optional(v.number()),
+      halfLength: v.optional(v.number()),
+      timeoutsPerHalf: v.number(),
+      timeoutDuration: v.number(),
+      capRules: v.optional(v.object({
+        softCapTime: v.number(),
+        hardCapTime: v.number(),
+      })),
+    }),
+    genderRatioRequired: v.optional(v.boolean()),
+    
+    createdBy: v.id("users"),
+    orgId: v.optional(v.id("organizations")),
+  })
+    .index("orgId_startDate", ["orgId", "startDate"]),
+  
+  // 9. POOLS - Round-robin groups within a tournament
+  pools: defineTable({
+    tournamentId: v.id("tournaments"),
+    name: v.string(), // "Pool A"
+    teamIds: v.array(v.id("teams")), // In seed order
+  })
+    .index("tournamentId", ["tournamentId"]),
+  
+  // 10. BRACKET SLOTS - Single-elimination matchups
+  bracketSlots: defineTable({
+    tournamentId: v.id("tournaments"),
+    round: v.number(), // 1 = first round, last round = final
+    position: v.number(), // 0-based order within the round
+    
+    homeTeamId: v.optional(v.id("teams")),
+    awayTeamId: v.optional(v.id("teams")),
+    homeSeedLabel: v.optional(v.string()), // Shown until the team is known, e.g. "A1"
+    awaySeedLabel: v.optional(v.string()),
+    
+    gameId: v.optional(v.id("games")), // Created once both teams are known
+    winnerTeamId: v.optional(v.id("teams")),
+    scheduledStart: v.optional(v.number()),
+    
+    // Where the winner goes next (unset for the final)
+    nextSlotId: v.optional(v.id("bracketSlots")),
+    nextSlotSide: v.optional(v.union(v.literal("home"), v.literal("away"))),
+  })
+    .index("tournamentId_round", ["tournamentId", "round", "position"]),
+  
+  // 11. LEAGUES
+  leagues: defineTable({
+    name: v.string(),
+    description: v.optional(v.string()),
+    createdBy: v.id("users"),
+    orgId: v.optional(v.id("organizations")),
+  })
+    .index("orgId_name", ["orgId", "name"]),
+  
+  // 12. SEASONS - A league's schedule; games join a season via games.seasonId
+  seasons: defineTable({
+    leagueId: v.id("leagues"),
+    name: v.string(), // e.g. "Summer 2026"
+    startDate: v.number(),
+    endDate: v.optional(v.number()),
+    createdBy: v.id("users"),
+    orgId: v.optional(v.id("organizations")), // Same as the league's
+  })
+    .index("leagueId_startDate", ["leagueId", "startDate"])
+    .index("orgId", ["orgId"]),
+  
+  // 13. PLAYER GAME STATS - One stat line per player per game, kept in sync with the event log
+  playerGameStats: defineTable({
+    gameId: v.id("games"),
+    playerId: v.id("players"),
+    teamId: v.id("teams"),
+    
+    goals: v.number(),
+    assists: v.number(),
+    hockeyAssists: v.number(),
+    blocks: v.number(), // Ds: turnovers forced by the player
+    turnovers: v.number(),
+    completionImpact: v.number(), // assists + hockey assists - throwing turnovers
+    pointsPlayed: v.number(),
+    plusMinus: v.number(),
+  })
+    .index("gameId_playerId", ["gameId", "playerId"])
+    .index("playerId", ["playerId"]),
+  
+  // 14. PLAYER SEASON STATS - Running totals per season; seasonId unset holds career totals
+  playerSeasonStats: defineTable({
+    seasonId: v.optional(v.id("seasons")),
+    playerId: v.id("players"),
+    teamId: v.id("teams"),
+    orgId: v.optional(v.id("organizations")), // Same as the player's
+    gamesPlayed: v.number(),
+    
+    goals: v.number(),
+    assists: v.number(),
+    hockeyAssists: v.number(),
+    blocks: v.number(), // Ds: turnovers forced by the player
+    turnovers: v.number(),
+    completionImpact: v.number(), // assists + hockey assists - throwing turnovers
+    pointsPlayed: v.number(),
+    plusMinus: v.number(),
+  })
+    .index("seasonId_playerId", ["seasonId", "playerId"])
+    .index("playerId", ["playerId"])
+    // Leaderboards: one index per stat so the top rows can be read in order
+    .index("orgId_seasonId_goals", ["orgId", "seasonId", "goals"])
+    .index("orgId_seasonId_assists", ["orgId", "seasonId", "assists"])
+    .index("orgId_seasonId_hockeyAssists", ["orgId", "seasonId", "hockeyAssists"])
+    .index("orgId_seasonId_blocks", ["orgId", "seasonId", "blocks"])
+    .index("orgId_seasonId_turnovers", ["orgId", "seasonId", "turnovers"])
+    .index("orgId_seasonId_completionImpact", ["orgId", "seasonId", "completionImpact"])
+    .index("orgId_seasonId_pointsPlayed", ["orgId", "seasonId", "pointsPlayed"])
+    .index("orgId_seasonId_plusMinus", ["orgId", "seasonId", "plusMinus"]),
+  
+  // 15. NOTIFICATIONS - Outbox of messages fanned out to subscribers from game events
+  notifications: defineTable({
+    userId: v.id("users"),
+    gameId: v.id("games"),
+    eventId: v.id("events"),
+    
+    channel: v.union(v.literal("email"), v.literal("sms")),
+    to: v.string(), // Email address or phone number
+    subject: v.string(),
+    body: v.string(),
+    
+    // Delivery
+    status: v.union(v.literal("pending"), v.literal("sent"), v.literal("failed")),
+    provider: v.optional(v.string()),
+    providerMessageId: v.optional(v.string()),
+    error: v.optional(v.string()),
+    sentAt: v.optional(v.number()),
+  })
+    .index("userId", ["userId"])
+    .index("gameId", ["gameId"])
+    .index("eventId", ["eventId"]),
+  
+  // 16. ORGANIZATIONS - Clubs and leagues that own teams, games and players
+  organizations: defineTable({
+    name: v.string(),
+    createdBy: v.id("users"),
+  }),
+  
+  // 17. ORGANIZATION MEMBERS - Per-organization roles
+  orgMembers: defineTable({
+    orgId: v.id("organizations"),
+    userId: v.id("users"),
+    role: v.union(
+      v.literal("owner"), // Everything, including managing owners
+      v.literal("admin"), // Manage teams, games and members
+      v.literal("scorekeeper"), // Run and score games
+      v.literal("viewer")
+    ),
+  })
+    .index("orgId", ["orgId"])
+    .index("userId", ["userId"])
+    .index("orgId_userId", ["orgId", "userId"]),
+  
+  // 18. GAME STAFF - Per-game assignments, independent of organization roles
+  gameStaff: defineTable({
+    gameId: v.id("games"),
+    userId: v.id("users"),
+    role: v.union(
+      v.literal("scorekeeper"), // Run the clock and record events
+      v.literal("streamer"), // Broadcast the game
+      v.literal("observer") // Follow the scorekeeper console read-only
+    ),
+    assignedBy: v.id("users"),
+  })
+    .index("gameId", ["gameId"])
+    .index("userId", ["userId"])
+    .index("gameId_userId", ["gameId", "userId"]),
+  
+  // 19. USER INVITATIONS - Roles pre-provisioned by email, claimed at first sign-in
+  userInvitations: defineTable({
+    email: v.string(), // Lowercased
+    role: v.union(v.literal("admin"), v.literal("scorekeeper"), v.literal("viewer")),
+    canManageGames: v.boolean(),
+    canManageTeams: v.boolean(),
+    invitedBy: v.id("users"),
+    status: v.union(v.literal("pending"), v.literal("accepted"), v.literal("revoked")),
+    acceptedBy: v.optional(v.id("users")),
+    acceptedAt: v.optional(v.number()),
+  })
+    .index("email_status", ["email", "status"])
+    .index("status", ["status"]),
+  
+  // 20. PERMISSION AUDIT - Append-only log of every role and permission change
+  permissionAudit: defineTable({
+    action: v.union(
+      v.literal("user_created"),
+      v.literal("permissions_changed"),
+      v.literal("invited"),
+      v.literal("invitation_revoked"),
+      v.literal("invitation_accepted")
+    ),
+    userId: v.optional(v.id("users")), // Whose permissions changed (unset until an invitation is claimed)
+    email: v.string(),
+    changedBy: v.optional(v.id("users")), // Unset for changes made by the system
+    before: v.optional(permissionsValidator),
+    after: v.optional(permissionsValidator),
+    timestamp: v.number(),
+  })
+    .index("timestamp", ["timestamp"])
+    .index("userId_timestamp", ["userId", "timestamp"]),
+  
+  // 21. STREAM CREDENTIALS - Publish secrets for a game's live input, never returned to viewers
+  streamCredentials: defineTable({
+    gameId: v.id("games"),
+    liveInputId: v.string(), // Cloudflare live input uid (games.streamId)
+    streamKey: v.optional(v.string()), // RTMP stream key
+    webRtcPublishUrl: v.optional(v.string()), // WebRTC publish URL (WHIP)
+  })
+    .index("gameId", ["gameId"]),
+  
+  // 22. LIVE INPUT CREATIONS - Rate limit history for paid live inputs
+  liveInputCreations: defineTable({
+    userId: v.id("users"),
+    gameId: v.id("games"),
+    timestamp: v.number(),
+  })
+    .index("userId_timestamp", ["userId", "timestamp"]),
+  
+  // 23. RECORDINGS - Replays of a game's stream, synced from the stream provider when it ends
+  recordings: defineTable({
+    gameId: v.id("games"),
+    liveInputId: v.string(), // games.streamId when the recording was made
+    provider: v.string(), // Stream provider that made it (see streamProviders.ts)
+    providerRecordingId: v.string(),
+    title: v.string(),
+    startedAt: v.number(), // Unix timestamp
+    durationSeconds: v.optional(v.number()),
+    status: v.union(v.literal("ready"), v.literal("processing"), v.literal("failed")),
+    playbackUrl: v.optional(v.string()),
+    thumbnailUrl: v.optional(v.string()),
+    hidden: v.boolean(), // Hidden recordings are only listed to game managers
+    orgId: v.optional(v.id("organizations")),
+  })
+    .index("gameId", ["gameId"])
+    .index("providerRecordingId", ["providerRecordingId"])
+    .index("orgId", ["orgId"]),
+  
+  // 24. CLIPS - Highlights cut from a recording around a game event, shareable at /clips/$clipId
+  clips: defineTable({
+    gameId: v.id("games"),
+    recordingId: v.id("recordings"),
+    eventId: v.optional(v.id("events")),
+    title: v.string(),
+    startSeconds: v.number(), // Offset into the recording
+    endSeconds: v.number(),
+    createdBy: v.id("users"),
+    orgId: v.optional(v.id("organizations")),
+  })
+    .index("gameId", ["gameId"])
+    .index("recordingId", ["recordingId"]),
+  
+  // 25. STREAM HEALTH SAMPLES - Provider status of a live stream, recorded by the streamHealth poll
+  streamHealthSamples: defineTable({
+    gameId: v.id("games"),
+    liveInputId: v.string(),
+    timestamp: v.number(),
+    state: v.union(v.literal("live"), v.literal("idle"), v.literal("unknown")),
+    providerState: v.optional(v.string()),
+    error: v.optional(v.string()), // Set when the provider couldn't be reached
+    ingestProtocol: v.optional(v.string()),
+    connectedSince: v.optional(v.number()),
+    bytesReceived: v.optional(v.number()),
+    bitrateKbps: v.optional(v.number()), // From bytesReceived since the previous sample
+    viewers: v.optional(v.number()),
+  })
+    .index("gameId_timestamp", ["gameId", "timestamp"])
+    .index("timestamp", ["timestamp"]),
+  
+  // 26. DELETED RECORDINGS - Provider recordings an admin deleted, so syncs don't import them again
+  deletedRecordings: defineTable({
+    provider: v.string(),
+    providerRecordingId: v.string(),
+    deletedAt: v.number(),
+  })
+    .index("providerRecordingId", ["providerRecordingId"]),
 })
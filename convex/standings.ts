@@ -0,0 +1,150 @@
+/**
+ * Standings helpers shared by league seasons and tournament pools
+ * Teams are ranked by win percentage; teams level on win percentage are separated by
+ * their head-to-head record against each other, then point differential, then points scored
+ */
+
+import type { Doc, Id } from "./_generated/dataModel"
+
+export interface StandingsResult {
+  homeTeamId: Id<"teams">
+  awayTeamId: Id<"teams">
+  homeScore: number
+  awayScore: number
+}
+
+export interface StandingsRow {
+  teamId: Id<"teams">
+  gamesPlayed: number
+  wins: number
+  losses: number
+  ties: number
+  winPct: number
+  pointsFor: number
+  pointsAgainst: number
+  pointDiff: number
+  // Record against the other teams in a tie, only set when a tiebreaker was needed
+  headToHead?: { wins: number; losses: number }
+}
+
+/**
+ * Rank teams from final scores
+ * Results involving a team outside `teamIds` are ignored
+ */
+export function computeStandings(teamIds: Id<"teams">[], results: StandingsResult[]): StandingsRow[] {
+  const rows = new Map<Id<"teams">, StandingsRow>(
+    teamIds.map((teamId) => [
+      teamId,
+      {
+        teamId,
+        gamesPlayed: 0,
+        wins: 0,
+        losses: 0,
+        ties: 0,
+        winPct: 0,
+        pointsFor: 0,
+        pointsAgainst: 0,
+        pointDiff: 0,
+      },
+    ])
+  )
+
+  const counted = results.filter(
+    (result) => rows.has(result.homeTeamId) && rows.has(result.awayTeamId)
+  )
+
+  for (const result of counted) {
+    const home = rows.get(result.homeTeamId)!
+    const away = rows.get(result.awayTeamId)!
+    tally(home, result.homeScore, result.awayScore)
+    tally(away, result.awayScore, result.homeScore)
+  }
+
+  for (const row of rows.values()) {
+    row.pointDiff = row.pointsFor - row.pointsAgainst
+    row.winPct = row.gamesPlayed > 0 ? (row.wins + row.ties / 2) / row.gamesPlayed : 0
+  }
+
+  const ranked = [...rows.values()].sort((a, b) => b.winPct - a.winPct || b.wins - a.wins)
+
+  // Break ties within each group of teams level on record
+  const standings: StandingsRow[] = []
+  for (let start = 0; start < ranked.length; ) {
+    let end = start + 1
+    while (
+      end < ranked.length &&
+      ranked[end].winPct === ranked[start].winPct &&
+      ranked[end].wins === ranked[start].wins
+    ) {
+      end++
+    }
+    standings.push(...breakTie(ranked.slice(start, end), counted))
+    start = end
+  }
+
+  return standings
+}
+
+/**
+ * Final scores of the completed games in a list
+ */
+export function completedResults(
+  games: (Doc<"games"> & { state: Doc<"gameState"> | null })[]
+): StandingsResult[] {
+  return games.flatMap((game) =>
+    game.status === "completed" && game.state
+      ? [{
+          homeTeamId: game.homeTeamId,
+          awayTeamId: game.awayTeamId,
+          homeScore: game.state.homeScore,
+          awayScore: game.state.awayScore,
+        }]
+      : []
+  )
+}
+
+function tally(row: StandingsRow, scored: number, conceded: number) {
+  row.gamesPlayed++
+  row.pointsFor += scored
+  row.pointsAgainst += conceded
+  if (scored > conceded) {
+    row.wins++
+  } else if (scored < conceded) {
+    row.losses++
+  } else {
+    row.ties++
+  }
+}
+
+function breakTie(group: StandingsRow[], results: StandingsResult[]): StandingsRow[] {
+  if (group.length < 2 || group[0].gamesPlayed === 0) {
+    return group
+  }
+
+  const tied = new Set(group.map((row) => row.teamId))
+  const headToHead = new Map(group.map((row) => [row.teamId, { wins: 0, losses: 0 }]))
+
+  for (const result of results) {
+    if (!tied.has(result.homeTeamId) || !tied.has(result.awayTeamId)) continue
+    if (result.homeScore === result.awayScore) continue
+
+    const [winner, loser] =
+      result.homeScore > result.awayScore
+        ? [result.homeTeamId, result.awayTeamId]
+        : [result.awayTeamId, result.homeTeamId]
+    headToHead.get(winner)!.wins++
+    headToHead.get(loser)!.losses++
+  }
+
+  const pct = (record: { wins: number; losses: number }) =>
+    record.wins + record.losses > 0 ? record.wins / (record.wins + record.losses) : 0.5
+
+  return group
+    .map((row) => ({ ...row, headToHead: headToHead.get(row.teamId) }))
+    .sort(
+      (a, b) =>
+        pct(b.headToHead!) - pct(a.headToHead!) ||
+        b.pointDiff - a.pointDiff ||
+        b.pointsFor - a.pointsFor
+    )
+}
@@ -0,0 +1,387 @@
+/**
+ * Player statistics
+ * playerGameStats holds each player's stat line for a game and playerSeasonStats holds
+ * running totals per season, plus career totals (seasonId unset). Event mutations call
+ * syncGameStats, which rebuilds the game's stat lines from its event log and lineups and
+ * applies only the difference to the season and career totals. Totals carry their
+ * player's orgId so leaderboards stay within an organization.
+ */
+
+import { internalMutation, query, type MutationCtx } from "./_generated/server"
+import { v } from "convex/values"
+import type { Doc, Id } from "./_generated/dataModel"
+import { getCallerPlan, requireFeature } from "./billing"
+import { getCallerOrgId } from "./organizations"
+
+const STAT_FIELDS = [
+  "goals",
+  "assists",
+  "hockeyAssists",
+  "blocks",
+  "turnovers",
+  "completionImpact",
+  "pointsPlayed",
+  "plusMinus",
+] as const
+
+type StatField = (typeof STAT_FIELDS)[number]
+type StatLine = Record<StatField, number>
+
+const statFieldValidator = v.union(...STAT_FIELDS.map((field) => v.literal(field)))
+
+/**
+ * Rebuild a game's stat lines from its event log and roll the change into the
+ * season and career totals
+ */
+export async function syncGameStats(ctx: MutationCtx, gameId: Id<"games">) {
+  const game = await ctx.db.get(gameId)
+  if (!game) return
+
+  const [events, lineups, existing] = await Promise.all([
+    ctx.db
+      .query("events")
+      .withIndex("gameId_timestamp", (q) => q.eq("gameId", gameId))
+      .order("asc")
+      .filter((q) => q.neq(q.field("voided"), true))
+      .collect(),
+    ctx.db
+      .query("lineups")
+      .withIndex("gameId", (q) => q.eq("gameId", gameId))
+      .collect(),
+    ctx.db
+      .query("playerGameStats")
+      .withIndex("gameId_playerId", (q) => q.eq("gameId", gameId))
+      .collect(),
+  ])
+
+  const computed = computeGameStatLines(events, lineups)
+  const existingByPlayer = new Map(existing.map((row) => [row.playerId, row]))
+  const playerIds = new Set([...computed.keys(), ...existingByPlayer.keys()])
+
+  for (const playerId of playerIds) {
+    const next = computed.get(playerId) ?? emptyStatLine()
+    const row = existingByPlayer.get(playerId)
+    const delta = subtractStatLines(next, row ? pickStatLine(row) : emptyStatLine())
+    if (isEmptyStatLine(delta)) continue
+
+    let teamId: Id<"teams">
+    let gamesDelta = 0
+    if (row) {
+      teamId = row.teamId
+      if (isEmptyStatLine(next)) {
+        await ctx.db.delete(row._id)
+        gamesDelta = -1
+      } else {
+        await ctx.db.patch(row._id, next)
+      }
+    } else {
+      // Stats for players removed from the roster are dropped
+      const player = await ctx.db.get(playerId)
+      if (!player) continue
+      teamId = player.teamId
+      await ctx.db.insert("playerGameStats", { gameId, playerId, teamId, ...next })
+      gamesDelta = 1
+    }
+
+    await applyTotals(ctx, game, playerId, teamId, delta, gamesDelta)
+  }
+}
+
+/**
+ * Remove a game's stat lines and take them back out of the season and career totals
+ * Used when a game is deleted or moved to another season
+ */
+export async function removeGameStats(ctx: MutationCtx, game: Doc<"games">) {
+  const rows = await ctx.db
+    .query("playerGameStats")
+    .withIndex("gameId_playerId", (q) => q.eq("gameId", game._id))
+    .collect()
+
+  for (const row of rows) {
+    await applyTotals(
+      ctx,
+      game,
+      row.playerId,
+      row.teamId,
+      subtractStatLines(emptyStatLine(), pickStatLine(row)),
+      -1
+    )
+    await ctx.db.delete(row._id)
+  }
+}
+
+/**
+ * Stat lines for every player in a game
+ */
+export const getGameStats = query({
+  args: { gameId: v.id("games") },
+  handler: async (ctx, args) => {
+    const rows = await ctx.db
+      .query("playerGameStats")
+      .withIndex("gameId_playerId", (q) => q.eq("gameId", args.gameId))
+      .collect()
+
+    return await Promise.all(
+      rows.map(async (row) => ({ ...row, player: await ctx.db.get(row.playerId) }))
+    )
+  },
+})
+
+/**
+ * Player profile: career totals, per-season totals and recent games
+ * Requires: a plan with advanced analytics
+ */
+export const getPlayerProfile = query({
+  args: { playerId: v.id("players") },
+  handler: async (ctx, args) => {
+    requireFeature(await getCallerPlan(ctx), "advancedAnalytics")
+
+    const player = await ctx.db.get(args.playerId)
+    if (!player) return null
+
+    const [team, totals, games] = await Promise.all([
+      ctx.db.get(player.teamId),
+      ctx.db
+        .query("playerSeasonStats")
+        .withIndex("playerId", (q) => q.eq("playerId", args.playerId))
+        .collect(),
+      ctx.db
+        .query("playerGameStats")
+        .withIndex("playerId", (q) => q.eq("playerId", args.playerId))
+        .order("desc")
+        .take(20),
+    ])
+
+    const seasons = await Promise.all(
+      totals
+        .filter((row) => row.seasonId !== undefined)
+        .map(async (row) => {
+          const season = row.seasonId ? await ctx.db.get(row.seasonId) : null
+          const league = season ? await ctx.db.get(season.leagueId) : null
+          return { ...row, season, league }
+        })
+    )
+
+    const gameLog = await Promise.all(
+      games.map(async (row) => {
+        const game = await ctx.db.get(row.gameId)
+        const opponentId =
+          game && (game.homeTeamId === row.teamId ? game.awayTeamId : game.homeTeamId)
+        return {
+          ...row,
+          game,
+          opponent: opponentId ? await ctx.db.get(opponentId) : null,
+        }
+      })
+    )
+
+    return {
+      player,
+      team,
+      career: totals.find((row) => row.seasonId === undefined) ?? null,
+      seasons: seasons.sort((a, b) => (b.season?.startDate ?? 0) - (a.season?.startDate ?? 0)),
+      gameLog: gameLog
+        .filter((row) => row.game !== null)
+        .sort((a, b) => (b.game?.scheduledStart ?? 0) - (a.game?.scheduledStart ?? 0)),
+    }
+  },
+})
+
+/**
+ * Top players for a stat in the caller's active organization, for a season or (without
+ * seasonId) across all games
+ * Also returns team totals summed from the same organization's rows
+ * Requires: a plan with advanced analytics
+ */
+export const getLeaderboard = query({
+  args: {
+    seasonId: v.optional(v.id("seasons")),
+    stat: statFieldValidator,
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    requireFeature(await getCallerPlan(ctx), "advancedAnalytics")
+
+    const orgId = await getCallerOrgId(ctx)
+    const byStat = () =>
+      ctx.db
+        .query("playerSeasonStats")
+        .withIndex(`orgId_seasonId_${args.stat}`, (q) =>
+          q.eq("orgId", orgId).eq("seasonId", args.seasonId)
+        )
+
+    const [top, rows] = await Promise.all([
+      byStat().order("desc").take(args.limit ?? 25),
+      // Team totals need every row in the organization's season
+      byStat().collect(),
+    ])
+
+    const players = await Promise.all(
+      top.map(async (row) => ({
+        ...row,
+        player: await ctx.db.get(row.playerId),
+        team: await ctx.db.get(row.teamId),
+      }))
+    )
+
+    const teamTotals = new Map<Id<"teams">, StatLine>()
+    for (const row of rows) {
+      teamTotals.set(
+        row.teamId,
+        addStatLines(teamTotals.get(row.teamId) ?? emptyStatLine(), pickStatLine(row))
+      )
+    }
+
+    const teams = await Promise.all(
+      [...teamTotals.entries()]
+        .sort(([, a], [, b]) => b[args.stat] - a[args.stat])
+        .map(async ([teamId, totals]) => ({
+          teamId,
+          team: await ctx.db.get(teamId),
+          ...totals,
+        }))
+    )
+
+    return { players, teams }
+  },
+})
+
+/**
+ * Set the orgId of season and career totals to their player's organization
+ * Run once from the dashboard to backfill totals written before they carried an orgId.
+ */
+export const syncStatOrgs = internalMutation({
+  args: {},
+  handler: async (ctx) => ({ updated: await syncStatOrgIds(ctx) }),
+})
+
+/**
+ * Move season and career totals into their player's organization, returning how many
+ * rows changed
+ */
+export async function syncStatOrgIds(ctx: MutationCtx) {
+  const rows = await ctx.db.query("playerSeasonStats").collect()
+
+  let updated = 0
+  for (const row of rows) {
+    const player = await ctx.db.get(row.playerId)
+    if (player && player.orgId !== row.orgId) {
+      await ctx.db.patch(row._id, { orgId: player.orgId })
+      updated++
+    }
+  }
+  return updated
+}
+
+/**
+ * Per-player stat lines from a game's (non-voided, oldest first) events and lineups
+ * Points played and plus/minus need a recorded line for the point
+ */
+function computeGameStatLines(events: Doc<"events">[], lineups: Doc<"lineups">[]) {
+  const lines = new Map<Id<"players">, StatLine>()
+  const bump = (playerId: Id<"players"> | undefined, field: StatField, amount = 1) => {
+    if (!playerId) return
+    const line = lines.get(playerId) ?? emptyStatLine()
+    line[field] += amount
+    lines.set(playerId, line)
+  }
+
+  for (const event of events) {
+    if (event.type === "goal") {
+      bump(event.scoredBy, "goals")
+      bump(event.assistedBy, "assists")
+      bump(event.assistedBy, "completionImpact")
+      bump(event.hockeyAssistBy, "hockeyAssists")
+      bump(event.hockeyAssistBy, "completionImpact")
+    } else if (event.type === "turnover") {
+      bump(event.turnoverBy, "turnovers")
+      // Drops are charged to the receiver and don't count against the thrower
+      if (event.turnoverType !== "drop") {
+        bump(event.turnoverBy, "completionImpact", -1)
+      }
+      bump(event.forcedBy, "blocks")
+    }
+  }
+
+  // Point n was won by whoever scored the n-th goal
+  const goals = events.filter((event) => event.type === "goal")
+  for (const lineup of lineups) {
+    const goal = goals[lineup.pointNumber - 1]
+    if (!goal?.scoringTeam) continue
+
+    for (const playerId of lineup.playerIds) {
+      bump(playerId, "pointsPlayed")
+      bump(playerId, "plusMinus", goal.scoringTeam === lineup.team ? 1 : -1)
+    }
+  }
+
+  return lines
+}
+
+/**
+ * Add a stat line change to the season totals (when the game is in a season)
+ * and the career totals
+ */
+async function applyTotals(
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  playerId: Id<"players">,
+  teamId: Id<"teams">,
+  delta: StatLine,
+  gamesDelta: number
+) {
+  const seasonIds = game.seasonId ? [game.seasonId, undefined] : [undefined]
+
+  for (const seasonId of seasonIds) {
+    const row = await ctx.db
+      .query("playerSeasonStats")
+      .withIndex("seasonId_playerId", (q) =>
+        q.eq("seasonId", seasonId).eq("playerId", playerId)
+      )
+      .first()
+
+    if (!row) {
+      await ctx.db.insert("playerSeasonStats", {
+        seasonId,
+        playerId,
+        teamId,
+        orgId: game.orgId,
+        gamesPlayed: gamesDelta,
+        ...delta,
+      })
+      continue
+    }
+
+    const gamesPlayed = row.gamesPlayed + gamesDelta
+    if (gamesPlayed <= 0) {
+      await ctx.db.delete(row._id)
+    } else {
+      await ctx.db.patch(row._id, {
+        teamId,
+        orgId: game.orgId,
+        gamesPlayed,
+        ...addStatLines(pickStatLine(row), delta),
+      })
+    }
+  }
+}
+
+function emptyStatLine(): StatLine {
+  return Object.fromEntries(STAT_FIELDS.map((field) => [field, 0])) as StatLine
+}
+
+function pickStatLine(row: StatLine): StatLine {
+  return Object.fromEntries(STAT_FIELDS.map((field) => [field, row[field]])) as StatLine
+}
+
+function addStatLines(a: StatLine, b: StatLine): StatLine {
+  return Object.fromEntries(STAT_FIELDS.map((field) => [field, a[field] + b[field]])) as StatLine
+}
+
+function subtractStatLines(a: StatLine, b: StatLine): StatLine {
+  return Object.fromEntries(STAT_FIELDS.map((field) => [field, a[field] - b[field]])) as StatLine
+}
+
+function isEmptyStatLine(line: StatLine) {
+  return STAT_FIELDS.every((field) => line[field] === 0)
+}
@@ -0,0 +1,256 @@
+/**
+ * Stream health monitoring
+ * streamStatus is set by whoever starts and stops the stream, so a publisher that crashes
+ * or loses signal would leave its game live, holding the field's stream slot and one of
+ * the organization's live streams. Every POLL_INTERVAL_SECONDS (see crons.ts) the stream
+ * provider's status of each live game is recorded as a health sample, and a game whose
+ * publisher has been gone for STREAM_GONE_MS is marked completed, or failed if it never
+ * connected. Going live stays with streams.updateGameStream, which checks field slots and
+ * plan limits. Samples are only kept for as long as the health panel shows them.
+ */
+
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  query,
+  type QueryCtx,
+} from "./_generated/server"
+import { v } from "convex/values"
+import { internal } from "./_generated/api"
+import type { Id } from "./_generated/dataModel"
+import { getGameAccess } from "./gameStaff"
+import { getCurrentUser } from "./organizations"
+import { getStreamProvider, type LiveInputStatus, type StreamProvider } from "./streamProviders"
+
+export const POLL_INTERVAL_SECONDS = 30
+
+// How long a live game's publisher may be disconnected before its stream is ended
+const STREAM_GONE_MS = 3 * 60 * 1000
+
+// Samples shown in the health panel (about 15 minutes)
+const HEALTH_HISTORY_SAMPLES = 30
+
+// Older samples are deleted by the poll; must stay longer than STREAM_GONE_MS
+const SAMPLE_RETENTION_MS = HEALTH_HISTORY_SAMPLES * POLL_INTERVAL_SECONDS * 1000
+
+// Most expired samples deleted per poll
+const PRUNE_BATCH_SIZE = 500
+
+const liveInputStatusValidator = v.object({
+  state: v.union(v.literal("live"), v.literal("idle"), v.literal("unknown")),
+  providerState: v.optional(v.string()),
+  ingestProtocol: v.optional(v.string()),
+  connectedSince: v.optional(v.number()),
+  bytesReceived: v.optional(v.number()),
+  viewers: v.optional(v.number()),
+})
+
+/**
+ * Recent health of a game's stream, oldest sample first
+ * Returns null for users who can't stream the game.
+ */
+export const getStreamHealth = query({
+  args: { gameId: v.id("games") },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx)
+    const game = await ctx.db.get(args.gameId)
+    if (!user || !game || !(await getGameAccess(ctx, user, game)).canStream) {
+      return null
+    }
+
+    const samples = game.streamId
+      ? (
+          await ctx.db
+            .query("streamHealthSamples")
+            .withIndex("gameId_timestamp", (q) => q.eq("gameId", args.gameId))
+            .order("desc")
+            .take(HEALTH_HISTORY_SAMPLES)
+        )
+          .filter((sample) => sample.liveInputId === game.streamId)
+          .reverse()
+      : []
+
+    return {
+      samples,
+      pollIntervalSeconds: POLL_INTERVAL_SECONDS,
+      goneAfterSeconds: STREAM_GONE_MS / 1000,
+    }
+  },
+})
+
+/**
+ * Record the stream provider's status of every game marked live, and delete expired samples
+ * Run by crons.ts.
+ */
+export const pollLiveStreams = internalAction({
+  args: {},
+  handler: async (ctx) => {
+    await ctx.runMutation(internal.streamHealth.pruneStreamHealth, {})
+
+    const games = await ctx.runQuery(internal.streamHealth.listLiveStreams, {})
+    if (games.length === 0) return
+
+    let provider: StreamProvider
+    try {
+      provider = getStreamProvider()
+    } catch (error) {
+      console.error("Stream health poll skipped:", error)
+      return
+    }
+
+    await Promise.all(
+      games.map(async (game) => {
+        let status: LiveInputStatus
+        let error: string | undefined
+        try {
+          status = await provider.getStatus(game.streamId)
+        } catch (e) {
+          status = { state: "unknown" }
+          error = e instanceof Error ? e.message : "Unknown error getting stream status"
+        }
+
+        await ctx.runMutation(internal.streamHealth.recordStreamHealth, {
+          gameId: game._id,
+          liveInputId: game.streamId,
+          status,
+          error,
+        })
+      })
+    )
+  },
+})
+
+/**
+ * Games marked live that have a live input to poll
+ */
+export const listLiveStreams = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const games = await ctx.db
+      .query("games")
+      .withIndex("streamStatus", (q) => q.eq("streamStatus", "live"))
+      .collect()
+
+    return games.flatMap((game) =>
+      game.streamId ? [{ _id: game._id, streamId: game.streamId }] : []
+    )
+  },
+})
+
+/**
+ * Save a health sample and end the game's stream if its publisher is gone
+ * Providers only report an idle input when they could be reached, so errors never end
+ * a stream.
+ */
+export const recordStreamHealth = internalMutation({
+  args: {
+    gameId: v.id("games"),
+    liveInputId: v.string(),
+    status: liveInputStatusValidator,
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const game = await ctx.db.get(args.gameId)
+    if (!game || game.streamId !== args.liveInputId) return
+
+    const now = Date.now()
+    const previous = await ctx.db
+      .query("streamHealthSamples")
+      .withIndex("gameId_timestamp", (q) => q.eq("gameId", args.gameId))
+      .order("desc")
+      .first()
+
+    const bytesReceived = args.status.bytesReceived
+    const previousBytes =
+      previous?.liveInputId === args.liveInputId ? previous.bytesReceived : undefined
+    const bitrateKbps =
+      bytesReceived !== undefined &&
+      previousBytes !== undefined &&
+      previous &&
+      bytesReceived >= previousBytes &&
+      now > previous.timestamp
+        ? Math.round(((bytesReceived - previousBytes) * 8) / (now - previous.timestamp))
+        : undefined
+
+    await ctx.db.insert("streamHealthSamples", {
+      gameId: args.gameId,
+      liveInputId: args.liveInputId,
+      timestamp: now,
+      ...args.status,
+      error: args.error,
+      bitrateKbps,
+    })
+
+    if (game.streamStatus !== "live" || args.status.state !== "idle") return
+
+    const publisher = await getPublisherGoneSince(
+      ctx,
+      game._id,
+      args.liveInputId,
+      game.streamStartTime
+    )
+    if (now - publisher.goneSince < STREAM_GONE_MS) return
+
+    await ctx.db.patch(game._id, {
+      streamStatus: publisher.connected ? "completed" : "failed",
+      streamEndTime: publisher.connected ? publisher.goneSince : now,
+    })
+    console.log(
+      `Ended the stream of game ${game._id}: no publisher since ${new Date(publisher.goneSince).toISOString()}`
+    )
+
+    // Same as ending the stream by hand (see streams.updateGameStream)
+    if (publisher.connected) {
+      await ctx.scheduler.runAfter(0, internal.recordings.syncRecordings, {
+        gameId: game._id,
+      })
+    }
+  },
+})
+
+/**
+ * Delete samples older than SAMPLE_RETENTION_MS
+ */
+export const pruneStreamHealth = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("streamHealthSamples")
+      .withIndex("timestamp", (q) => q.lt("timestamp", Date.now() - SAMPLE_RETENTION_MS))
+      .take(PRUNE_BATCH_SIZE)
+
+    await Promise.all(expired.map((sample) => ctx.db.delete(sample._id)))
+  },
+})
+
+/**
+ * When a live game's publisher was last seen, or when the stream started if it never
+ * connected
+ */
+async function getPublisherGoneSince(
+  ctx: QueryCtx,
+  gameId: Id<"games">,
+  liveInputId: string,
+  streamStartTime: number | undefined
+) {
+  const samples = await ctx.db
+    .query("streamHealthSamples")
+    .withIndex("gameId_timestamp", (q) =>
+      q.eq("gameId", gameId).gte("timestamp", streamStartTime ?? 0)
+    )
+    .order("desc")
+    .filter((q) => q.eq(q.field("liveInputId"), liveInputId))
+    .collect()
+
+  const lastLive = samples.find((sample) => sample.state === "live")
+  if (lastLive) {
+    return { connected: true, goneSince: lastLive.timestamp }
+  }
+
+  // Without a start time, count from the first poll of this stream
+  return {
+    connected: false,
+    goneSince: streamStartTime ?? samples[samples.length - 1]?.timestamp ?? Date.now(),
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Streaming backends
+ *
+ * Live inputs, their status and their recordings go through a StreamProvider picked
+ * per deployment with STREAM_PROVIDER:
+ * - "cloudflare" (default): Cloudflare Stream, configured with CLOUDFLARE_READ_ONLY_ACCOUNT_ID
+ *   and CLOUDFLARE_API_TOKEN
+ * - "mediamtx": a self-hosted MediaMTX server (WHIP/WHEP, RTMP and HLS), for developing
+ *   and testing streaming without a Cloudflare account. Its ports are configured with the
+ *   MEDIAMTX_* variables below and default to a local instance; the Convex backend must
+ *   be able to reach MEDIAMTX_API_URL (use a local Convex deployment for localhost).
+ */
+
+/**
+ * A live input: where a broadcaster publishes and where viewers play it back
+ */
+export interface LiveInput {
+	uid: string;
+	streamKey: string;
+	rtmpUrl: string | undefined;
+	webRtcPublishUrl: string;
+	webRtcPlaybackUrl: string;
+}
+
+/**
+ * Whether someone is currently publishing to a live input
+ */
+export interface LiveInputStatus {
+	state: "live" | "idle" | "unknown";
+	// The provider's own state name, for display and debugging
+	providerState?: string;
+	// Connection details, when the provider reports them (see streamHealth.ts)
+	ingestProtocol?: string;
+	connectedSince?: number;
+	// Total received from the publisher; bitrate is the change between two polls
+	bytesReceived?: number;
+	viewers?: number;
+}
+
+/**
+ * A recording of a live input
+ */
+export interface Recording {
+	id: string;
+	liveInputId: string;
+	startedAt: number;
+	durationSeconds?: number;
+	status: "ready" | "processing" | "failed";
+	playbackUrl?: string;
+	thumbnailUrl?: string;
+}
+
+export interface StreamProvider {
+	name: string;
+	createLiveInput(options: { name: string; gameId: string }): Promise<LiveInput>;
+	getLiveInput(uid: string): Promise<LiveInput>;
+	getStatus(uid: string): Promise<LiveInputStatus>;
+	// Resolves when the live input is gone, including when it never existed
+	deleteLiveInput(uid: string): Promise<void>;
+	listRecordings(uid: string): Promise<Recording[]>;
+	// Resolves when the recording is gone, including when it never existed
+	deleteRecording(recordingId: string): Promise<void>;
+}
+
+/**
+ * Cloudflare Stream
+ */
+function cloudflareProvider(): StreamProvider {
+	const accountId = process.env.CLOUDFLARE_READ_ONLY_ACCOUNT_ID;
+	const apiToken = process.env.CLOUDFLARE_API_TOKEN;
+
+	if (!accountId || !apiToken) {
+		throw new Error("Cloudflare credentials not configured");
+	}
+
+	const apiUrl = `https://api.cloudflare.com/client/v4/accounts/${accountId}/stream`;
+	const headers: HeadersInit = {
+		Authorization: `Bearer ${apiToken}`,
+		"Content-Type": "application/json",
+	};
+
+	// The parts of the API's live input and video objects used here
+	type CloudflareLiveInput = {
+		uid: string;
+		streamKey?: string;
+		rtmps?: { url?: string; streamKey?: string };
+		rtmp?: { url?: string };
+		webRTC?: { url?: string };
+		webRTCPlayback?: { url?: string };
+		status?: {
+			current?: {
+				state?: string;
+				ingestProtocol?: string;
+				statusEnteredAt?: string;
+			} | null;
+		} | null;
+	};
+	type CloudflareVideo = {
+		uid: string;
+		created: string;
+		duration: number;
+		status?: { state?: string };
+		playback?: { hls?: string };
+		thumbnail?: string;
+	};
+
+	const request = async <T>(path: string, init: RequestInit = {}) => {
+		const response = await fetch(`${apiUrl}${path}`, { ...init, headers });
+		if (!response.ok) {
+			const error = await response.text();
+			throw new Error(`Cloudflare API error: ${error}`);
+		}
+		return ((await response.json()) as { result: T }).result;
+	};
+
+	const toLiveInput = (liveInput: CloudflareLiveInput): LiveInput => {
+		// Extract stream key from rtmps object (as per Cloudflare API response)
+		const streamKey = liveInput.rtmps?.streamKey || liveInput.streamKey || "";
+		const rtmpUrl = liveInput.rtmps?.url || liveInput.rtmp?.url;
+		const uid = liveInput.uid;
+
+		// The API returns webRTC.url and webRTCPlayback.url directly; construct them if not
+		// Format: https://customer-{accountId}.cloudflarestream.com/{uid}/webRTC/publish
+		const webRtcPublishUrl =
+			liveInput.webRTC?.url ||
+			`https://customer-${accountId}.cloudflarestream.com/${uid}/webRTC/publish`;
+		const webRtcPlaybackUrl =
+			liveInput.webRTCPlayback?.url ||
+			`https://customer-${accountId}.cloudflarestream.com/${uid}/webRTC/play`;
+
+		return { uid, streamKey, rtmpUrl, webRtcPublishUrl, webRtcPlaybackUrl };
+	};
+
+	return {
+		name: "cloudflare",
+
+		async createLiveInput({ name, gameId }) {
+			const liveInput = await request<CloudflareLiveInput>("/live_inputs", {
+				method: "POST",
+				body: JSON.stringify({
+					meta: { name, gameId },
+					recording: {
+						mode: "automatic",
+						requireSignedURLs: false,
+					},
+				}),
+			});
+			return toLiveInput(liveInput);
+		},
+
+		async getLiveInput(uid) {
+			return toLiveInput(
+				await request<CloudflareLiveInput>(`/live_inputs/${uid}`),
+			);
+		},
+
+		async getStatus(uid) {
+			const liveInput = await request<CloudflareLiveInput>(`/live_inputs/${uid}`);
+			// Inputs that have never been published to have no current status
+			const current = liveInput.status?.current;
+			const providerState = current?.state;
+			const isConnected = providerState === "connected";
+			return {
+				state: isConnected ? "live" : "idle",
+				providerState: providerState ?? "never connected",
+				ingestProtocol: current?.ingestProtocol,
+				connectedSince:
+					isConnected && current?.statusEnteredAt
+						? Date.parse(current.statusEnteredAt)
+						: undefined,
+			};
+		},
+
+		async deleteLiveInput(uid) {
+			const response = await fetch(`${apiUrl}/live_inputs/${uid}`, {
+				method: "DELETE",
+				headers,
+			});
+			if (!response.ok && response.status !== 404) {
+				const error = await response.text();
+				throw new Error(`Cloudflare API error: ${error}`);
+			}
+		},
+
+		async listRecordings(uid) {
+			const videos = await request<CloudflareVideo[] | null>(
+				`/live_inputs/${uid}/videos`,
+			);
+			return (videos ?? []).map((video) => ({
+				id: video.uid,
+				liveInputId: uid,
+				startedAt: Date.parse(video.created),
+				durationSeconds: video.duration > 0 ? video.duration : undefined,
+				status:
+					video.status?.state === "ready"
+						? "ready"
+						: video.status?.state === "error"
+							? "failed"
+							: "processing",
+				playbackUrl: video.playback?.hls,
+				thumbnailUrl: video.thumbnail,
+			}));
+		},
+
+		async deleteRecording(recordingId) {
+			const response = await fetch(`${apiUrl}/${recordingId}`, {
+				method: "DELETE",
+				headers,
+			});
+			if (!response.ok && response.status !== 404) {
+				const error = await response.text();
+				throw new Error(`Cloudflare API error: ${error}`);
+			}
+		},
+	};
+}
+
+/**
+ * Self-hosted MediaMTX
+ * Each live input is a MediaMTX path named with a random id, which doubles as the
+ * stream key. Paths are created with recording on, so recordings come from the
+ * playback server.
+ */
+function mediaMtxProvider(): StreamProvider {
+	const apiUrl = process.env.MEDIAMTX_API_URL || "http://localhost:9997";
+	const webRtcUrl = process.env.MEDIAMTX_WEBRTC_URL || "http://localhost:8889";
+	const rtmpUrl = process.env.MEDIAMTX_RTMP_URL || "rtmp://localhost:1935";
+	const playbackUrl =
+		process.env.MEDIAMTX_PLAYBACK_URL || "http://localhost:9996";
+
+	const toLiveInput = (path: string): LiveInput => ({
+		uid: path,
+		streamKey: path,
+		rtmpUrl,
+		webRtcPublishUrl: `${webRtcUrl}/${path}/whip`,
+		webRtcPlaybackUrl: `${webRtcUrl}/${path}/whep`,
+	});
+
+	const fail = async (response: Response) => {
+		const error = await response.text();
+		throw new Error(`MediaMTX API error: ${error || response.status}`);
+	};
+
+	return {
+		name: "mediamtx",
+
+		async createLiveInput() {
+			const path = `game-${crypto.randomUUID()}`;
+			const response = await fetch(`${apiUrl}/v3/config/paths/add/${path}`, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify({ record: true }),
+			});
+			if (!response.ok) await fail(response);
+			return toLiveInput(path);
+		},
+
+		async getLiveInput(uid) {
+			const response = await fetch(`${apiUrl}/v3/config/paths/get/${uid}`);
+			if (!response.ok) await fail(response);
+			return toLiveInput(uid);
+		},
+
+		async getStatus(uid) {
+			// Paths only show up here while something is publishing to them
+			const response = await fetch(`${apiUrl}/v3/paths/get/${uid}`);
+			if (response.status === 404) {
+				return { state: "idle", providerState: "not publishing" };
+			}
+			if (!response.ok) await fail(response);
+
+			const path = (await response.json()) as {
+				ready?: boolean;
+				readyTime?: string | null;
+				source?: { type?: string } | null;
+				bytesReceived?: number;
+				readers?: unknown[];
+			};
+			if (!path.ready) {
+				return { state: "idle", providerState: "not ready" };
+			}
+
+			return {
+				state: "live",
+				providerState: "ready",
+				ingestProtocol: path.source?.type,
+				connectedSince: path.readyTime ? Date.parse(path.readyTime) : undefined,
+				bytesReceived: path.bytesReceived,
+				viewers: path.readers?.length,
+			};
+		},
+
+		async deleteLiveInput(uid) {
+			const response = await fetch(`${apiUrl}/v3/config/paths/delete/${uid}`, {
+				method: "DELETE",
+			});
+			if (!response.ok && response.status !== 404) await fail(response);
+		},
+
+		async listRecordings(uid) {
+			const response = await fetch(
+				`${playbackUrl}/list?path=${encodeURIComponent(uid)}`,
+			);
+			if (response.status === 404) return [];
+			if (!response.ok) await fail(response);
+
+			const segments = (await response.json()) as {
+				start: string;
+				duration: number;
+				url?: string;
+			}[];
+			return segments.map((segment) => ({
+				id: `${uid}@${segment.start}`,
+				liveInputId: uid,
+				startedAt: Date.parse(segment.start),
+				durationSeconds: segment.duration,
+				status: "ready" as const,
+				playbackUrl:
+					segment.url ??
+					`${playbackUrl}/get?path=${encodeURIComponent(uid)}&start=${encodeURIComponent(segment.start)}&duration=${segment.duration}`,
+			}));
+		},
+
+		async deleteRecording() {
+			// MediaMTX has no API for deleting recordings; segments are removed on disk by
+			// its recordDeleteAfter setting (deleted recordings aren't synced again, see
+			// recordings.ts)
+		},
+	};
+}
+
+/**
+ * Provider configured for this deployment
+ */
+export function getStreamProvider(): StreamProvider {
+	const configured = process.env.STREAM_PROVIDER || "cloudflare";
+
+	switch (configured) {
+		case "cloudflare":
+			return cloudflareProvider();
+		case "mediamtx":
+			return mediaMtxProvider();
+	}
+
+	throw new Error(`Unknown stream provider: ${configured}`);
+}
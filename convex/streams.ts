@@ -1,162 +1,107 @@
 /**
- * Cloudflare Stream Management Functions
- * 
- * Handles integration with Cloudflare Stream API for live game broadcasts.
- * Functions use actions to securely call Cloudflare API from Convex.
+ * Stream Management Functions
+ *
+ * Handles live game broadcasts through the deployment's stream provider (Cloudflare
+ * Stream, or a self-hosted MediaMTX server; see streamProviders.ts). Functions use
+ * actions to call the provider's API from Convex.
+ *
+ * Publish credentials (stream key and WHIP URL) live in the streamCredentials table and
+ * are only returned to people allowed to stream the game (see gameStaff.ts). Live inputs
+ * are created server-side per game, rate limited per user, and deleted from the provider
+ * when they are replaced or their game is deleted.
+ *
+ * Several games can stream at once: each field at a venue has one stream slot, and an
+ * organization can stream as many games at a time as its plan allows.
  */
 
-import { action, mutation, query } from "./_generated/server";
+import {
+	action,
+	internalAction,
+	internalMutation,
+	internalQuery,
+	mutation,
+	query,
+	type QueryCtx,
+} from "./_generated/server";
 import { v } from "convex/values";
-import type { Id } from "./_generated/dataModel";
-import { api } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { api, internal } from "./_generated/api";
+import {
+	getOrgPlan,
+	PLAN_FEATURES,
+	PLAN_LIMITS,
+	requireFeature,
+	requireLiveStreamCapacity,
+} from "./billing";
+import { withDerivedClock } from "./clock";
+import { getGameAccess, requireGameAccess } from "./gameStaff";
+import { getCallerOrgId } from "./organizations";
+import {
+	getStreamProvider,
+	type LiveInput,
+	type LiveInputStatus,
+	type Recording,
+	type StreamProvider,
+} from "./streamProviders";
+
+// Each user may create this many live inputs per window
+const LIVE_INPUT_RATE_LIMIT = 5;
+const LIVE_INPUT_RATE_WINDOW_MS = 60 * 60 * 1000;
 
 /**
- * Get Cloudflare API base URL
- */
-function getCloudflareApiUrl(accountId: string): string {
-	return `https://api.cloudflare.com/client/v4/accounts/${accountId}/stream`;
-}
-
-/**
- * Get Cloudflare API headers
- */
-function getCloudflareHeaders(apiToken: string): HeadersInit {
-	return {
-		Authorization: `Bearer ${apiToken}`,
-		"Content-Type": "application/json",
-	};
-}
-
-/**
- * Create a Cloudflare Stream live input
- * Returns the stream key and RTMP endpoint
+ * Create a live input for a game with the deployment's stream provider
+ * Stores the credentials server-side and returns them to the caller. A live input the
+ * game already had is deleted from the provider.
+ * Requires: permission to stream the game, the game's organization on a plan that
+ * includes live streaming, and fewer than LIVE_INPUT_RATE_LIMIT live inputs created
+ * in the last hour
  */
 export const createLiveInput = action({
-	args: {},
-	handler: async (ctx) => {
-		const accountId = process.env.CLOUDFLARE_READ_ONLY_ACCOUNT_ID;
-		const apiToken = process.env.CLOUDFLARE_API_TOKEN;
-
-		if (!accountId || !apiToken) {
-			throw new Error("Cloudflare credentials not configured");
-		}
-
+	args: { gameId: v.id("games") },
+	handler: async (ctx, args): Promise<LiveInput & { success: boolean }> => {
+		const { previousLiveInputId } = await ctx.runMutation(
+			internal.streams.reserveLiveInput,
+			{ gameId: args.gameId },
+		);
+
+		let liveInput: LiveInput;
 		try {
-			const url = `${getCloudflareApiUrl(accountId)}/live_inputs`;
-			const response = await fetch(url, {
-				method: "POST",
-				headers: getCloudflareHeaders(apiToken),
-				body: JSON.stringify({
-					meta: {
-						name: `Game Stream - ${new Date().toISOString()}`,
-					},
-					recording: {
-						mode: "automatic",
-						requireSignedURLs: false,
-					},
-				}),
+			liveInput = await getStreamProvider().createLiveInput({
+				name: `Game Stream - ${args.gameId}`,
+				gameId: args.gameId,
 			});
-
-			if (!response.ok) {
-				const error = await response.text();
-				throw new Error(`Cloudflare API error: ${error}`);
-			}
-
-			const data = await response.json();
-			const liveInput = data.result;
-
-			// Extract stream key from rtmps object (as per Cloudflare API response)
-			const streamKey = liveInput.rtmps?.streamKey || liveInput.streamKey;
-			const rtmpUrl = liveInput.rtmps?.url || liveInput.rtmp?.url;
-			const uid = liveInput.uid;
-
-			// Extract WebRTC URLs from API response
-			// The API returns webRTC.url and webRTCPlayback.url directly
-			let webRtcPublishUrl = liveInput.webRTC?.url;
-			let webRtcPlaybackUrl = liveInput.webRTCPlayback?.url;
-
-			// Fallback: Construct URLs if not provided in response
-			// Format: https://customer-{accountId}.cloudflarestream.com/{uid}/webRTC/publish
-			if (!webRtcPublishUrl) {
-				webRtcPublishUrl = `https://customer-${accountId}.cloudflarestream.com/${uid}/webRTC/publish`;
-			}
-			if (!webRtcPlaybackUrl) {
-				webRtcPlaybackUrl = `https://customer-${accountId}.cloudflarestream.com/${uid}/webRTC/play`;
-			}
-
-			return {
-				success: true,
-				streamKey,
-				rtmpUrl,
-				uid,
-				webRtcPublishUrl,
-				webRtcPlaybackUrl,
-			};
 		} catch (error) {
 			console.error("Error creating live input:", error);
 			throw error instanceof Error
 				? error
 				: new Error("Unknown error creating live input");
 		}
+
+		await ctx.runMutation(internal.streams.saveLiveInput, {
+			gameId: args.gameId,
+			...liveInput,
+		});
+
+		if (previousLiveInputId && previousLiveInputId !== liveInput.uid) {
+			await ctx.scheduler.runAfter(0, internal.streams.deleteLiveInput, {
+				liveInputId: previousLiveInputId,
+			});
+		}
+
+		return { success: true, ...liveInput };
 	},
 });
 
 /**
- * Get live input details from Cloudflare
+ * Get live input details from the stream provider
  * Useful for fetching stream information if webRtcPublishUrl is missing
  */
-export const getLiveInput = action({
+export const getLiveInput = internalAction({
 	args: { uid: v.string() },
-	handler: async (ctx, args) => {
-		const accountId = process.env.CLOUDFLARE_READ_ONLY_ACCOUNT_ID;
-		const apiToken = process.env.CLOUDFLARE_API_TOKEN;
-
-		if (!accountId || !apiToken) {
-			throw new Error("Cloudflare credentials not configured");
-		}
-
+	handler: async (_ctx, args): Promise<LiveInput & { success: boolean }> => {
 		try {
-			const url = `${getCloudflareApiUrl(accountId)}/live_inputs/${args.uid}`;
-			const response = await fetch(url, {
-				method: "GET",
-				headers: getCloudflareHeaders(apiToken),
-			});
-
-			if (!response.ok) {
-				const error = await response.text();
-				throw new Error(`Cloudflare API error: ${error}`);
-			}
-
-			const data = await response.json();
-			const liveInput = data.result;
-
-			// Extract stream key from rtmps object
-			const streamKey = liveInput.rtmps?.streamKey || liveInput.streamKey;
-			const rtmpUrl = liveInput.rtmps?.url || liveInput.rtmp?.url;
-			const uid = liveInput.uid;
-
-			// Extract WebRTC URLs from API response
-			// The API returns webRTC.url and webRTCPlayback.url directly
-			let webRtcPublishUrl = liveInput.webRTC?.url;
-			let webRtcPlaybackUrl = liveInput.webRTCPlayback?.url;
-
-			// Fallback: Construct URLs if not provided in response
-			// Format: https://customer-{accountId}.cloudflarestream.com/{uid}/webRTC/publish
-			if (!webRtcPublishUrl) {
-				webRtcPublishUrl = `https://customer-${accountId}.cloudflarestream.com/${uid}/webRTC/publish`;
-			}
-			if (!webRtcPlaybackUrl) {
-				webRtcPlaybackUrl = `https://customer-${accountId}.cloudflarestream.com/${uid}/webRTC/play`;
-			}
-
-			return {
-				success: true,
-				streamKey,
-				rtmpUrl,
-				uid,
-				webRtcPublishUrl,
-				webRtcPlaybackUrl,
-			};
+			const liveInput = await getStreamProvider().getLiveInput(args.uid);
+			return { success: true, ...liveInput };
 		} catch (error) {
 			console.error("Error getting live input:", error);
 			throw error instanceof Error
@@ -167,39 +112,48 @@ export const getLiveInput = action({
 });
 
 /**
- * Get stream status from Cloudflare
+ * Delete a live input from the stream provider
+ * Scheduled when a game's live input is replaced or the game is deleted. A live input
+ * that is already gone counts as deleted.
  */
-export const getStreamStatus = action({
-	args: { streamId: v.string() },
-	handler: async (ctx, args) => {
-		const accountId = process.env.CLOUDFLARE_ACCOUNT_ID;
-		const apiToken = process.env.CLOUDFLARE_API_TOKEN;
-
-		if (!accountId || !apiToken) {
-			throw new Error("Cloudflare credentials not configured");
-		}
-
+export const deleteLiveInput = internalAction({
+	args: { liveInputId: v.string() },
+	handler: async (_ctx, args) => {
+		let provider: StreamProvider;
 		try {
-			const url = `${getCloudflareApiUrl(accountId)}/${args.streamId}`;
-			const response = await fetch(url, {
-				method: "GET",
-				headers: getCloudflareHeaders(apiToken),
-			});
+			provider = getStreamProvider();
+		} catch (error) {
+			console.error(
+				`Stream provider not configured; live input ${args.liveInputId} was not deleted:`,
+				error,
+			);
+			return;
+		}
 
-			if (!response.ok) {
-				const error = await response.text();
-				throw new Error(`Cloudflare API error: ${error}`);
-			}
+		await provider.deleteLiveInput(args.liveInputId);
+	},
+});
 
-			const data = await response.json();
-			const stream = data.result;
+/**
+ * Get the status of a game's live input from the stream provider
+ * Requires: permission to stream the game
+ */
+export const getStreamStatus = action({
+	args: { gameId: v.id("games") },
+	handler: async (
+		ctx,
+		args,
+	): Promise<LiveInputStatus & { success: boolean }> => {
+		const { streamId } = await ctx.runQuery(internal.streams.getStreamGame, {
+			gameId: args.gameId,
+		});
+		if (!streamId) {
+			throw new Error("This game has no live input");
+		}
 
-			return {
-				success: true,
-				status: stream.status?.state || "unknown",
-				playback: stream.playback,
-				meta: stream.meta,
-			};
+		try {
+			const status = await getStreamProvider().getStatus(streamId);
+			return { success: true, ...status };
 		} catch (error) {
 			console.error("Error getting stream status:", error);
 			throw error instanceof Error
@@ -209,17 +163,26 @@ export const getStreamStatus = action({
 	},
 });
 
+/**
+ * List the recordings the stream provider made of a live input
+ */
+export const listRecordings = internalAction({
+	args: { liveInputId: v.string() },
+	handler: async (_ctx, args): Promise<Recording[]> => {
+		return await getStreamProvider().listRecordings(args.liveInputId);
+	},
+});
+
 /**
  * Fetch live input details and update game with WebRTC URLs
  * Useful when a game has a streamId but missing webRtcPublishUrl
- * 
+ * Requires: permission to stream the game
+ *
  * @param gameId - The game ID (required)
- * @param streamId - Optional streamId. If not provided, will be fetched from the game
  */
 export const fetchAndUpdateLiveInput = action({
-	args: { 
+	args: {
 		gameId: v.id("games"),
-		streamId: v.optional(v.string()),
 	},
 	handler: async (ctx, args): Promise<{
 		success: boolean;
@@ -227,42 +190,25 @@ export const fetchAndUpdateLiveInput = action({
 		webRtcPlaybackUrl: string;
 		rtmpUrl: string | undefined;
 	}> => {
-		let streamId: string | undefined = args.streamId;
+		const { streamId } = await ctx.runQuery(internal.streams.getStreamGame, {
+			gameId: args.gameId,
+		});
 
-		// If streamId not provided, get it from the game
 		if (!streamId) {
-			const game = await ctx.runQuery(api.games.getGame, {
-				gameId: args.gameId,
-			}) as { streamId?: string } | null;
-
-			if (!game) {
-				throw new Error("Game not found");
-			}
-
-			streamId = game.streamId ?? undefined;
-
-			if (!streamId) {
-				throw new Error("Game does not have a streamId. Create a live input first.");
-			}
+			throw new Error("Game does not have a streamId. Create a live input first.");
 		}
 
-		// Fetch live input details from Cloudflare
-		const liveInputData = await ctx.runAction(api.streams.getLiveInput, {
+		// Fetch live input details from the stream provider
+		const liveInputData = await ctx.runAction(internal.streams.getLiveInput, {
 			uid: streamId,
-		}) as {
-			success: boolean;
-			streamKey: string;
-			rtmpUrl: string | undefined;
-			uid: string;
-			webRtcPublishUrl: string;
-			webRtcPlaybackUrl: string;
-		};
+		});
 
 		// Update the game with the fetched WebRTC URLs
-		await ctx.runMutation(api.streams.updateGameStream, {
+		await ctx.runMutation(internal.streams.saveLiveInput, {
 			gameId: args.gameId,
 			streamKey: liveInputData.streamKey,
-			streamUrl: liveInputData.rtmpUrl,
+			rtmpUrl: liveInputData.rtmpUrl,
+			uid: liveInputData.uid,
 			webRtcPublishUrl: liveInputData.webRtcPublishUrl,
 			webRtcPlaybackUrl: liveInputData.webRtcPlaybackUrl,
 		});
@@ -277,13 +223,17 @@ export const fetchAndUpdateLiveInput = action({
 });
 
 /**
- * Update game with stream metadata
+ * Update a game's stream status and timing
+ * Stream ids, keys and URLs are only set server-side by createLiveInput
+ * Going live takes the game's field slot and one of the organization's concurrent
+ * streams (PLAN_LIMITS.liveStreams). Ending the stream syncs its recordings (see
+ * recordings.ts).
+ * Requires: permission to stream the game (see gameStaff.ts), and the game's
+ * organization on a plan that includes live streaming (see getOrgPlan)
  */
 export const updateGameStream = mutation({
 	args: {
 		gameId: v.id("games"),
-		streamId: v.optional(v.string()),
-		streamKey: v.optional(v.string()),
 		streamStatus: v.optional(
 			v.union(
 				v.literal("upcoming"),
@@ -292,25 +242,40 @@ export const updateGameStream = mutation({
 				v.literal("failed"),
 			),
 		),
-		streamUrl: v.optional(v.string()),
-		webRtcPublishUrl: v.optional(v.string()),
-		webRtcPlaybackUrl: v.optional(v.string()),
 		streamStartTime: v.optional(v.number()),
 		streamEndTime: v.optional(v.number()),
 	},
 	handler: async (ctx, args) => {
-		// TODO: Add authentication check (admin only)
+		const identity = await ctx.auth.getUserIdentity();
+		if (!identity) {
+			throw new Error("Not authenticated");
+		}
+
+		const user = await ctx.db
+			.query("users")
+			.withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+			.first();
+
+		if (!user) {
+			throw new Error("User not found");
+		}
+
+		const game = await requireGameAccess(ctx, user, args.gameId, "stream");
+		const plan = await getOrgPlan(ctx, game.orgId, user);
+		requireFeature(plan, "liveStreaming");
+
+		if (args.streamStatus === "live" && game.streamStatus !== "live") {
+			const { orgLiveStreams, fieldInUse } = await getStreamSlotUsage(ctx, game);
+			if (fieldInUse) {
+				throw new Error(fieldInUseMessage(game));
+			}
+			requireLiveStreamCapacity(plan, orgLiveStreams);
+		}
+
 		const updateData: Record<string, unknown> = {};
 
-		if (args.streamId !== undefined) updateData.streamId = args.streamId;
-		if (args.streamKey !== undefined) updateData.streamKey = args.streamKey;
 		if (args.streamStatus !== undefined)
 			updateData.streamStatus = args.streamStatus;
-		if (args.streamUrl !== undefined) updateData.streamUrl = args.streamUrl;
-		if (args.webRtcPublishUrl !== undefined)
-			updateData.webRtcPublishUrl = args.webRtcPublishUrl;
-		if (args.webRtcPlaybackUrl !== undefined)
-			updateData.webRtcPlaybackUrl = args.webRtcPlaybackUrl;
 		if (args.streamStartTime !== undefined)
 			updateData.streamStartTime = args.streamStartTime;
 		if (args.streamEndTime !== undefined)
@@ -318,13 +283,194 @@ export const updateGameStream = mutation({
 
 		await ctx.db.patch(args.gameId, updateData);
 
+		// Pick up the stream's recordings once the provider has them
+		if (args.streamStatus === "completed" && game.streamStatus === "live") {
+			await ctx.scheduler.runAfter(0, internal.recordings.syncRecordings, {
+				gameId: args.gameId,
+			});
+		}
+
 		return { success: true };
 	},
 });
 
+/**
+ * Check stream permission, plan and rate limit before creating a live input,
+ * and record the attempt
+ */
+export const reserveLiveInput = internalMutation({
+	args: { gameId: v.id("games") },
+	handler: async (ctx, args) => {
+		const identity = await ctx.auth.getUserIdentity();
+		if (!identity) {
+			throw new Error("Not authenticated");
+		}
+
+		const user = await ctx.db
+			.query("users")
+			.withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+			.first();
+
+		if (!user) {
+			throw new Error("User not found");
+		}
+
+		const game = await requireGameAccess(ctx, user, args.gameId, "stream");
+		requireFeature(await getOrgPlan(ctx, game.orgId, user), "liveStreaming");
+
+		const now = Date.now();
+		const recent = await ctx.db
+			.query("liveInputCreations")
+			.withIndex("userId_timestamp", (q) =>
+				q.eq("userId", user._id).gt("timestamp", now - LIVE_INPUT_RATE_WINDOW_MS),
+			)
+			.collect();
+
+		if (recent.length >= LIVE_INPUT_RATE_LIMIT) {
+			const retryInMinutes = Math.ceil(
+				(recent[0].timestamp + LIVE_INPUT_RATE_WINDOW_MS - now) / 60000,
+			);
+			throw new Error(
+				`Too many live inputs created. Try again in ${retryInMinutes} minute${retryInMinutes === 1 ? "" : "s"}.`,
+			);
+		}
+
+		await ctx.db.insert("liveInputCreations", {
+			userId: user._id,
+			gameId: args.gameId,
+			timestamp: now,
+		});
+
+		return { previousLiveInputId: game.streamId };
+	},
+});
+
+/**
+ * Store a live input on its game: public playback details on the game, publish
+ * credentials in streamCredentials
+ */
+export const saveLiveInput = internalMutation({
+	args: {
+		gameId: v.id("games"),
+		streamKey: v.optional(v.string()),
+		rtmpUrl: v.optional(v.string()),
+		uid: v.string(),
+		webRtcPublishUrl: v.string(),
+		webRtcPlaybackUrl: v.string(),
+	},
+	handler: async (ctx, args) => {
+		const identity = await ctx.auth.getUserIdentity();
+		if (!identity) {
+			throw new Error("Not authenticated");
+		}
+
+		const user = await ctx.db
+			.query("users")
+			.withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+			.first();
+
+		if (!user) {
+			throw new Error("User not found");
+		}
+
+		const game = await requireGameAccess(ctx, user, args.gameId, "stream");
+
+		await ctx.db.patch(args.gameId, {
+			streamId: args.uid,
+			streamUrl: args.rtmpUrl,
+			webRtcPlaybackUrl: args.webRtcPlaybackUrl,
+			streamStatus: game.streamStatus ?? "upcoming",
+			// Clear credentials stored on the game before they moved to streamCredentials
+			streamKey: undefined,
+			webRtcPublishUrl: undefined,
+		});
+
+		const existing = await ctx.db
+			.query("streamCredentials")
+			.withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+			.first();
+		const credentials = {
+			liveInputId: args.uid,
+			streamKey: args.streamKey,
+			webRtcPublishUrl: args.webRtcPublishUrl,
+		};
+
+		if (existing) {
+			await ctx.db.patch(existing._id, credentials);
+		} else {
+			await ctx.db.insert("streamCredentials", {
+				gameId: args.gameId,
+				...credentials,
+			});
+		}
+	},
+});
+
+/**
+ * A game's stream id, for callers allowed to stream it
+ */
+export const getStreamGame = internalQuery({
+	args: { gameId: v.id("games") },
+	handler: async (ctx, args) => {
+		const identity = await ctx.auth.getUserIdentity();
+		if (!identity) {
+			throw new Error("Not authenticated");
+		}
+
+		const user = await ctx.db
+			.query("users")
+			.withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+			.first();
+
+		if (!user) {
+			throw new Error("User not found");
+		}
+
+		const game = await requireGameAccess(ctx, user, args.gameId, "stream");
+		return { streamId: game.streamId };
+	},
+});
+
+/**
+ * Move stream keys and publish URLs stored on games into streamCredentials
+ * Run once from the dashboard after deploying streamCredentials.
+ */
+export const migrateStreamCredentials = internalMutation({
+	args: {},
+	handler: async (ctx) => {
+		let migrated = 0;
+
+		for (const game of await ctx.db.query("games").collect()) {
+			if (!game.streamKey && !game.webRtcPublishUrl) continue;
+
+			const existing = await ctx.db
+				.query("streamCredentials")
+				.withIndex("gameId", (q) => q.eq("gameId", game._id))
+				.first();
+			if (!existing && game.streamId) {
+				await ctx.db.insert("streamCredentials", {
+					gameId: game._id,
+					liveInputId: game.streamId,
+					streamKey: game.streamKey,
+					webRtcPublishUrl: game.webRtcPublishUrl,
+				});
+			}
+
+			await ctx.db.patch(game._id, {
+				streamKey: undefined,
+				webRtcPublishUrl: undefined,
+			});
+			migrated++;
+		}
+
+		return { migrated };
+	},
+});
+
 /**
  * Create a game with automatic live input creation
  * This action creates both the game and its associated live input stream
+ * The stream is skipped when the active organization's plan doesn't include live streaming
  */
 export const createGameWithStream = action({
 	args: {
@@ -337,6 +483,7 @@ export const createGameWithStream = action({
 		awayTeamId: v.id("teams"),
 		scheduledStart: v.number(),
 		venue: v.string(),
+		field: v.optional(v.string()),
 		ruleConfig: v.object({
 			stallCount: v.union(v.literal(6), v.literal(7), v.literal(10)),
 			targetScore: v.optional(v.number()),
@@ -356,8 +503,11 @@ export const createGameWithStream = action({
 			endZoneDepth: v.number(),
 			surface: v.string(),
 		})),
+		seasonId: v.optional(v.id("seasons")),
 	},
 	handler: async (ctx, args): Promise<Id<"games">> => {
+		const plan = await ctx.runQuery(internal.billing.callerPlan, {});
+
 		// First, create the game using the existing mutation
 		const gameId: Id<"games"> = await ctx.runMutation(api.gameMutations.createGame, {
 			format: args.format,
@@ -365,32 +515,27 @@ export const createGameWithStream = action({
 			awayTeamId: args.awayTeamId,
 			scheduledStart: args.scheduledStart,
 			venue: args.venue,
+			field: args.field,
 			ruleConfig: args.ruleConfig,
 			genderRatioRequired: args.genderRatioRequired,
 			fieldInfo: args.fieldInfo,
+			seasonId: args.seasonId,
 		});
 
-		// Then, create the live input for this game
-		const liveInput = await ctx.runAction(api.streams.createLiveInput, {});
-
-		// Update the game with stream details
-		await ctx.runMutation(api.streams.updateGameStream, {
-			gameId,
-			streamKey: liveInput.streamKey,
-			streamId: liveInput.uid,
-			streamUrl: liveInput.rtmpUrl,
-			webRtcPublishUrl: liveInput.webRtcPublishUrl,
-			webRtcPlaybackUrl: liveInput.webRtcPlaybackUrl,
-			streamStatus: "upcoming",
-		});
+		if (!PLAN_FEATURES[plan].liveStreaming) {
+			return gameId;
+		}
+
+		// Then, create the live input for this game (stored on the game by createLiveInput)
+		await ctx.runAction(api.streams.createLiveInput, { gameId });
 
 		return gameId;
 	},
 });
 
 /**
- * Get stream information for a game
- * If webRtcPublishUrl is missing but streamId exists, construct it from the streamId
+ * Get public stream information for a game
+ * Publish credentials are never included; see getStreamCredentials
  */
 export const getGameStream = query({
 	args: {
@@ -402,17 +547,14 @@ export const getGameStream = query({
 			throw new Error("Game not found");
 		}
 
-		// If webRtcPublishUrl is missing but we have streamId, construct it
+		// If webRtcPlaybackUrl is missing but we have streamId, construct it
 		// Note: This is a computed value, not stored in DB. The URL should be
 		// stored when the live input is created via createLiveInput action.
-		let webRtcPublishUrl = game.webRtcPublishUrl;
 		let webRtcPlaybackUrl = game.webRtcPlaybackUrl;
 
-		if (!webRtcPublishUrl && game.streamId) {
+		if (!webRtcPlaybackUrl && game.streamId) {
 			const accountId = process.env.CLOUDFLARE_READ_ONLY_ACCOUNT_ID;
 			if (accountId) {
-				// Construct URLs from streamId (uid) - these can be computed
-				webRtcPublishUrl = `https://customer-${accountId}.cloudflarestream.com/${game.streamId}/whip`;
 				webRtcPlaybackUrl = `https://customer-${accountId}.cloudflarestream.com/${game.streamId}/whep`;
 			}
 		}
@@ -421,29 +563,219 @@ export const getGameStream = query({
 			streamId: game.streamId,
 			streamStatus: game.streamStatus,
 			streamUrl: game.streamUrl,
-			webRtcPublishUrl,
 			webRtcPlaybackUrl,
 			streamStartTime: game.streamStartTime,
 			streamEndTime: game.streamEndTime,
-			// Don't return streamKey to client (security)
 		};
 	},
 });
 
 /**
- * Check if any game currently has a live stream
- * Returns the game ID if one exists, null otherwise
+ * Publish credentials for a game's live input
+ * Returns null unless the signed-in user may stream the game
+ */
+export const getStreamCredentials = query({
+	args: {
+		gameId: v.id("games"),
+	},
+	handler: async (ctx, args) => {
+		const identity = await ctx.auth.getUserIdentity();
+		if (!identity) return null;
+
+		const user = await ctx.db
+			.query("users")
+			.withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+			.first();
+		const game = await ctx.db.get(args.gameId);
+		if (!user || !game || !(await getGameAccess(ctx, user, game)).canStream) {
+			return null;
+		}
+
+		const credentials = await ctx.db
+			.query("streamCredentials")
+			.withIndex("gameId", (q) => q.eq("gameId", args.gameId))
+			.first();
+
+		// Games that haven't been migrated yet still carry their credentials
+		const streamKey = credentials?.streamKey ?? game.streamKey;
+		let webRtcPublishUrl =
+			credentials?.webRtcPublishUrl ?? game.webRtcPublishUrl;
+
+		if (!webRtcPublishUrl && game.streamId) {
+			const accountId = process.env.CLOUDFLARE_READ_ONLY_ACCOUNT_ID;
+			if (accountId) {
+				// Construct URL from streamId (uid)
+				webRtcPublishUrl = `https://customer-${accountId}.cloudflarestream.com/${game.streamId}/whip`;
+			}
+		}
+
+		return {
+			streamKey,
+			rtmpUrl: game.streamUrl,
+			webRtcPublishUrl,
+		};
+	},
+});
+
+/**
+ * Whether a game can start streaming: its field must be free and the game's
+ * organization must have a concurrent stream left on its plan
+ * Returns null unless the signed-in user may stream the game
+ */
+export const getStreamSlot = query({
+	args: {
+		gameId: v.id("games"),
+	},
+	handler: async (ctx, args) => {
+		const identity = await ctx.auth.getUserIdentity();
+		if (!identity) return null;
+
+		const user = await ctx.db
+			.query("users")
+			.withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+			.first();
+		const game = await ctx.db.get(args.gameId);
+		if (!user || !game || !(await getGameAccess(ctx, user, game)).canStream) {
+			return null;
+		}
+
+		const limit = PLAN_LIMITS[await getOrgPlan(ctx, game.orgId, user)].liveStreams;
+		const { orgLiveStreams, fieldInUse } = await getStreamSlotUsage(ctx, game);
+
+		let reason: string | null = null;
+		if (game.streamStatus !== "live") {
+			if (fieldInUse) {
+				reason = fieldInUseMessage(game);
+			} else if (orgLiveStreams >= limit) {
+				reason = `All ${limit} live stream slots on this plan are in use. End another stream first.`;
+			}
+		}
+
+		return {
+			available: reason === null,
+			reason,
+			liveStreams: orgLiveStreams + (game.streamStatus === "live" ? 1 : 0),
+			limit,
+		};
+	},
+});
+
+/**
+ * Move a game's stream slot to another field at its venue
+ * Requires: permission to manage the game; the game can't be streaming
  */
-export const getActiveStream = query({
+export const setStreamField = mutation({
+	args: {
+		gameId: v.id("games"),
+		field: v.optional(v.string()),
+	},
+	handler: async (ctx, args) => {
+		const identity = await ctx.auth.getUserIdentity();
+		if (!identity) {
+			throw new Error("Not authenticated");
+		}
+
+		const user = await ctx.db
+			.query("users")
+			.withIndex("clerkId", (q) => q.eq("clerkId", identity.subject))
+			.first();
+
+		if (!user) {
+			throw new Error("User not found");
+		}
+
+		const game = await requireGameAccess(ctx, user, args.gameId, "manage");
+		if (game.streamStatus === "live") {
+			throw new Error("Stop the stream before moving the game to another field");
+		}
+
+		await ctx.db.patch(args.gameId, {
+			field: args.field?.trim() || undefined,
+		});
+	},
+});
+
+/**
+ * Games streaming live right now, ordered by venue and field
+ * Scoped to the caller's active organization like getLiveGames. Includes teams and
+ * game state for multi-view scoreboards.
+ */
+export const listActiveStreams = query({
 	args: {},
 	handler: async (ctx) => {
-		const gamesWithLiveStream = await ctx.db
+		const orgId = await getCallerOrgId(ctx);
+		const liveStreams = (
+			await ctx.db
+				.query("games")
+				.withIndex("streamStatus", (q) => q.eq("streamStatus", "live"))
+				.collect()
+		).filter((game) => !orgId || game.orgId === orgId);
+
+		liveStreams.sort(
+			(a, b) =>
+				a.venue.localeCompare(b.venue) ||
+				(a.field ?? "").localeCompare(b.field ?? "", undefined, {
+					numeric: true,
+				}),
+		);
+
+		return await Promise.all(
+			liveStreams.map(async (game) => {
+				const [homeTeam, awayTeam, gameState] = await Promise.all([
+					ctx.db.get(game.homeTeamId),
+					ctx.db.get(game.awayTeamId),
+					ctx.db
+						.query("gameState")
+						.withIndex("gameId", (q) => q.eq("gameId", game._id))
+						.first(),
+				]);
+
+				return {
+					...withoutStreamSecrets(game),
+					homeTeam,
+					awayTeam,
+					state: gameState && withDerivedClock(gameState),
+				};
+			}),
+		);
+	},
+});
+
+/**
+ * A game without publish credentials stored on it before streamCredentials existed
+ */
+export function withoutStreamSecrets<T extends Doc<"games">>({
+	streamKey: _streamKey,
+	webRtcPublishUrl: _webRtcPublishUrl,
+	...game
+}: T) {
+	return game;
+}
+
+/**
+ * Other games streaming live in a game's organization, and the one on its field
+ * Fields are matched by venue and field name, ignoring case.
+ */
+async function getStreamSlotUsage(ctx: QueryCtx, game: Doc<"games">) {
+	const live = (
+		await ctx.db
 			.query("games")
 			.withIndex("streamStatus", (q) => q.eq("streamStatus", "live"))
-			.first();
+			.collect()
+	).filter((other) => other._id !== game._id);
 
-		return gamesWithLiveStream?._id || null;
-	},
-});
+	const sameField = (other: Doc<"games">) =>
+		!!game.field &&
+		!!other.field &&
+		other.venue.trim().toLowerCase() === game.venue.trim().toLowerCase() &&
+		other.field.trim().toLowerCase() === game.field.trim().toLowerCase();
 
+	return {
+		orgLiveStreams: live.filter((other) => other.orgId === game.orgId).length,
+		fieldInUse: live.find(sameField) ?? null,
+	};
+}
 
+function fieldInUseMessage(game: Doc<"games">) {
+	return `${game.field} at ${game.venue} is already streaming another game`;
+}
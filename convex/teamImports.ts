@@ -1,6 +1,8 @@
 import { action, internalQuery, mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import { internal } from "./_generated/api";
+import { requirePlanCapacity } from "./billing";
+import { getActiveOrgId, getCallerOrgId, requireOrgRole } from "./organizations";
 import { extractedTeamValidator, type ExtractedTeam } from "./firecrawl.schema";
 import type { Id } from "./_generated/dataModel";
 
@@ -79,7 +81,11 @@ export const checkDuplicates = query({
     ),
   }),
   handler: async (ctx, args) => {
-    const allTeams = await ctx.db.query("teams").collect();
+    const orgId = await getCallerOrgId(ctx);
+    const allTeams = await ctx.db
+      .query("teams")
+      .withIndex("orgId", (q) => q.eq("orgId", orgId))
+      .collect();
     const duplicates: Array<{
       index: number;
       team: typeof args.teams[0];
@@ -160,8 +166,14 @@ export const importTeams = mutation({
       throw new Error("Not authorized to import teams");
     }
 
-    // Get all existing teams for duplicate checking
-    const allTeams = await ctx.db.query("teams").collect();
+    const orgId = await getActiveOrgId(ctx, user);
+    await requireOrgRole(ctx, user, orgId, "admin");
+
+    // Get the organization's existing teams for duplicate checking
+    const allTeams = await ctx.db
+      .query("teams")
+      .withIndex("orgId", (q) => q.eq("orgId", orgId))
+      .collect();
 
     const created: Id<"teams">[] = [];
     const skipped: Array<{ team: typeof args.teams[0]; reason: string }> = [];
@@ -207,8 +219,9 @@ export const importTeams = mutation({
         }
       }
 
-      // Create the team
-      const teamId = await ctx.db.insert("teams", team);
+      // Create the team (the whole import rolls back if it goes over the plan limit)
+      await requirePlanCapacity(ctx, user, orgId, "teams");
+      const teamId = await ctx.db.insert("teams", { ...team, orgId });
       created.push(teamId);
       allTeams.push({ ...team, _id: teamId } as any); // Add to list for subsequent checks
     }
@@ -0,0 +1,630 @@
+/**
+ * Tournaments: pool play round robins and single-elimination brackets
+ * Pool and bracket games are regular tournament-format games linked back to their
+ * pool or bracket slot; bracket winners advance automatically when a game completes
+ */
+
+import { mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server"
+import { v } from "convex/values"
+import type { Doc, Id } from "./_generated/dataModel"
+import { getOrgPlan, requireFeature, requirePlanCapacity } from "./billing"
+import { requireGameManager } from "./gameStaff"
+import { getActiveOrgId, getCallerOrgId, requireUser } from "./organizations"
+import { completedResults, computeStandings } from "./standings"
+
+const ruleConfigValidator = v.object({
+  stallCount: v.union(v.literal(6), v.literal(7), v.literal(10)),
+  targetScore: v.optional(v.number()),
+  quarterLength: v.optional(v.number()),
+  halfLength: v.optional(v.number()),
+  timeoutsPerHalf: v.number(),
+  timeoutDuration: v.number(),
+  capRules: v.optional(v.object({
+    softCapTime: v.number(),
+    hardCapTime: v.number(),
+  })),
+})
+
+/**
+ * Create a tournament
+ * Requires: canManageGames, the admin role and the premium plan in the active organization
+ */
+export const createTournament = mutation({
+  args: {
+    name: v.string(),
+    venue: v.string(),
+    startDate: v.number(),
+    ruleConfig: ruleConfigValidator,
+    genderRatioRequired: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+    const orgId = await getActiveOrgId(ctx, user)
+    await requireGameManager(ctx, user, orgId, "Not authorized to create tournaments")
+    requireFeature(await getOrgPlan(ctx, orgId, user), "tournaments")
+
+    if (!args.name.trim()) {
+      throw new Error("Tournament name is required")
+    }
+
+    return await ctx.db.insert("tournaments", {
+      name: args.name.trim(),
+      venue: args.venue,
+      startDate: args.startDate,
+      ruleConfig: args.ruleConfig,
+      genderRatioRequired: args.genderRatioRequired ?? false,
+      createdBy: user._id,
+      orgId,
+    })
+  },
+})
+
+/**
+ * Seed teams into pools, replacing any existing pools
+ * Teams are listed in seed order. Not allowed once pool play has been scheduled.
+ * Requires: canManageGames, the admin role and the premium plan in the tournament's organization
+ */
+export const seedPools = mutation({
+  args: {
+    tournamentId: v.id("tournaments"),
+    pools: v.array(v.object({
+      name: v.string(),
+      teamIds: v.array(v.id("teams")),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const { tournament } = await requireTournamentManager(ctx, args.tournamentId)
+
+    const existingPools = await ctx.db
+      .query("pools")
+      .withIndex("tournamentId", (q) => q.eq("tournamentId", args.tournamentId))
+      .collect()
+
+    for (const pool of existingPools) {
+      const poolGame = await ctx.db
+        .query("games")
+        .withIndex("poolId", (q) => q.eq("poolId", pool._id))
+        .first()
+      if (poolGame) {
+        throw new Error("Pool play is already scheduled; pools can no longer be changed")
+      }
+    }
+
+    // Each team can only be in one pool
+    const seen = new Set<Id<"teams">>()
+    for (const pool of args.pools) {
+      if (!pool.name.trim()) {
+        throw new Error("Every pool needs a name")
+      }
+      if (pool.teamIds.length < 2) {
+        throw new Error(`${pool.name} needs at least 2 teams`)
+      }
+      for (const teamId of pool.teamIds) {
+        if (seen.has(teamId)) {
+          throw new Error("A team can only be seeded into one pool")
+        }
+        seen.add(teamId)
+        await requireTournamentTeam(ctx, tournament, teamId)
+      }
+    }
+
+    await Promise.all(existingPools.map((pool) => ctx.db.delete(pool._id)))
+
+    return await Promise.all(
+      args.pools.map((pool) =>
+        ctx.db.insert("pools", {
+          tournamentId: args.tournamentId,
+          name: pool.name.trim(),
+          teamIds: pool.teamIds,
+        })
+      )
+    )
+  },
+})
+
+/**
+ * Generate the round-robin schedule for every pool
+ * All pools play round 1 at startTime, round 2 one interval later, and so on.
+ * Requires: canManageGames, the admin role and the premium plan in the tournament's organization
+ */
+export const generatePoolPlay = mutation({
+  args: {
+    tournamentId: v.id("tournaments"),
+    startTime: v.number(),
+    roundIntervalMinutes: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { user, tournament } = await requireTournamentManager(ctx, args.tournamentId)
+
+    if (args.roundIntervalMinutes <= 0) {
+      throw new Error("Round interval must be greater than 0")
+    }
+
+    const pools = await ctx.db
+      .query("pools")
+      .withIndex("tournamentId", (q) => q.eq("tournamentId", args.tournamentId))
+      .collect()
+
+    if (pools.length === 0) {
+      throw new Error("Seed pools before generating pool play")
+    }
+
+    const schedules = []
+    for (const pool of pools) {
+      const existingGame = await ctx.db
+        .query("games")
+        .withIndex("poolId", (q) => q.eq("poolId", pool._id))
+        .first()
+      if (existingGame) {
+        throw new Error(`${pool.name} already has a schedule`)
+      }
+      schedules.push({ pool, rounds: roundRobinRounds(pool.teamIds) })
+    }
+
+    // The whole schedule fits in the plan or none of it is created
+    const gameCount = schedules.reduce((sum, { rounds }) => sum + rounds.flat().length, 0)
+    await requirePlanCapacity(ctx, user, tournament.orgId, "games", gameCount)
+
+    let gamesCreated = 0
+    for (const { pool, rounds } of schedules) {
+      for (let round = 0; round < rounds.length; round++) {
+        for (const [homeTeamId, awayTeamId] of rounds[round]) {
+          await insertTournamentGame(ctx, tournament, user._id, {
+            homeTeamId,
+            awayTeamId,
+            scheduledStart: args.startTime + round * args.roundIntervalMinutes * 60 * 1000,
+            poolId: pool._id,
+          })
+          gamesCreated++
+        }
+      }
+    }
+
+    return { gamesCreated }
+  },
+})
+
+/**
+ * Create a single-elimination bracket
+ * Seeds are listed best first (length must be a power of two); 1 plays the last seed,
+ * 2 the second to last and so on. Seeds without a team show their label until a team
+ * is assigned. Each round is scheduled one interval after the previous one.
+ * Requires: canManageGames, the admin role and the premium plan in the tournament's organization
+ */
+export const createBracket = mutation({
+  args: {
+    tournamentId: v.id("tournaments"),
+    seeds: v.array(v.object({
+      label: v.string(),
+      teamId: v.optional(v.id("teams")),
+    })),
+    startTime: v.number(),
+    roundIntervalMinutes: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { user, tournament } = await requireTournamentManager(ctx, args.tournamentId)
+
+    const seedCount = args.seeds.length
+    if (seedCount < 2 || (seedCount & (seedCount - 1)) !== 0) {
+      throw new Error("A bracket needs 2, 4, 8, 16... seeds")
+    }
+
+    const existingSlot = await ctx.db
+      .query("bracketSlots")
+      .withIndex("tournamentId_round", (q) => q.eq("tournamentId", args.tournamentId))
+      .first()
+    if (existingSlot) {
+      throw new Error("This tournament already has a bracket")
+    }
+
+    // The plan needs room for every game the bracket will play (seeds - 1); games
+    // scheduled later by assigning teams or advancing winners don't check it again
+    await requirePlanCapacity(ctx, user, tournament.orgId, "games", seedCount - 1)
+
+    const assignedTeams = args.seeds.flatMap((seed) => (seed.teamId ? [seed.teamId] : []))
+    if (new Set(assignedTeams).size !== assignedTeams.length) {
+      throw new Error("A team can only be seeded once")
+    }
+    for (const teamId of assignedTeams) {
+      await requireTournamentTeam(ctx, tournament, teamId)
+    }
+
+    const roundCount = Math.log2(seedCount)
+    const roundStart = (round: number) =>
+      args.startTime + (round - 1) * args.roundIntervalMinutes * 60 * 1000
+
+    // Build from the final backwards so every slot knows where its winner goes
+    let nextRound: Id<"bracketSlots">[] = []
+    for (let round = roundCount; round >= 1; round--) {
+      const slotCount = seedCount / 2 ** round
+      const slotIds: Id<"bracketSlots">[] = []
+      for (let position = 0; position < slotCount; position++) {
+        slotIds.push(
+          await ctx.db.insert("bracketSlots", {
+            tournamentId: args.tournamentId,
+            round,
+            position,
+            scheduledStart: roundStart(round),
+            nextSlotId: round < roundCount ? nextRound[Math.floor(position / 2)] : undefined,
+            nextSlotSide: round < roundCount ? (position % 2 === 0 ? "home" : "away") : undefined,
+          })
+        )
+      }
+      nextRound = slotIds
+    }
+
+    // nextRound now holds the first round; fill it in bracket seed order
+    const order = bracketSeedOrder(seedCount)
+    for (let position = 0; position < nextRound.length; position++) {
+      const home = args.seeds[order[position * 2] - 1]
+      const away = args.seeds[order[position * 2 + 1] - 1]
+      await ctx.db.patch(nextRound[position], {
+        homeTeamId: home.teamId,
+        awayTeamId: away.teamId,
+        homeSeedLabel: home.label,
+        awaySeedLabel: away.label,
+      })
+      await scheduleSlotGameIfReady(ctx, tournament, nextRound[position], user._id)
+    }
+
+    return { slots: seedCount - 1 }
+  },
+})
+
+/**
+ * Put a team into an open bracket slot (e.g. once pool play decides "A1")
+ * Requires: canManageGames, the admin role and the premium plan in the tournament's organization
+ */
+export const assignBracketTeam = mutation({
+  args: {
+    slotId: v.id("bracketSlots"),
+    side: v.union(v.literal("home"), v.literal("away")),
+    teamId: v.id("teams"),
+  },
+  handler: async (ctx, args) => {
+    const slot = await ctx.db.get(args.slotId)
+    if (!slot) {
+      throw new Error("Bracket slot not found")
+    }
+
+    const { user, tournament } = await requireTournamentManager(ctx, slot.tournamentId)
+    await requireTournamentTeam(ctx, tournament, args.teamId)
+
+    if (slot.gameId) {
+      throw new Error("This matchup already has a game")
+    }
+
+    await ctx.db.patch(slot._id, {
+      [args.side === "home" ? "homeTeamId" : "awayTeamId"]: args.teamId,
+    })
+
+    await scheduleSlotGameIfReady(ctx, tournament, slot._id, user._id)
+  },
+})
+
+/**
+ * List the tournaments of the caller's active organization, most recent first
+ * Outside an organization, lists tournaments that don't belong to one
+ */
+export const listTournaments = query({
+  args: {},
+  handler: async (ctx) => {
+    const orgId = await getCallerOrgId(ctx)
+    return await ctx.db
+      .query("tournaments")
+      .withIndex("orgId_startDate", (q) => q.eq("orgId", orgId))
+      .order("desc")
+      .collect()
+  },
+})
+
+/**
+ * Get a tournament with pool standings, pool games and the bracket
+ */
+export const getTournament = query({
+  args: { tournamentId: v.id("tournaments") },
+  handler: async (ctx, args) => {
+    const tournament = await ctx.db.get(args.tournamentId)
+    if (!tournament) return null
+
+    const [pools, games, slots] = await Promise.all([
+      ctx.db
+        .query("pools")
+        .withIndex("tournamentId", (q) => q.eq("tournamentId", args.tournamentId))
+        .collect(),
+      ctx.db
+        .query("games")
+        .withIndex("tournamentId", (q) => q.eq("tournamentId", args.tournamentId))
+        .collect(),
+      ctx.db
+        .query("bracketSlots")
+        .withIndex("tournamentId_round", (q) => q.eq("tournamentId", args.tournamentId))
+        .collect(),
+    ])
+
+    const teams = new Map<Id<"teams">, Doc<"teams"> | null>()
+    const getTeam = async (teamId: Id<"teams"> | undefined) => {
+      if (!teamId) return null
+      if (!teams.has(teamId)) {
+        teams.set(teamId, await ctx.db.get(teamId))
+      }
+      return teams.get(teamId) ?? null
+    }
+
+    const gamesWithDetails = await Promise.all(
+      games.map(async (game) => ({
+        ...game,
+        homeTeam: await getTeam(game.homeTeamId),
+        awayTeam: await getTeam(game.awayTeamId),
+        state: await getGameState(ctx, game._id),
+      }))
+    )
+
+    const poolsWithStandings = await Promise.all(
+      pools.map(async (pool) => {
+        const poolGames = gamesWithDetails
+          .filter((game) => game.poolId === pool._id)
+          .sort((a, b) => a.scheduledStart - b.scheduledStart)
+        const standings = await Promise.all(
+          computeStandings(pool.teamIds, completedResults(poolGames)).map(async (row) => ({
+            ...row,
+            team: await getTeam(row.teamId),
+          }))
+        )
+        return { ...pool, standings, games: poolGames }
+      })
+    )
+
+    const bracket = await Promise.all(
+      slots.map(async (slot) => ({
+        ...slot,
+        homeTeam: await getTeam(slot.homeTeamId),
+        awayTeam: await getTeam(slot.awayTeamId),
+        game: gamesWithDetails.find((game) => game._id === slot.gameId) ?? null,
+      }))
+    )
+
+    return {
+      ...tournament,
+      pools: poolsWithStandings,
+      bracket,
+    }
+  },
+})
+
+/**
+ * Move a completed bracket game's winner into the next slot
+ * Called whenever a game completes (endGame, target score, final period).
+ * Ties don't advance anyone; the final has no next slot.
+ */
+export async function advanceBracketWinner(
+  ctx: MutationCtx,
+  game: Doc<"games">,
+  score: { homeScore: number; awayScore: number },
+  userId: Id<"users">
+) {
+  if (!game.bracketSlotId || score.homeScore === score.awayScore) {
+    return
+  }
+
+  const slot = await ctx.db.get(game.bracketSlotId)
+  if (!slot) {
+    return
+  }
+
+  const winnerTeamId = score.homeScore > score.awayScore ? game.homeTeamId : game.awayTeamId
+  await ctx.db.patch(slot._id, { winnerTeamId })
+
+  if (!slot.nextSlotId || !slot.nextSlotSide) {
+    return
+  }
+
+  await ctx.db.patch(slot.nextSlotId, {
+    [slot.nextSlotSide === "home" ? "homeTeamId" : "awayTeamId"]: winnerTeamId,
+  })
+
+  const tournament = await ctx.db.get(slot.tournamentId)
+  if (tournament) {
+    await scheduleSlotGameIfReady(ctx, tournament, slot.nextSlotId, userId)
+  }
+}
+
+/**
+ * Undo advanceBracketWinner when a completed bracket game is reopened by a correction
+ * The winner is pulled back out of the next slot as long as that game hasn't started.
+ */
+export async function retractBracketWinner(ctx: MutationCtx, game: Doc<"games">) {
+  if (!game.bracketSlotId) {
+    return
+  }
+
+  const slot = await ctx.db.get(game.bracketSlotId)
+  if (!slot?.winnerTeamId) {
+    return
+  }
+
+  const nextSlot = slot.nextSlotId ? await ctx.db.get(slot.nextSlotId) : null
+  if (nextSlot && slot.nextSlotSide) {
+    const nextGame = nextSlot.gameId ? await ctx.db.get(nextSlot.gameId) : null
+    if (nextGame && nextGame.status !== "upcoming") {
+      return
+    }
+
+    if (nextGame) {
+      const nextGameState = await ctx.db
+        .query("gameState")
+        .withIndex("gameId", (q) => q.eq("gameId", nextGame._id))
+        .first()
+      if (nextGameState) {
+        await ctx.db.delete(nextGameState._id)
+      }
+      await ctx.db.delete(nextGame._id)
+    }
+
+    await ctx.db.patch(nextSlot._id, {
+      [slot.nextSlotSide === "home" ? "homeTeamId" : "awayTeamId"]: undefined,
+      gameId: undefined,
+    })
+  }
+
+  await ctx.db.patch(slot._id, { winnerTeamId: undefined })
+}
+
+/**
+ * Load a tournament and require the user to manage its organization's games
+ */
+async function requireTournamentManager(ctx: MutationCtx, tournamentId: Id<"tournaments">) {
+  const user = await requireUser(ctx)
+  const tournament = await ctx.db.get(tournamentId)
+  if (!tournament) {
+    throw new Error("Tournament not found")
+  }
+
+  await requireGameManager(
+    ctx,
+    user,
+    tournament.orgId,
+    "Not authorized to manage tournaments",
+    "Tournament not found"
+  )
+  requireFeature(await getOrgPlan(ctx, tournament.orgId, user), "tournaments")
+  return { user, tournament }
+}
+
+/**
+ * Require a team to belong to the tournament's organization
+ */
+async function requireTournamentTeam(
+  ctx: QueryCtx,
+  tournament: Doc<"tournaments">,
+  teamId: Id<"teams">
+) {
+  const team = await ctx.db.get(teamId)
+  if (!team || team.orgId !== tournament.orgId) {
+    throw new Error("Team not found")
+  }
+}
+
+async function getGameState(ctx: QueryCtx, gameId: Id<"games">) {
+  return await ctx.db
+    .query("gameState")
+    .withIndex("gameId", (q) => q.eq("gameId", gameId))
+    .first()
+}
+
+/**
+ * Create a game for a bracket slot once both teams are known
+ */
+async function scheduleSlotGameIfReady(
+  ctx: MutationCtx,
+  tournament: Doc<"tournaments">,
+  slotId: Id<"bracketSlots">,
+  userId: Id<"users">
+) {
+  const slot = await ctx.db.get(slotId)
+  if (!slot || slot.gameId || !slot.homeTeamId || !slot.awayTeamId) {
+    return
+  }
+
+  const gameId = await insertTournamentGame(ctx, tournament, userId, {
+    homeTeamId: slot.homeTeamId,
+    awayTeamId: slot.awayTeamId,
+    scheduledStart: Math.max(slot.scheduledStart ?? Date.now(), Date.now()),
+    bracketSlotId: slot._id,
+  })
+
+  await ctx.db.patch(slot._id, { gameId })
+}
+
+/**
+ * Insert a tournament-format game and its initial state using the tournament's rules
+ */
+async function insertTournamentGame(
+  ctx: MutationCtx,
+  tournament: Doc<"tournaments">,
+  userId: Id<"users">,
+  fields: {
+    homeTeamId: Id<"teams">
+    awayTeamId: Id<"teams">
+    scheduledStart: number
+    poolId?: Id<"pools">
+    bracketSlotId?: Id<"bracketSlots">
+  }
+) {
+  const gameId = await ctx.db.insert("games", {
+    format: "tournament",
+    status: "upcoming",
+    homeTeamId: fields.homeTeamId,
+    awayTeamId: fields.awayTeamId,
+    scheduledStart: fields.scheduledStart,
+    venue: tournament.venue,
+    ruleConfig: tournament.ruleConfig,
+    genderRatioRequired: tournament.genderRatioRequired ?? false,
+    tournamentId: tournament._id,
+    poolId: fields.poolId,
+    bracketSlotId: fields.bracketSlotId,
+    orgId: tournament.orgId,
+  })
+
+  const initialClockSeconds = tournament.ruleConfig.quarterLength
+    ? tournament.ruleConfig.quarterLength * 60
+    : tournament.ruleConfig.halfLength
+    ? tournament.ruleConfig.halfLength * 60
+    : 0
+
+  await ctx.db.insert("gameState", {
+    gameId,
+    homeScore: 0,
+    awayScore: 0,
+    period: 1,
+    clockSeconds: initialClockSeconds,
+    clockRunning: false,
+    possession: "home",
+    pointStartedWith: "home",
+    homeTimeoutsRemaining: tournament.ruleConfig.timeoutsPerHalf,
+    awayTimeoutsRemaining: tournament.ruleConfig.timeoutsPerHalf,
+    lastUpdateTime: Date.now(),
+    lastUpdatedBy: userId,
+  })
+
+  return gameId
+}
+
+/**
+ * Round-robin pairings using the circle method (one team sits out each round if odd)
+ */
+function roundRobinRounds<T>(teams: T[]): [T, T][][] {
+  const circle: (T | null)[] = teams.length % 2 === 0 ? [...teams] : [...teams, null]
+  const rounds: [T, T][][] = []
+
+  for (let round = 0; round < circle.length - 1; round++) {
+    const pairs: [T, T][] = []
+    for (let i = 0; i < circle.length / 2; i++) {
+      const home = circle[i]
+      const away = circle[circle.length - 1 - i]
+      if (home !== null && away !== null) {
+        pairs.push(round % 2 === 0 ? [home, away] : [away, home])
+      }
+    }
+    rounds.push(pairs)
+
+    // Keep the first team fixed and rotate everyone else one place
+    const last = circle.pop() ?? null
+    circle.splice(1, 0, last)
+  }
+
+  return rounds
+}
+
+/**
+ * Seed numbers in first-round bracket order, e.g. 8 -> [1, 8, 4, 5, 2, 7, 3, 6]
+ * so the top two seeds can only meet in the final
+ */
+function bracketSeedOrder(size: number): number[] {
+  let order = [1]
+  while (order.length < size) {
+    const roundSize = order.length * 2
+    order = order.flatMap((seed) => [seed, roundSize + 1 - seed])
+  }
+  return order
+}
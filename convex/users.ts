@@ -0,0 +1,356 @@
+/**
+ * User administration: roles, permissions and invitations
+ * Only admins (users.role === "admin") can change anyone's role or permissions, and only
+ * for members of their active organization, where they also need the admin role. Outside
+ * an organization, admins manage the users who don't belong to one. Admins can also
+ * invite people by email to pre-provision a role, which is claimed when that email first
+ * signs in (see createUser in gameMutations.ts). Every change is written to the
+ * permissionAudit table.
+ */
+
+import { mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server"
+import { v } from "convex/values"
+import { internal } from "./_generated/api"
+import type { Doc, Id } from "./_generated/dataModel"
+import {
+  getActiveOrgId,
+  getCurrentUser,
+  getOrgRole,
+  hasOrgRank,
+  requireOrgRole,
+  requireUser,
+} from "./organizations"
+
+export type UserRole = Doc<"users">["role"]
+
+export type Permissions = Pick<Doc<"users">, "role" | "canManageGames" | "canManageTeams">
+
+const roleValidator = v.union(v.literal("admin"), v.literal("scorekeeper"), v.literal("viewer"))
+
+const LIST_LIMIT = 100
+
+/**
+ * Default permission flags for a role
+ */
+export function defaultPermissions(role: UserRole): Permissions {
+  return { role, canManageGames: role === "admin", canManageTeams: role === "admin" }
+}
+
+/**
+ * Users in the admin's scope matching a name or email search, for admins (null for
+ * everyone else)
+ */
+export const listUsers = query({
+  args: { search: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const caller = await getCurrentUser(ctx)
+    if (caller?.role !== "admin") {
+      return null
+    }
+
+    const orgId = await getActiveOrgId(ctx, caller)
+    if (orgId && !hasOrgRank(await getOrgRole(ctx, caller, orgId), "admin")) {
+      return null
+    }
+
+    const search = args.search?.trim().toLowerCase()
+    const users = await getUsersInAdminScope(ctx, orgId)
+
+    return users
+      .filter(
+        (user) =>
+          !search ||
+          user.name.toLowerCase().includes(search) ||
+          user.email.toLowerCase().includes(search)
+      )
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .slice(0, LIST_LIMIT)
+  },
+})
+
+/**
+ * Change a user's role and permission flags
+ * Requires: admin role, plus the admin role in the active organization the user belongs
+ * to; the last admin can't be demoted
+ */
+export const updateUserPermissions = mutation({
+  args: {
+    userId: v.id("users"),
+    role: roleValidator,
+    canManageGames: v.boolean(),
+    canManageTeams: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx)
+    const orgId = await getActiveOrgId(ctx, admin)
+    await requireOrgRole(ctx, admin, orgId, "admin")
+
+    const user = await ctx.db.get(args.userId)
+    if (!user || !(await isInAdminScope(ctx, orgId, user._id))) {
+      throw new Error("User not found")
+    }
+
+    const before = pickPermissions(user)
+    const after: Permissions = {
+      role: args.role,
+      canManageGames: args.canManageGames,
+      canManageTeams: args.canManageTeams,
+    }
+    if (samePermissions(before, after)) {
+      return
+    }
+
+    if (user.role === "admin" && args.role !== "admin") {
+      const admins = await ctx.db
+        .query("users")
+        .filter((q) => q.eq(q.field("role"), "admin"))
+        .take(2)
+      if (admins.length < 2) {
+        throw new Error("There must be at least one admin")
+      }
+    }
+
+    await ctx.db.patch(args.userId, after)
+    await recordPermissionChange(ctx, {
+      action: "permissions_changed",
+      userId: user._id,
+      email: user.email,
+      changedBy: admin._id,
+      before,
+      after,
+    })
+  },
+})
+
+/**
+ * Invite someone by email with a role they receive at first sign-in
+ * Re-inviting a pending email replaces its role. An invitation email is sent through
+ * the notification email provider.
+ * Requires: admin role
+ */
+export const inviteUser = mutation({
+  args: {
+    email: v.string(),
+    role: roleValidator,
+    canManageGames: v.optional(v.boolean()),
+    canManageTeams: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx)
+
+    const email = normalizeEmail(args.email)
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new Error("Enter a valid email address")
+    }
+
+    const existingUser = (await ctx.db.query("users").collect()).find(
+      (user) => normalizeEmail(user.email) === email
+    )
+    if (existingUser) {
+      throw new Error("That person already has an account. Change their role instead.")
+    }
+
+    const defaults = defaultPermissions(args.role)
+    const permissions: Permissions = {
+      role: args.role,
+      canManageGames: args.canManageGames ?? defaults.canManageGames,
+      canManageTeams: args.canManageTeams ?? defaults.canManageTeams,
+    }
+
+    const pending = await getPendingInvitation(ctx, email)
+    let invitationId: Id<"userInvitations">
+    if (pending) {
+      await ctx.db.patch(pending._id, { ...permissions, invitedBy: admin._id })
+      invitationId = pending._id
+    } else {
+      invitationId = await ctx.db.insert("userInvitations", {
+        email,
+        ...permissions,
+        invitedBy: admin._id,
+        status: "pending",
+      })
+    }
+
+    await recordPermissionChange(ctx, {
+      action: "invited",
+      email,
+      changedBy: admin._id,
+      before: pending ? pickPermissions(pending) : undefined,
+      after: permissions,
+    })
+
+    await ctx.scheduler.runAfter(0, internal.notificationDelivery.sendInvitation, {
+      email,
+      role: permissions.role,
+      invitedBy: admin.name,
+    })
+
+    return invitationId
+  },
+})
+
+/**
+ * Revoke a pending invitation
+ * Requires: admin role
+ */
+export const revokeInvitation = mutation({
+  args: { invitationId: v.id("userInvitations") },
+  handler: async (ctx, args) => {
+    const admin = await requireAdmin(ctx)
+
+    const invitation = await ctx.db.get(args.invitationId)
+    if (!invitation || invitation.status !== "pending") {
+      throw new Error("Invitation not found")
+    }
+
+    await ctx.db.patch(args.invitationId, { status: "revoked" })
+    await recordPermissionChange(ctx, {
+      action: "invitation_revoked",
+      email: invitation.email,
+      changedBy: admin._id,
+      before: pickPermissions(invitation),
+    })
+  },
+})
+
+/**
+ * Pending invitations, for admins (null for everyone else)
+ */
+export const listInvitations = query({
+  args: {},
+  handler: async (ctx) => {
+    const caller = await getCurrentUser(ctx)
+    if (caller?.role !== "admin") {
+      return null
+    }
+
+    const invitations = await ctx.db
+      .query("userInvitations")
+      .withIndex("status", (q) => q.eq("status", "pending"))
+      .order("desc")
+      .collect()
+
+    return await Promise.all(
+      invitations.map(async (invitation) => ({
+        ...invitation,
+        invitedByName: (await ctx.db.get(invitation.invitedBy))?.name ?? "Unknown user",
+      }))
+    )
+  },
+})
+
+/**
+ * Most recent permission changes, newest first, for admins (null for everyone else)
+ */
+export const listPermissionAudit = query({
+  args: {
+    userId: v.optional(v.id("users")),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const caller = await getCurrentUser(ctx)
+    if (caller?.role !== "admin") {
+      return null
+    }
+
+    const limit = args.limit ?? 50
+    const entries = args.userId
+      ? await ctx.db
+          .query("permissionAudit")
+          .withIndex("userId_timestamp", (q) => q.eq("userId", args.userId))
+          .order("desc")
+          .take(limit)
+      : await ctx.db.query("permissionAudit").withIndex("timestamp").order("desc").take(limit)
+
+    return await Promise.all(
+      entries.map(async (entry) => ({
+        ...entry,
+        changedByName: entry.changedBy
+          ? ((await ctx.db.get(entry.changedBy))?.name ?? "Unknown user")
+          : "System",
+      }))
+    )
+  },
+})
+
+/**
+ * Pending invitation for an email address, if any
+ */
+export async function getPendingInvitation(ctx: QueryCtx, email: string) {
+  return await ctx.db
+    .query("userInvitations")
+    .withIndex("email_status", (q) =>
+      q.eq("email", normalizeEmail(email)).eq("status", "pending")
+    )
+    .first()
+}
+
+/**
+ * Append an entry to the permission audit log
+ */
+export async function recordPermissionChange(
+  ctx: MutationCtx,
+  entry: Omit<Doc<"permissionAudit">, "_id" | "_creationTime" | "timestamp">
+) {
+  await ctx.db.insert("permissionAudit", { ...entry, timestamp: Date.now() })
+}
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase()
+}
+
+function pickPermissions(record: Permissions): Permissions {
+  return {
+    role: record.role,
+    canManageGames: record.canManageGames,
+    canManageTeams: record.canManageTeams,
+  }
+}
+
+function samePermissions(a: Permissions, b: Permissions) {
+  return (
+    a.role === b.role &&
+    a.canManageGames === b.canManageGames &&
+    a.canManageTeams === b.canManageTeams
+  )
+}
+
+/**
+ * Whether a user is managed from an organization: a member of it, or (without orgId) a
+ * user who belongs to no organization
+ */
+async function isInAdminScope(
+  ctx: QueryCtx,
+  orgId: Id<"organizations"> | undefined,
+  userId: Id<"users">
+) {
+  const memberships = await ctx.db
+    .query("orgMembers")
+    .withIndex("userId", (q) => q.eq("userId", userId))
+    .collect()
+  return orgId ? memberships.some((m) => m.orgId === orgId) : memberships.length === 0
+}
+
+async function getUsersInAdminScope(ctx: QueryCtx, orgId: Id<"organizations"> | undefined) {
+  if (orgId) {
+    const members = await ctx.db
+      .query("orgMembers")
+      .withIndex("orgId", (q) => q.eq("orgId", orgId))
+      .collect()
+    const users = await Promise.all(members.map((member) => ctx.db.get(member.userId)))
+    return users.filter((user): user is Doc<"users"> => user !== null)
+  }
+
+  const users = await ctx.db.query("users").collect()
+  const inScope = await Promise.all(users.map((user) => isInAdminScope(ctx, undefined, user._id)))
+  return users.filter((_, i) => inScope[i])
+}
+
+async function requireAdmin(ctx: MutationCtx) {
+  const user = await requireUser(ctx)
+  if (user.role !== "admin") {
+    throw new Error("Only admins can manage users")
+  }
+
+  return user
+}
@@ -10,12 +10,25 @@
  * - Start/stop streaming controls
  * - Error handling and permissions
  * - Direct browser-to-Cloudflare streaming via WebRTC
+ * - Automatic reconnects and connection quality, reported to the operator
+ * - Overlays drawn onto the published canvas (e.g. the score bug, see useScoreBugOverlay)
  */
 
 import type { FC } from "react";
 import { useState, useRef, useEffect } from "react";
 import { Video, VideoOff, Mic, MicOff, X } from "lucide-react";
-import { WHIPClient } from "@/lib/whip-client";
+import {
+	WHIPClient,
+	type WHIPConnectionState,
+	type WHIPStats,
+} from "@/lib/whip-client";
+
+// Draws on top of each camera frame before it is published (canvas mode only)
+export type CanvasOverlay = (
+	ctx: CanvasRenderingContext2D,
+	width: number,
+	height: number,
+) => void;
 
 export interface BrowserStreamProps {
 	webRtcPublishUrl: string;
@@ -24,7 +37,12 @@ export interface BrowserStreamProps {
 	onError?: (error: string) => void;
 	onCanvasStreamReady?: (stream: MediaStream | null) => void;
 	onStreamingStateChange?: (isStreaming: boolean) => void;
+	onConnectionStateChange?: (state: WHIPConnectionState) => void;
+	onStats?: (stats: WHIPStats) => void;
+	// STUN/TURN servers (defaults to VITE_WEBRTC_ICE_SERVERS)
+	iceServers?: RTCIceServer[];
 	useCanvas?: boolean;
+	overlay?: CanvasOverlay;
 }
 
 export const BrowserStream: FC<BrowserStreamProps> = ({
@@ -34,7 +52,11 @@ export const BrowserStream: FC<BrowserStreamProps> = ({
 	onError,
 	onCanvasStreamReady,
 	onStreamingStateChange,
+	onConnectionStateChange,
+	onStats,
+	iceServers,
 	useCanvas = false,
+	overlay,
 }) => {
 	const [isStreaming, setIsStreaming] = useState(false);
 	const [isLoading, setIsLoading] = useState(false);
@@ -43,6 +65,10 @@ export const BrowserStream: FC<BrowserStreamProps> = ({
 	const [error, setError] = useState<string | null>(null);
 	const [videoEnabled, setVideoEnabled] = useState(true);
 	const [audioEnabled, setAudioEnabled] = useState(true);
+	const [connectionState, setConnectionState] =
+		useState<WHIPConnectionState | null>(null);
+	const [reconnectAttempt, setReconnectAttempt] = useState(0);
+	const [stats, setStats] = useState<WHIPStats | null>(null);
 
 	const videoRef = useRef<HTMLVideoElement>(null);
 	const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -53,11 +79,18 @@ export const BrowserStream: FC<BrowserStreamProps> = ({
 	// Store callback in ref to avoid dependency issues
 	const onCanvasStreamReadyRef = useRef(onCanvasStreamReady);
 
+	// The render loop reads the overlay from a ref so changing it doesn't restart the loop
+	const overlayRef = useRef(overlay);
+
 	// Update callback ref when it changes
 	useEffect(() => {
 		onCanvasStreamReadyRef.current = onCanvasStreamReady;
 	}, [onCanvasStreamReady]);
 
+	useEffect(() => {
+		overlayRef.current = overlay;
+	}, [overlay]);
+
 	// Cleanup on unmount
 	useEffect(() => {
 		return () => {
@@ -131,6 +164,7 @@ export const BrowserStream: FC<BrowserStreamProps> = ({
 				// Clear canvas before drawing to avoid artifacts
 				ctx.clearRect(0, 0, canvas.width, canvas.height);
 				ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+				overlayRef.current?.(ctx, canvas.width, canvas.height);
 			}
 			animationFrameRef.current = requestAnimationFrame(drawFrame);
 		};
@@ -368,10 +402,27 @@ export const BrowserStream: FC<BrowserStreamProps> = ({
 			})();
 
 			// Create WHIP client - don't pass video element when using canvas
-			const whipClient = new WHIPClient(
-				webRtcPublishUrl,
-				useCanvas ? undefined : videoRef.current || undefined,
-			);
+			const whipClient = new WHIPClient(webRtcPublishUrl, {
+				videoElement: useCanvas ? undefined : videoRef.current || undefined,
+				iceServers,
+				onStateChange: (state) => {
+					setConnectionState(state);
+					if (state === "connected") setReconnectAttempt(0);
+					onConnectionStateChange?.(state);
+				},
+				onReconnecting: (attempt) => setReconnectAttempt(attempt),
+				onStats: (latest) => {
+					setStats(latest);
+					onStats?.(latest);
+				},
+				onFailed: (err) => {
+					// The client gave up reconnecting, so the stream is over
+					const errorMessage = `${err.message}. Start the stream again when your connection is back.`;
+					setError(errorMessage);
+					onError?.(errorMessage);
+					stopStream();
+				},
+			});
 			whipClientRef.current = whipClient;
 
 			// Start publishing stream via WHIP
@@ -451,6 +502,9 @@ export const BrowserStream: FC<BrowserStreamProps> = ({
 
 		// Update state and notify parent
 		setIsStreaming(false);
+		setConnectionState(null);
+		setReconnectAttempt(0);
+		setStats(null);
 
 		// Notify parent of streaming state change FIRST
 		onStreamingStateChange?.(false);
@@ -653,17 +707,52 @@ export const BrowserStream: FC<BrowserStreamProps> = ({
 				</div>
 
 				{/* Info - Compact */}
-				{isStreaming && (
-					<div className="alert alert-success py-3">
+				{isStreaming && connectionState === "reconnecting" ? (
+					<div className="alert alert-warning py-3">
 						<div className="flex items-center gap-3">
-							<span className="w-3 h-3 bg-success-content rounded-full animate-pulse"></span>
+							<span className="loading loading-spinner loading-xs"></span>
 							<p className="text-sm font-medium">
-								Streaming to Cloudflare
+								Connection lost, reconnecting
+								{reconnectAttempt > 0 && ` (attempt ${reconnectAttempt})`}...
 							</p>
 						</div>
 					</div>
+				) : (
+					isStreaming && (
+						<div className="alert alert-success py-3">
+							<div className="flex items-center gap-3">
+								<span className="w-3 h-3 bg-success-content rounded-full animate-pulse"></span>
+								<div>
+									<p className="text-sm font-medium">Streaming to Cloudflare</p>
+									{stats && (
+										<p className="text-xs opacity-80">{formatStats(stats)}</p>
+									)}
+								</div>
+							</div>
+						</div>
+					)
 				)}
 			</div>
 		</div>
 	);
 };
+
+// Helper Functions
+
+function formatStats(stats: WHIPStats) {
+	return [
+		`${stats.bitrateKbps.toLocaleString()} kbps`,
+		stats.frameWidth && stats.frameHeight
+			? `${stats.frameWidth}×${stats.frameHeight}`
+			: null,
+		stats.framesPerSecond ? `${Math.round(stats.framesPerSecond)} fps` : null,
+		stats.packetLossPercent !== null
+			? `${stats.packetLossPercent}% loss`
+			: null,
+		stats.qualityLimitationReason && stats.qualityLimitationReason !== "none"
+			? `limited by ${stats.qualityLimitationReason}`
+			: null,
+	]
+		.filter(Boolean)
+		.join(" · ");
+}
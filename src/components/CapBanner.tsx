@@ -0,0 +1,46 @@
+/**
+ * CapBanner Component
+ *
+ * Announces the cap-adjusted target once a soft or hard cap is in effect,
+ * e.g. "SOFT CAP: game to 12". Renders nothing before a cap.
+ */
+
+import type { FC } from "react";
+
+export interface CapBannerProps {
+	capStatus?: "soft" | "hard";
+	cappedTarget?: number;
+	compact?: boolean;
+	className?: string;
+}
+
+export const CapBanner: FC<CapBannerProps> = ({
+	capStatus,
+	cappedTarget,
+	compact = false,
+	className = "",
+}) => {
+	if (!capStatus || cappedTarget === undefined) {
+		return null;
+	}
+
+	const label = `${capStatus === "soft" ? "SOFT CAP" : "HARD CAP"}: game to ${cappedTarget}`;
+
+	if (compact) {
+		return (
+			<div
+				className={`badge ${capStatus === "hard" ? "badge-error" : "badge-warning"} font-semibold ${className}`}
+			>
+				{label}
+			</div>
+		);
+	}
+
+	return (
+		<div
+			className={`alert ${capStatus === "hard" ? "alert-error" : "alert-warning"} justify-center font-semibold ${className}`}
+		>
+			<span>{label}</span>
+		</div>
+	);
+};
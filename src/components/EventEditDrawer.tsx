@@ -0,0 +1,270 @@
+/**
+ * EventEditDrawer Component
+ *
+ * Side drawer used by the scorekeeper to correct a recorded goal, turnover or timeout.
+ * Corrections never delete anything: saving voids the original event and records
+ * a corrected copy, and voiding removes the event from the score entirely.
+ */
+
+import { useMutation } from "convex/react";
+import { X } from "lucide-react";
+import { type FC, useState } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+
+type TurnoverType =
+	| "drop"
+	| "throwaway"
+	| "block"
+	| "stall"
+	| "out-of-bounds"
+	| "other";
+
+const TURNOVER_TYPES: { value: TurnoverType; label: string }[] = [
+	{ value: "drop", label: "Drop" },
+	{ value: "throwaway", label: "Throwaway" },
+	{ value: "block", label: "Block" },
+	{ value: "stall", label: "Stall" },
+	{ value: "out-of-bounds", label: "Out" },
+	{ value: "other", label: "Other" },
+];
+
+export interface EventEditDrawerProps {
+	event: Doc<"events">;
+	homeTeam?: Doc<"teams"> | null;
+	awayTeam?: Doc<"teams"> | null;
+	homePlayers: Doc<"players">[];
+	awayPlayers: Doc<"players">[];
+	onClose: () => void;
+}
+
+export const EventEditDrawer: FC<EventEditDrawerProps> = ({
+	event,
+	homeTeam,
+	awayTeam,
+	homePlayers,
+	awayPlayers,
+	onClose,
+}) => {
+	const editEvent = useMutation(api.gameMutations.editEvent);
+	const voidEvent = useMutation(api.gameMutations.voidEvent);
+
+	const [scoringTeam, setScoringTeam] = useState<"home" | "away">(
+		event.scoringTeam ?? "home",
+	);
+	const [scoredBy, setScoredBy] = useState<string>(event.scoredBy ?? "");
+	const [assistedBy, setAssistedBy] = useState<string>(event.assistedBy ?? "");
+	const [turnoverType, setTurnoverType] = useState<TurnoverType>(
+		event.turnoverType ?? "other",
+	);
+	const [timeoutTeam, setTimeoutTeam] = useState<"home" | "away">(
+		event.team ?? "home",
+	);
+	const [isSaving, setIsSaving] = useState(false);
+	const [error, setError] = useState("");
+
+	const isGoal = event.type === "goal";
+	const isTimeout = event.type === "timeout";
+	const scoringPlayers = scoringTeam === "home" ? homePlayers : awayPlayers;
+
+	const handleScoringTeamChange = (team: "home" | "away") => {
+		setScoringTeam(team);
+		// Players belong to the previous team, so clear them
+		setScoredBy("");
+		setAssistedBy("");
+	};
+
+	const handleSave = async () => {
+		setError("");
+		setIsSaving(true);
+		try {
+			await editEvent(
+				isGoal
+					? {
+							eventId: event._id,
+							scoringTeam,
+							scoredBy: (scoredBy || null) as Id<"players"> | null,
+							assistedBy: (assistedBy || null) as Id<"players"> | null,
+						}
+					: isTimeout
+						? { eventId: event._id, team: timeoutTeam }
+						: { eventId: event._id, turnoverType },
+			);
+			onClose();
+		} catch (err) {
+			setError(
+				err instanceof Error ? err.message : "Failed to save correction",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handleVoid = async () => {
+		if (
+			!confirm("Void this event? It will no longer count toward the score.")
+		) {
+			return;
+		}
+		setError("");
+		setIsSaving(true);
+		try {
+			await voidEvent({ eventId: event._id });
+			onClose();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to void event");
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<div className="fixed inset-0 z-50 flex justify-end">
+			<button
+				type="button"
+				aria-label="Close"
+				className="absolute inset-0 bg-black/40"
+				onClick={onClose}
+			/>
+			<div className="relative w-full max-w-sm h-full bg-base-100 shadow-xl flex flex-col">
+				<div className="flex items-center justify-between px-6 py-4 border-b border-base-300">
+					<div>
+						<h3 className="text-lg font-semibold text-base-content">
+							Edit {isGoal ? "Goal" : isTimeout ? "Timeout" : "Turnover"}
+						</h3>
+						<p className="text-sm text-base-content/70">{event.description}</p>
+					</div>
+					<button
+						type="button"
+						onClick={onClose}
+						className="btn btn-ghost btn-sm btn-square"
+					>
+						<X className="w-4 h-4" />
+					</button>
+				</div>
+
+				<div className="flex-1 overflow-auto px-6 py-4 space-y-4">
+					{error && (
+						<div className="alert alert-error text-sm">
+							<span>{error}</span>
+						</div>
+					)}
+
+					{isGoal ? (
+						<>
+							<label className="block">
+								<span className="label">
+									<span className="label-text">Scoring Team</span>
+								</span>
+								<select
+									value={scoringTeam}
+									onChange={(e) =>
+										handleScoringTeamChange(e.target.value as "home" | "away")
+									}
+									className="select select-bordered w-full"
+								>
+									<option value="home">{homeTeam?.name || "Home"}</option>
+									<option value="away">{awayTeam?.name || "Away"}</option>
+								</select>
+							</label>
+							<label className="block">
+								<span className="label">
+									<span className="label-text">Scored By</span>
+								</span>
+								<select
+									value={scoredBy}
+									onChange={(e) => setScoredBy(e.target.value)}
+									className="select select-bordered w-full"
+								>
+									<option value="">No player</option>
+									{scoringPlayers.map((player) => (
+										<option key={player._id} value={player._id}>
+											#{player.jerseyNumber} {player.firstName}{" "}
+											{player.lastName}
+										</option>
+									))}
+								</select>
+							</label>
+							<label className="block">
+								<span className="label">
+									<span className="label-text">Assisted By</span>
+								</span>
+								<select
+									value={assistedBy}
+									onChange={(e) => setAssistedBy(e.target.value)}
+									className="select select-bordered w-full"
+								>
+									<option value="">No player</option>
+									{scoringPlayers.map((player) => (
+										<option key={player._id} value={player._id}>
+											#{player.jerseyNumber} {player.firstName}{" "}
+											{player.lastName}
+										</option>
+									))}
+								</select>
+							</label>
+						</>
+					) : isTimeout ? (
+						<label className="block">
+							<span className="label">
+								<span className="label-text">Called By</span>
+							</span>
+							<select
+								value={timeoutTeam}
+								onChange={(e) =>
+									setTimeoutTeam(e.target.value as "home" | "away")
+								}
+								className="select select-bordered w-full"
+							>
+								<option value="home">{homeTeam?.name || "Home"}</option>
+								<option value="away">{awayTeam?.name || "Away"}</option>
+							</select>
+						</label>
+					) : (
+						<label className="block">
+							<span className="label">
+								<span className="label-text">Turnover Type</span>
+							</span>
+							<select
+								value={turnoverType}
+								onChange={(e) =>
+									setTurnoverType(e.target.value as TurnoverType)
+								}
+								className="select select-bordered w-full"
+							>
+								{TURNOVER_TYPES.map((type) => (
+									<option key={type.value} value={type.value}>
+										{type.label}
+									</option>
+								))}
+							</select>
+						</label>
+					)}
+				</div>
+
+				<div className="px-6 py-4 border-t border-base-300 space-y-2">
+					<button
+						type="button"
+						onClick={handleSave}
+						disabled={isSaving}
+						className="btn btn-primary w-full"
+					>
+						{isSaving ? (
+							<span className="loading loading-spinner loading-sm"></span>
+						) : (
+							"Save Correction"
+						)}
+					</button>
+					<button
+						type="button"
+						onClick={handleVoid}
+						disabled={isSaving}
+						className="btn btn-error btn-outline w-full"
+					>
+						Void Event
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+};
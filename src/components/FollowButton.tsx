@@ -0,0 +1,95 @@
+/**
+ * FollowButton Component
+ *
+ * Follows or unfollows a game or a team for the signed-in user.
+ * Signed-out visitors get a sign-in prompt instead.
+ */
+
+import { SignInButton, useUser } from "@clerk/clerk-react";
+import { useMutation, useQuery } from "convex/react";
+import { Bell, BellRing } from "lucide-react";
+import { type FC, useState } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+export interface FollowButtonProps {
+	gameId?: Id<"games">;
+	teamId?: Id<"teams">;
+	size?: "xs" | "sm" | "md";
+	className?: string;
+}
+
+export const FollowButton: FC<FollowButtonProps> = ({
+	gameId,
+	teamId,
+	size = "sm",
+	className = "",
+}) => {
+	const { isSignedIn } = useUser();
+	const subscriptions = useQuery(
+		api.notifications.listMySubscriptions,
+		isSignedIn ? {} : "skip",
+	);
+	const subscribe = useMutation(api.notifications.subscribe);
+	const unsubscribe = useMutation(api.notifications.unsubscribe);
+	const [isSaving, setIsSaving] = useState(false);
+
+	const sizeClass =
+		size === "xs" ? "btn-xs" : size === "sm" ? "btn-sm" : "btn-md";
+	const label = gameId ? "Follow game" : "Follow team";
+
+	if (!isSignedIn) {
+		return (
+			<SignInButton mode="modal">
+				<button
+					type="button"
+					className={`btn btn-ghost ${sizeClass} ${className}`}
+					title={`Sign in to ${label.toLowerCase()}`}
+				>
+					<Bell className="w-4 h-4" />
+					<span className="hidden sm:inline">Follow</span>
+				</button>
+			</SignInButton>
+		);
+	}
+
+	const subscription = subscriptions?.find(
+		(sub) => sub.gameId === gameId && sub.teamId === teamId,
+	);
+
+	const handleClick = async () => {
+		setIsSaving(true);
+		try {
+			if (subscription) {
+				await unsubscribe({ subscriptionId: subscription._id });
+			} else {
+				await subscribe({ gameId, teamId });
+			}
+		} catch (error) {
+			console.error("Failed to update follow:", error);
+			alert(error instanceof Error ? error.message : "Failed to update follow");
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<button
+			type="button"
+			onClick={handleClick}
+			disabled={subscriptions === undefined || isSaving}
+			className={`btn ${subscription ? "btn-primary" : "btn-ghost"} ${sizeClass} ${className}`}
+			title={subscription ? "Stop following" : label}
+			aria-pressed={!!subscription}
+		>
+			{subscription ? (
+				<BellRing className="w-4 h-4" />
+			) : (
+				<Bell className="w-4 h-4" />
+			)}
+			<span className="hidden sm:inline">
+				{subscription ? "Following" : "Follow"}
+			</span>
+		</button>
+	);
+};
@@ -1,19 +1,24 @@
 import { SignedIn, SignedOut, SignInButton } from "@clerk/clerk-react";
 import { Link } from "@tanstack/react-router";
 import {
+	BarChart3,
+	Bell,
 	CreditCard,
 	Gamepad2,
 	Home,
 	LayoutDashboard,
+	ListOrdered,
 	LogIn,
 	Menu,
 	Search,
+	Trophy,
 	Users,
 	X,
 } from "lucide-react";
 import { useState } from "react";
 import ClerkHeader from "../integrations/clerk/header-user.tsx";
 import { PaymentAlert } from "./autumn/PaymentAlert";
+import { OrgSwitcher } from "./OrgSwitcher";
 
 export default function Header() {
 	const [isOpen, setIsOpen] = useState(false);
@@ -36,7 +41,10 @@ export default function Header() {
 						</h1>
 					</Link>
 				</div>
-				<div className="hidden md:block">
+				<div className="hidden md:flex items-center gap-3">
+					<SignedIn>
+						<OrgSwitcher />
+					</SignedIn>
 					<ClerkHeader />
 				</div>
 			</header>
@@ -99,6 +107,45 @@ export default function Header() {
 							<span className="font-medium">Browse Games</span>
 						</Link>
 
+						<Link
+							to="/tournaments"
+							onClick={() => setIsOpen(false)}
+							className="flex items-center gap-3 p-3 rounded-lg hover:bg-base-300 transition-colors mb-1"
+							activeProps={{
+								className:
+									"flex items-center gap-3 p-3 rounded-lg bg-primary text-primary-content transition-colors mb-1",
+							}}
+						>
+							<Trophy size={20} />
+							<span className="font-medium">Tournaments</span>
+						</Link>
+
+						<Link
+							to="/standings"
+							onClick={() => setIsOpen(false)}
+							className="flex items-center gap-3 p-3 rounded-lg hover:bg-base-300 transition-colors mb-1"
+							activeProps={{
+								className:
+									"flex items-center gap-3 p-3 rounded-lg bg-primary text-primary-content transition-colors mb-1",
+							}}
+						>
+							<ListOrdered size={20} />
+							<span className="font-medium">Standings</span>
+						</Link>
+
+						<Link
+							to="/leaderboard"
+							onClick={() => setIsOpen(false)}
+							className="flex items-center gap-3 p-3 rounded-lg hover:bg-base-300 transition-colors mb-1"
+							activeProps={{
+								className:
+									"flex items-center gap-3 p-3 rounded-lg bg-primary text-primary-content transition-colors mb-1",
+							}}
+						>
+							<BarChart3 size={20} />
+							<span className="font-medium">Leaderboard</span>
+						</Link>
+
 						<Link
 							to="/pricing"
 							onClick={() => setIsOpen(false)}
@@ -131,6 +178,30 @@ export default function Header() {
 						</div>
 					</SignedOut>
 
+					{/* Account Links - Only for Authenticated Users */}
+					<SignedIn>
+						<div className="mb-6">
+							<h3 className="text-xs font-semibold text-base-content/50 uppercase tracking-wider mb-2 px-3">
+								Account
+							</h3>
+							<div className="px-3 mb-2">
+								<OrgSwitcher className="w-full" />
+							</div>
+							<Link
+								to="/me"
+								onClick={() => setIsOpen(false)}
+								className="flex items-center gap-3 p-3 rounded-lg hover:bg-base-300 transition-colors mb-1"
+								activeProps={{
+									className:
+										"flex items-center gap-3 p-3 rounded-lg bg-primary text-primary-content transition-colors mb-1",
+								}}
+							>
+								<Bell size={20} />
+								<span className="font-medium">Following</span>
+							</Link>
+						</div>
+					</SignedIn>
+
 					{/* Admin Links - Only for Authenticated Users */}
 					<SignedIn>
 						<div className="mb-6">
@@ -0,0 +1,144 @@
+/**
+ * LineSelector Component
+ *
+ * Lets the scorekeeper pick the seven players a team puts on the field for a point.
+ * Shows a live count and, for mixed games, the gender split so 4-3 lines are easy to build.
+ * The server re-validates the line when it is saved.
+ */
+
+import { type FC, useState } from "react";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+
+const PLAYERS_ON_FIELD = 7;
+
+export interface LineSelectorProps {
+	teamName: string;
+	teamColor?: string;
+	line: "O" | "D";
+	players: Doc<"players">[];
+	initialSelection: Id<"players">[];
+	genderRatioRequired?: boolean;
+	isSet: boolean;
+	onSave: (playerIds: Id<"players">[]) => Promise<void>;
+}
+
+export const LineSelector: FC<LineSelectorProps> = ({
+	teamName,
+	teamColor,
+	line,
+	players,
+	initialSelection,
+	genderRatioRequired,
+	isSet,
+	onSave,
+}) => {
+	const [selected, setSelected] = useState<Id<"players">[]>(initialSelection);
+	const [isSaving, setIsSaving] = useState(false);
+
+	const selectedPlayers = players.filter((p) => selected.includes(p._id));
+	const male = selectedPlayers.filter((p) => p.gender === "M").length;
+	const female = selectedPlayers.filter((p) => p.gender === "F").length;
+	const isComplete = selected.length === PLAYERS_ON_FIELD;
+	const isRatioValid =
+		!genderRatioRequired ||
+		(male + female === PLAYERS_ON_FIELD && Math.abs(male - female) === 1);
+
+	const togglePlayer = (playerId: Id<"players">) => {
+		setSelected((current) =>
+			current.includes(playerId)
+				? current.filter((id) => id !== playerId)
+				: current.length < PLAYERS_ON_FIELD
+					? [...current, playerId]
+					: current,
+		);
+	};
+
+	const handleSave = async () => {
+		setIsSaving(true);
+		try {
+			await onSave(selected);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const sortedPlayers = [...players].sort(
+		(a, b) => a.jerseyNumber - b.jerseyNumber,
+	);
+
+	return (
+		<div className="space-y-3">
+			<div className="flex items-center justify-between">
+				<div className="flex items-center gap-2">
+					<span
+						className="font-semibold"
+						style={{ color: teamColor || undefined }}
+					>
+						{teamName}
+					</span>
+					<span className="badge badge-outline badge-sm">
+						{line === "O" ? "Offense" : "Defense"}
+					</span>
+				</div>
+				{isSet ? (
+					<span className="badge badge-success badge-sm">Line set</span>
+				) : (
+					<span className="badge badge-warning badge-sm">Not set</span>
+				)}
+			</div>
+
+			<div className="flex gap-3 text-xs text-base-content/70">
+				<span className={isComplete ? "text-success" : ""}>
+					{selected.length}/{PLAYERS_ON_FIELD} selected
+				</span>
+				{genderRatioRequired && (
+					<span className={isRatioValid ? "text-success" : "text-warning"}>
+						{male}M / {female}F
+					</span>
+				)}
+			</div>
+
+			<div className="grid grid-cols-2 gap-2 max-h-64 overflow-auto">
+				{sortedPlayers.map((player) => {
+					const isSelected = selected.includes(player._id);
+					return (
+						<button
+							key={player._id}
+							type="button"
+							onClick={() => togglePlayer(player._id)}
+							disabled={!isSelected && selected.length >= PLAYERS_ON_FIELD}
+							className={`btn btn-sm justify-start h-auto py-2 ${
+								isSelected ? "btn-primary" : "btn-outline"
+							}`}
+						>
+							<span className="font-mono">#{player.jerseyNumber}</span>
+							<span className="truncate">{player.lastName}</span>
+							{genderRatioRequired && player.gender && (
+								<span className="opacity-70">{player.gender}</span>
+							)}
+						</button>
+					);
+				})}
+			</div>
+
+			{players.length === 0 && (
+				<div className="text-center py-2 text-sm text-base-content/60">
+					No active players on this roster
+				</div>
+			)}
+
+			<button
+				type="button"
+				onClick={handleSave}
+				disabled={!isComplete || !isRatioValid || isSaving}
+				className="btn btn-primary btn-sm w-full"
+			>
+				{isSaving ? (
+					<span className="loading loading-spinner loading-xs"></span>
+				) : (
+					"Save Line"
+				)}
+			</button>
+		</div>
+	);
+};
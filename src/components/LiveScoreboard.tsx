@@ -10,15 +10,17 @@
  * Features:
  * - Real-time score updates
  * - Possession indicator
- * - Game clock (professional format)
+ * - Game clock (timed formats), counted down locally from the server value
  * - Gender ratio display (mixed divisions)
- * - Timeout tracking
+ * - Timeout tracking with live countdown overlay
+ * - Soft/hard cap target (tournament format)
  * - Team colors
  * - Confetti effect on goals
  */
 
-import type { FC } from "react";
+import { type FC, useEffect, useState } from "react";
 import type { Doc, Id } from "../../convex/_generated/dataModel";
+import { CapBanner } from "./CapBanner";
 import { useGoalConfetti } from "./useGoalConfetti";
 
 export interface LiveScoreboardProps {
@@ -26,7 +28,7 @@ export interface LiveScoreboardProps {
 		homeTeam?: Doc<"teams"> | null;
 		awayTeam?: Doc<"teams"> | null;
 	};
-	gameState: Doc<"gameState"> | null | undefined;
+	gameState: (Doc<"gameState"> & { clockAsOf?: number }) | null | undefined;
 	gameId: Id<"games">;
 	className?: string;
 }
@@ -56,7 +58,24 @@ export const LiveScoreboard: FC<LiveScoreboardProps> = ({
 	}
 
 	return (
-		<div className={`card bg-base-200 shadow-lg p-6 ${className}`}>
+		<div className={`card bg-base-200 shadow-lg p-6 relative ${className}`}>
+			{/* Timeout Countdown Overlay */}
+			{gameState.timeoutActive && (
+				<TimeoutCountdown
+					startTime={gameState.timeoutActive.startTime}
+					durationSeconds={game.ruleConfig.timeoutDuration}
+					teamName={
+						gameState.timeoutActive.team === "home"
+							? game.homeTeam?.abbreviation || "HOME"
+							: game.awayTeam?.abbreviation || "AWAY"
+					}
+					teamColor={
+						gameState.timeoutActive.team === "home"
+							? game.homeTeam?.colors.primary
+							: game.awayTeam?.colors.primary
+					}
+				/>
+			)}
 			<div className="space-y-6">
 				{/* Score Display */}
 				<div className="grid grid-cols-3 gap-4 text-center">
@@ -81,10 +100,14 @@ export const LiveScoreboard: FC<LiveScoreboardProps> = ({
 						<div className="text-sm font-medium text-base-content/70">
 							{formatPeriod(game.format, gameState.period, gameState)}
 						</div>
-						{game.format === "professional" && (
-							<div className="text-2xl font-mono tabular-nums text-base-content">
-								{formatTime(gameState.clockSeconds)}
-							</div>
+						{(game.format === "professional" ||
+							(game.format === "recreational" &&
+								!!game.ruleConfig.halfLength)) && (
+							<GameClock
+								clockSeconds={gameState.clockSeconds}
+								clockAsOf={gameState.clockAsOf}
+								isRunning={gameState.runningSince !== undefined}
+							/>
 						)}
 						{game.status === "live" && (
 							<div className="badge badge-error gap-2">
@@ -92,6 +115,13 @@ export const LiveScoreboard: FC<LiveScoreboardProps> = ({
 								LIVE
 							</div>
 						)}
+						{game.status === "live" && (
+							<CapBanner
+								capStatus={gameState.capStatus}
+								cappedTarget={gameState.cappedTarget}
+								compact
+							/>
+						)}
 						{game.status === "upcoming" && (
 							<div className="badge badge-info">UPCOMING</div>
 						)}
@@ -211,6 +241,77 @@ export const LiveScoreboard: FC<LiveScoreboardProps> = ({
 	);
 };
 
+/**
+ * Game clock display
+ * The server resolves the clock when the query runs (clockAsOf); while it is
+ * running we keep counting down locally until the next update arrives.
+ */
+const GameClock: FC<{
+	clockSeconds: number;
+	clockAsOf?: number;
+	isRunning: boolean;
+}> = ({ clockSeconds, clockAsOf, isRunning }) => {
+	const [now, setNow] = useState(() => Date.now());
+
+	useEffect(() => {
+		if (!isRunning) return;
+		const interval = setInterval(() => setNow(Date.now()), 250);
+		return () => clearInterval(interval);
+	}, [isRunning]);
+
+	const remaining =
+		isRunning && clockAsOf !== undefined
+			? Math.max(0, Math.ceil(clockSeconds - (now - clockAsOf) / 1000))
+			: clockSeconds;
+
+	return (
+		<div className="text-2xl font-mono tabular-nums text-base-content">
+			{formatTime(remaining)}
+		</div>
+	);
+};
+
+/**
+ * Overlay shown while a timeout is running
+ * Counts down locally from the server-recorded start time; the server clears
+ * timeoutActive when the timeout expires or is ended early.
+ */
+const TimeoutCountdown: FC<{
+	startTime: number;
+	durationSeconds: number;
+	teamName: string;
+	teamColor?: string;
+}> = ({ startTime, durationSeconds, teamName, teamColor }) => {
+	const [now, setNow] = useState(() => Date.now());
+
+	useEffect(() => {
+		const interval = setInterval(() => setNow(Date.now()), 250);
+		return () => clearInterval(interval);
+	}, []);
+
+	const remaining = Math.max(
+		0,
+		Math.ceil(durationSeconds - (now - startTime) / 1000),
+	);
+
+	return (
+		<div className="absolute inset-0 z-10 rounded-box bg-base-300/90 flex flex-col items-center justify-center gap-2">
+			<div className="text-sm font-semibold uppercase tracking-widest text-base-content/70">
+				Timeout
+			</div>
+			<div
+				className="text-2xl font-bold"
+				style={{ color: teamColor || undefined }}
+			>
+				{teamName}
+			</div>
+			<div className="text-6xl font-mono font-bold tabular-nums text-base-content">
+				{formatTime(remaining)}
+			</div>
+		</div>
+	);
+};
+
 // Helper functions
 
 function formatTime(seconds: number): string {
@@ -0,0 +1,69 @@
+/**
+ * OrgSwitcher Component
+ *
+ * Picks the organization the signed-in user is working in. Team, game and
+ * player lists follow the active organization. Renders nothing when signed out.
+ */
+
+import { useMutation, useQuery } from "convex/react";
+import type { FC } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+const NEW_ORGANIZATION = "__new__";
+
+export interface OrgSwitcherProps {
+	className?: string;
+}
+
+export const OrgSwitcher: FC<OrgSwitcherProps> = ({ className = "" }) => {
+	const data = useQuery(api.organizations.listMyOrganizations, {});
+	const setActiveOrganization = useMutation(
+		api.organizations.setActiveOrganization,
+	);
+	const createOrganization = useMutation(api.organizations.createOrganization);
+
+	if (!data) {
+		return null;
+	}
+
+	const handleChange = async (value: string) => {
+		try {
+			if (value === NEW_ORGANIZATION) {
+				const name = window.prompt("Organization name");
+				if (name?.trim()) {
+					await createOrganization({ name });
+				}
+				return;
+			}
+
+			await setActiveOrganization({
+				orgId: value ? (value as Id<"organizations">) : undefined,
+			});
+		} catch (error) {
+			console.error("Failed to switch organization:", error);
+			alert(
+				error instanceof Error
+					? error.message
+					: "Failed to switch organization",
+			);
+		}
+	};
+
+	return (
+		<select
+			value={data.activeOrgId ?? ""}
+			onChange={(e) => handleChange(e.target.value)}
+			className={`select select-bordered select-sm ${className}`}
+			aria-label="Organization"
+		>
+			<option value="">No organization</option>
+			{data.organizations.map((org) => (
+				<option key={org._id} value={org._id}>
+					{org.name}
+				</option>
+			))}
+			<option value={NEW_ORGANIZATION}>+ New organization…</option>
+		</select>
+	);
+};
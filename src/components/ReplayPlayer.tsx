@@ -0,0 +1,223 @@
+/**
+ * ReplayPlayer Component
+ *
+ * Plays back the recordings of a game's stream once it has ended.
+ * Cloudflare recordings use the Cloudflare Stream player; recordings from a
+ * self-hosted provider (MediaMTX) are plain video files.
+ *
+ * Features:
+ * - Part picker when the stream was recorded in several parts
+ * - Processing state while the provider finishes a recording
+ * - Seeking to a moment of the game (e.g. a play-by-play event, see
+ *   findRecordingAt in convex/replays)
+ */
+
+import { Stream, type StreamPlayerApi } from "@cloudflare/stream-react";
+import { type FC, useCallback, useEffect, useRef, useState } from "react";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import { getPlayableRecordings } from "../../convex/replays";
+
+export interface ReplayPlayerProps {
+	recordings: Doc<"recordings">[];
+	// Recording position to jump to (see findRecordingAt in convex/replays); pass a
+	// new object to seek again to the same moment
+	seekTo?: { recordingId: Id<"recordings">; seconds: number } | null;
+	className?: string;
+}
+
+export const ReplayPlayer: FC<ReplayPlayerProps> = ({
+	recordings,
+	seekTo,
+	className = "",
+}) => {
+	const ready = getPlayableRecordings(recordings);
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+	const [seek, setSeek] = useState<{ seconds: number } | null>(null);
+	const selected =
+		ready.find((recording) => recording._id === selectedId) ?? ready[0];
+
+	// Switch to the requested part and seek into it
+	useEffect(() => {
+		if (!seekTo) return;
+		setSelectedId(seekTo.recordingId);
+		setSeek({ seconds: seekTo.seconds });
+	}, [seekTo]);
+
+	if (!selected) {
+		const isProcessing = recordings.some(
+			(recording) => recording.status === "processing",
+		);
+		return (
+			<div
+				className={`card bg-base-200 flex items-center justify-center aspect-video ${className}`}
+			>
+				<div className="text-center text-base-content/60 p-6">
+					<p className="text-lg font-medium mb-2">
+						{isProcessing ? "Replay processing" : "Replay unavailable"}
+					</p>
+					<p className="text-sm">
+						{isProcessing
+							? "The replay will be ready to watch in a few minutes."
+							: "This game's stream couldn't be recorded."}
+					</p>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className={className}>
+			<RecordingVideo key={selected._id} recording={selected} seek={seek} />
+
+			{ready.length > 1 && (
+				<div className="flex flex-wrap gap-2 mt-3">
+					{ready.map((recording) => (
+						<button
+							key={recording._id}
+							type="button"
+							onClick={() => {
+								setSelectedId(recording._id);
+								setSeek(null);
+							}}
+							className={`btn btn-sm ${recording._id === selected._id ? "btn-primary" : "btn-ghost"}`}
+						>
+							{recording.title}
+							{recording.durationSeconds !== undefined && (
+								<span className="text-xs opacity-70">
+									{formatDuration(recording.durationSeconds)}
+								</span>
+							)}
+						</button>
+					))}
+				</div>
+			)}
+		</div>
+	);
+};
+
+export interface RecordingVideoProps {
+	recording: Doc<"recordings">;
+	// Seconds into the recording to jump to and start playing
+	seek?: { seconds: number } | null;
+	// Play only this range of the recording (highlight clips)
+	startSeconds?: number;
+	endSeconds?: number;
+}
+
+/**
+ * A single recording, in the player for its provider
+ */
+export const RecordingVideo: FC<RecordingVideoProps> = ({
+	recording,
+	seek,
+	startSeconds,
+	endSeconds,
+}) => {
+	const streamRef = useRef<StreamPlayerApi | undefined>(undefined);
+	const videoRef = useRef<HTMLVideoElement>(null);
+	const isLoaded = useRef(false);
+	const pendingSeek = useRef<{ seconds: number; play: boolean } | null>(
+		startSeconds !== undefined ? { seconds: startSeconds, play: false } : null,
+	);
+
+	const getPlayer = useCallback(
+		() =>
+			recording.provider === "cloudflare"
+				? streamRef.current
+				: videoRef.current,
+		[recording.provider],
+	);
+
+	const seekTo = useCallback(
+		(seconds: number, play: boolean) => {
+			const player = getPlayer();
+			if (!player || !isLoaded.current) {
+				pendingSeek.current = { seconds, play };
+				return;
+			}
+
+			player.currentTime = seconds;
+			if (play) {
+				player.play().catch((error) => {
+					// Browsers may block playback that the user didn't start
+					console.warn("Replay playback blocked:", error);
+				});
+			}
+		},
+		[getPlayer],
+	);
+
+	useEffect(() => {
+		if (seek) seekTo(seek.seconds, true);
+	}, [seek, seekTo]);
+
+	const handleLoaded = () => {
+		isLoaded.current = true;
+		if (pendingSeek.current) {
+			const { seconds, play } = pendingSeek.current;
+			pendingSeek.current = null;
+			seekTo(seconds, play);
+		}
+	};
+
+	// Stop at the end of a clip's range, ready to play it again from the start
+	const handleTimeUpdate = () => {
+		const player = getPlayer();
+		if (
+			player &&
+			endSeconds !== undefined &&
+			player.currentTime >= endSeconds
+		) {
+			player.pause();
+			player.currentTime = startSeconds ?? 0;
+		}
+	};
+
+	return (
+		<div className="bg-black rounded-lg overflow-hidden aspect-video">
+			{recording.provider === "cloudflare" ? (
+				<Stream
+					src={recording.providerRecordingId}
+					customerCode={getCustomerCode(recording.playbackUrl)}
+					poster={recording.thumbnailUrl}
+					streamRef={streamRef}
+					onLoadedMetaData={handleLoaded}
+					onTimeUpdate={handleTimeUpdate}
+					controls
+					responsive
+				/>
+			) : (
+				<video
+					ref={videoRef}
+					src={recording.playbackUrl}
+					poster={recording.thumbnailUrl}
+					onLoadedMetadata={handleLoaded}
+					onTimeUpdate={handleTimeUpdate}
+					controls
+					playsInline
+					className="w-full h-full"
+				>
+					<track kind="captions" />
+				</video>
+			)}
+		</div>
+	);
+};
+
+// Helper Functions
+
+/**
+ * Cloudflare customer code from a recording's playback URL
+ * Format: https://customer-<CODE>.cloudflarestream.com/<VIDEO_ID>/manifest/video.m3u8
+ */
+function getCustomerCode(playbackUrl: string | undefined) {
+	return playbackUrl?.match(/customer-([^.]+)\.cloudflarestream\.com/)?.[1];
+}
+
+export function formatDuration(totalSeconds: number) {
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = Math.floor(totalSeconds % 60);
+	const mmss = `${minutes.toString().padStart(hours ? 2 : 1, "0")}:${seconds.toString().padStart(2, "0")}`;
+	return hours ? `${hours}:${mmss}` : mmss;
+}
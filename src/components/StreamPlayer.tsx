@@ -25,6 +25,8 @@ export interface StreamPlayerProps {
 	streamStatus?: "upcoming" | "live" | "completed" | "failed" | null;
 	className?: string;
 	autoPlay?: boolean;
+	// Start without sound, e.g. when several players are on one page
+	muted?: boolean;
 }
 
 export const StreamPlayer: FC<StreamPlayerProps> = ({
@@ -34,6 +36,7 @@ export const StreamPlayer: FC<StreamPlayerProps> = ({
 	streamStatus,
 	className = "",
 	autoPlay = false,
+	muted = false,
 }) => {
 	const [error, setError] = useState<string | null>(null);
 	const [useWebRtc, setUseWebRtc] = useState(false);
@@ -195,6 +198,7 @@ export const StreamPlayer: FC<StreamPlayerProps> = ({
 				<video
 					ref={videoRef}
 					autoPlay
+					muted={muted}
 					playsInline
 					controls
 					className="w-full h-full"
@@ -224,6 +228,9 @@ export const StreamPlayer: FC<StreamPlayerProps> = ({
 				params.set("autoplay", "true");
 			}
 			params.set("preload", "true");
+			if (muted) {
+				params.set("muted", "true");
+			}
 
 			// Get poster/thumbnail URL if we have streamId
 			if (streamId || extractedStreamId) {
@@ -248,6 +255,9 @@ export const StreamPlayer: FC<StreamPlayerProps> = ({
 				params.set("autoplay", "true");
 			}
 			params.set("preload", "true");
+			if (muted) {
+				params.set("muted", "true");
+			}
 			iframeSrc = `https://customer-${extractedAccountId}.cloudflarestream.com/${extractedStreamId}/iframe?${params.toString()}`;
 		}
 	} else if (streamId && accountId) {
@@ -257,6 +267,9 @@ export const StreamPlayer: FC<StreamPlayerProps> = ({
 			params.set("autoplay", "true");
 		}
 		params.set("preload", "true");
+		if (muted) {
+			params.set("muted", "true");
+		}
 		const posterUrl = `https://customer-${accountId}.cloudflarestream.com/${streamId}/thumbnails/thumbnail.jpg?time=&height=600`;
 		params.set("poster", posterUrl);
 		iframeSrc = `https://customer-${accountId}.cloudflarestream.com/${streamId}/iframe?${params.toString()}`;
@@ -3,22 +3,26 @@
  *
  * Automatically creates a Convex user record when a user signs in with Clerk.
  * This ensures that the user exists in the Convex database before they try
- * to perform any mutations.
+ * to perform any mutations. It then refreshes the user's cached billing plan,
+ * which the server uses to enforce plan limits.
  */
 
 import { useUser } from "@clerk/clerk-react";
-import { useMutation } from "convex/react";
+import { useAction, useConvexAuth, useMutation } from "convex/react";
 import { useEffect, useRef } from "react";
 import { api } from "../../convex/_generated/api";
 
 export function UserSync() {
 	const { user, isSignedIn } = useUser();
+	// createUser checks the Convex auth token, so wait until Convex has it
+	const { isAuthenticated } = useConvexAuth();
 	const createUser = useMutation(api.gameMutations.createUser);
+	const syncPlan = useAction(api.billing.syncPlan);
 	const syncedRef = useRef(false);
 
 	useEffect(() => {
 		// Only run once per session and only if signed in
-		if (!isSignedIn || !user || syncedRef.current) {
+		if (!isSignedIn || !isAuthenticated || !user || syncedRef.current) {
 			return;
 		}
 
@@ -30,20 +34,26 @@ export function UserSync() {
 			try {
 				await createUser({
 					clerkId: user.id,
-					email: user.primaryEmailAddress?.emailAddress || "",
 					name: user.fullName || user.firstName || "User",
-					role: "admin", // Default to admin, you can change this logic
 				});
 				console.log("User synced with Convex");
 			} catch (error) {
 				console.error("Failed to sync user with Convex:", error);
 				// Reset sync flag to retry on next render
 				syncedRef.current = false;
+				return;
+			}
+
+			// A failed plan sync keeps the last cached plan
+			try {
+				await syncPlan({});
+			} catch (error) {
+				console.error("Failed to sync billing plan:", error);
 			}
 		};
 
 		syncUser();
-	}, [isSignedIn, user, createUser]);
+	}, [isSignedIn, isAuthenticated, user, createUser, syncPlan]);
 
 	// This component doesn't render anything
 	return null;
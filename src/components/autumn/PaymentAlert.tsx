@@ -1,8 +1,54 @@
 import { useCustomer } from "autumn-js/react";
+import type {
+	LimitedResource,
+	PlanLimitErrorData,
+} from "../../../convex/billing";
+import { UpgradeButton } from "./UpgradeButton";
 
-export function PaymentAlert() {
+const PLAN_LIMIT_TITLES: Record<LimitedResource, string> = {
+	games: "Game",
+	teams: "Team",
+	liveStreams: "Live stream",
+};
+
+interface PaymentAlertProps {
+	/** A call rejected by a plan limit or missing feature (see getPlanLimitError) */
+	planLimit?: PlanLimitErrorData | null;
+}
+
+export function PaymentAlert({ planLimit }: PaymentAlertProps = {}) {
 	const { customer, openBillingPortal } = useCustomer();
 
+	if (planLimit) {
+		return (
+			<div className="alert alert-warning">
+				<svg
+					xmlns="http://www.w3.org/2000/svg"
+					aria-hidden="true"
+					className="stroke-current shrink-0 h-6 w-6"
+					fill="none"
+					viewBox="0 0 24 24"
+				>
+					<path
+						strokeLinecap="round"
+						strokeLinejoin="round"
+						strokeWidth="2"
+						d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+					/>
+				</svg>
+				<div className="flex-1">
+					<h3 className="font-bold">
+						{planLimit.code === "PLAN_FEATURE"
+							? "Upgrade required"
+							: `${PLAN_LIMIT_TITLES[planLimit.resource]} limit reached`}
+					</h3>
+					<div className="text-xs">{planLimit.message}</div>
+				</div>
+				<UpgradeButton productId={planLimit.upgradeTo} size="sm" />
+			</div>
+		);
+	}
+
 	const failedPayment = customer?.products?.find(
 		(p) => p.status === "past_due",
 	);
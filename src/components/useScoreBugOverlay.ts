@@ -0,0 +1,53 @@
+/**
+ * useScoreBugOverlay Hook
+ *
+ * Returns a BrowserStream overlay that draws the live score bug on every frame.
+ * The overlay keeps the same identity while the game updates, so the stream's
+ * render loop isn't restarted by score changes.
+ */
+
+import { useCallback, useEffect, useRef } from "react";
+import type { Doc } from "../../convex/_generated/dataModel";
+import {
+	drawScoreBug,
+	getScoreBugData,
+	type ScoreBugOptions,
+} from "@/lib/score-bug";
+import type { CanvasOverlay } from "./BrowserStream";
+
+interface UseScoreBugOverlayProps {
+	game:
+		| (Doc<"games"> & {
+				homeTeam?: Doc<"teams"> | null;
+				awayTeam?: Doc<"teams"> | null;
+		  })
+		| null
+		| undefined;
+	gameState: (Doc<"gameState"> & { clockAsOf?: number }) | null | undefined;
+	options?: ScoreBugOptions;
+}
+
+export function useScoreBugOverlay({
+	game,
+	gameState,
+	options,
+}: UseScoreBugOverlayProps): CanvasOverlay {
+	const latestRef = useRef({ game, gameState, options });
+
+	useEffect(() => {
+		latestRef.current = { game, gameState, options };
+	}, [game, gameState, options]);
+
+	return useCallback((ctx, width, height) => {
+		const { game, gameState, options } = latestRef.current;
+		if (!game || !gameState) return;
+
+		drawScoreBug(
+			ctx,
+			width,
+			height,
+			getScoreBugData(game, gameState, Date.now()),
+			options,
+		);
+	}, []);
+}
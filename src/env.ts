@@ -28,6 +28,7 @@ export const env = createEnv({
 		VITE_SENTRY_DSN: z.string().url().optional(),
 		VITE_CLOUDFLARE_ACCOUNT_ID: z.string().min(1).optional(),
 		VITE_WEBSOCKET_STREAM_URL: z.string().url().optional(),
+		VITE_WEBRTC_ICE_SERVERS: z.string().min(1).optional(),
 	},
 
 	/**
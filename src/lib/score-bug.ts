@@ -0,0 +1,299 @@
+/**
+ * Score Bug Renderer
+ *
+ * Draws a broadcast-style score bug onto a canvas frame: team abbreviations in their
+ * colors, score, period and clock, possession, and banners for timeouts and caps.
+ * BrowserStream calls it for every frame it publishes (see useScoreBugOverlay), so
+ * viewers of the stream see the score without extra software.
+ */
+
+import type { Doc } from "../../convex/_generated/dataModel";
+
+export type ScoreBugPosition =
+	| "top-left"
+	| "top-right"
+	| "bottom-left"
+	| "bottom-right";
+
+export interface ScoreBugOptions {
+	position?: ScoreBugPosition;
+	// Size relative to a 720p frame
+	scale?: number;
+	showClock?: boolean;
+	showPossession?: boolean;
+}
+
+export interface ScoreBugTeam {
+	abbreviation: string;
+	color: string;
+	score: number;
+}
+
+export interface ScoreBugData {
+	home: ScoreBugTeam;
+	away: ScoreBugTeam;
+	period: string;
+	clock: string | null;
+	possession: "home" | "away" | null;
+	banners: { text: string; color: string }[];
+}
+
+type ScoreBugGame = Doc<"games"> & {
+	homeTeam?: Doc<"teams"> | null;
+	awayTeam?: Doc<"teams"> | null;
+};
+
+const BACKGROUND = "rgba(17, 24, 39, 0.88)";
+const SCORE_BACKGROUND = "rgba(255, 255, 255, 0.14)";
+const TEXT = "#ffffff";
+const SOFT_CAP_COLOR = "#d97706";
+const HARD_CAP_COLOR = "#dc2626";
+const FONT_FAMILY = "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif";
+
+/**
+ * What the score bug shows at a moment of the game
+ * The clock and timeout count down locally from the server values, like LiveScoreboard.
+ */
+export function getScoreBugData(
+	game: ScoreBugGame,
+	gameState: Doc<"gameState"> & { clockAsOf?: number },
+	now: number,
+): ScoreBugData {
+	const home = {
+		abbreviation: game.homeTeam?.abbreviation || "HOME",
+		color: game.homeTeam?.colors.primary || "#2563eb",
+		score: gameState.homeScore,
+	};
+	const away = {
+		abbreviation: game.awayTeam?.abbreviation || "AWAY",
+		color: game.awayTeam?.colors.primary || "#dc2626",
+		score: gameState.awayScore,
+	};
+	const isLive = game.status === "live";
+
+	const hasClock =
+		game.format === "professional" ||
+		(game.format === "recreational" && !!game.ruleConfig.halfLength);
+	const clockSeconds =
+		gameState.runningSince !== undefined && gameState.clockAsOf !== undefined
+			? Math.max(
+					0,
+					Math.ceil(
+						gameState.clockSeconds - (now - gameState.clockAsOf) / 1000,
+					),
+				)
+			: gameState.clockSeconds;
+
+	const banners: ScoreBugData["banners"] = [];
+	if (isLive && gameState.timeoutActive) {
+		const team = gameState.timeoutActive.team === "home" ? home : away;
+		const remaining = Math.max(
+			0,
+			Math.ceil(
+				game.ruleConfig.timeoutDuration -
+					(now - gameState.timeoutActive.startTime) / 1000,
+			),
+		);
+		banners.push({
+			text: `TIMEOUT ${team.abbreviation}  ${formatClock(remaining)}`,
+			color: team.color,
+		});
+	}
+	if (isLive && gameState.capStatus && gameState.cappedTarget !== undefined) {
+		banners.push({
+			text: `${gameState.capStatus === "hard" ? "HARD" : "SOFT"} CAP  GAME TO ${gameState.cappedTarget}`,
+			color: gameState.capStatus === "hard" ? HARD_CAP_COLOR : SOFT_CAP_COLOR,
+		});
+	}
+
+	return {
+		home,
+		away,
+		period:
+			game.status === "completed"
+				? "FINAL"
+				: formatPeriod(game.format, gameState),
+		clock: isLive && hasClock ? formatClock(clockSeconds) : null,
+		possession: isLive ? gameState.possession : null,
+		banners,
+	};
+}
+
+/**
+ * Draw the score bug onto a frame
+ * Sizes scale with the frame height so the bug looks the same at any resolution.
+ */
+export function drawScoreBug(
+	ctx: CanvasRenderingContext2D,
+	width: number,
+	height: number,
+	data: ScoreBugData,
+	{
+		position = "top-left",
+		scale = 1,
+		showClock = true,
+		showPossession = true,
+	}: ScoreBugOptions = {},
+): void {
+	const u = (height / 720) * scale;
+	const rowHeight = 40 * u;
+	const bannerHeight = 26 * u;
+	const margin = 20 * u;
+	const padding = 10 * u;
+	const swatchWidth = 6 * u;
+	const possessionWidth = 12 * u;
+
+	const abbreviationFont = `700 ${20 * u}px ${FONT_FAMILY}`;
+	const scoreFont = `800 ${26 * u}px ${FONT_FAMILY}`;
+	const periodFont = `600 ${16 * u}px ${FONT_FAMILY}`;
+	const clockFont = `700 ${20 * u}px ${FONT_FAMILY}`;
+	const bannerFont = `700 ${14 * u}px ${FONT_FAMILY}`;
+
+	const measure = (text: string, font: string) => {
+		ctx.font = font;
+		return ctx.measureText(text).width;
+	};
+
+	// Both teams get the same widths so the bug doesn't jump when a score changes
+	const abbreviationWidth = Math.max(
+		measure(data.home.abbreviation, abbreviationFont),
+		measure(data.away.abbreviation, abbreviationFont),
+	);
+	const scoreWidth = Math.max(
+		36 * u,
+		measure(String(data.home.score), scoreFont) + 2 * padding,
+		measure(String(data.away.score), scoreFont) + 2 * padding,
+	);
+	const teamWidth =
+		swatchWidth +
+		padding +
+		abbreviationWidth +
+		(showPossession ? padding + possessionWidth : 0) +
+		padding +
+		scoreWidth;
+
+	const periodWidth = measure(data.period, periodFont);
+	const clock = showClock ? data.clock : null;
+	const clockWidth = clock ? measure(clock, clockFont) : 0;
+	const statusWidth =
+		2 * padding + periodWidth + (clock ? padding + clockWidth : 0);
+
+	const bugWidth = 2 * teamWidth + statusWidth;
+	const bugHeight = rowHeight + data.banners.length * bannerHeight;
+	const x = position.endsWith("left") ? margin : width - margin - bugWidth;
+	const y = position.startsWith("top") ? margin : height - margin - bugHeight;
+	const middle = y + rowHeight / 2;
+
+	ctx.save();
+	ctx.textBaseline = "middle";
+
+	ctx.fillStyle = BACKGROUND;
+	ctx.fillRect(x, y, bugWidth, rowHeight);
+
+	// Teams
+	[data.home, data.away].forEach((team, index) => {
+		const side = index === 0 ? "home" : "away";
+		const left = x + index * teamWidth;
+
+		ctx.fillStyle = team.color;
+		ctx.fillRect(left, y, swatchWidth, rowHeight);
+
+		ctx.font = abbreviationFont;
+		ctx.fillStyle = TEXT;
+		ctx.textAlign = "left";
+		ctx.fillText(team.abbreviation, left + swatchWidth + padding, middle);
+
+		if (showPossession && data.possession === side) {
+			const centerX =
+				left +
+				swatchWidth +
+				2 * padding +
+				abbreviationWidth +
+				possessionWidth / 2;
+			ctx.fillStyle = team.color;
+			ctx.beginPath();
+			ctx.arc(centerX, middle, possessionWidth / 2, 0, Math.PI * 2);
+			ctx.fill();
+			ctx.strokeStyle = TEXT;
+			ctx.lineWidth = 1.5 * u;
+			ctx.stroke();
+		}
+
+		const scoreLeft = left + teamWidth - scoreWidth;
+		ctx.fillStyle = SCORE_BACKGROUND;
+		ctx.fillRect(scoreLeft, y, scoreWidth, rowHeight);
+		ctx.font = scoreFont;
+		ctx.fillStyle = TEXT;
+		ctx.textAlign = "center";
+		ctx.fillText(String(team.score), scoreLeft + scoreWidth / 2, middle);
+	});
+
+	// Period and clock
+	const statusLeft = x + 2 * teamWidth + padding;
+	ctx.textAlign = "left";
+	ctx.font = periodFont;
+	ctx.fillStyle = "rgba(255, 255, 255, 0.75)";
+	ctx.fillText(data.period, statusLeft, middle);
+	if (clock) {
+		ctx.font = clockFont;
+		ctx.fillStyle = TEXT;
+		ctx.fillText(clock, statusLeft + periodWidth + padding, middle);
+	}
+
+	// Timeout and cap banners
+	data.banners.forEach((banner, index) => {
+		const top = y + rowHeight + index * bannerHeight;
+		ctx.fillStyle = banner.color;
+		ctx.fillRect(x, top, bugWidth, bannerHeight);
+		ctx.font = bannerFont;
+		ctx.fillStyle = getContrastingText(banner.color);
+		ctx.textAlign = "center";
+		ctx.fillText(banner.text, x + bugWidth / 2, top + bannerHeight / 2);
+	});
+
+	ctx.restore();
+}
+
+// Helper functions
+
+function formatClock(seconds: number): string {
+	const minutes = Math.floor(seconds / 60);
+	const secs = seconds % 60;
+	return `${minutes}:${secs.toString().padStart(2, "0")}`;
+}
+
+function formatPeriod(format: string, gameState: Doc<"gameState">): string {
+	switch (format) {
+		case "professional":
+			return `Q${gameState.period}`;
+		case "tournament":
+			return `PT ${gameState.homeScore + gameState.awayScore + 1}`;
+		case "recreational":
+			return gameState.period === 1 ? "1ST" : "2ND";
+		default:
+			return `P${gameState.period}`;
+	}
+}
+
+/**
+ * Black or white, whichever reads better on a hex color
+ */
+function getContrastingText(color: string): string {
+	const hex = color.replace("#", "");
+	const full =
+		hex.length === 3
+			? hex
+					.split("")
+					.map((digit) => digit + digit)
+					.join("")
+			: hex;
+	if (!/^[0-9a-f]{6}$/i.test(full)) {
+		return TEXT;
+	}
+
+	const [r, g, b] = [0, 2, 4].map((i) =>
+		Number.parseInt(full.slice(i, i + 2), 16),
+	);
+	const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+	return luminance > 0.6 ? "#111827" : TEXT;
+}
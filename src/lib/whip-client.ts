@@ -4,19 +4,85 @@
  * Implements the WHIP (WebRTC-HTTP Ingestion Protocol) to stream
  * video/audio directly from the browser to Cloudflare Stream.
  *
+ * Dropped connections are repaired with an ICE restart first, then by publishing a
+ * new WHIP session with backoff. While connected, the video bitrate and resolution
+ * follow the network conditions reported by getStats().
+ *
  * Based on: https://developers.cloudflare.com/stream/webrtc-beta/
+ * and RFC 9725 (WHIP)
  */
 
+import { env } from "@/env";
+
+export type WHIPConnectionState =
+	| "connecting"
+	| "connected"
+	| "reconnecting"
+	| "failed"
+	| "closed";
+
+export interface WHIPStats {
+	bitrateKbps: number;
+	targetBitrateKbps: number;
+	packetLossPercent: number | null;
+	roundTripTimeMs: number | null;
+	frameWidth: number | null;
+	frameHeight: number | null;
+	framesPerSecond: number | null;
+	// Why the browser is sending less than allowed: "bandwidth", "cpu", "other" or "none"
+	qualityLimitationReason: string | null;
+}
+
+export interface WHIPClientOptions {
+	// Preview of the published stream
+	videoElement?: HTMLVideoElement;
+	// STUN/TURN servers (defaults to VITE_WEBRTC_ICE_SERVERS)
+	iceServers?: RTCIceServer[];
+	// Range the video bitrate adapts within
+	maxBitrateKbps?: number;
+	minBitrateKbps?: number;
+	maxReconnectAttempts?: number;
+	onStateChange?: (state: WHIPConnectionState) => void;
+	onReconnecting?: (attempt: number, delayMs: number) => void;
+	onStats?: (stats: WHIPStats) => void;
+	// Reconnecting was given up on; the stream has stopped
+	onFailed?: (error: Error) => void;
+}
+
+const DEFAULT_MAX_BITRATE_KBPS = 2500;
+const DEFAULT_MIN_BITRATE_KBPS = 300;
+const DEFAULT_MAX_RECONNECT_ATTEMPTS = 6;
+
+// Browsers often recover from "disconnected" on their own
+const DISCONNECTED_GRACE_MS = 3000;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+const STATS_INTERVAL_MS = 2000;
+
 export class WHIPClient {
 	private peerConnection: RTCPeerConnection | null = null;
 	private stream: MediaStream | null = null;
 	private whipUrl: string;
+	// WHIP resource of the current session, from the Location header
+	private resourceUrl: string | null = null;
+	private options: WHIPClientOptions;
 	private videoElement: HTMLVideoElement | null = null;
 	private isConnected = false;
+	private isStopped = false;
+	private state: WHIPConnectionState = "closed";
+	private reconnectAttempts = 0;
+	private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+	private disconnectedTimer: ReturnType<typeof setTimeout> | null = null;
+	private statsTimer: ReturnType<typeof setInterval> | null = null;
+	private lastVideoSample: { bytesSent: number; timestamp: number } | null =
+		null;
+	private targetBitrateKbps: number;
 
-	constructor(whipUrl: string, videoElement?: HTMLVideoElement) {
+	constructor(whipUrl: string, options: WHIPClientOptions = {}) {
 		this.whipUrl = whipUrl;
-		this.videoElement = videoElement || null;
+		this.options = options;
+		this.videoElement = options.videoElement || null;
+		this.targetBitrateKbps = options.maxBitrateKbps ?? DEFAULT_MAX_BITRATE_KBPS;
 	}
 
 	/**
@@ -28,125 +94,418 @@ export class WHIPClient {
 		}
 
 		this.stream = stream;
+		this.isStopped = false;
+		this.reconnectAttempts = 0;
+		this.setState("connecting");
+
+		try {
+			await this.connect();
+		} catch (error) {
+			console.error("WHIP publish error:", error);
+			this.cleanup();
+			this.setState("failed");
+			throw error;
+		}
+
+		this.isConnected = true;
+
+		// Show preview if video element provided and stream is not a canvas stream
+		// Canvas streams should not replace the video element's srcObject
+		// as it would interfere with the canvas rendering
+		if (this.videoElement && this.videoElement.srcObject === null) {
+			// Only set if not already set (to avoid interfering with canvas)
+			this.videoElement.srcObject = stream;
+		}
+	}
+
+	/**
+	 * Stop streaming
+	 */
+	async stop(): Promise<void> {
+		this.isStopped = true;
+		this.clearTimers();
 
-		// Create RTCPeerConnection with appropriate configuration
-		this.peerConnection = new RTCPeerConnection({
-			iceServers: [
-				// Cloudflare will provide ICE servers via SDP
-			],
+		if (!this.isConnected && !this.peerConnection) {
+			return;
+		}
+
+		// End the session on the server; servers that don't return a resource URL
+		// take the DELETE on the endpoint itself
+		await this.deleteResource(this.resourceUrl ?? this.whipUrl);
+
+		this.cleanup();
+		this.setState("closed");
+	}
+
+	/**
+	 * Create a peer connection and publish the stream as a new WHIP session
+	 */
+	private async connect(): Promise<void> {
+		const stream = this.stream;
+		if (!stream) {
+			throw new Error("No stream to publish");
+		}
+
+		const peerConnection = new RTCPeerConnection({
+			iceServers: this.options.iceServers ?? getDefaultIceServers(),
 			iceTransportPolicy: "all",
 		});
+		this.peerConnection = peerConnection;
 
 		// Add all tracks from the media stream
 		stream.getTracks().forEach((track) => {
-			if (this.peerConnection) {
-				this.peerConnection.addTrack(track, stream);
-			}
+			peerConnection.addTrack(track, stream);
 		});
 
-		// Handle ICE candidates
-		this.peerConnection.onicecandidate = (event) => {
-			if (event.candidate) {
-				// ICE candidates are handled automatically by the WHIP protocol
-				// No need to manually send them
-			}
-		};
-
-		// Handle connection state changes
-		this.peerConnection.onconnectionstatechange = () => {
-			if (this.peerConnection) {
-				console.log(
-					"WHIP connection state:",
-					this.peerConnection.connectionState,
-				);
-				if (this.peerConnection.connectionState === "failed") {
-					this.cleanup();
-				}
+		// Handle connection state changes, ignoring connections that have been replaced
+		peerConnection.onconnectionstatechange = () => {
+			if (peerConnection === this.peerConnection) {
+				this.handleConnectionStateChange(peerConnection.connectionState);
 			}
 		};
 
 		// Create offer
-		const offer = await this.peerConnection.createOffer({
+		const offer = await peerConnection.createOffer({
 			offerToReceiveAudio: false,
 			offerToReceiveVideo: false,
 		});
 
-		await this.peerConnection.setLocalDescription(offer);
+		await peerConnection.setLocalDescription(offer);
 
 		// Send offer to Cloudflare via WHIP
-		try {
-			const response = await fetch(this.whipUrl, {
-				method: "POST",
-				headers: {
-					"Content-Type": "application/sdp",
-				},
-				body: offer.sdp,
-			});
+		const response = await fetch(this.whipUrl, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/sdp",
+			},
+			body: offer.sdp,
+		});
 
-			if (!response.ok) {
-				throw new Error(
-					`WHIP request failed: ${response.status} ${response.statusText}`,
-				);
-			}
+		if (!response.ok) {
+			throw new Error(
+				`WHIP request failed: ${response.status} ${response.statusText}`,
+			);
+		}
 
-			// Get answer SDP from response
-			const answerSdp = await response.text();
-			await this.peerConnection.setRemoteDescription({
-				type: "answer",
-				sdp: answerSdp,
-			});
+		// Get answer SDP from response
+		const answerSdp = await response.text();
+		await peerConnection.setRemoteDescription({
+			type: "answer",
+			sdp: answerSdp,
+		});
 
-			// Get location header for future updates (if needed)
-			const location = response.headers.get("Location");
-			if (location) {
-				// Store location for potential future use (e.g., updating stream)
-				console.log("WHIP resource location:", location);
-			}
+		// The session's resource, for ICE restarts and ending the stream
+		const location = response.headers.get("Location");
+		this.resourceUrl = location
+			? new URL(location, this.whipUrl).toString()
+			: null;
+	}
 
-			this.isConnected = true;
+	private handleConnectionStateChange(
+		connectionState: RTCPeerConnectionState,
+	): void {
+		console.log("WHIP connection state:", connectionState);
 
-			// Show preview if video element provided and stream is not a canvas stream
-			// Canvas streams should not replace the video element's srcObject
-			// as it would interfere with the canvas rendering
-			if (this.videoElement && this.videoElement.srcObject === null) {
-				// Only set if not already set (to avoid interfering with canvas)
-				this.videoElement.srcObject = stream;
-			}
-		} catch (error) {
-			console.error("WHIP publish error:", error);
-			this.cleanup();
-			throw error;
+		if (this.disconnectedTimer) {
+			clearTimeout(this.disconnectedTimer);
+			this.disconnectedTimer = null;
+		}
+
+		switch (connectionState) {
+			case "connected":
+				this.reconnectAttempts = 0;
+				this.setState("connected");
+				this.startStatsMonitor();
+				break;
+			case "disconnected":
+				this.disconnectedTimer = setTimeout(() => {
+					this.disconnectedTimer = null;
+					this.recover();
+				}, DISCONNECTED_GRACE_MS);
+				break;
+			case "failed":
+				this.recover();
+				break;
 		}
 	}
 
 	/**
-	 * Stop streaming
+	 * Schedule the next reconnect attempt, with exponential backoff
+	 * The first attempt restarts ICE on the current session; later ones publish again.
 	 */
-	async stop(): Promise<void> {
-		if (!this.isConnected && !this.peerConnection) {
+	private recover(): void {
+		if (this.isStopped || this.reconnectTimer) {
 			return;
 		}
 
-		// Send DELETE request to WHIP endpoint to properly end the stream
+		this.stopStatsMonitor();
+		this.reconnectAttempts++;
+
+		const maxAttempts =
+			this.options.maxReconnectAttempts ?? DEFAULT_MAX_RECONNECT_ATTEMPTS;
+		if (this.reconnectAttempts > maxAttempts) {
+			this.giveUp(
+				new Error(`Connection lost after ${maxAttempts} reconnect attempts`),
+			);
+			return;
+		}
+
+		const delayMs = Math.min(
+			RECONNECT_BASE_DELAY_MS * 2 ** (this.reconnectAttempts - 1),
+			RECONNECT_MAX_DELAY_MS,
+		);
+		this.setState("reconnecting");
+		this.options.onReconnecting?.(this.reconnectAttempts, delayMs);
+
+		this.reconnectTimer = setTimeout(async () => {
+			this.reconnectTimer = null;
+			if (this.isStopped) return;
+
+			try {
+				if (this.reconnectAttempts === 1 && (await this.restartIce())) {
+					return;
+				}
+				await this.republish();
+			} catch (error) {
+				console.error(
+					`WHIP reconnect attempt ${this.reconnectAttempts} failed:`,
+					error,
+				);
+				this.recover();
+			}
+		}, delayMs);
+	}
+
+	/**
+	 * Restart ICE on the current session (RFC 9725, section 4.4.1)
+	 * Returns false when there is no session to restart or the server doesn't support it.
+	 */
+	private async restartIce(): Promise<boolean> {
+		const peerConnection = this.peerConnection;
+		const remoteSdp = peerConnection?.remoteDescription?.sdp;
+		if (!peerConnection || !remoteSdp || !this.resourceUrl) {
+			return false;
+		}
+
+		const offer = await peerConnection.createOffer({ iceRestart: true });
+		await peerConnection.setLocalDescription(offer);
+
+		const response = await fetch(this.resourceUrl, {
+			method: "PATCH",
+			headers: {
+				"Content-Type": "application/trickle-ice-sdpfrag",
+				"If-Match": "*",
+			},
+			body: getIceFragment(offer.sdp ?? ""),
+		});
+		if (!response.ok) {
+			console.warn(`WHIP ICE restart rejected: ${response.status}`);
+			return false;
+		}
+
+		const answerFragment = await response.text();
+		await peerConnection.setRemoteDescription({
+			type: "answer",
+			sdp: applyIceFragment(remoteSdp, answerFragment),
+		});
+		return true;
+	}
+
+	/**
+	 * Replace the session with a new one, keeping the media stream
+	 */
+	private async republish(): Promise<void> {
+		if (this.resourceUrl) {
+			await this.deleteResource(this.resourceUrl);
+		}
+		this.closePeerConnection();
+		await this.connect();
+	}
+
+	private giveUp(error: Error): void {
+		console.error("WHIP reconnect failed:", error);
+		if (this.resourceUrl) {
+			void this.deleteResource(this.resourceUrl);
+		}
+		this.isStopped = true;
+		this.clearTimers();
+		this.cleanup();
+		this.setState("failed");
+		this.options.onFailed?.(error);
+	}
+
+	/**
+	 * Send DELETE request to the WHIP resource to properly end the session
+	 */
+	private async deleteResource(url: string): Promise<void> {
+		this.resourceUrl = null;
 		try {
-			await fetch(this.whipUrl, {
+			await fetch(url, {
 				method: "DELETE",
+				keepalive: true,
 			});
 		} catch (error) {
 			console.error("Error stopping WHIP stream:", error);
 		}
+	}
 
-		this.cleanup();
+	private startStatsMonitor(): void {
+		this.stopStatsMonitor();
+		this.lastVideoSample = null;
+		void this.applyVideoEncoding(this.targetBitrateKbps);
+
+		this.statsTimer = setInterval(() => {
+			this.checkStats().catch((error) => {
+				console.error("Error reading WHIP stats:", error);
+			});
+		}, STATS_INTERVAL_MS);
+	}
+
+	private stopStatsMonitor(): void {
+		if (this.statsTimer) {
+			clearInterval(this.statsTimer);
+			this.statsTimer = null;
+		}
 	}
 
 	/**
-	 * Cleanup resources
+	 * Measure the outgoing video and adapt its bitrate to the network
 	 */
-	private cleanup(): void {
+	private async checkStats(): Promise<void> {
+		const peerConnection = this.peerConnection;
+		if (!peerConnection) return;
+
+		let outbound: RTCOutboundRtpStreamStats | undefined;
+		let remoteInbound:
+			| { fractionLost?: number; roundTripTime?: number }
+			| undefined;
+		(await peerConnection.getStats()).forEach((entry) => {
+			if (entry.type === "outbound-rtp" && entry.kind === "video") {
+				outbound = entry;
+			} else if (
+				entry.type === "remote-inbound-rtp" &&
+				entry.kind === "video"
+			) {
+				remoteInbound = entry;
+			}
+		});
+		if (!outbound?.bytesSent) return;
+
+		const previous = this.lastVideoSample;
+		this.lastVideoSample = {
+			bytesSent: outbound.bytesSent,
+			timestamp: outbound.timestamp,
+		};
+		if (!previous || outbound.timestamp <= previous.timestamp) return;
+
+		// Bytes per millisecond * 8 = kilobits per second
+		const bitrateKbps = Math.round(
+			((outbound.bytesSent - previous.bytesSent) * 8) /
+				(outbound.timestamp - previous.timestamp),
+		);
+		const fractionLost = remoteInbound?.fractionLost ?? null;
+		const qualityLimitationReason =
+			(outbound as { qualityLimitationReason?: string })
+				.qualityLimitationReason ?? null;
+
+		await this.adaptBitrate(fractionLost, qualityLimitationReason);
+
+		this.options.onStats?.({
+			bitrateKbps,
+			targetBitrateKbps: this.targetBitrateKbps,
+			packetLossPercent:
+				fractionLost !== null ? Math.round(fractionLost * 1000) / 10 : null,
+			roundTripTimeMs:
+				remoteInbound?.roundTripTime !== undefined
+					? Math.round(remoteInbound.roundTripTime * 1000)
+					: null,
+			frameWidth: outbound.frameWidth ?? null,
+			frameHeight: outbound.frameHeight ?? null,
+			framesPerSecond: outbound.framesPerSecond ?? null,
+			qualityLimitationReason,
+		});
+	}
+
+	/**
+	 * Back off quickly while the network is losing packets or limiting the encoder, and
+	 * raise the bitrate slowly once it recovers
+	 */
+	private async adaptBitrate(
+		fractionLost: number | null,
+		qualityLimitationReason: string | null,
+	): Promise<void> {
+		const minBitrate = this.options.minBitrateKbps ?? DEFAULT_MIN_BITRATE_KBPS;
+		const maxBitrate = this.options.maxBitrateKbps ?? DEFAULT_MAX_BITRATE_KBPS;
+		const loss = fractionLost ?? 0;
+
+		let target = this.targetBitrateKbps;
+		if (loss > 0.1 || qualityLimitationReason === "bandwidth") {
+			target = Math.max(minBitrate, Math.round(target * 0.7));
+		} else if (loss < 0.02 && qualityLimitationReason !== "cpu") {
+			target = Math.min(maxBitrate, Math.round(target * 1.08));
+		}
+
+		if (target !== this.targetBitrateKbps) {
+			this.targetBitrateKbps = target;
+			await this.applyVideoEncoding(target);
+		}
+	}
+
+	/**
+	 * Cap the video sender's bitrate, and scale the resolution down at low bitrates
+	 */
+	private async applyVideoEncoding(bitrateKbps: number): Promise<void> {
+		const sender = this.peerConnection
+			?.getSenders()
+			.find((candidate) => candidate.track?.kind === "video");
+		if (!sender) return;
+
+		const parameters = sender.getParameters();
+		if (!parameters.encodings?.length) {
+			parameters.encodings = [{}];
+		}
+		parameters.encodings[0].maxBitrate = bitrateKbps * 1000;
+		parameters.encodings[0].scaleResolutionDownBy =
+			bitrateKbps < 600 ? 2 : bitrateKbps < 1200 ? 1.5 : 1;
+
+		try {
+			await sender.setParameters(parameters);
+		} catch (error) {
+			console.warn("Could not update WHIP video encoding:", error);
+		}
+	}
+
+	private setState(state: WHIPConnectionState): void {
+		if (state === this.state) return;
+		this.state = state;
+		this.options.onStateChange?.(state);
+	}
+
+	private clearTimers(): void {
+		if (this.reconnectTimer) {
+			clearTimeout(this.reconnectTimer);
+			this.reconnectTimer = null;
+		}
+		if (this.disconnectedTimer) {
+			clearTimeout(this.disconnectedTimer);
+			this.disconnectedTimer = null;
+		}
+		this.stopStatsMonitor();
+	}
+
+	private closePeerConnection(): void {
+		this.stopStatsMonitor();
 		if (this.peerConnection) {
 			this.peerConnection.close();
 			this.peerConnection = null;
 		}
+	}
+
+	/**
+	 * Cleanup resources
+	 */
+	private cleanup(): void {
+		this.closePeerConnection();
 
 		if (this.stream) {
 			this.stream.getTracks().forEach((track) => {
@@ -159,6 +518,7 @@ export class WHIPClient {
 			this.videoElement.srcObject = null;
 		}
 
+		this.resourceUrl = null;
 		this.isConnected = false;
 	}
 
@@ -169,6 +529,13 @@ export class WHIPClient {
 		return this.peerConnection?.connectionState || null;
 	}
 
+	/**
+	 * Get the publishing state, including reconnects
+	 */
+	getState(): WHIPConnectionState {
+		return this.state;
+	}
+
 	/**
 	 * Check if currently streaming
 	 */
@@ -176,3 +543,71 @@ export class WHIPClient {
 		return this.isConnected;
 	}
 }
+
+/**
+ * STUN/TURN servers from VITE_WEBRTC_ICE_SERVERS, a JSON array of RTCIceServer, e.g.
+ * [{"urls":"stun:stun.cloudflare.com:3478"},{"urls":"turn:turn.example.com","username":"u","credential":"p"}]
+ * Without it, only the candidates in the WHIP answer are used.
+ */
+export function getDefaultIceServers(): RTCIceServer[] {
+	const configured = env.VITE_WEBRTC_ICE_SERVERS;
+	if (!configured) {
+		return [];
+	}
+
+	try {
+		const iceServers = JSON.parse(configured);
+		if (Array.isArray(iceServers)) {
+			return iceServers;
+		}
+	} catch {
+		// Reported below
+	}
+	console.error("VITE_WEBRTC_ICE_SERVERS must be a JSON array of ICE servers");
+	return [];
+}
+
+/**
+ * ICE credentials of an offer as a trickle-ice-sdpfrag body (RFC 8840)
+ */
+function getIceFragment(sdp: string): string {
+	const lines = sdp.split("\r\n");
+	const credentials = [
+		lines.find((line) => line.startsWith("a=ice-ufrag:")),
+		lines.find((line) => line.startsWith("a=ice-pwd:")),
+	];
+	const media = lines.filter(
+		(line) => line.startsWith("m=") || line.startsWith("a=mid:"),
+	);
+	return `${[...credentials, ...media].filter(Boolean).join("\r\n")}\r\n`;
+}
+
+/**
+ * Remote description with the ICE credentials and candidates of a restart answer
+ */
+function applyIceFragment(sdp: string, fragment: string): string {
+	const fragmentLines = fragment.split(/\r?\n/);
+	const ufrag = fragmentLines.find((line) => line.startsWith("a=ice-ufrag:"));
+	const pwd = fragmentLines.find((line) => line.startsWith("a=ice-pwd:"));
+	const candidates = fragmentLines.filter((line) =>
+		line.startsWith("a=candidate:"),
+	);
+	if (!ufrag || !pwd) {
+		throw new Error("WHIP ICE restart answer has no ICE credentials");
+	}
+
+	return sdp
+		.split("\r\n")
+		.filter(
+			(line) =>
+				!line.startsWith("a=candidate:") && line !== "a=end-of-candidates",
+		)
+		.flatMap((line) =>
+			line.startsWith("a=ice-ufrag:")
+				? [ufrag]
+				: line.startsWith("a=ice-pwd:")
+					? [pwd, ...candidates]
+					: [line],
+		)
+		.join("\r\n");
+}
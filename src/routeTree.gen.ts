@@ -10,14 +10,28 @@
 
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as PricingRouteImport } from './routes/pricing'
+import { Route as MeRouteImport } from './routes/me'
+import { Route as LeaderboardRouteImport } from './routes/leaderboard'
 import { Route as AdminRouteImport } from './routes/admin'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as TournamentsIndexRouteImport } from './routes/tournaments.index'
+import { Route as StandingsIndexRouteImport } from './routes/standings.index'
 import { Route as GamesIndexRouteImport } from './routes/games.index'
 import { Route as AdminIndexRouteImport } from './routes/admin.index'
+import { Route as TournamentsTournamentIdRouteImport } from './routes/tournaments.$tournamentId'
+import { Route as StandingsSeasonIdRouteImport } from './routes/standings.$seasonId'
+import { Route as PlayersPlayerIdRouteImport } from './routes/players.$playerId'
+import { Route as GamesLiveRouteImport } from './routes/games.live'
 import { Route as GamesGameIdRouteImport } from './routes/games.$gameId'
+import { Route as ClipsClipIdRouteImport } from './routes/clips.$clipId'
+import { Route as AdminUsersRouteImport } from './routes/admin.users'
+import { Route as AdminTournamentsRouteImport } from './routes/admin.tournaments'
 import { Route as AdminTeamsRouteImport } from './routes/admin.teams'
+import { Route as AdminRecordingsRouteImport } from './routes/admin.recordings'
+import { Route as AdminLeaguesRouteImport } from './routes/admin.leagues'
 import { Route as AdminGamesRouteImport } from './routes/admin.games'
 import { Route as ApiAutumnSplatRouteImport } from './routes/api.autumn.$'
+import { Route as AdminTournamentsTournamentIdRouteImport } from './routes/admin.tournaments.$tournamentId'
 import { Route as AdminTeamsNewRouteImport } from './routes/admin.teams.new'
 import { Route as AdminTeamsImportRouteImport } from './routes/admin.teams.import'
 import { Route as AdminScorekeeperGameIdRouteImport } from './routes/admin.scorekeeper.$gameId'
@@ -30,6 +44,16 @@ const PricingRoute = PricingRouteImport.update({
   path: '/pricing',
   getParentRoute: () => rootRouteImport,
 } as any)
+const MeRoute = MeRouteImport.update({
+  id: '/me',
+  path: '/me',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const LeaderboardRoute = LeaderboardRouteImport.update({
+  id: '/leaderboard',
+  path: '/leaderboard',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AdminRoute = AdminRouteImport.update({
   id: '/admin',
   path: '/admin',
@@ -40,6 +64,16 @@ const IndexRoute = IndexRouteImport.update({
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const TournamentsIndexRoute = TournamentsIndexRouteImport.update({
+  id: '/tournaments/',
+  path: '/tournaments/',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const StandingsIndexRoute = StandingsIndexRouteImport.update({
+  id: '/standings/',
+  path: '/standings/',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const GamesIndexRoute = GamesIndexRouteImport.update({
   id: '/games/',
   path: '/games/',
@@ -50,16 +84,61 @@ const AdminIndexRoute = AdminIndexRouteImport.update({
   path: '/',
   getParentRoute: () => AdminRoute,
 } as any)
+const TournamentsTournamentIdRoute = TournamentsTournamentIdRouteImport.update({
+  id: '/tournaments/$tournamentId',
+  path: '/tournaments/$tournamentId',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const StandingsSeasonIdRoute = StandingsSeasonIdRouteImport.update({
+  id: '/standings/$seasonId',
+  path: '/standings/$seasonId',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const PlayersPlayerIdRoute = PlayersPlayerIdRouteImport.update({
+  id: '/players/$playerId',
+  path: '/players/$playerId',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const GamesLiveRoute = GamesLiveRouteImport.update({
+  id: '/games/live',
+  path: '/games/live',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const GamesGameIdRoute = GamesGameIdRouteImport.update({
   id: '/games/$gameId',
   path: '/games/$gameId',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ClipsClipIdRoute = ClipsClipIdRouteImport.update({
+  id: '/clips/$clipId',
+  path: '/clips/$clipId',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const AdminUsersRoute = AdminUsersRouteImport.update({
+  id: '/users',
+  path: '/users',
+  getParentRoute: () => AdminRoute,
+} as any)
+const AdminTournamentsRoute = AdminTournamentsRouteImport.update({
+  id: '/tournaments',
+  path: '/tournaments',
+  getParentRoute: () => AdminRoute,
+} as any)
 const AdminTeamsRoute = AdminTeamsRouteImport.update({
   id: '/teams',
   path: '/teams',
   getParentRoute: () => AdminRoute,
 } as any)
+const AdminRecordingsRoute = AdminRecordingsRouteImport.update({
+  id: '/recordings',
+  path: '/recordings',
+  getParentRoute: () => AdminRoute,
+} as any)
+const AdminLeaguesRoute = AdminLeaguesRouteImport.update({
+  id: '/leagues',
+  path: '/leagues',
+  getParentRoute: () => AdminRoute,
+} as any)
 const AdminGamesRoute = AdminGamesRouteImport.update({
   id: '/games',
   path: '/games',
@@ -70,6 +149,12 @@ const ApiAutumnSplatRoute = ApiAutumnSplatRouteImport.update({
   path: '/api/autumn/$',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AdminTournamentsTournamentIdRoute =
+  AdminTournamentsTournamentIdRouteImport.update({
+    id: '/$tournamentId',
+    path: '/$tournamentId',
+    getParentRoute: () => AdminTournamentsRoute,
+  } as any)
 const AdminTeamsNewRoute = AdminTeamsNewRouteImport.update({
   id: '/new',
   path: '/new',
@@ -104,32 +189,60 @@ const AdminGamesGameIdStreamRoute = AdminGamesGameIdStreamRouteImport.update({
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/admin': typeof AdminRouteWithChildren
+  '/leaderboard': typeof LeaderboardRoute
+  '/me': typeof MeRoute
   '/pricing': typeof PricingRoute
   '/admin/games': typeof AdminGamesRouteWithChildren
+  '/admin/leagues': typeof AdminLeaguesRoute
+  '/admin/recordings': typeof AdminRecordingsRoute
   '/admin/teams': typeof AdminTeamsRouteWithChildren
+  '/admin/tournaments': typeof AdminTournamentsRouteWithChildren
+  '/admin/users': typeof AdminUsersRoute
+  '/clips/$clipId': typeof ClipsClipIdRoute
   '/games/$gameId': typeof GamesGameIdRoute
+  '/games/live': typeof GamesLiveRoute
+  '/players/$playerId': typeof PlayersPlayerIdRoute
+  '/standings/$seasonId': typeof StandingsSeasonIdRoute
+  '/tournaments/$tournamentId': typeof TournamentsTournamentIdRoute
   '/admin/': typeof AdminIndexRoute
   '/games': typeof GamesIndexRoute
+  '/standings': typeof StandingsIndexRoute
+  '/tournaments': typeof TournamentsIndexRoute
   '/admin/games/new': typeof AdminGamesNewRoute
   '/admin/scorekeeper/$gameId': typeof AdminScorekeeperGameIdRoute
   '/admin/teams/import': typeof AdminTeamsImportRoute
   '/admin/teams/new': typeof AdminTeamsNewRoute
+  '/admin/tournaments/$tournamentId': typeof AdminTournamentsTournamentIdRoute
   '/api/autumn/$': typeof ApiAutumnSplatRoute
   '/admin/games/$gameId/stream': typeof AdminGamesGameIdStreamRoute
   '/admin/teams/$teamId/edit': typeof AdminTeamsTeamIdEditRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/leaderboard': typeof LeaderboardRoute
+  '/me': typeof MeRoute
   '/pricing': typeof PricingRoute
   '/admin/games': typeof AdminGamesRouteWithChildren
+  '/admin/leagues': typeof AdminLeaguesRoute
+  '/admin/recordings': typeof AdminRecordingsRoute
   '/admin/teams': typeof AdminTeamsRouteWithChildren
+  '/admin/tournaments': typeof AdminTournamentsRouteWithChildren
+  '/admin/users': typeof AdminUsersRoute
+  '/clips/$clipId': typeof ClipsClipIdRoute
   '/games/$gameId': typeof GamesGameIdRoute
+  '/games/live': typeof GamesLiveRoute
+  '/players/$playerId': typeof PlayersPlayerIdRoute
+  '/standings/$seasonId': typeof StandingsSeasonIdRoute
+  '/tournaments/$tournamentId': typeof TournamentsTournamentIdRoute
   '/admin': typeof AdminIndexRoute
   '/games': typeof GamesIndexRoute
+  '/standings': typeof StandingsIndexRoute
+  '/tournaments': typeof TournamentsIndexRoute
   '/admin/games/new': typeof AdminGamesNewRoute
   '/admin/scorekeeper/$gameId': typeof AdminScorekeeperGameIdRoute
   '/admin/teams/import': typeof AdminTeamsImportRoute
   '/admin/teams/new': typeof AdminTeamsNewRoute
+  '/admin/tournaments/$tournamentId': typeof AdminTournamentsTournamentIdRoute
   '/api/autumn/$': typeof ApiAutumnSplatRoute
   '/admin/games/$gameId/stream': typeof AdminGamesGameIdStreamRoute
   '/admin/teams/$teamId/edit': typeof AdminTeamsTeamIdEditRoute
@@ -138,16 +251,30 @@ export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
   '/admin': typeof AdminRouteWithChildren
+  '/leaderboard': typeof LeaderboardRoute
+  '/me': typeof MeRoute
   '/pricing': typeof PricingRoute
   '/admin/games': typeof AdminGamesRouteWithChildren
+  '/admin/leagues': typeof AdminLeaguesRoute
+  '/admin/recordings': typeof AdminRecordingsRoute
   '/admin/teams': typeof AdminTeamsRouteWithChildren
+  '/admin/tournaments': typeof AdminTournamentsRouteWithChildren
+  '/admin/users': typeof AdminUsersRoute
+  '/clips/$clipId': typeof ClipsClipIdRoute
   '/games/$gameId': typeof GamesGameIdRoute
+  '/games/live': typeof GamesLiveRoute
+  '/players/$playerId': typeof PlayersPlayerIdRoute
+  '/standings/$seasonId': typeof StandingsSeasonIdRoute
+  '/tournaments/$tournamentId': typeof TournamentsTournamentIdRoute
   '/admin/': typeof AdminIndexRoute
   '/games/': typeof GamesIndexRoute
+  '/standings/': typeof StandingsIndexRoute
+  '/tournaments/': typeof TournamentsIndexRoute
   '/admin/games/new': typeof AdminGamesNewRoute
   '/admin/scorekeeper/$gameId': typeof AdminScorekeeperGameIdRoute
   '/admin/teams/import': typeof AdminTeamsImportRoute
   '/admin/teams/new': typeof AdminTeamsNewRoute
+  '/admin/tournaments/$tournamentId': typeof AdminTournamentsTournamentIdRoute
   '/api/autumn/$': typeof ApiAutumnSplatRoute
   '/admin/games/$gameId/stream': typeof AdminGamesGameIdStreamRoute
   '/admin/teams/$teamId/edit': typeof AdminTeamsTeamIdEditRoute
@@ -157,32 +284,60 @@ export interface FileRouteTypes {
   fullPaths:
     | '/'
     | '/admin'
+    | '/leaderboard'
+    | '/me'
     | '/pricing'
     | '/admin/games'
+    | '/admin/leagues'
+    | '/admin/recordings'
     | '/admin/teams'
+    | '/admin/tournaments'
+    | '/admin/users'
+    | '/clips/$clipId'
     | '/games/$gameId'
+    | '/games/live'
+    | '/players/$playerId'
+    | '/standings/$seasonId'
+    | '/tournaments/$tournamentId'
     | '/admin/'
     | '/games'
+    | '/standings'
+    | '/tournaments'
     | '/admin/games/new'
     | '/admin/scorekeeper/$gameId'
     | '/admin/teams/import'
     | '/admin/teams/new'
+    | '/admin/tournaments/$tournamentId'
     | '/api/autumn/$'
     | '/admin/games/$gameId/stream'
     | '/admin/teams/$teamId/edit'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/leaderboard'
+    | '/me'
     | '/pricing'
     | '/admin/games'
+    | '/admin/leagues'
+    | '/admin/recordings'
     | '/admin/teams'
+    | '/admin/tournaments'
+    | '/admin/users'
+    | '/clips/$clipId'
     | '/games/$gameId'
+    | '/games/live'
+    | '/players/$playerId'
+    | '/standings/$seasonId'
+    | '/tournaments/$tournamentId'
     | '/admin'
     | '/games'
+    | '/standings'
+    | '/tournaments'
     | '/admin/games/new'
     | '/admin/scorekeeper/$gameId'
     | '/admin/teams/import'
     | '/admin/teams/new'
+    | '/admin/tournaments/$tournamentId'
     | '/api/autumn/$'
     | '/admin/games/$gameId/stream'
     | '/admin/teams/$teamId/edit'
@@ -190,16 +345,30 @@ export interface FileRouteTypes {
     | '__root__'
     | '/'
     | '/admin'
+    | '/leaderboard'
+    | '/me'
     | '/pricing'
     | '/admin/games'
+    | '/admin/leagues'
+    | '/admin/recordings'
     | '/admin/teams'
+    | '/admin/tournaments'
+    | '/admin/users'
+    | '/clips/$clipId'
     | '/games/$gameId'
+    | '/games/live'
+    | '/players/$playerId'
+    | '/standings/$seasonId'
+    | '/tournaments/$tournamentId'
     | '/admin/'
     | '/games/'
+    | '/standings/'
+    | '/tournaments/'
     | '/admin/games/new'
     | '/admin/scorekeeper/$gameId'
     | '/admin/teams/import'
     | '/admin/teams/new'
+    | '/admin/tournaments/$tournamentId'
     | '/api/autumn/$'
     | '/admin/games/$gameId/stream'
     | '/admin/teams/$teamId/edit'
@@ -208,9 +377,18 @@ export interface FileRouteTypes {
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   AdminRoute: typeof AdminRouteWithChildren
+  LeaderboardRoute: typeof LeaderboardRoute
+  MeRoute: typeof MeRoute
   PricingRoute: typeof PricingRoute
+  ClipsClipIdRoute: typeof ClipsClipIdRoute
   GamesGameIdRoute: typeof GamesGameIdRoute
+  GamesLiveRoute: typeof GamesLiveRoute
+  PlayersPlayerIdRoute: typeof PlayersPlayerIdRoute
+  StandingsSeasonIdRoute: typeof StandingsSeasonIdRoute
+  TournamentsTournamentIdRoute: typeof TournamentsTournamentIdRoute
   GamesIndexRoute: typeof GamesIndexRoute
+  StandingsIndexRoute: typeof StandingsIndexRoute
+  TournamentsIndexRoute: typeof TournamentsIndexRoute
   ApiAutumnSplatRoute: typeof ApiAutumnSplatRoute
 }
 
@@ -223,6 +401,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof PricingRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/me': {
+      id: '/me'
+      path: '/me'
+      fullPath: '/me'
+      preLoaderRoute: typeof MeRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/leaderboard': {
+      id: '/leaderboard'
+      path: '/leaderboard'
+      fullPath: '/leaderboard'
+      preLoaderRoute: typeof LeaderboardRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/admin': {
       id: '/admin'
       path: '/admin'
@@ -237,6 +429,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/tournaments/': {
+      id: '/tournaments/'
+      path: '/tournaments'
+      fullPath: '/tournaments'
+      preLoaderRoute: typeof TournamentsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/standings/': {
+      id: '/standings/'
+      path: '/standings'
+      fullPath: '/standings'
+      preLoaderRoute: typeof StandingsIndexRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/games/': {
       id: '/games/'
       path: '/games'
@@ -251,6 +457,34 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AdminIndexRouteImport
       parentRoute: typeof AdminRoute
     }
+    '/tournaments/$tournamentId': {
+      id: '/tournaments/$tournamentId'
+      path: '/tournaments/$tournamentId'
+      fullPath: '/tournaments/$tournamentId'
+      preLoaderRoute: typeof TournamentsTournamentIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/standings/$seasonId': {
+      id: '/standings/$seasonId'
+      path: '/standings/$seasonId'
+      fullPath: '/standings/$seasonId'
+      preLoaderRoute: typeof StandingsSeasonIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/players/$playerId': {
+      id: '/players/$playerId'
+      path: '/players/$playerId'
+      fullPath: '/players/$playerId'
+      preLoaderRoute: typeof PlayersPlayerIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/games/live': {
+      id: '/games/live'
+      path: '/games/live'
+      fullPath: '/games/live'
+      preLoaderRoute: typeof GamesLiveRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/games/$gameId': {
       id: '/games/$gameId'
       path: '/games/$gameId'
@@ -258,6 +492,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof GamesGameIdRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/clips/$clipId': {
+      id: '/clips/$clipId'
+      path: '/clips/$clipId'
+      fullPath: '/clips/$clipId'
+      preLoaderRoute: typeof ClipsClipIdRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/admin/users': {
+      id: '/admin/users'
+      path: '/users'
+      fullPath: '/admin/users'
+      preLoaderRoute: typeof AdminUsersRouteImport
+      parentRoute: typeof AdminRoute
+    }
+    '/admin/tournaments': {
+      id: '/admin/tournaments'
+      path: '/tournaments'
+      fullPath: '/admin/tournaments'
+      preLoaderRoute: typeof AdminTournamentsRouteImport
+      parentRoute: typeof AdminRoute
+    }
     '/admin/teams': {
       id: '/admin/teams'
       path: '/teams'
@@ -265,6 +520,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AdminTeamsRouteImport
       parentRoute: typeof AdminRoute
     }
+    '/admin/recordings': {
+      id: '/admin/recordings'
+      path: '/recordings'
+      fullPath: '/admin/recordings'
+      preLoaderRoute: typeof AdminRecordingsRouteImport
+      parentRoute: typeof AdminRoute
+    }
+    '/admin/leagues': {
+      id: '/admin/leagues'
+      path: '/leagues'
+      fullPath: '/admin/leagues'
+      preLoaderRoute: typeof AdminLeaguesRouteImport
+      parentRoute: typeof AdminRoute
+    }
     '/admin/games': {
       id: '/admin/games'
       path: '/games'
@@ -279,6 +548,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiAutumnSplatRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/admin/tournaments/$tournamentId': {
+      id: '/admin/tournaments/$tournamentId'
+      path: '/$tournamentId'
+      fullPath: '/admin/tournaments/$tournamentId'
+      preLoaderRoute: typeof AdminTournamentsTournamentIdRouteImport
+      parentRoute: typeof AdminTournamentsRoute
+    }
     '/admin/teams/new': {
       id: '/admin/teams/new'
       path: '/new'
@@ -354,16 +630,35 @@ const AdminTeamsRouteWithChildren = AdminTeamsRoute._addFileChildren(
   AdminTeamsRouteChildren,
 )
 
+interface AdminTournamentsRouteChildren {
+  AdminTournamentsTournamentIdRoute: typeof AdminTournamentsTournamentIdRoute
+}
+
+const AdminTournamentsRouteChildren: AdminTournamentsRouteChildren = {
+  AdminTournamentsTournamentIdRoute: AdminTournamentsTournamentIdRoute,
+}
+
+const AdminTournamentsRouteWithChildren =
+  AdminTournamentsRoute._addFileChildren(AdminTournamentsRouteChildren)
+
 interface AdminRouteChildren {
   AdminGamesRoute: typeof AdminGamesRouteWithChildren
+  AdminLeaguesRoute: typeof AdminLeaguesRoute
+  AdminRecordingsRoute: typeof AdminRecordingsRoute
   AdminTeamsRoute: typeof AdminTeamsRouteWithChildren
+  AdminTournamentsRoute: typeof AdminTournamentsRouteWithChildren
+  AdminUsersRoute: typeof AdminUsersRoute
   AdminIndexRoute: typeof AdminIndexRoute
   AdminScorekeeperGameIdRoute: typeof AdminScorekeeperGameIdRoute
 }
 
 const AdminRouteChildren: AdminRouteChildren = {
   AdminGamesRoute: AdminGamesRouteWithChildren,
+  AdminLeaguesRoute: AdminLeaguesRoute,
+  AdminRecordingsRoute: AdminRecordingsRoute,
   AdminTeamsRoute: AdminTeamsRouteWithChildren,
+  AdminTournamentsRoute: AdminTournamentsRouteWithChildren,
+  AdminUsersRoute: AdminUsersRoute,
   AdminIndexRoute: AdminIndexRoute,
   AdminScorekeeperGameIdRoute: AdminScorekeeperGameIdRoute,
 }
@@ -373,9 +668,18 @@ const AdminRouteWithChildren = AdminRoute._addFileChildren(AdminRouteChildren)
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   AdminRoute: AdminRouteWithChildren,
+  LeaderboardRoute: LeaderboardRoute,
+  MeRoute: MeRoute,
   PricingRoute: PricingRoute,
+  ClipsClipIdRoute: ClipsClipIdRoute,
   GamesGameIdRoute: GamesGameIdRoute,
+  GamesLiveRoute: GamesLiveRoute,
+  PlayersPlayerIdRoute: PlayersPlayerIdRoute,
+  StandingsSeasonIdRoute: StandingsSeasonIdRoute,
+  TournamentsTournamentIdRoute: TournamentsTournamentIdRoute,
   GamesIndexRoute: GamesIndexRoute,
+  StandingsIndexRoute: StandingsIndexRoute,
+  TournamentsIndexRoute: TournamentsIndexRoute,
   ApiAutumnSplatRoute: ApiAutumnSplatRoute,
 }
 export const routeTree = rootRouteImport
@@ -1,11 +1,12 @@
 /**
  * Admin Stream Management Page
  *
- * Allows admins to manage Cloudflare Stream for a specific game.
+ * Allows admins to manage the live stream for a specific game.
  * Features:
+ * - Assign the field the game streams from (one live stream per field)
  * - Create live input and get stream credentials
- * - Display stream key and RTMP endpoint
- * - Monitor stream status
+ * - Display stream key and RTMP endpoint (only to people allowed to stream the game)
+ * - Monitor stream status and connection health
  * - Start/stop stream recording
  */
 
@@ -13,7 +14,7 @@ import { createFileRoute, Link } from "@tanstack/react-router";
 import { useMutation, useQuery } from "convex/react";
 import { useState } from "react";
 import { api } from "../../convex/_generated/api";
-import type { Id } from "../../convex/_generated/dataModel";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
 import { Copy, Check, Play, Square, Loader2, RefreshCw } from "lucide-react";
 import { useAction } from "convex/react";
 import { BrowserStream } from "../components/BrowserStream";
@@ -37,6 +38,16 @@ function StreamManagementPage() {
 		gameId: gameId as Id<"games">,
 	});
 
+	// Publish credentials (null unless the signed-in user may stream this game)
+	const credentials = useQuery(api.streams.getStreamCredentials, {
+		gameId: gameId as Id<"games">,
+	});
+
+	// Whether the game's field and the plan's concurrent streams allow going live
+	const streamSlot = useQuery(api.streams.getStreamSlot, {
+		gameId: gameId as Id<"games">,
+	});
+
 	// Mutations and Actions
 	const updateStream = useMutation(api.streams.updateGameStream);
 	const createLiveInputAction = useAction(api.streams.createLiveInput);
@@ -60,23 +71,11 @@ function StreamManagementPage() {
 	const handleCreateLiveInput = async () => {
 		setIsCreating(true);
 		try {
-			// Call Convex action to create live input
-			const data = await createLiveInputAction({});
-
-			// Update game with stream info
-			await updateStream({
+			// Call Convex action to create live input (stored on the game server-side)
+			const data = await createLiveInputAction({
 				gameId: gameId as Id<"games">,
-				streamKey: data.streamKey,
-				streamId: data.uid,
-				streamUrl: data.rtmpUrl,
-				webRtcPublishUrl: data.webRtcPublishUrl,
-				webRtcPlaybackUrl: data.webRtcPlaybackUrl,
-				streamStatus: "upcoming",
-				streamStartTime: Date.now(),
 			});
 
-			// Store RTMP URL in a way that can be displayed
-			// Note: In production, you might want to store this in the database
 			alert(
 				`Live input created!\n\nRTMP URL: ${data.rtmpUrl}\n\nStream Key: ${data.streamKey}\n\nWebRTC Publish URL: ${data.webRtcPublishUrl || "Not available"}\n\nWebRTC Playback URL: ${data.webRtcPlaybackUrl || "Not available"}\n\nPlease save these credentials.`,
 			);
@@ -124,10 +123,17 @@ function StreamManagementPage() {
 			});
 		} catch (error) {
 			console.error("Error updating stream status:", error);
-			alert("Failed to update stream status");
+			alert(
+				error instanceof Error
+					? error.message
+					: "Failed to update stream status",
+			);
 		}
 	};
 
+	const rtmpUrl =
+		credentials?.rtmpUrl || "rtmps://live.cloudflare.com:443/live/";
+
 	if (!game) {
 		return (
 			<div className="flex items-center justify-center min-h-screen">
@@ -162,13 +168,22 @@ function StreamManagementPage() {
 
 			{/* Main Content */}
 			<main className="max-w-4xl mx-auto px-4 py-6">
+				{/* Stream Slot Card */}
+				<StreamFieldCard
+					gameId={gameId as Id<"games">}
+					venue={game.venue}
+					field={game.field}
+					isLive={streamInfo?.streamStatus === "live"}
+					slot={streamSlot}
+				/>
+
 				{/* Stream Status Card */}
 				<div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
 					<h2 className="text-lg font-semibold text-gray-900 mb-4">
 						Stream Status
 					</h2>
 
-					{!streamInfo?.streamKey ? (
+					{!streamInfo?.streamId ? (
 						<div className="text-center py-8">
 							<p className="text-gray-600 mb-4">
 								No stream configured for this game
@@ -194,7 +209,7 @@ function StreamManagementPage() {
 					) : (
 						<div className="space-y-4">
 							{/* Fetch Live Input Button - Show if streamId exists but webRtcPublishUrl is missing */}
-							{streamInfo?.streamId && !streamInfo?.webRtcPublishUrl && (
+							{credentials && !credentials.webRtcPublishUrl && (
 								<div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-4">
 									<p className="text-sm text-yellow-800 mb-3">
 										Stream ID exists but WebRTC URLs are missing. Fetch details
@@ -241,7 +256,9 @@ function StreamManagementPage() {
 									{streamInfo.streamStatus === "upcoming" && (
 										<button
 											onClick={() => handleUpdateStatus("live")}
-											className="inline-flex items-center px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm"
+											disabled={streamSlot?.available === false}
+											title={streamSlot?.reason ?? undefined}
+											className="inline-flex items-center px-3 py-1 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
 										>
 											<Play className="w-3 h-3 mr-1" />
 											Start Stream
@@ -268,11 +285,13 @@ function StreamManagementPage() {
 									<input
 										type="text"
 										readOnly
-										value={game.streamKey || ""}
+										value={credentials?.streamKey || ""}
 										className="flex-1 px-3 py-2 bg-gray-50 border border-gray-300 rounded-lg text-sm font-mono"
 									/>
 									<button
-										onClick={() => copyToClipboard(game.streamKey || "", "key")}
+										onClick={() =>
+											copyToClipboard(credentials?.streamKey || "", "key")
+										}
 										className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg"
 										title="Copy stream key"
 									>
@@ -297,16 +316,11 @@ function StreamManagementPage() {
 									<input
 										type="text"
 										readOnly
-										value="rtmps://live.cloudflare.com:443/live/"
+										value={rtmpUrl}
 										className="flex-1 px-3 py-2 bg-gray-50 border border-gray-300 rounded-lg text-sm font-mono"
 									/>
 									<button
-										onClick={() =>
-											copyToClipboard(
-												"rtmps://live.cloudflare.com:443/live/",
-												"rtmp",
-											)
-										}
+										onClick={() => copyToClipboard(rtmpUrl, "rtmp")}
 										className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg"
 										title="Copy RTMP endpoint"
 									>
@@ -323,7 +337,7 @@ function StreamManagementPage() {
 							</div>
 
 							{/* WebRTC Publish URL */}
-							{streamInfo.webRtcPublishUrl && (
+							{credentials?.webRtcPublishUrl && (
 								<div>
 									<label className="block text-sm font-medium text-gray-700 mb-1">
 										WebRTC Publish URL (Browser Streaming)
@@ -332,13 +346,13 @@ function StreamManagementPage() {
 										<input
 											type="text"
 											readOnly
-											value={streamInfo.webRtcPublishUrl}
+											value={credentials.webRtcPublishUrl}
 											className="flex-1 px-3 py-2 bg-gray-50 border border-gray-300 rounded-lg text-sm font-mono"
 										/>
 										<button
 											onClick={() =>
 												copyToClipboard(
-													streamInfo.webRtcPublishUrl || "",
+													credentials.webRtcPublishUrl || "",
 													"webrtc-publish",
 												)
 											}
@@ -430,8 +444,16 @@ function StreamManagementPage() {
 					)}
 				</div>
 
+				{/* Stream Health Card */}
+				{streamInfo?.streamId && (
+					<StreamHealthCard
+						gameId={gameId as Id<"games">}
+						isLive={streamInfo.streamStatus === "live"}
+					/>
+				)}
+
 				{/* Browser Streaming */}
-				{streamInfo?.webRtcPublishUrl && (
+				{credentials?.webRtcPublishUrl && (
 					<div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
 						<h2 className="text-lg font-semibold text-gray-900 mb-4">
 							Browser Streaming
@@ -441,7 +463,7 @@ function StreamManagementPage() {
 							microphone. No additional software required!
 						</p>
 						<BrowserStream
-							webRtcPublishUrl={streamInfo.webRtcPublishUrl}
+							webRtcPublishUrl={credentials.webRtcPublishUrl}
 							onStreamStart={() => {
 								if (streamInfo?.streamStatus !== "live") {
 									handleUpdateStatus("live");
@@ -496,8 +518,7 @@ function StreamManagementPage() {
 									Configure your streaming software (OBS Studio, etc.) with:
 									<ul className="list-disc list-inside ml-6 mt-1">
 										<li>
-											<strong>Server:</strong>{" "}
-											rtmps://live.cloudflare.com:443/live/
+											<strong>Server:</strong> {rtmpUrl}
 										</li>
 										<li>
 											<strong>Stream Key:</strong> (use the key shown above)
@@ -517,3 +538,226 @@ function StreamManagementPage() {
 		</div>
 	);
 }
+
+// Helper Components
+
+function StreamFieldCard({
+	gameId,
+	venue,
+	field,
+	isLive,
+	slot,
+}: {
+	gameId: Id<"games">;
+	venue: string;
+	field?: string;
+	isLive: boolean;
+	slot:
+		| {
+				available: boolean;
+				reason: string | null;
+				liveStreams: number;
+				limit: number;
+		  }
+		| null
+		| undefined;
+}) {
+	const setStreamField = useMutation(api.streams.setStreamField);
+	const [value, setValue] = useState(field ?? "");
+	const [isSaving, setIsSaving] = useState(false);
+
+	const handleSave = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setIsSaving(true);
+		try {
+			await setStreamField({ gameId, field: value });
+		} catch (error) {
+			console.error("Error updating field:", error);
+			alert(error instanceof Error ? error.message : "Failed to update field");
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	return (
+		<div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+			<div className="flex items-start justify-between gap-4 mb-4">
+				<div>
+					<h2 className="text-lg font-semibold text-gray-900">Stream Slot</h2>
+					<p className="text-sm text-gray-600 mt-1">
+						Each field at {venue} can stream one game at a time.
+					</p>
+				</div>
+				{slot && (
+					<span className="text-sm text-gray-600 whitespace-nowrap">
+						{slot.liveStreams} of {slot.limit} live streams in use
+					</span>
+				)}
+			</div>
+
+			<form onSubmit={handleSave} className="flex items-center gap-2">
+				<input
+					type="text"
+					value={value}
+					onChange={(e) => setValue(e.target.value)}
+					placeholder="e.g. Field 3"
+					disabled={isLive}
+					aria-label="Field"
+					className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:bg-gray-50"
+				/>
+				<button
+					type="submit"
+					disabled={isLive || isSaving || value.trim() === (field ?? "")}
+					className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+				>
+					{isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save"}
+				</button>
+			</form>
+
+			{slot?.reason && (
+				<p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3 mt-4">
+					{slot.reason}
+				</p>
+			)}
+		</div>
+	);
+}
+
+const HEALTH_STATES: Record<
+	Doc<"streamHealthSamples">["state"],
+	{ label: string; badge: string; bar: string }
+> = {
+	live: {
+		label: "Connected",
+		badge: "bg-green-100 text-green-800",
+		bar: "bg-green-500",
+	},
+	idle: {
+		label: "No publisher",
+		badge: "bg-yellow-100 text-yellow-800",
+		bar: "bg-yellow-400",
+	},
+	unknown: {
+		label: "Unknown",
+		badge: "bg-gray-100 text-gray-800",
+		bar: "bg-gray-300",
+	},
+};
+
+function StreamHealthCard({
+	gameId,
+	isLive,
+}: {
+	gameId: Id<"games">;
+	isLive: boolean;
+}) {
+	const health = useQuery(api.streamHealth.getStreamHealth, { gameId });
+	if (!health) return null;
+
+	const { samples, pollIntervalSeconds, goneAfterSeconds } = health;
+	const latest = samples[samples.length - 1];
+	const maxBitrate = Math.max(
+		1,
+		...samples.map((sample) => sample.bitrateKbps ?? 0),
+	);
+
+	return (
+		<div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+			<div className="flex items-start justify-between gap-4 mb-4">
+				<div>
+					<h2 className="text-lg font-semibold text-gray-900">Stream Health</h2>
+					<p className="text-sm text-gray-600 mt-1">
+						Checked with the stream provider every {pollIntervalSeconds} seconds
+						while the stream is live.
+					</p>
+				</div>
+				{latest && (
+					<span
+						className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium whitespace-nowrap ${HEALTH_STATES[latest.state].badge}`}
+					>
+						{latest.error
+							? "Provider unreachable"
+							: HEALTH_STATES[latest.state].label}
+					</span>
+				)}
+			</div>
+
+			{!latest ? (
+				<p className="text-sm text-gray-500">
+					{isLive
+						? "Waiting for the first health check..."
+						: "No health checks yet. They start when the stream goes live."}
+				</p>
+			) : (
+				<div className="space-y-4">
+					{isLive && latest.state === "idle" && (
+						<p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+							Nothing is publishing to this stream. It ends automatically if no
+							publisher connects within {Math.round(goneAfterSeconds / 60)}{" "}
+							minutes.
+						</p>
+					)}
+					{latest.error && (
+						<p className="text-sm text-red-800 bg-red-50 border border-red-200 rounded-lg p-3">
+							{latest.error}
+						</p>
+					)}
+
+					<dl className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+						<div>
+							<dt className="text-gray-500">Bitrate</dt>
+							<dd className="font-medium text-gray-900">
+								{latest.bitrateKbps !== undefined
+									? `${latest.bitrateKbps.toLocaleString()} kbps`
+									: "—"}
+							</dd>
+						</div>
+						<div>
+							<dt className="text-gray-500">Viewers</dt>
+							<dd className="font-medium text-gray-900">
+								{latest.viewers ?? "—"}
+							</dd>
+						</div>
+						<div>
+							<dt className="text-gray-500">Protocol</dt>
+							<dd className="font-medium text-gray-900">
+								{latest.ingestProtocol ?? "—"}
+							</dd>
+						</div>
+						<div>
+							<dt className="text-gray-500">Connected since</dt>
+							<dd className="font-medium text-gray-900">
+								{latest.connectedSince
+									? new Date(latest.connectedSince).toLocaleTimeString()
+									: "—"}
+							</dd>
+						</div>
+					</dl>
+
+					{/* Bitrate history, colored by connection state */}
+					<div>
+						<div className="flex items-end gap-0.5 h-16">
+							{samples.map((sample) => (
+								<div
+									key={sample._id}
+									title={`${new Date(sample.timestamp).toLocaleTimeString()}: ${
+										sample.bitrateKbps !== undefined
+											? `${sample.bitrateKbps} kbps`
+											: HEALTH_STATES[sample.state].label
+									}`}
+									className={`flex-1 rounded-sm ${HEALTH_STATES[sample.state].bar}`}
+									style={{
+										height: `${Math.max(8, ((sample.bitrateKbps ?? 0) / maxBitrate) * 100)}%`,
+									}}
+								/>
+							))}
+						</div>
+						<p className="text-xs text-gray-500 mt-2">
+							Last checked {new Date(latest.timestamp).toLocaleTimeString()}
+						</p>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
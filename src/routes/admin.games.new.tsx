@@ -6,7 +6,9 @@
 import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
 import { useAction, useQuery } from "convex/react";
 import { AlertCircle, Calendar, MapPin, Settings, Users } from "lucide-react";
-import { useState } from "react";
+import { useId, useState } from "react";
+import { PaymentAlert } from "@/components/autumn/PaymentAlert";
+import { getPlanLimitError } from "@/utils/feature-gates";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
 
@@ -31,6 +33,7 @@ type GameFormat = "professional" | "tournament" | "recreational";
 function NewGamePage() {
 	const navigate = useNavigate();
 	const teams = useQuery(api.games.listTeams);
+	const leagues = useQuery(api.leagues.listLeagues, {});
 	const createGameWithStream = useAction(api.streams.createGameWithStream);
 
 	// Form state
@@ -38,9 +41,13 @@ function NewGamePage() {
 	const [homeTeamId, setHomeTeamId] = useState<Id<"teams"> | "">("");
 	const [awayTeamId, setAwayTeamId] = useState<Id<"teams"> | "">("");
 	const [venue, setVenue] = useState("");
+	const [field, setField] = useState("");
+	const fieldInputId = useId();
 	const [date, setDate] = useState("");
 	const [time, setTime] = useState("");
 	const [genderRatioRequired, setGenderRatioRequired] = useState(false);
+	const [seasonId, setSeasonId] = useState<Id<"seasons"> | "">("");
+	const seasonSelectId = useId();
 
 	// Rule config state (varies by format)
 	const [stallCount, setStallCount] = useState<6 | 7 | 10>(10);
@@ -62,11 +69,14 @@ function NewGamePage() {
 
 	// UI state
 	const [error, setError] = useState("");
+	const [planLimit, setPlanLimit] =
+		useState<ReturnType<typeof getPlanLimitError>>(null);
 	const [isSubmitting, setIsSubmitting] = useState(false);
 
 	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
 		setError("");
+		setPlanLimit(null);
 
 		console.log("Form submitted!");
 
@@ -153,9 +163,11 @@ function NewGamePage() {
 				awayTeamId: awayTeamId as Id<"teams">,
 				scheduledStart,
 				venue: venue.trim(),
+				field: field.trim() || undefined,
 				ruleConfig,
 				genderRatioRequired,
 				fieldInfo,
+				seasonId: seasonId || undefined,
 			});
 
 			console.log("Game created successfully! ID:", gameId);
@@ -165,7 +177,11 @@ function NewGamePage() {
 			navigate({ to: `/admin/scorekeeper/${gameId}` });
 		} catch (err) {
 			console.error("Error creating game:", err);
-			setError(err instanceof Error ? err.message : "Failed to create game");
+			const limit = getPlanLimitError(err);
+			setPlanLimit(limit);
+			if (!limit) {
+				setError(err instanceof Error ? err.message : "Failed to create game");
+			}
 			setIsSubmitting(false);
 		}
 	};
@@ -243,6 +259,9 @@ function NewGamePage() {
 						</p>
 					</div>
 
+					{/* Plan Limit */}
+					{planLimit && <PaymentAlert planLimit={planLimit} />}
+
 					{/* Error Message */}
 					{error && (
 						<div className="alert alert-error">
@@ -380,7 +399,29 @@ function NewGamePage() {
 									required
 								/>
 							</div>
-							<div className="md:col-span-3">
+							<div>
+								<label className="label" htmlFor={seasonSelectId}>
+									<span className="label-text">League Season</span>
+								</label>
+								<select
+									id={seasonSelectId}
+									value={seasonId}
+									onChange={(e) => setSeasonId(e.target.value as Id<"seasons">)}
+									className="select select-bordered w-full"
+								>
+									<option value="">No season</option>
+									{leagues?.map((league) => (
+										<optgroup key={league._id} label={league.name}>
+											{league.seasons.map((season) => (
+												<option key={season._id} value={season._id}>
+													{season.name}
+												</option>
+											))}
+										</optgroup>
+									))}
+								</select>
+							</div>
+							<div className="md:col-span-2">
 								<label className="label">
 									<span className="label-text">
 										<MapPin className="inline mr-1" size={16} />
@@ -391,11 +432,27 @@ function NewGamePage() {
 									type="text"
 									value={venue}
 									onChange={(e) => setVenue(e.target.value)}
-									placeholder="e.g. National Sports Complex Field 3"
+									placeholder="e.g. National Sports Complex"
 									className="input input-bordered w-full"
 									required
 								/>
 							</div>
+							<div>
+								<label className="label" htmlFor={fieldInputId}>
+									<span className="label-text">Field</span>
+								</label>
+								<input
+									id={fieldInputId}
+									type="text"
+									value={field}
+									onChange={(e) => setField(e.target.value)}
+									placeholder="e.g. Field 3"
+									className="input input-bordered w-full"
+								/>
+								<p className="text-xs text-base-content/60 mt-1">
+									One live stream per field at a time
+								</p>
+							</div>
 						</div>
 					</div>
 
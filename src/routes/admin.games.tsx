@@ -11,9 +11,10 @@ import {
 	useMatches,
 } from "@tanstack/react-router";
 import { useMutation, useQuery } from "convex/react";
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { api } from "../../convex/_generated/api";
-import { Trash2 } from "lucide-react";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+import { Trash2, Users, X } from "lucide-react";
 
 export const Route = createFileRoute("/admin/games")({
 	component: AdminGamesPage,
@@ -28,7 +29,7 @@ export const Route = createFileRoute("/admin/games")({
  * - A header with a "Create Game" link.
  * - Filters for "all", "live", "upcoming", and "completed" games.
  * - A games table showing status, teams, score, format, venue, date, and actions.
- * - Per-game actions: a "View" link to the public game page and a conditional "Score"/"Start" link to the admin scorekeeper for live/upcoming games.
+ * - Per-game actions: a "View" link to the public game page, a conditional "Score"/"Start" link to the admin scorekeeper for live/upcoming games, and a "Staff" panel to assign scorekeepers, streamers and observers.
  *
  * @returns The page's React element (JSX) to display the admin games UI or the nested route Outlet.
  *
@@ -48,7 +49,10 @@ function AdminGamesPage() {
 		"all" | "live" | "upcoming" | "completed"
 	>("all");
 	const [deletingGameId, setDeletingGameId] = useState<string | null>(null);
-	const [deleteConfirmGameId, setDeleteConfirmGameId] = useState<string | null>(null);
+	const [deleteConfirmGameId, setDeleteConfirmGameId] = useState<string | null>(
+		null,
+	);
+	const [staffGameId, setStaffGameId] = useState<string | null>(null);
 
 	// Fetch games based on filter
 	const games =
@@ -173,89 +177,57 @@ function AdminGamesPage() {
 							</thead>
 							<tbody>
 								{games.map((game) => (
-									<tr key={game._id} className="hover">
-										<td>
-											<span
-												className={`badge ${getStatusBadgeClass(game.status)}`}
-											>
-												{game.status === "live" && (
-													<span className="animate-pulse mr-1">●</span>
+									<Fragment key={game._id}>
+										<tr className="hover">
+											<td>
+												<span
+													className={`badge ${getStatusBadgeClass(game.status)}`}
+												>
+													{game.status === "live" && (
+														<span className="animate-pulse mr-1">●</span>
+													)}
+													{game.status.toUpperCase()}
+												</span>
+											</td>
+											<td>
+												<div className="text-sm font-medium text-base-content">
+													{game.homeTeam?.abbreviation || "HOME"} vs{" "}
+													{game.awayTeam?.abbreviation || "AWAY"}
+												</div>
+												<div className="text-sm text-base-content/60">
+													{game.homeTeam?.name} vs {game.awayTeam?.name}
+												</div>
+											</td>
+											<td>
+												{game.state ? (
+													<div className="text-sm font-mono tabular-nums text-base-content">
+														{game.state.homeScore} - {game.state.awayScore}
+													</div>
+												) : (
+													<div className="text-sm text-base-content/40">-</div>
 												)}
-												{game.status.toUpperCase()}
-											</span>
-										</td>
-										<td>
-											<div className="text-sm font-medium text-base-content">
-												{game.homeTeam?.abbreviation || "HOME"} vs{" "}
-												{game.awayTeam?.abbreviation || "AWAY"}
-											</div>
-											<div className="text-sm text-base-content/60">
-												{game.homeTeam?.name} vs {game.awayTeam?.name}
-											</div>
-										</td>
-										<td>
-											{game.state ? (
-												<div className="text-sm font-mono tabular-nums text-base-content">
-													{game.state.homeScore} - {game.state.awayScore}
+											</td>
+											<td>
+												<div className="text-sm text-base-content capitalize">
+													{game.format}
 												</div>
-											) : (
-												<div className="text-sm text-base-content/40">-</div>
-											)}
-										</td>
-										<td>
-											<div className="text-sm text-base-content capitalize">
-												{game.format}
-											</div>
-										</td>
-										<td>
-											<div className="text-sm text-base-content max-w-xs truncate">
-												{game.venue || "TBA"}
-											</div>
-										</td>
-										<td>
-											<div className="text-sm text-base-content">
-												{formatDateTime(game.scheduledStart)}
-											</div>
-										</td>
-										<td className="text-right">
-											<div className="flex justify-end items-center gap-2">
-												<Link
-													to="/games/$gameId"
-													params={{ gameId: game._id }}
-													className="btn btn-primary btn-sm"
-												>
-													<svg
-														xmlns="http://www.w3.org/2000/svg"
-														className="h-4 w-4"
-														fill="none"
-														viewBox="0 0 24 24"
-														stroke="currentColor"
-													>
-														<path
-															strokeLinecap="round"
-															strokeLinejoin="round"
-															strokeWidth={2}
-															d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
-														/>
-														<path
-															strokeLinecap="round"
-															strokeLinejoin="round"
-															strokeWidth={2}
-															d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
-														/>
-													</svg>
-													View
-												</Link>
-												{(game.status === "live" ||
-													game.status === "upcoming") && (
+											</td>
+											<td>
+												<div className="text-sm text-base-content max-w-xs truncate">
+													{game.venue || "TBA"}
+												</div>
+											</td>
+											<td>
+												<div className="text-sm text-base-content">
+													{formatDateTime(game.scheduledStart)}
+												</div>
+											</td>
+											<td className="text-right">
+												<div className="flex justify-end items-center gap-2">
 													<Link
-														to="/admin/scorekeeper/$gameId"
+														to="/games/$gameId"
 														params={{ gameId: game._id }}
-														className={`btn btn-sm ${
-															game.status === "live"
-																? "btn-success"
-																: "btn-secondary"
-														}`}
+														className="btn btn-primary btn-sm"
 													>
 														<svg
 															xmlns="http://www.w3.org/2000/svg"
@@ -268,50 +240,109 @@ function AdminGamesPage() {
 																strokeLinecap="round"
 																strokeLinejoin="round"
 																strokeWidth={2}
-																d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+																d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+															/>
+															<path
+																strokeLinecap="round"
+																strokeLinejoin="round"
+																strokeWidth={2}
+																d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z"
 															/>
 														</svg>
-														Score
+														View
 													</Link>
-												)}
-												{deleteConfirmGameId === game._id ? (
-													<div className="flex items-center gap-2">
+													{(game.status === "live" ||
+														game.status === "upcoming") && (
+														<Link
+															to="/admin/scorekeeper/$gameId"
+															params={{ gameId: game._id }}
+															className={`btn btn-sm ${
+																game.status === "live"
+																	? "btn-success"
+																	: "btn-secondary"
+															}`}
+														>
+															<svg
+																xmlns="http://www.w3.org/2000/svg"
+																className="h-4 w-4"
+																fill="none"
+																viewBox="0 0 24 24"
+																stroke="currentColor"
+															>
+																<path
+																	strokeLinecap="round"
+																	strokeLinejoin="round"
+																	strokeWidth={2}
+																	d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+																/>
+															</svg>
+															Score
+														</Link>
+													)}
+													<button
+														type="button"
+														onClick={() =>
+															setStaffGameId(
+																staffGameId === game._id ? null : game._id,
+															)
+														}
+														className={`btn btn-sm ${
+															staffGameId === game._id
+																? "btn-active"
+																: "btn-ghost"
+														}`}
+														title="Game staff"
+														aria-expanded={staffGameId === game._id}
+													>
+														<Users className="h-4 w-4" />
+														Staff
+													</button>
+													{deleteConfirmGameId === game._id ? (
+														<div className="flex items-center gap-2">
+															<button
+																onClick={() => handleDeleteConfirm(game._id)}
+																disabled={deletingGameId === game._id}
+																className="btn btn-error btn-sm"
+															>
+																{deletingGameId === game._id ? (
+																	<span className="loading loading-spinner loading-xs"></span>
+																) : (
+																	"Confirm"
+																)}
+															</button>
+															<button
+																onClick={handleDeleteCancel}
+																disabled={deletingGameId === game._id}
+																className="btn btn-ghost btn-sm"
+															>
+																Cancel
+															</button>
+														</div>
+													) : (
 														<button
-															onClick={() => handleDeleteConfirm(game._id)}
+															onClick={() => handleDeleteClick(game._id)}
 															disabled={deletingGameId === game._id}
 															className="btn btn-error btn-sm"
+															title="Delete game"
 														>
 															{deletingGameId === game._id ? (
 																<span className="loading loading-spinner loading-xs"></span>
 															) : (
-																"Confirm"
+																<Trash2 className="h-4 w-4" />
 															)}
 														</button>
-														<button
-															onClick={handleDeleteCancel}
-															disabled={deletingGameId === game._id}
-															className="btn btn-ghost btn-sm"
-														>
-															Cancel
-														</button>
-													</div>
-												) : (
-													<button
-														onClick={() => handleDeleteClick(game._id)}
-														disabled={deletingGameId === game._id}
-														className="btn btn-error btn-sm"
-														title="Delete game"
-													>
-														{deletingGameId === game._id ? (
-															<span className="loading loading-spinner loading-xs"></span>
-														) : (
-															<Trash2 className="h-4 w-4" />
-														)}
-													</button>
-												)}
-											</div>
-										</td>
-									</tr>
+													)}
+												</div>
+											</td>
+										</tr>
+										{staffGameId === game._id && (
+											<tr>
+												<td colSpan={7} className="bg-base-100">
+													<GameStaffPanel gameId={game._id} />
+												</td>
+											</tr>
+										)}
+									</Fragment>
 								))}
 							</tbody>
 						</table>
@@ -357,6 +388,124 @@ function FilterButton({
 	);
 }
 
+const STAFF_ROLE_LABELS: Record<Doc<"gameStaff">["role"], string> = {
+	scorekeeper: "Scorekeeper",
+	streamer: "Streamer",
+	observer: "Observer",
+};
+
+function GameStaffPanel({ gameId }: { gameId: Id<"games"> }) {
+	const staff = useQuery(api.gameStaff.listGameStaff, { gameId });
+	const assignGameStaff = useMutation(api.gameStaff.assignGameStaff);
+	const removeGameStaff = useMutation(api.gameStaff.removeGameStaff);
+	const [email, setEmail] = useState("");
+	const [role, setRole] = useState<Doc<"gameStaff">["role"]>("scorekeeper");
+	const [isSaving, setIsSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const handleAssign = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setError(null);
+		setIsSaving(true);
+		try {
+			await assignGameStaff({ gameId, email, role });
+			setEmail("");
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to assign staff");
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handleRemove = async (staffId: Id<"gameStaff">) => {
+		setError(null);
+		try {
+			await removeGameStaff({ staffId });
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to remove staff");
+		}
+	};
+
+	return (
+		<div className="space-y-3 py-2">
+			{staff === undefined ? (
+				<span className="loading loading-spinner loading-sm text-primary"></span>
+			) : staff.length > 0 ? (
+				<div className="flex flex-wrap gap-2">
+					{staff.map((member) => (
+						<span
+							key={member._id}
+							className="badge badge-lg badge-outline gap-2 py-3"
+							title={member.email}
+						>
+							<span className="font-medium">{member.name}</span>
+							<span className="text-base-content/60">
+								{STAFF_ROLE_LABELS[member.role]}
+							</span>
+							<button
+								type="button"
+								onClick={() => handleRemove(member._id)}
+								className="btn btn-ghost btn-xs btn-circle"
+								aria-label={`Remove ${member.name}`}
+							>
+								<X className="h-3 w-3" />
+							</button>
+						</span>
+					))}
+				</div>
+			) : (
+				<p className="text-sm text-base-content/60">
+					No one is assigned to this game yet. Game admins can always score it.
+				</p>
+			)}
+
+			<form
+				onSubmit={handleAssign}
+				className="flex flex-wrap items-center gap-2"
+			>
+				<input
+					type="email"
+					value={email}
+					onChange={(e) => setEmail(e.target.value)}
+					placeholder="person@example.com"
+					className="input input-bordered input-sm w-64"
+					aria-label="Staff email"
+					required
+				/>
+				<select
+					value={role}
+					onChange={(e) => setRole(e.target.value as Doc<"gameStaff">["role"])}
+					className="select select-bordered select-sm"
+					aria-label="Staff role"
+				>
+					{Object.entries(STAFF_ROLE_LABELS).map(([value, label]) => (
+						<option key={value} value={value}>
+							{label}
+						</option>
+					))}
+				</select>
+				<button
+					type="submit"
+					disabled={isSaving || !email.trim()}
+					className="btn btn-primary btn-sm"
+				>
+					{isSaving ? (
+						<span className="loading loading-spinner loading-xs"></span>
+					) : (
+						"Assign"
+					)}
+				</button>
+			</form>
+
+			{error && (
+				<div className="alert alert-error py-2">
+					<span>{error}</span>
+				</div>
+			)}
+		</div>
+	);
+}
+
 // Helper Functions
 
 function getStatusBadgeClass(status: string): string {
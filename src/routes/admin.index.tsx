@@ -14,7 +14,7 @@ export const Route = createFileRoute("/admin/")({
 });
 
 function AdminDashboard() {
-	const { isFree, isPro, isPremium, maxGames, maxTeams } = useFeatureAccess();
+	const { isPro, isPremium } = useFeatureAccess();
 
 	// Fetch live games
 	const liveGames = useQuery(api.games.getLiveGames, {}) ?? [];
@@ -25,9 +25,17 @@ function AdminDashboard() {
 	// Fetch all teams
 	const teams = useQuery(api.games.listTeams, {}) ?? [];
 
-	const isNearGameLimit = isFree && recentGames.length >= maxGames - 1;
-	const isAtGameLimit = isFree && recentGames.length >= maxGames;
-	const isNearTeamLimit = isFree && teams.length >= maxTeams - 1;
+	// The active organization's plan and usage, counted the way limits are enforced
+	const usage = useQuery(api.billing.getPlanUsage, {});
+	const isFree = usage?.plan === "free";
+	const maxGames = usage?.limits.games ?? Infinity;
+	const maxTeams = usage?.limits.teams ?? Infinity;
+	const gameCount = usage?.games ?? 0;
+	const teamCount = usage?.teams ?? 0;
+
+	const isNearGameLimit = isFree && gameCount >= maxGames - 1;
+	const isAtGameLimit = isFree && gameCount >= maxGames;
+	const isNearTeamLimit = isFree && teamCount >= maxTeams - 1;
 
 		return (
 		<div className="space-y-6">
@@ -65,7 +73,7 @@ function AdminDashboard() {
 								<p className="mb-3">
 									{isAtGameLimit
 										? `You've reached your limit of ${maxGames} games on the free plan.`
-										: `You're using ${recentGames.length}/${maxGames} games and ${teams.length}/${maxTeams} teams.`}{" "}
+										: `You're using ${gameCount}/${maxGames} games and ${teamCount}/${maxTeams} teams.`}{" "}
 									Upgrade to Pro for unlimited games and teams!
 								</p>
 								<ul className="text-sm space-y-1">
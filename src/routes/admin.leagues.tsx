@@ -0,0 +1,341 @@
+/**
+ * Admin Leagues Page
+ *
+ * Create leagues and seasons, and add games to a season's standings.
+ */
+
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useMutation, useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { ListOrdered } from "lucide-react";
+import { useState } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+
+export const Route = createFileRoute("/admin/leagues")({
+	component: AdminLeaguesPage,
+});
+
+type League = FunctionReturnType<typeof api.leagues.listLeagues>[number];
+type Game = FunctionReturnType<typeof api.games.listGames>[number];
+
+function AdminLeaguesPage() {
+	const leagues = useQuery(api.leagues.listLeagues, {});
+	const games = useQuery(api.games.listGames, {}) ?? [];
+	const createLeague = useMutation(api.leagues.createLeague);
+
+	const [showCreateForm, setShowCreateForm] = useState(false);
+	const [name, setName] = useState("");
+	const [description, setDescription] = useState("");
+	const [error, setError] = useState("");
+	const [isSubmitting, setIsSubmitting] = useState(false);
+
+	// Games that can still join a season
+	const unassignedGames = games.filter(
+		(game) => !game.seasonId && !game.tournamentId,
+	);
+
+	const handleCreate = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setError("");
+
+		if (!name.trim()) {
+			setError("Please enter a league name");
+			return;
+		}
+
+		setIsSubmitting(true);
+		try {
+			await createLeague({ name, description });
+			setShowCreateForm(false);
+			setName("");
+			setDescription("");
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to create league");
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	return (
+		<div className="space-y-6">
+			{/* Page Header */}
+			<div className="flex justify-between items-center">
+				<div>
+					<h2 className="text-2xl font-bold text-base-content">Leagues</h2>
+					<p className="text-base-content/70 mt-1">Seasons and standings</p>
+				</div>
+				<button
+					type="button"
+					onClick={() => setShowCreateForm(!showCreateForm)}
+					className="btn btn-primary"
+				>
+					{showCreateForm ? "Cancel" : "+ Create League"}
+				</button>
+			</div>
+
+			{/* Create Form */}
+			{showCreateForm && (
+				<form
+					onSubmit={handleCreate}
+					className="card bg-base-200 shadow-lg p-6 space-y-4"
+				>
+					{error && (
+						<div className="alert alert-error">
+							<span>{error}</span>
+						</div>
+					)}
+					<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+						<label className="form-control">
+							<span className="label">
+								<span className="label-text">Name</span>
+							</span>
+							<input
+								type="text"
+								value={name}
+								onChange={(e) => setName(e.target.value)}
+								placeholder="City Ultimate League"
+								className="input input-bordered"
+							/>
+						</label>
+						<label className="form-control">
+							<span className="label">
+								<span className="label-text">Description</span>
+							</span>
+							<input
+								type="text"
+								value={description}
+								onChange={(e) => setDescription(e.target.value)}
+								placeholder="Optional"
+								className="input input-bordered"
+							/>
+						</label>
+					</div>
+					<div className="flex justify-end">
+						<button
+							type="submit"
+							disabled={isSubmitting}
+							className="btn btn-primary"
+						>
+							{isSubmitting ? (
+								<span className="loading loading-spinner loading-sm"></span>
+							) : (
+								"Create League"
+							)}
+						</button>
+					</div>
+				</form>
+			)}
+
+			{/* League List */}
+			{leagues === undefined ? (
+				<div className="text-center py-12 text-base-content/60">
+					<span className="loading loading-spinner loading-lg text-primary"></span>
+				</div>
+			) : leagues.length > 0 ? (
+				<div className="space-y-6">
+					{leagues.map((league) => (
+						<LeagueCard
+							key={league._id}
+							league={league}
+							games={games}
+							unassignedGames={unassignedGames}
+						/>
+					))}
+				</div>
+			) : (
+				<div className="card bg-base-200 shadow-lg">
+					<div className="card-body text-center p-12 text-base-content/60">
+						No leagues yet
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
+
+function LeagueCard({
+	league,
+	games,
+	unassignedGames,
+}: {
+	league: League;
+	games: Game[];
+	unassignedGames: Game[];
+}) {
+	const createSeason = useMutation(api.leagues.createSeason);
+	const setGameSeason = useMutation(api.leagues.setGameSeason);
+
+	const [showSeasonForm, setShowSeasonForm] = useState(false);
+	const [seasonName, setSeasonName] = useState("");
+	const [startDate, setStartDate] = useState("");
+	const [endDate, setEndDate] = useState("");
+	const [error, setError] = useState("");
+
+	const handleCreateSeason = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setError("");
+
+		if (!seasonName.trim() || !startDate) {
+			setError("Please enter a season name and start date");
+			return;
+		}
+
+		try {
+			await createSeason({
+				leagueId: league._id,
+				name: seasonName,
+				startDate: new Date(`${startDate}T00:00`).getTime(),
+				endDate: endDate ? new Date(`${endDate}T23:59`).getTime() : undefined,
+			});
+			setShowSeasonForm(false);
+			setSeasonName("");
+			setStartDate("");
+			setEndDate("");
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to create season");
+		}
+	};
+
+	const handleAddGame = async (seasonId: Id<"seasons">, gameId: string) => {
+		if (!gameId) return;
+		try {
+			await setGameSeason({ gameId: gameId as Id<"games">, seasonId });
+		} catch (err) {
+			alert(err instanceof Error ? err.message : "Failed to add game");
+		}
+	};
+
+	return (
+		<div className="card bg-base-200 shadow-lg">
+			<div className="card-body p-6">
+				<div className="flex justify-between items-start">
+					<div>
+						<h3 className="card-title text-base-content">{league.name}</h3>
+						{league.description && (
+							<p className="text-sm text-base-content/70">
+								{league.description}
+							</p>
+						)}
+					</div>
+					<button
+						type="button"
+						onClick={() => setShowSeasonForm(!showSeasonForm)}
+						className="btn btn-ghost btn-sm"
+					>
+						{showSeasonForm ? "Cancel" : "+ Season"}
+					</button>
+				</div>
+
+				{showSeasonForm && (
+					<form
+						onSubmit={handleCreateSeason}
+						className="bg-base-100 rounded-lg p-4 mt-2 space-y-3"
+					>
+						{error && (
+							<div className="alert alert-error">
+								<span>{error}</span>
+							</div>
+						)}
+						<div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+							<label className="form-control">
+								<span className="label">
+									<span className="label-text">Season Name</span>
+								</span>
+								<input
+									type="text"
+									value={seasonName}
+									onChange={(e) => setSeasonName(e.target.value)}
+									placeholder="Summer 2026"
+									className="input input-bordered input-sm"
+								/>
+							</label>
+							<label className="form-control">
+								<span className="label">
+									<span className="label-text">Starts</span>
+								</span>
+								<input
+									type="date"
+									value={startDate}
+									onChange={(e) => setStartDate(e.target.value)}
+									className="input input-bordered input-sm"
+								/>
+							</label>
+							<label className="form-control">
+								<span className="label">
+									<span className="label-text">Ends</span>
+								</span>
+								<input
+									type="date"
+									value={endDate}
+									onChange={(e) => setEndDate(e.target.value)}
+									className="input input-bordered input-sm"
+								/>
+							</label>
+						</div>
+						<div className="flex justify-end">
+							<button type="submit" className="btn btn-primary btn-sm">
+								Create Season
+							</button>
+						</div>
+					</form>
+				)}
+
+				{league.seasons.length > 0 ? (
+					<div className="space-y-2 mt-2">
+						{league.seasons.map((season: Doc<"seasons">) => {
+							const seasonGames = games.filter(
+								(game) => game.seasonId === season._id,
+							);
+							return (
+								<div
+									key={season._id}
+									className="flex flex-wrap items-center gap-3 bg-base-100 rounded-lg p-3"
+								>
+									<div className="flex-1 min-w-40">
+										<div className="font-semibold">{season.name}</div>
+										<div className="text-xs text-base-content/60">
+											{new Date(season.startDate).toLocaleDateString()}
+											{season.endDate &&
+												` – ${new Date(season.endDate).toLocaleDateString()}`}
+											{" • "}
+											{seasonGames.length} games
+										</div>
+									</div>
+									<select
+										value=""
+										onChange={(e) => handleAddGame(season._id, e.target.value)}
+										className="select select-bordered select-sm"
+										aria-label={`Add a game to ${season.name}`}
+										disabled={unassignedGames.length === 0}
+									>
+										<option value="">Add game…</option>
+										{unassignedGames.map((game) => (
+											<option key={game._id} value={game._id}>
+												{game.homeTeam?.abbreviation ?? "HOME"} vs{" "}
+												{game.awayTeam?.abbreviation ?? "AWAY"} •{" "}
+												{new Date(game.scheduledStart).toLocaleDateString()}
+											</option>
+										))}
+									</select>
+									<Link
+										to="/standings/$seasonId"
+										params={{ seasonId: season._id }}
+										className="btn btn-ghost btn-sm"
+									>
+										<ListOrdered className="w-4 h-4" />
+										Standings
+									</Link>
+								</div>
+							);
+						})}
+					</div>
+				) : (
+					<div className="text-sm text-base-content/60 mt-2">
+						No seasons yet
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
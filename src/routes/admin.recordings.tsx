@@ -0,0 +1,258 @@
+/**
+ * Admin Recordings Page
+ *
+ * Library of stream recordings for the games you manage. Rename a recording, hide it
+ * from the public game page, or delete it (along with the provider's copy).
+ */
+
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useMutation, useQuery } from "convex/react";
+import { Check, Eye, EyeOff, Pencil, Trash2, X } from "lucide-react";
+import { useState } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+import { formatDuration } from "../components/ReplayPlayer";
+
+export const Route = createFileRoute("/admin/recordings")({
+	component: AdminRecordingsPage,
+});
+
+const STATUS_BADGES: Record<Doc<"recordings">["status"], string> = {
+	ready: "badge-success",
+	processing: "badge-warning",
+	failed: "badge-error",
+};
+
+type RecordingWithGame = Doc<"recordings"> & {
+	game: {
+		_id: Doc<"games">["_id"];
+		scheduledStart: number;
+		homeTeamName: string;
+		awayTeamName: string;
+	};
+};
+
+function AdminRecordingsPage() {
+	const recordings = useQuery(api.recordings.listRecordings, {});
+
+	if (recordings === null) {
+		return (
+			<div className="alert alert-warning">
+				<span>Only game managers can manage recordings.</span>
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-6">
+			{/* Page Header */}
+			<div>
+				<h2 className="text-2xl font-bold text-base-content">Recordings</h2>
+				<p className="text-base-content/70 mt-1">
+					Replays of your games' streams, shown on each completed game's page
+				</p>
+			</div>
+
+			<div className="card bg-base-200 shadow-lg">
+				<div className="card-body p-4">
+					{recordings === undefined ? (
+						<div className="py-8 text-center">
+							<span className="loading loading-spinner loading-lg text-primary"></span>
+						</div>
+					) : recordings.length > 0 ? (
+						<div className="overflow-x-auto">
+							<table className="table">
+								<thead>
+									<tr>
+										<th>Recording</th>
+										<th>Game</th>
+										<th>Length</th>
+										<th>Status</th>
+										<th></th>
+									</tr>
+								</thead>
+								<tbody>
+									{recordings.map((recording) => (
+										<RecordingRow key={recording._id} recording={recording} />
+									))}
+								</tbody>
+							</table>
+						</div>
+					) : (
+						<p className="py-4 text-center text-base-content/60">
+							No recordings yet. Streams are recorded automatically and show up
+							here after they end.
+						</p>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+}
+
+// Helper Components
+
+function RecordingRow({ recording }: { recording: RecordingWithGame }) {
+	const renameRecording = useMutation(api.recordings.renameRecording);
+	const setRecordingHidden = useMutation(api.recordings.setRecordingHidden);
+	const deleteRecording = useMutation(api.recordings.deleteRecording);
+	const [isEditing, setIsEditing] = useState(false);
+	const [title, setTitle] = useState(recording.title);
+	const [isSaving, setIsSaving] = useState(false);
+
+	const run = async (action: () => Promise<unknown>, failure: string) => {
+		setIsSaving(true);
+		try {
+			await action();
+			return true;
+		} catch (error) {
+			console.error(`${failure}:`, error);
+			alert(error instanceof Error ? error.message : failure);
+			return false;
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handleRename = async (e: React.FormEvent) => {
+		e.preventDefault();
+		const saved = await run(
+			() => renameRecording({ recordingId: recording._id, title }),
+			"Failed to rename recording",
+		);
+		if (saved) setIsEditing(false);
+	};
+
+	const handleDelete = async () => {
+		if (
+			!confirm(
+				`Delete "${recording.title}" and its clips? The video is also deleted from the stream provider.`,
+			)
+		) {
+			return;
+		}
+		await run(
+			() => deleteRecording({ recordingId: recording._id }),
+			"Failed to delete recording",
+		);
+	};
+
+	return (
+		<tr className={`hover ${recording.hidden ? "opacity-60" : ""}`}>
+			<td>
+				{isEditing ? (
+					<form onSubmit={handleRename} className="flex items-center gap-1">
+						<input
+							type="text"
+							value={title}
+							onChange={(e) => setTitle(e.target.value)}
+							className="input input-bordered input-sm w-56"
+							aria-label="Recording title"
+						/>
+						<button
+							type="submit"
+							disabled={isSaving || !title.trim()}
+							className="btn btn-ghost btn-xs"
+							title="Save title"
+						>
+							<Check className="h-4 w-4" />
+						</button>
+						<button
+							type="button"
+							onClick={() => {
+								setTitle(recording.title);
+								setIsEditing(false);
+							}}
+							className="btn btn-ghost btn-xs"
+							title="Cancel"
+						>
+							<X className="h-4 w-4" />
+						</button>
+					</form>
+				) : (
+					<div className="flex items-center gap-2">
+						<span className="font-medium text-base-content">
+							{recording.title}
+						</span>
+						{recording.hidden && (
+							<span className="badge badge-ghost badge-sm">Hidden</span>
+						)}
+					</div>
+				)}
+				<div className="text-sm text-base-content/60">
+					{new Date(recording.startedAt).toLocaleString()}
+				</div>
+			</td>
+			<td>
+				<Link
+					to="/games/$gameId"
+					params={{ gameId: recording.game._id }}
+					className="link link-hover"
+				>
+					{recording.game.homeTeamName} vs {recording.game.awayTeamName}
+				</Link>
+				<div className="text-sm text-base-content/60">
+					{new Date(recording.game.scheduledStart).toLocaleDateString()}
+				</div>
+			</td>
+			<td className="whitespace-nowrap">
+				{recording.durationSeconds !== undefined
+					? formatDuration(recording.durationSeconds)
+					: "—"}
+			</td>
+			<td>
+				<span
+					className={`badge badge-sm capitalize ${STATUS_BADGES[recording.status]}`}
+				>
+					{recording.status}
+				</span>
+			</td>
+			<td>
+				<div className="flex justify-end gap-1">
+					<button
+						type="button"
+						onClick={() => setIsEditing(true)}
+						disabled={isSaving || isEditing}
+						className="btn btn-ghost btn-xs"
+						title="Rename"
+					>
+						<Pencil className="h-4 w-4" />
+					</button>
+					<button
+						type="button"
+						onClick={() =>
+							run(
+								() =>
+									setRecordingHidden({
+										recordingId: recording._id,
+										hidden: !recording.hidden,
+									}),
+								"Failed to update recording",
+							)
+						}
+						disabled={isSaving}
+						className="btn btn-ghost btn-xs"
+						title={
+							recording.hidden ? "Show on game page" : "Hide from game page"
+						}
+					>
+						{recording.hidden ? (
+							<Eye className="h-4 w-4" />
+						) : (
+							<EyeOff className="h-4 w-4" />
+						)}
+					</button>
+					<button
+						type="button"
+						onClick={handleDelete}
+						disabled={isSaving}
+						className="btn btn-ghost btn-xs text-error"
+						title="Delete"
+					>
+						<Trash2 className="h-4 w-4" />
+					</button>
+				</div>
+			</td>
+		</tr>
+	);
+}
@@ -7,11 +7,17 @@
 
 import { createFileRoute } from "@tanstack/react-router";
 import { useAction, useMutation, useQuery } from "convex/react";
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Pencil, Undo2 } from "lucide-react";
 import { api } from "../../convex/_generated/api";
-import type { Id } from "../../convex/_generated/dataModel";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
 import { LiveScoreboard } from "../components/LiveScoreboard";
 import { BrowserStream } from "../components/BrowserStream";
+import { useScoreBugOverlay } from "../components/useScoreBugOverlay";
+import { EventEditDrawer } from "../components/EventEditDrawer";
+import { LineSelector } from "../components/LineSelector";
+import { getPlanLimitError } from "@/utils/feature-gates";
+import type { ScoreBugPosition } from "@/lib/score-bug";
 
 export const Route = createFileRoute("/admin/scorekeeper/$gameId")({
 	component: ScorekeeperPage,
@@ -24,6 +30,8 @@ function ScorekeeperPage() {
 		team: "home" | "away";
 	} | null>(null);
 	const [showRulesEditor, setShowRulesEditor] = useState(false);
+	const [editingEvent, setEditingEvent] = useState<Doc<"events"> | null>(null);
+	const [showLineSelector, setShowLineSelector] = useState(false);
 
 	// Rules editor state (for upcoming games)
 	const [stallCount, setStallCount] = useState<6 | 7 | 10>(10);
@@ -36,6 +44,14 @@ function ScorekeeperPage() {
 	const [softCapTime, setSoftCapTime] = useState(75);
 	const [hardCapTime, setHardCapTime] = useState(90);
 
+	// What the signed-in user may do here (observers get a read-only console)
+	const access = useQuery(api.gameStaff.getMyGameAccess, {
+		gameId: gameId as Id<"games">,
+	});
+	const canScore = access?.canScore ?? false;
+	const canStream = access?.canStream ?? false;
+	const canManage = access?.canManage ?? false;
+
 	// Fetch game data with real-time updates
 	const game = useQuery(api.games.getGame, {
 		gameId: gameId as Id<"games">,
@@ -69,14 +85,49 @@ function ScorekeeperPage() {
 				: "skip",
 		) ?? [];
 
+	// Lines for the current point, falling back to the previous point's lines
+	const pointNumber = gameState
+		? gameState.homeScore + gameState.awayScore + 1
+		: 1;
+	const currentLineups = useQuery(api.lineups.getPointLineups, {
+		gameId: gameId as Id<"games">,
+		pointNumber,
+	});
+	const previousLineups = useQuery(
+		api.lineups.getPointLineups,
+		pointNumber > 1
+			? { gameId: gameId as Id<"games">, pointNumber: pointNumber - 1 }
+			: "skip",
+	);
+
+	// Recent events for corrections (voided events are excluded by the query)
+	const recentEvents = (
+		useQuery(api.games.getGameEvents, {
+			gameId: gameId as Id<"games">,
+			limit: 15,
+		}) ?? []
+	).filter(
+		(event) =>
+			event.type === "goal" ||
+			event.type === "turnover" ||
+			event.type === "timeout",
+	);
+
 	// Mutations - Convex handles optimistic updates automatically
 	const recordGoalMutation = useMutation(api.gameMutations.recordGoal);
 	const updatePossessionMutation = useMutation(
 		api.gameMutations.updatePossession,
 	);
 	const recordTurnoverMutation = useMutation(api.gameMutations.recordTurnover);
+	const undoLastEventMutation = useMutation(api.gameMutations.undoLastEvent);
+	const callTimeoutMutation = useMutation(api.gameMutations.callTimeout);
+	const startClockMutation = useMutation(api.gameMutations.startClock);
+	const stopClockMutation = useMutation(api.gameMutations.stopClock);
+	const endTimeoutMutation = useMutation(api.gameMutations.endTimeout);
+	const setLineMutation = useMutation(api.lineups.setLine);
 	const startGameMutation = useMutation(api.gameMutations.startGame);
 	const endGameMutation = useMutation(api.gameMutations.endGame);
+	const endPeriodMutation = useMutation(api.gameMutations.endPeriod);
 	const updateGameRulesMutation = useMutation(
 		api.gameMutations.updateGameRules,
 	);
@@ -85,12 +136,33 @@ function ScorekeeperPage() {
 	const streamInfo = useQuery(api.streams.getGameStream, {
 		gameId: gameId as Id<"games">,
 	});
-	const activeStreamGameId = useQuery(api.streams.getActiveStream);
+	const streamCredentials = useQuery(api.streams.getStreamCredentials, {
+		gameId: gameId as Id<"games">,
+	});
+	const streamSlot = useQuery(api.streams.getStreamSlot, {
+		gameId: gameId as Id<"games">,
+	});
 	const updateStreamMutation = useMutation(api.streams.updateGameStream);
 	const createLiveInputAction = useAction(api.streams.createLiveInput);
 	const [isStreamLoading, setIsStreamLoading] = useState(false);
 	const [isActuallyStreaming, setIsActuallyStreaming] = useState(false);
 
+	// Score bug burned into the browser stream
+	const [scoreBugPosition, setScoreBugPosition] = useState<
+		ScoreBugPosition | "off"
+	>("top-left");
+	const scoreBugOptions = useMemo(
+		() => ({
+			position: scoreBugPosition === "off" ? undefined : scoreBugPosition,
+		}),
+		[scoreBugPosition],
+	);
+	const scoreBugOverlay = useScoreBugOverlay({
+		game,
+		gameState,
+		options: scoreBugOptions,
+	});
+
 	// Initialize rules editor state when game loads
 	useEffect(() => {
 		if (game && game.status === "upcoming") {
@@ -159,6 +231,62 @@ function ScorekeeperPage() {
 		}
 	};
 
+	// Handle timeout call
+	const handleTimeout = async (team: "home" | "away") => {
+		try {
+			await callTimeoutMutation({ gameId: gameId as Id<"games">, team });
+		} catch (err: any) {
+			alert(`Failed to call timeout: ${err.message}`);
+		}
+	};
+
+	// Handle starting/stopping the game clock (timed on the server)
+	const handleToggleClock = async () => {
+		try {
+			if (gameState?.runningSince !== undefined) {
+				await stopClockMutation({ gameId: gameId as Id<"games"> });
+			} else {
+				await startClockMutation({ gameId: gameId as Id<"games"> });
+			}
+		} catch (err: any) {
+			alert(`Failed to update clock: ${err.message}`);
+		}
+	};
+
+	// Handle ending a timeout early
+	const handleEndTimeout = async () => {
+		try {
+			await endTimeoutMutation({ gameId: gameId as Id<"games"> });
+		} catch (err: any) {
+			alert(`Failed to end timeout: ${err.message}`);
+		}
+	};
+
+	// Handle saving a team's line for the current point
+	const handleSetLine = async (
+		team: "home" | "away",
+		playerIds: Id<"players">[],
+	) => {
+		try {
+			await setLineMutation({
+				gameId: gameId as Id<"games">,
+				team,
+				playerIds,
+			});
+		} catch (err: any) {
+			alert(`Failed to set line: ${err.message}`);
+		}
+	};
+
+	// Handle undo - voids the most recent goal, turnover or timeout and replays the score
+	const handleUndo = async () => {
+		try {
+			await undoLastEventMutation({ gameId: gameId as Id<"games"> });
+		} catch (err: any) {
+			alert(`Failed to undo: ${err.message}`);
+		}
+	};
+
 	// Memoize the canvas stream ready callback to prevent infinite loops
 	// BrowserStream handles its own preview, so we don't need to track the stream
 	const handleCanvasStreamReady = useCallback((_stream: MediaStream | null) => {
@@ -174,6 +302,23 @@ function ScorekeeperPage() {
 		);
 	}
 
+	if (access !== undefined && !access?.canObserve) {
+		return (
+			<div className="min-h-screen bg-base-100 p-6">
+				<div className="max-w-2xl mx-auto card bg-base-200 shadow-lg">
+					<div className="card-body text-center p-12 items-center">
+						<h1 className="text-2xl font-bold text-base-content">
+							Not assigned to this game
+						</h1>
+						<p className="text-base-content/70">
+							Ask a game admin to add you as a scorekeeper or observer.
+						</p>
+					</div>
+				</div>
+			</div>
+		);
+	}
+
 	// Handle start game
 	const handleStartGame = async () => {
 		try {
@@ -195,6 +340,27 @@ function ScorekeeperPage() {
 		}
 	};
 
+	// Handle end period - the final period ends the game
+	const handleEndPeriod = async () => {
+		if (!game || !gameState) return;
+		const isFinalPeriod =
+			gameState.period >= (game.ruleConfig.quarterLength ? 4 : 2);
+		if (
+			!confirm(
+				isFinalPeriod
+					? "This is the final period. End the period and the game?"
+					: "End the current period?",
+			)
+		) {
+			return;
+		}
+		try {
+			await endPeriodMutation({ gameId: gameId as Id<"games"> });
+		} catch (err: any) {
+			alert(`Failed to end period: ${err.message}`);
+		}
+	};
+
 	// Handle save rules
 	const handleSaveRules = async () => {
 		if (!game) return;
@@ -246,10 +412,8 @@ function ScorekeeperPage() {
 
 		try {
 			// Validate states first (these are synchronous checks)
-			if (activeStreamGameId && activeStreamGameId !== gameId) {
-				alert(
-					"Another game is already streaming. Only one stream can be active at a time.",
-				);
+			if (streamSlot?.reason) {
+				alert(streamSlot.reason);
 				return;
 			}
 
@@ -262,43 +426,21 @@ function ScorekeeperPage() {
 				throw new Error("Game data not available");
 			}
 
-			// Prepare all operations that can run in parallel
-			const operations: Promise<unknown>[] = [];
-
-			// If no stream key exists, create a live input first
-			if (!game.streamKey || !streamInfo?.webRtcPublishUrl) {
-				// Create live input and update stream in sequence (update depends on live input)
-				const liveInput = await createLiveInputAction({});
-
-				// Update stream with all data at once
-				operations.push(
-					updateStreamMutation({
-						gameId: gameId as Id<"games">,
-						streamKey: liveInput.streamKey,
-						streamId: liveInput.uid,
-						streamUrl: liveInput.rtmpUrl,
-						webRtcPublishUrl: liveInput.webRtcPublishUrl,
-						webRtcPlaybackUrl: liveInput.webRtcPlaybackUrl,
-						streamStatus: "upcoming",
-						streamStartTime: Date.now(),
-					}),
-				);
+			// If no publish credentials exist, create a live input first (stored server-side)
+			if (!streamCredentials?.webRtcPublishUrl) {
+				await createLiveInputAction({ gameId: gameId as Id<"games"> });
 			}
 
-			// Update stream status to live (can run in parallel with other updates)
-			operations.push(
-				updateStreamMutation({
-					gameId: gameId as Id<"games">,
-					streamStatus: "live",
-					streamStartTime: Date.now(),
-				}),
-			);
-
-			// Execute all operations in parallel
-			await Promise.all(operations);
+			// Update stream status to live
+			await updateStreamMutation({
+				gameId: gameId as Id<"games">,
+				streamStatus: "live",
+				streamStartTime: Date.now(),
+			});
 		} catch (err: any) {
 			console.error("Failed to start stream:", err);
-			alert(`Failed to start stream: ${err.message || "Unknown error"}`);
+			const message = getPlanLimitError(err)?.message ?? err.message;
+			alert(`Failed to start stream: ${message || "Unknown error"}`);
 		} finally {
 			setIsStreamLoading(false);
 		}
@@ -334,15 +476,17 @@ function ScorekeeperPage() {
 	const canStartStream =
 		!isStreamLoading &&
 		streamInfo?.streamStatus !== "live" &&
-		(!activeStreamGameId || activeStreamGameId === gameId);
+		streamSlot?.available !== false;
 
 	// Check if we should show the BrowserStream component
 	const shouldShowBrowserStream =
-		!!streamInfo?.webRtcPublishUrl &&
+		canStream &&
+		!!streamCredentials?.webRtcPublishUrl &&
 		(streamInfo?.streamStatus === "live" || canStartStream);
 
 	const isUpcoming = game?.status === "upcoming";
 	const isLive = game?.status === "live";
+	const isCompleted = game?.status === "completed";
 
 	return (
 		<div className="min-h-screen bg-base-100 pb-20">
@@ -362,9 +506,8 @@ function ScorekeeperPage() {
 								<span className="w-3 h-3 bg-error-content rounded-full animate-pulse"></span>
 								Live Streaming
 							</div>
-							
 						)}
-						{isUpcoming && (
+						{isUpcoming && canManage && (
 							<button
 								onClick={() => setShowRulesEditor(!showRulesEditor)}
 								className="btn btn-ghost btn-sm"
@@ -372,7 +515,7 @@ function ScorekeeperPage() {
 								{showRulesEditor ? "Hide" : "Edit"} Rules
 							</button>
 						)}
-						{isUpcoming ? (
+						{isUpcoming && canScore ? (
 							<button
 								onClick={handleStartGame}
 								className="btn btn-success btn-sm"
@@ -399,38 +542,62 @@ function ScorekeeperPage() {
 								</svg>
 								Start Game
 							</button>
-						) : isLive ? (
-							<button
-								onClick={handleEndGame}
-								className="btn btn-error btn-sm"
-							>
-								<svg
-									xmlns="http://www.w3.org/2000/svg"
-									className="h-4 w-4"
-									fill="none"
-									viewBox="0 0 24 24"
-									stroke="currentColor"
+						) : isLive && canScore ? (
+							<>
+								<button
+									type="button"
+									onClick={handleEndPeriod}
+									className="btn btn-warning btn-sm"
 								>
-									<path
-										strokeLinecap="round"
-										strokeLinejoin="round"
-										strokeWidth={2}
-										d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
-									/>
-									<path
-										strokeLinecap="round"
-										strokeLinejoin="round"
-										strokeWidth={2}
-										d="M9 10h6m-6 4h6"
-									/>
-								</svg>
-								End Game
-							</button>
+									End{" "}
+									{game.ruleConfig.quarterLength
+										? `Q${gameState?.period ?? 1}`
+										: "Half"}
+								</button>
+								<button
+									onClick={handleEndGame}
+									className="btn btn-error btn-sm"
+								>
+									<svg
+										xmlns="http://www.w3.org/2000/svg"
+										className="h-4 w-4"
+										fill="none"
+										viewBox="0 0 24 24"
+										stroke="currentColor"
+									>
+										<path
+											strokeLinecap="round"
+											strokeLinejoin="round"
+											strokeWidth={2}
+											d="M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
+										/>
+										<path
+											strokeLinecap="round"
+											strokeLinejoin="round"
+											strokeWidth={2}
+											d="M9 10h6m-6 4h6"
+										/>
+									</svg>
+									End Game
+								</button>
+							</>
 						) : null}
 					</div>
 				</div>
 			</header>
 
+			{access && !access.canScore && (
+				<div className="max-w-4xl mx-auto px-4 pt-4">
+					<div className="alert alert-info">
+						<span>
+							{canStream
+								? "You're streaming this game. Only assigned scorekeepers can record events."
+								: "You're observing this game. Only assigned scorekeepers can record events."}
+						</span>
+					</div>
+				</div>
+			)}
+
 			{/* Live Scoreboard */}
 			<div className="max-w-4xl mx-auto px-4 py-4">
 				<LiveScoreboard
@@ -440,12 +607,44 @@ function ScorekeeperPage() {
 				/>
 			</div>
 
+			{/* Stream Slot - Explains why the stream can't start */}
+			{streamCredentials?.webRtcPublishUrl && streamSlot?.reason && (
+				<div className="max-w-2xl mx-auto px-4 pb-4">
+					<div className="alert alert-warning">
+						<span>{streamSlot.reason}</span>
+					</div>
+				</div>
+			)}
+
 			{/* Browser Stream - Compact view when stream is available */}
-			{shouldShowBrowserStream && streamInfo.webRtcPublishUrl && (
+			{shouldShowBrowserStream && streamCredentials?.webRtcPublishUrl && (
 				<div className="max-w-2xl mx-auto px-4 pb-4">
+					<div className="flex justify-end mb-2">
+						<label className="flex items-center gap-2 text-xs text-base-content/70">
+							Score bug
+							<select
+								value={scoreBugPosition}
+								onChange={(e) =>
+									setScoreBugPosition(
+										e.target.value as ScoreBugPosition | "off",
+									)
+								}
+								className="select select-bordered select-xs"
+							>
+								<option value="top-left">Top left</option>
+								<option value="top-right">Top right</option>
+								<option value="bottom-left">Bottom left</option>
+								<option value="bottom-right">Bottom right</option>
+								<option value="off">Off</option>
+							</select>
+						</label>
+					</div>
 					<BrowserStream
-						webRtcPublishUrl={streamInfo.webRtcPublishUrl}
+						webRtcPublishUrl={streamCredentials.webRtcPublishUrl}
 						useCanvas={true}
+						overlay={
+							scoreBugPosition === "off" ? undefined : scoreBugOverlay
+						}
 						onCanvasStreamReady={handleCanvasStreamReady}
 						onStreamingStateChange={(streaming) => {
 							// Update local state to track actual streaming status
@@ -472,12 +671,10 @@ function ScorekeeperPage() {
 			)}
 
 			{/* Rules Editor for Upcoming Games */}
-			{isUpcoming && showRulesEditor && (
+			{isUpcoming && canManage && showRulesEditor && (
 				<div className="max-w-4xl mx-auto px-4 mb-4">
 					<div className="card bg-base-200 shadow-lg p-4">
-						<h3 className="card-title text-base-content mb-4">
-							Game Rules
-						</h3>
+						<h3 className="card-title text-base-content mb-4">Game Rules</h3>
 						<div className="space-y-4">
 							{/* Stall Count */}
 							<div>
@@ -527,7 +724,9 @@ function ScorekeeperPage() {
 											<div className="mt-2 grid grid-cols-2 gap-2">
 												<div>
 													<label className="label">
-														<span className="label-text-alt">Soft Cap (min)</span>
+														<span className="label-text-alt">
+															Soft Cap (min)
+														</span>
 													</label>
 													<input
 														type="number"
@@ -540,7 +739,9 @@ function ScorekeeperPage() {
 												</div>
 												<div>
 													<label className="label">
-														<span className="label-text-alt">Hard Cap (min)</span>
+														<span className="label-text-alt">
+															Hard Cap (min)
+														</span>
 													</label>
 													<input
 														type="number"
@@ -606,7 +807,9 @@ function ScorekeeperPage() {
 								</div>
 								<div>
 									<label className="label">
-										<span className="label-text">Timeout Duration (seconds)</span>
+										<span className="label-text">
+											Timeout Duration (seconds)
+										</span>
 									</label>
 									<input
 										type="number"
@@ -631,8 +834,67 @@ function ScorekeeperPage() {
 				</div>
 			)}
 
+			{/* Set the Line - between points */}
+			{(isLive || isUpcoming) && canScore && gameState && (
+				<div className="max-w-4xl mx-auto px-4 mb-4">
+					<div className="card bg-base-200 shadow-lg p-4">
+						<div className="flex items-center justify-between">
+							<div>
+								<h3 className="card-title text-base-content text-sm">
+									Set the Line - Point {pointNumber}
+								</h3>
+								{!(currentLineups?.home && currentLineups?.away) && (
+									<p className="text-xs text-warning mt-1">
+										Lines not set for this point
+									</p>
+								)}
+							</div>
+							<button
+								type="button"
+								onClick={() => setShowLineSelector(!showLineSelector)}
+								className="btn btn-ghost btn-sm"
+							>
+								{showLineSelector ? "Hide" : "Set Lines"}
+							</button>
+						</div>
+						{showLineSelector && currentLineups !== undefined && (
+							<div className="grid md:grid-cols-2 gap-6 mt-4">
+								{(["home", "away"] as const).map((team) => {
+									const lineup =
+										currentLineups[team] ?? previousLineups?.[team] ?? null;
+									const teamDoc =
+										team === "home" ? game.homeTeam : game.awayTeam;
+									return (
+										<LineSelector
+											key={`${team}-${pointNumber}-${lineup?._id ?? "new"}`}
+											teamName={
+												teamDoc?.abbreviation ||
+												(team === "home" ? "HOME" : "AWAY")
+											}
+											teamColor={teamDoc?.colors.primary}
+											line={gameState.pointStartedWith === team ? "O" : "D"}
+											players={team === "home" ? homePlayers : awayPlayers}
+											initialSelection={
+												lineup?.playerIds.filter((id) =>
+													(team === "home" ? homePlayers : awayPlayers).some(
+														(p) => p._id === id,
+													),
+												) ?? []
+											}
+											genderRatioRequired={game.genderRatioRequired}
+											isSet={!!currentLineups[team]}
+											onSave={(playerIds) => handleSetLine(team, playerIds)}
+										/>
+									);
+								})}
+							</div>
+						)}
+					</div>
+				</div>
+			)}
+
 			{/* Scoring Controls - Mobile Optimized (only show for live games) */}
-			{isLive && (
+			{isLive && canScore && (
 				<div className="max-w-4xl mx-auto px-4 space-y-4">
 					{/* Goal Buttons */}
 					<div className="card bg-base-200 shadow-lg p-4">
@@ -670,9 +932,7 @@ function ScorekeeperPage() {
 							<button
 								onClick={() => handlePossession("home")}
 								className={`btn py-4 font-semibold ${
-									gameState?.possession === "home"
-										? "btn-primary"
-										: "btn-ghost"
+									gameState?.possession === "home" ? "btn-primary" : "btn-ghost"
 								}`}
 							>
 								{game.homeTeam?.abbreviation || "HOME"}
@@ -680,9 +940,7 @@ function ScorekeeperPage() {
 							<button
 								onClick={() => handlePossession("away")}
 								className={`btn py-4 font-semibold ${
-									gameState?.possession === "away"
-										? "btn-error"
-										: "btn-ghost"
+									gameState?.possession === "away" ? "btn-error" : "btn-ghost"
 								}`}
 							>
 								{game.awayTeam?.abbreviation || "AWAY"}
@@ -690,6 +948,70 @@ function ScorekeeperPage() {
 						</div>
 					</div>
 
+					{/* Game Clock - timed formats only */}
+					{(game.ruleConfig.quarterLength || game.ruleConfig.halfLength) && (
+						<div className="card bg-base-200 shadow-lg p-4">
+							<h3 className="card-title text-base-content mb-3 text-sm">
+								Game Clock
+							</h3>
+							<button
+								type="button"
+								onClick={handleToggleClock}
+								disabled={!gameState || !!gameState.timeoutActive}
+								className={`btn w-full ${
+									gameState?.runningSince !== undefined
+										? "btn-warning"
+										: "btn-success"
+								}`}
+							>
+								{gameState?.runningSince !== undefined
+									? "Stop Clock"
+									: "Start Clock"}
+							</button>
+						</div>
+					)}
+
+					{/* Timeouts */}
+					<div className="card bg-base-200 shadow-lg p-4">
+						<h3 className="card-title text-base-content mb-3 text-sm">
+							Timeouts
+						</h3>
+						{gameState?.timeoutActive ? (
+							<button
+								type="button"
+								onClick={handleEndTimeout}
+								className="btn btn-warning w-full"
+							>
+								End{" "}
+								{gameState.timeoutActive.team === "home"
+									? game.homeTeam?.abbreviation || "HOME"
+									: game.awayTeam?.abbreviation || "AWAY"}{" "}
+								Timeout
+							</button>
+						) : (
+							<div className="grid grid-cols-2 gap-3">
+								<button
+									type="button"
+									onClick={() => handleTimeout("home")}
+									disabled={!gameState || gameState.homeTimeoutsRemaining <= 0}
+									className="btn btn-outline"
+								>
+									{game.homeTeam?.abbreviation || "HOME"} Timeout (
+									{gameState?.homeTimeoutsRemaining ?? 0})
+								</button>
+								<button
+									type="button"
+									onClick={() => handleTimeout("away")}
+									disabled={!gameState || gameState.awayTimeoutsRemaining <= 0}
+									className="btn btn-outline"
+								>
+									{game.awayTeam?.abbreviation || "AWAY"} Timeout (
+									{gameState?.awayTimeoutsRemaining ?? 0})
+								</button>
+							</div>
+						)}
+					</div>
+
 					{/* Turnover Buttons */}
 					<div className="card bg-base-200 shadow-lg p-4">
 						<h3 className="card-title text-base-content mb-3 text-sm">
@@ -737,6 +1059,87 @@ function ScorekeeperPage() {
 				</div>
 			)}
 
+			{/* Corrections - undo and edit recorded events */}
+			{(isLive || isCompleted) && (
+				<div className="max-w-4xl mx-auto px-4 mt-4">
+					<div className="card bg-base-200 shadow-lg p-4">
+						<div className="flex items-center justify-between mb-3">
+							<h3 className="card-title text-base-content text-sm">
+								Recent Events
+							</h3>
+							{canScore && (
+								<button
+									type="button"
+									onClick={handleUndo}
+									disabled={recentEvents.length === 0}
+									className="btn btn-outline btn-sm"
+								>
+									<Undo2 className="w-4 h-4" />
+									Undo
+								</button>
+							)}
+						</div>
+						{recentEvents.length > 0 ? (
+							<div className="divide-y divide-base-300">
+								{recentEvents.map((event) => (
+									<div
+										key={event._id}
+										className="flex items-center justify-between py-2 gap-2"
+									>
+										<div className="min-w-0">
+											<div className="text-sm text-base-content truncate">
+												{event.type === "goal"
+													? `Goal - ${
+															event.scoringTeam === "home"
+																? game.homeTeam?.abbreviation || "HOME"
+																: game.awayTeam?.abbreviation || "AWAY"
+														}${
+															event.scoredByPlayer
+																? ` (#${event.scoredByPlayer.jerseyNumber} ${event.scoredByPlayer.lastName})`
+																: ""
+														}`
+													: event.description}
+											</div>
+											<div className="text-xs text-base-content/60">
+												{new Date(event.timestamp).toLocaleTimeString()}
+												{event.replacesEventId && " • corrected"}
+											</div>
+										</div>
+										{canScore && (
+											<button
+												type="button"
+												onClick={() => setEditingEvent(event)}
+												className="btn btn-ghost btn-xs"
+												title="Edit event"
+											>
+												<Pencil className="w-4 h-4" />
+											</button>
+										)}
+									</div>
+								))}
+							</div>
+						) : (
+							<div className="text-center py-2 text-sm text-base-content/60">
+								No goals, turnovers or timeouts recorded yet
+							</div>
+						)}
+					</div>
+				</div>
+			)}
+
+			{/* Event Edit Drawer */}
+			{editingEvent && (
+				<EventEditDrawer
+					key={editingEvent._id}
+					event={editingEvent}
+					homeTeam={game.homeTeam}
+					awayTeam={game.awayTeam}
+					homePlayers={homePlayers}
+					awayPlayers={awayPlayers}
+					onClose={() => setEditingEvent(null)}
+				/>
+			)}
+
 			{/* Player Selection Modal */}
 			{showPlayerSelect && pendingGoal && (
 				<div className="modal modal-open">
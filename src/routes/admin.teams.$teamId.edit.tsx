@@ -5,16 +5,47 @@
 
 import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
 import { useMutation, useQuery } from "convex/react";
-import { AlertCircle, Loader2, Palette, Users } from "lucide-react";
+import {
+	AlertCircle,
+	Loader2,
+	Palette,
+	Pencil,
+	Shirt,
+	Trash2,
+	UserCheck,
+	UserX,
+	Users,
+} from "lucide-react";
 import { useEffect, useState } from "react";
 import { api } from "../../convex/_generated/api";
-import type { Id } from "../../convex/_generated/dataModel";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
 
 export const Route = createFileRoute("/admin/teams/$teamId/edit")({
 	component: EditTeamPage,
 });
 
 type Division = "open" | "womens" | "mixed";
+type Position = "handler" | "cutter";
+type PrimaryLine = "O" | "D" | "both";
+type Gender = "M" | "F";
+
+interface PlayerFormState {
+	firstName: string;
+	lastName: string;
+	jerseyNumber: string;
+	position: Position;
+	primaryLine: PrimaryLine;
+	gender: Gender | "";
+}
+
+const emptyPlayerForm: PlayerFormState = {
+	firstName: "",
+	lastName: "",
+	jerseyNumber: "",
+	position: "cutter",
+	primaryLine: "both",
+	gender: "",
+};
 
 /**
  * Render the Edit Team admin page that loads a team's data, lets an admin edit branding and division info, validates input, submits updates, and navigates back to the teams list on success.
@@ -395,6 +426,407 @@ function EditTeamPage() {
 					</div>
 				</div>
 			</form>
+
+			{/* Roster */}
+			<RosterEditor
+				teamId={teamId as Id<"teams">}
+				isMixed={division === "mixed"}
+			/>
+		</div>
+	);
+}
+
+/**
+ * Roster editor for a single team: lists every player (active first), lets an admin add players, edit details inline, deactivate/reactivate them, and delete them.
+ *
+ * Jersey numbers must be unique among active players; the check runs client-side for quick feedback and is enforced again by the Convex mutations.
+ *
+ * @param teamId - The team whose roster is being edited.
+ * @param isMixed - Whether the team plays in the mixed division, which makes gender required for new players.
+ */
+function RosterEditor({
+	teamId,
+	isMixed,
+}: {
+	teamId: Id<"teams">;
+	isMixed: boolean;
+}) {
+	const players = useQuery(api.games.getTeamPlayers, { teamId });
+	const createPlayer = useMutation(api.gameMutations.createPlayer);
+	const updatePlayer = useMutation(api.gameMutations.updatePlayer);
+	const setPlayerActive = useMutation(api.gameMutations.setPlayerActive);
+	const deletePlayer = useMutation(api.gameMutations.deletePlayer);
+
+	const [form, setForm] = useState<PlayerFormState>(emptyPlayerForm);
+	const [editingPlayerId, setEditingPlayerId] = useState<Id<"players"> | null>(
+		null,
+	);
+	const [deleteConfirmPlayerId, setDeleteConfirmPlayerId] =
+		useState<Id<"players"> | null>(null);
+	const [error, setError] = useState("");
+	const [isSaving, setIsSaving] = useState(false);
+
+	const sortedPlayers = [...(players ?? [])].sort(
+		(a, b) =>
+			Number(b.isActive) - Number(a.isActive) ||
+			a.jerseyNumber - b.jerseyNumber,
+	);
+	const activeCount = sortedPlayers.filter((p) => p.isActive).length;
+
+	const resetForm = () => {
+		setForm(emptyPlayerForm);
+		setEditingPlayerId(null);
+	};
+
+	const handleEdit = (player: Doc<"players">) => {
+		setError("");
+		setEditingPlayerId(player._id);
+		setForm({
+			firstName: player.firstName,
+			lastName: player.lastName,
+			jerseyNumber: String(player.jerseyNumber),
+			position: player.position,
+			primaryLine: player.primaryLine,
+			gender: player.gender ?? "",
+		});
+	};
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setError("");
+
+		const jerseyNumber = Number(form.jerseyNumber);
+
+		// Validation
+		if (!form.firstName.trim() || !form.lastName.trim()) {
+			setError("First and last name are required");
+			return;
+		}
+		if (
+			form.jerseyNumber.trim() === "" ||
+			!Number.isInteger(jerseyNumber) ||
+			jerseyNumber < 0 ||
+			jerseyNumber > 99
+		) {
+			setError("Jersey number must be a whole number between 0 and 99");
+			return;
+		}
+		if (isMixed && !form.gender) {
+			setError("Gender is required for mixed division rosters");
+			return;
+		}
+
+		const editingPlayer = sortedPlayers.find((p) => p._id === editingPlayerId);
+		const clash = sortedPlayers.find(
+			(p) =>
+				p.isActive &&
+				p._id !== editingPlayerId &&
+				p.jerseyNumber === jerseyNumber,
+		);
+		if (clash && (!editingPlayer || editingPlayer.isActive)) {
+			setError(
+				`Jersey #${jerseyNumber} is already worn by ${clash.firstName} ${clash.lastName}`,
+			);
+			return;
+		}
+
+		const details = {
+			firstName: form.firstName.trim(),
+			lastName: form.lastName.trim(),
+			jerseyNumber,
+			position: form.position,
+			primaryLine: form.primaryLine,
+			...(form.gender && { gender: form.gender }),
+		};
+
+		setIsSaving(true);
+		try {
+			if (editingPlayerId) {
+				await updatePlayer({ playerId: editingPlayerId, ...details });
+			} else {
+				await createPlayer({ teamId, ...details });
+			}
+			resetForm();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to save player");
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handleToggleActive = async (player: Doc<"players">) => {
+		setError("");
+		try {
+			await setPlayerActive({
+				playerId: player._id,
+				isActive: !player.isActive,
+			});
+		} catch (err) {
+			setError(
+				err instanceof Error ? err.message : "Failed to update player status",
+			);
+		}
+	};
+
+	const handleDelete = async (playerId: Id<"players">) => {
+		setError("");
+		setDeleteConfirmPlayerId(null);
+		try {
+			await deletePlayer({ playerId });
+			if (editingPlayerId === playerId) {
+				resetForm();
+			}
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Failed to delete player");
+		}
+	};
+
+	return (
+		<div className="card bg-base-200 shadow-xl p-8 space-y-6 mt-8">
+			<div className="flex items-center justify-between">
+				<div className="flex items-center gap-2">
+					<Shirt className="text-primary" size={20} />
+					<h2 className="text-xl font-bold text-base-content">Roster</h2>
+				</div>
+				<div className="badge badge-outline">
+					{activeCount} active / {sortedPlayers.length} total
+				</div>
+			</div>
+
+			{/* Error Message */}
+			{error && (
+				<div className="alert alert-error">
+					<AlertCircle className="stroke-current shrink-0 h-6 w-6" size={20} />
+					<div className="text-sm">{error}</div>
+				</div>
+			)}
+
+			{/* Add / Edit Player Form */}
+			<form onSubmit={handleSubmit} className="card bg-base-300 p-6 space-y-4">
+				<h3 className="font-semibold text-base-content">
+					{editingPlayerId ? "Edit Player" : "Add Player"}
+				</h3>
+				<div className="grid md:grid-cols-3 gap-4">
+					<label className="block">
+						<span className="label">
+							<span className="label-text">First Name *</span>
+						</span>
+						<input
+							type="text"
+							value={form.firstName}
+							onChange={(e) => setForm({ ...form, firstName: e.target.value })}
+							className="input input-bordered w-full"
+							required
+						/>
+					</label>
+					<label className="block">
+						<span className="label">
+							<span className="label-text">Last Name *</span>
+						</span>
+						<input
+							type="text"
+							value={form.lastName}
+							onChange={(e) => setForm({ ...form, lastName: e.target.value })}
+							className="input input-bordered w-full"
+							required
+						/>
+					</label>
+					<label className="block">
+						<span className="label">
+							<span className="label-text">Jersey # *</span>
+						</span>
+						<input
+							type="number"
+							value={form.jerseyNumber}
+							onChange={(e) =>
+								setForm({ ...form, jerseyNumber: e.target.value })
+							}
+							min={0}
+							max={99}
+							className="input input-bordered w-full"
+							required
+						/>
+					</label>
+					<label className="block">
+						<span className="label">
+							<span className="label-text">Position</span>
+						</span>
+						<select
+							value={form.position}
+							onChange={(e) =>
+								setForm({ ...form, position: e.target.value as Position })
+							}
+							className="select select-bordered w-full"
+						>
+							<option value="handler">Handler</option>
+							<option value="cutter">Cutter</option>
+						</select>
+					</label>
+					<label className="block">
+						<span className="label">
+							<span className="label-text">Primary Line</span>
+						</span>
+						<select
+							value={form.primaryLine}
+							onChange={(e) =>
+								setForm({
+									...form,
+									primaryLine: e.target.value as PrimaryLine,
+								})
+							}
+							className="select select-bordered w-full"
+						>
+							<option value="O">Offense</option>
+							<option value="D">Defense</option>
+							<option value="both">Both</option>
+						</select>
+					</label>
+					<label className="block">
+						<span className="label">
+							<span className="label-text">
+								Gender {isMixed ? "*" : "(Optional)"}
+							</span>
+						</span>
+						<select
+							value={form.gender}
+							onChange={(e) =>
+								setForm({ ...form, gender: e.target.value as Gender | "" })
+							}
+							className="select select-bordered w-full"
+						>
+							<option value="">Not set</option>
+							<option value="M">M</option>
+							<option value="F">F</option>
+						</select>
+					</label>
+				</div>
+				<div className="flex gap-3 justify-end">
+					{editingPlayerId && (
+						<button type="button" onClick={resetForm} className="btn btn-ghost">
+							Cancel
+						</button>
+					)}
+					<button type="submit" disabled={isSaving} className="btn btn-primary">
+						{isSaving ? (
+							<Loader2 className="animate-spin" size={16} />
+						) : editingPlayerId ? (
+							"Save Player"
+						) : (
+							"+ Add Player"
+						)}
+					</button>
+				</div>
+			</form>
+
+			{/* Player List */}
+			{players === undefined ? (
+				<div className="flex justify-center py-6">
+					<span className="loading loading-spinner loading-md text-primary"></span>
+				</div>
+			) : sortedPlayers.length === 0 ? (
+				<div className="text-center py-6 text-base-content/60">
+					No players yet. Add the first player above.
+				</div>
+			) : (
+				<div className="overflow-x-auto">
+					<table className="table">
+						<thead>
+							<tr>
+								<th>#</th>
+								<th>Name</th>
+								<th>Position</th>
+								<th>Line</th>
+								<th>Gender</th>
+								<th>Status</th>
+								<th></th>
+							</tr>
+						</thead>
+						<tbody>
+							{sortedPlayers.map((player) => (
+								<tr
+									key={player._id}
+									className={player.isActive ? "" : "opacity-50"}
+								>
+									<td className="font-mono font-bold">{player.jerseyNumber}</td>
+									<td>
+										{player.firstName} {player.lastName}
+									</td>
+									<td className="capitalize">{player.position}</td>
+									<td>
+										{player.primaryLine === "both" ? "O/D" : player.primaryLine}
+									</td>
+									<td>{player.gender ?? "—"}</td>
+									<td>
+										{player.isActive ? (
+											<span className="badge badge-success badge-sm">
+												Active
+											</span>
+										) : (
+											<span className="badge badge-ghost badge-sm">
+												Inactive
+											</span>
+										)}
+									</td>
+									<td>
+										<div className="flex gap-1 justify-end">
+											<button
+												type="button"
+												onClick={() => handleEdit(player)}
+												className="btn btn-ghost btn-xs"
+												title="Edit player"
+											>
+												<Pencil className="h-4 w-4" />
+											</button>
+											<button
+												type="button"
+												onClick={() => handleToggleActive(player)}
+												className="btn btn-ghost btn-xs"
+												title={player.isActive ? "Deactivate" : "Reactivate"}
+											>
+												{player.isActive ? (
+													<UserX className="h-4 w-4" />
+												) : (
+													<UserCheck className="h-4 w-4" />
+												)}
+											</button>
+											{deleteConfirmPlayerId === player._id ? (
+												<>
+													<button
+														type="button"
+														onClick={() => handleDelete(player._id)}
+														className="btn btn-error btn-xs"
+													>
+														Confirm
+													</button>
+													<button
+														type="button"
+														onClick={() => setDeleteConfirmPlayerId(null)}
+														className="btn btn-ghost btn-xs"
+													>
+														Cancel
+													</button>
+												</>
+											) : (
+												<button
+													type="button"
+													onClick={() => setDeleteConfirmPlayerId(player._id)}
+													className="btn btn-ghost btn-xs text-error"
+													title="Delete player"
+												>
+													<Trash2 className="h-4 w-4" />
+												</button>
+											)}
+										</div>
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+					<p className="text-xs text-base-content/60 mt-2">
+						Deactivate players who have recorded stats instead of deleting them.
+					</p>
+				</div>
+			)}
 		</div>
 	);
 }
@@ -7,6 +7,8 @@ import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
 import { useAction, useMutation, useQuery } from "convex/react";
 import { AlertCircle, CheckCircle2, Download, X } from "lucide-react";
 import { useState } from "react";
+import { PaymentAlert } from "@/components/autumn/PaymentAlert";
+import { getPlanLimitError } from "@/utils/feature-gates";
 import { api } from "../../convex/_generated/api";
 import type { ExtractedTeam } from "../../convex/firecrawl.schema";
 
@@ -32,6 +34,8 @@ function ImportTeamsPage() {
 
 	// UI state
 	const [error, setError] = useState("");
+	const [planLimit, setPlanLimit] =
+		useState<ReturnType<typeof getPlanLimitError>>(null);
 	const [isExtracting, setIsExtracting] = useState(false);
 	const [isImporting, setIsImporting] = useState(false);
 	const [importResults, setImportResults] = useState<{
@@ -91,6 +95,7 @@ function ImportTeamsPage() {
 		}
 
 		setError("");
+		setPlanLimit(null);
 		setIsImporting(true);
 
 		try {
@@ -112,7 +117,11 @@ function ImportTeamsPage() {
 				}, 2000);
 			}
 		} catch (err) {
-			setError(err instanceof Error ? err.message : "Failed to import teams");
+			const limit = getPlanLimitError(err);
+			setPlanLimit(limit);
+			if (!limit) {
+				setError(err instanceof Error ? err.message : "Failed to import teams");
+			}
 		} finally {
 			setIsImporting(false);
 		}
@@ -183,6 +192,13 @@ function ImportTeamsPage() {
 				</div>
 			</div>
 
+			{/* Plan Limit */}
+			{planLimit && (
+				<div className="mb-6">
+					<PaymentAlert planLimit={planLimit} />
+				</div>
+			)}
+
 			{/* Error Message */}
 			{error && (
 				<div className="alert alert-error mb-6">
@@ -524,8 +540,8 @@ function ImportTeamsPage() {
 								<AlertCircle size={16} />
 								<span>
 									Remove {selectedDuplicateCount} duplicate
-									{selectedDuplicateCount === 1 ? "" : "s"} from your selection or
-									enable "Skip duplicate teams" to continue.
+									{selectedDuplicateCount === 1 ? "" : "s"} from your selection
+									or enable "Skip duplicate teams" to continue.
 								</span>
 							</div>
 						)}
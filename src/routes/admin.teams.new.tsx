@@ -7,6 +7,8 @@ import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
 import { useMutation } from "convex/react";
 import { AlertCircle, Palette, Users } from "lucide-react";
 import { useState } from "react";
+import { PaymentAlert } from "@/components/autumn/PaymentAlert";
+import { getPlanLimitError } from "@/utils/feature-gates";
 import { api } from "../../convex/_generated/api";
 
 export const Route = createFileRoute("/admin/teams/new")({
@@ -39,11 +41,14 @@ function NewTeamPage() {
 
 	// UI state
 	const [error, setError] = useState("");
+	const [planLimit, setPlanLimit] =
+		useState<ReturnType<typeof getPlanLimitError>>(null);
 	const [isSubmitting, setIsSubmitting] = useState(false);
 
 	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault();
 		setError("");
+		setPlanLimit(null);
 
 		// Validation
 		if (!name.trim()) {
@@ -76,7 +81,11 @@ function NewTeamPage() {
 			// Success - navigate back to teams list
 			navigate({ to: "/admin/teams" });
 		} catch (err) {
-			setError(err instanceof Error ? err.message : "Failed to create team");
+			const limit = getPlanLimitError(err);
+			setPlanLimit(limit);
+			if (!limit) {
+				setError(err instanceof Error ? err.message : "Failed to create team");
+			}
 			setIsSubmitting(false);
 		}
 	};
@@ -110,6 +119,9 @@ function NewTeamPage() {
 						</div>
 					</div>
 
+					{/* Plan Limit */}
+					{planLimit && <PaymentAlert planLimit={planLimit} />}
+
 					{/* Error Message */}
 					{error && (
 						<div className="alert alert-error">
@@ -143,14 +143,13 @@ function AdminTeamsPage() {
 
 								{/* Actions */}
 								<div className="card-actions mt-4 pt-4 border-t border-base-300">
-									<button
+									<Link
+										to="/admin/teams/$teamId/edit"
+										params={{ teamId: team._id }}
 										className="btn btn-ghost btn-sm flex-1"
-										onClick={() =>
-											alert("View roster functionality coming soon!")
-										}
 									>
 										View Roster
-									</button>
+									</Link>
 									<Link
 										to={`/admin/teams/${team._id as Id<"teams">}/edit` as any}
 										className="btn btn-primary btn-sm flex-1"
@@ -0,0 +1,528 @@
+/**
+ * Admin Tournament Management Page
+ *
+ * Seed teams into pools, generate the pool play round robin and build the
+ * single-elimination bracket. Bracket winners advance automatically as games end.
+ */
+
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useMutation, useQuery } from "convex/react";
+import { ArrowLeft, Plus, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+export const Route = createFileRoute("/admin/tournaments/$tournamentId")({
+	component: ManageTournamentPage,
+});
+
+interface PoolDraft {
+	key: string;
+	name: string;
+	teamIds: Id<"teams">[];
+}
+
+interface SeedDraft {
+	label: string;
+	teamId: string;
+}
+
+const BRACKET_SIZES = [2, 4, 8, 16];
+
+function ManageTournamentPage() {
+	const { tournamentId } = Route.useParams();
+	const tournament = useQuery(api.tournaments.getTournament, {
+		tournamentId: tournamentId as Id<"tournaments">,
+	});
+	const teams = useQuery(api.games.listTeams, {}) ?? [];
+
+	const seedPools = useMutation(api.tournaments.seedPools);
+	const generatePoolPlay = useMutation(api.tournaments.generatePoolPlay);
+	const createBracket = useMutation(api.tournaments.createBracket);
+	const assignBracketTeam = useMutation(api.tournaments.assignBracketTeam);
+
+	// Pool editor state, loaded from the saved pools
+	const [pools, setPools] = useState<PoolDraft[]>([]);
+	const [poolsLoaded, setPoolsLoaded] = useState(false);
+
+	// Schedule state
+	const [scheduleDate, setScheduleDate] = useState("");
+	const [scheduleTime, setScheduleTime] = useState("09:00");
+	const [roundInterval, setRoundInterval] = useState(90);
+
+	// Bracket builder state
+	const [bracketSize, setBracketSize] = useState(8);
+	const [seeds, setSeeds] = useState<SeedDraft[]>([]);
+
+	const [error, setError] = useState("");
+	const [isSaving, setIsSaving] = useState(false);
+
+	useEffect(() => {
+		if (tournament && !poolsLoaded) {
+			setPools(
+				tournament.pools.map((pool) => ({
+					key: pool._id,
+					name: pool.name,
+					teamIds: pool.teamIds,
+				})),
+			);
+			setPoolsLoaded(true);
+		}
+	}, [tournament, poolsLoaded]);
+
+	useEffect(() => {
+		setSeeds((current) =>
+			Array.from(
+				{ length: bracketSize },
+				(_, index) =>
+					current[index] ?? { label: `Seed ${index + 1}`, teamId: "" },
+			),
+		);
+	}, [bracketSize]);
+
+	if (tournament === undefined) {
+		return (
+			<div className="flex items-center justify-center py-12">
+				<span className="loading loading-spinner loading-lg text-primary"></span>
+			</div>
+		);
+	}
+
+	if (tournament === null) {
+		return (
+			<div className="text-center py-12">
+				<h2 className="text-2xl font-bold text-base-content mb-4">
+					Tournament not found
+				</h2>
+				<Link to="/admin/tournaments" className="btn btn-primary">
+					Back to Tournaments
+				</Link>
+			</div>
+		);
+	}
+
+	const poolPlayScheduled = tournament.pools.some(
+		(pool) => pool.games.length > 0,
+	);
+	const teamName = (teamId: Id<"teams">) =>
+		teams.find((team) => team._id === teamId)?.name ?? "Unknown";
+
+	const run = async (action: () => Promise<unknown>) => {
+		setError("");
+		setIsSaving(true);
+		try {
+			await action();
+		} catch (err) {
+			setError(err instanceof Error ? err.message : "Something went wrong");
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const togglePoolTeam = (poolKey: string, teamId: Id<"teams">) => {
+		setPools((current) =>
+			current.map((pool) =>
+				pool.key !== poolKey
+					? pool
+					: {
+							...pool,
+							teamIds: pool.teamIds.includes(teamId)
+								? pool.teamIds.filter((id) => id !== teamId)
+								: [...pool.teamIds, teamId],
+						},
+			),
+		);
+	};
+
+	const handleSavePools = () =>
+		run(() =>
+			seedPools({
+				tournamentId: tournament._id,
+				pools: pools.map(({ name, teamIds }) => ({ name, teamIds })),
+			}),
+		);
+
+	const handleGeneratePoolPlay = () => {
+		if (!scheduleDate) {
+			setError("Please select a date for pool play");
+			return;
+		}
+		return run(() =>
+			generatePoolPlay({
+				tournamentId: tournament._id,
+				startTime: new Date(`${scheduleDate}T${scheduleTime}`).getTime(),
+				roundIntervalMinutes: roundInterval,
+			}),
+		);
+	};
+
+	const handleCreateBracket = () => {
+		if (!scheduleDate) {
+			setError("Please select a date for bracket play");
+			return;
+		}
+		return run(() =>
+			createBracket({
+				tournamentId: tournament._id,
+				seeds: seeds.map((seed) => ({
+					label: seed.label,
+					teamId: (seed.teamId || undefined) as Id<"teams"> | undefined,
+				})),
+				startTime: new Date(`${scheduleDate}T${scheduleTime}`).getTime(),
+				roundIntervalMinutes: roundInterval,
+			}),
+		);
+	};
+
+	return (
+		<div className="space-y-6">
+			{/* Page Header */}
+			<div className="flex justify-between items-center">
+				<div>
+					<Link to="/admin/tournaments" className="btn btn-ghost btn-sm mb-2">
+						<ArrowLeft className="w-4 h-4" />
+						Tournaments
+					</Link>
+					<h2 className="text-2xl font-bold text-base-content">
+						{tournament.name}
+					</h2>
+					<p className="text-base-content/70 mt-1">
+						{new Date(tournament.startDate).toLocaleDateString()} •{" "}
+						{tournament.venue || "Venue TBA"}
+					</p>
+				</div>
+				<Link
+					to="/tournaments/$tournamentId"
+					params={{ tournamentId: tournament._id }}
+					className="btn btn-outline"
+				>
+					View Public Page
+				</Link>
+			</div>
+
+			{error && (
+				<div className="alert alert-error">
+					<span>{error}</span>
+				</div>
+			)}
+
+			{/* Scheduling */}
+			<div className="card bg-base-200 shadow-lg p-6">
+				<h3 className="card-title text-base-content mb-4">Schedule</h3>
+				<div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+					<label className="form-control">
+						<span className="label">
+							<span className="label-text">Date</span>
+						</span>
+						<input
+							type="date"
+							value={scheduleDate}
+							onChange={(e) => setScheduleDate(e.target.value)}
+							className="input input-bordered"
+						/>
+					</label>
+					<label className="form-control">
+						<span className="label">
+							<span className="label-text">First Round</span>
+						</span>
+						<input
+							type="time"
+							value={scheduleTime}
+							onChange={(e) => setScheduleTime(e.target.value)}
+							className="input input-bordered"
+						/>
+					</label>
+					<label className="form-control">
+						<span className="label">
+							<span className="label-text">Minutes Between Rounds</span>
+						</span>
+						<input
+							type="number"
+							min={1}
+							value={roundInterval}
+							onChange={(e) => setRoundInterval(Number(e.target.value))}
+							className="input input-bordered"
+						/>
+					</label>
+				</div>
+			</div>
+
+			{/* Pools */}
+			<div className="card bg-base-200 shadow-lg p-6">
+				<div className="flex justify-between items-center mb-4">
+					<h3 className="card-title text-base-content">Pools</h3>
+					{!poolPlayScheduled && (
+						<button
+							type="button"
+							onClick={() =>
+								setPools((current) => [
+									...current,
+									{
+										key: `new-${current.length}-${Date.now()}`,
+										name: `Pool ${String.fromCharCode(65 + current.length)}`,
+										teamIds: [],
+									},
+								])
+							}
+							className="btn btn-ghost btn-sm"
+						>
+							<Plus className="w-4 h-4" />
+							Add Pool
+						</button>
+					)}
+				</div>
+
+				{poolPlayScheduled ? (
+					<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+						{tournament.pools.map((pool) => (
+							<div key={pool._id} className="bg-base-100 rounded-lg p-4">
+								<div className="font-semibold mb-2">{pool.name}</div>
+								<ol className="list-decimal list-inside text-sm space-y-1">
+									{pool.teamIds.map((teamId) => (
+										<li key={teamId}>{teamName(teamId)}</li>
+									))}
+								</ol>
+								<div className="text-xs text-base-content/60 mt-2">
+									{pool.games.length} games scheduled
+								</div>
+							</div>
+						))}
+					</div>
+				) : (
+					<>
+						{pools.length === 0 && (
+							<div className="text-center py-4 text-base-content/60">
+								Add a pool to start seeding teams
+							</div>
+						)}
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+							{pools.map((pool) => (
+								<div key={pool.key} className="bg-base-100 rounded-lg p-4">
+									<div className="flex gap-2 mb-3">
+										<input
+											type="text"
+											value={pool.name}
+											onChange={(e) =>
+												setPools((current) =>
+													current.map((p) =>
+														p.key === pool.key
+															? { ...p, name: e.target.value }
+															: p,
+													),
+												)
+											}
+											className="input input-bordered input-sm flex-1"
+											aria-label="Pool name"
+										/>
+										<button
+											type="button"
+											onClick={() =>
+												setPools((current) =>
+													current.filter((p) => p.key !== pool.key),
+												)
+											}
+											className="btn btn-ghost btn-sm"
+											title="Remove pool"
+										>
+											<Trash2 className="w-4 h-4" />
+										</button>
+									</div>
+									<div className="space-y-1 max-h-64 overflow-auto">
+										{teams.map((team) => {
+											const inOtherPool = pools.some(
+												(p) =>
+													p.key !== pool.key && p.teamIds.includes(team._id),
+											);
+											const seed = pool.teamIds.indexOf(team._id);
+											return (
+												<label
+													key={team._id}
+													className={`flex items-center gap-2 text-sm ${
+														inOtherPool ? "opacity-40" : "cursor-pointer"
+													}`}
+												>
+													<input
+														type="checkbox"
+														checked={seed !== -1}
+														disabled={inOtherPool}
+														onChange={() => togglePoolTeam(pool.key, team._id)}
+														className="checkbox checkbox-sm"
+													/>
+													<span className="flex-1">{team.name}</span>
+													{seed !== -1 && (
+														<span className="badge badge-sm">#{seed + 1}</span>
+													)}
+												</label>
+											);
+										})}
+									</div>
+								</div>
+							))}
+						</div>
+						<div className="flex justify-end gap-2 mt-4">
+							<button
+								type="button"
+								onClick={handleSavePools}
+								disabled={isSaving || pools.length === 0}
+								className="btn btn-outline"
+							>
+								Save Pools
+							</button>
+							<button
+								type="button"
+								onClick={handleGeneratePoolPlay}
+								disabled={isSaving || tournament.pools.length === 0}
+								className="btn btn-primary"
+							>
+								Generate Round Robin
+							</button>
+						</div>
+					</>
+				)}
+			</div>
+
+			{/* Bracket */}
+			<div className="card bg-base-200 shadow-lg p-6">
+				<h3 className="card-title text-base-content mb-4">Bracket</h3>
+
+				{tournament.bracket.length > 0 ? (
+					<div className="space-y-2">
+						{tournament.bracket
+							.filter((slot) => !slot.gameId)
+							.map((slot) => (
+								<div
+									key={slot._id}
+									className="flex flex-wrap items-center gap-3 bg-base-100 rounded-lg p-3 text-sm"
+								>
+									<span className="font-semibold w-24">
+										Round {slot.round}, #{slot.position + 1}
+									</span>
+									{(["home", "away"] as const).map((side) => {
+										const team =
+											side === "home" ? slot.homeTeam : slot.awayTeam;
+										const label =
+											side === "home" ? slot.homeSeedLabel : slot.awaySeedLabel;
+										if (team) {
+											return (
+												<span key={side} className="badge badge-outline">
+													{team.name}
+												</span>
+											);
+										}
+										// Later rounds fill in automatically from winners
+										if (slot.round > 1) {
+											return (
+												<span key={side} className="text-base-content/60">
+													Winner TBD
+												</span>
+											);
+										}
+										return (
+											<select
+												key={side}
+												value=""
+												onChange={(e) =>
+													run(() =>
+														assignBracketTeam({
+															slotId: slot._id,
+															side,
+															teamId: e.target.value as Id<"teams">,
+														}),
+													)
+												}
+												className="select select-bordered select-sm"
+												aria-label={`Team for ${label ?? side}`}
+											>
+												<option value="">{label ?? "TBD"}: pick team</option>
+												{teams.map((t) => (
+													<option key={t._id} value={t._id}>
+														{t.name}
+													</option>
+												))}
+											</select>
+										);
+									})}
+								</div>
+							))}
+						{tournament.bracket.every((slot) => slot.gameId) && (
+							<div className="text-base-content/60">
+								Every matchup has a game scheduled.
+							</div>
+						)}
+					</div>
+				) : (
+					<>
+						<label className="form-control w-40 mb-4">
+							<span className="label">
+								<span className="label-text">Bracket Size</span>
+							</span>
+							<select
+								value={bracketSize}
+								onChange={(e) => setBracketSize(Number(e.target.value))}
+								className="select select-bordered"
+							>
+								{BRACKET_SIZES.map((size) => (
+									<option key={size} value={size}>
+										{size} teams
+									</option>
+								))}
+							</select>
+						</label>
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+							{seeds.map((seed, index) => (
+								<div
+									key={`seed-${index + 1}`}
+									className="flex items-center gap-2"
+								>
+									<span className="w-8 text-sm font-mono">{index + 1}.</span>
+									<input
+										type="text"
+										value={seed.label}
+										onChange={(e) =>
+											setSeeds((current) =>
+												current.map((s, i) =>
+													i === index ? { ...s, label: e.target.value } : s,
+												),
+											)
+										}
+										className="input input-bordered input-sm w-28"
+										aria-label={`Seed ${index + 1} label`}
+									/>
+									<select
+										value={seed.teamId}
+										onChange={(e) =>
+											setSeeds((current) =>
+												current.map((s, i) =>
+													i === index ? { ...s, teamId: e.target.value } : s,
+												),
+											)
+										}
+										className="select select-bordered select-sm flex-1"
+										aria-label={`Seed ${index + 1} team`}
+									>
+										<option value="">Decided later</option>
+										{teams.map((team) => (
+											<option key={team._id} value={team._id}>
+												{team.name}
+											</option>
+										))}
+									</select>
+								</div>
+							))}
+						</div>
+						<div className="flex justify-end mt-4">
+							<button
+								type="button"
+								onClick={handleCreateBracket}
+								disabled={isSaving}
+								className="btn btn-primary"
+							>
+								Create Bracket
+							</button>
+						</div>
+					</>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,353 @@
+/**
+ * Admin Tournaments Page
+ *
+ * Create tournaments and open one to seed pools, schedule pool play and build the bracket.
+ * Tournament management is a Premium feature.
+ */
+
+import {
+	createFileRoute,
+	Link,
+	Outlet,
+	useMatches,
+} from "@tanstack/react-router";
+import { useMutation, useQuery } from "convex/react";
+import { Trophy } from "lucide-react";
+import { useState } from "react";
+import { UpgradeButton } from "@/components/autumn/UpgradeButton";
+import { useFeatureAccess } from "@/utils/feature-gates";
+import { api } from "../../convex/_generated/api";
+
+export const Route = createFileRoute("/admin/tournaments")({
+	component: AdminTournamentsPage,
+});
+
+function AdminTournamentsPage() {
+	const matches = useMatches();
+	const isOnChildRoute =
+		matches.length > 0 &&
+		matches[matches.length - 1].id !== "/admin/tournaments";
+
+	const { canManageTournaments } = useFeatureAccess();
+	const tournaments = useQuery(api.tournaments.listTournaments, {});
+	const createTournament = useMutation(api.tournaments.createTournament);
+
+	// Create form state
+	const [showCreateForm, setShowCreateForm] = useState(false);
+	const [name, setName] = useState("");
+	const [venue, setVenue] = useState("");
+	const [date, setDate] = useState("");
+	const [stallCount, setStallCount] = useState<6 | 7 | 10>(10);
+	const [targetScore, setTargetScore] = useState(15);
+	const [timeoutsPerHalf, setTimeoutsPerHalf] = useState(2);
+	const [timeoutDuration, setTimeoutDuration] = useState(70);
+	const [useSoftCap, setUseSoftCap] = useState(false);
+	const [softCapTime, setSoftCapTime] = useState(75);
+	const [hardCapTime, setHardCapTime] = useState(90);
+	const [genderRatioRequired, setGenderRatioRequired] = useState(false);
+	const [error, setError] = useState("");
+	const [isSubmitting, setIsSubmitting] = useState(false);
+
+	const handleCreate = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setError("");
+
+		if (!name.trim()) {
+			setError("Please enter a tournament name");
+			return;
+		}
+		if (!date) {
+			setError("Please select a start date");
+			return;
+		}
+
+		setIsSubmitting(true);
+		try {
+			await createTournament({
+				name,
+				venue,
+				startDate: new Date(`${date}T00:00`).getTime(),
+				ruleConfig: {
+					stallCount,
+					targetScore,
+					timeoutsPerHalf,
+					timeoutDuration,
+					...(useSoftCap && {
+						capRules: { softCapTime, hardCapTime },
+					}),
+				},
+				genderRatioRequired,
+			});
+			setShowCreateForm(false);
+			setName("");
+			setVenue("");
+			setDate("");
+		} catch (err) {
+			setError(
+				err instanceof Error ? err.message : "Failed to create tournament",
+			);
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	// If on a child route (a single tournament), only render the Outlet
+	if (isOnChildRoute) {
+		return <Outlet />;
+	}
+
+	if (!canManageTournaments) {
+		return (
+			<div className="card bg-base-200 shadow-lg">
+				<div className="card-body text-center p-12 items-center">
+					<Trophy className="w-12 h-12 text-primary mb-2" />
+					<h2 className="text-2xl font-bold text-base-content">
+						Tournaments are a Premium feature
+					</h2>
+					<p className="text-base-content/70 mb-4">
+						Run pool play and brackets with automatic scheduling and
+						advancement.
+					</p>
+					<UpgradeButton productId="premium" />
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-6">
+			{/* Page Header */}
+			<div className="flex justify-between items-center">
+				<div>
+					<h2 className="text-2xl font-bold text-base-content">Tournaments</h2>
+					<p className="text-base-content/70 mt-1">
+						Pools, schedules and brackets
+					</p>
+				</div>
+				<button
+					type="button"
+					onClick={() => setShowCreateForm(!showCreateForm)}
+					className="btn btn-primary"
+				>
+					{showCreateForm ? "Cancel" : "+ Create Tournament"}
+				</button>
+			</div>
+
+			{/* Create Form */}
+			{showCreateForm && (
+				<form
+					onSubmit={handleCreate}
+					className="card bg-base-200 shadow-lg p-6 space-y-4"
+				>
+					{error && (
+						<div className="alert alert-error">
+							<span>{error}</span>
+						</div>
+					)}
+
+					<div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+						<label className="form-control">
+							<span className="label">
+								<span className="label-text">Name</span>
+							</span>
+							<input
+								type="text"
+								value={name}
+								onChange={(e) => setName(e.target.value)}
+								placeholder="Spring Classic"
+								className="input input-bordered"
+							/>
+						</label>
+						<label className="form-control">
+							<span className="label">
+								<span className="label-text">Venue</span>
+							</span>
+							<input
+								type="text"
+								value={venue}
+								onChange={(e) => setVenue(e.target.value)}
+								placeholder="Central Park Fields"
+								className="input input-bordered"
+							/>
+						</label>
+						<label className="form-control">
+							<span className="label">
+								<span className="label-text">Start Date</span>
+							</span>
+							<input
+								type="date"
+								value={date}
+								onChange={(e) => setDate(e.target.value)}
+								className="input input-bordered"
+							/>
+						</label>
+					</div>
+
+					<div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+						<label className="form-control">
+							<span className="label">
+								<span className="label-text">Game To</span>
+							</span>
+							<input
+								type="number"
+								min={1}
+								value={targetScore}
+								onChange={(e) => setTargetScore(Number(e.target.value))}
+								className="input input-bordered"
+							/>
+						</label>
+						<label className="form-control">
+							<span className="label">
+								<span className="label-text">Stall Count</span>
+							</span>
+							<select
+								value={stallCount}
+								onChange={(e) =>
+									setStallCount(Number(e.target.value) as 6 | 7 | 10)
+								}
+								className="select select-bordered"
+							>
+								<option value={6}>6</option>
+								<option value={7}>7</option>
+								<option value={10}>10</option>
+							</select>
+						</label>
+						<label className="form-control">
+							<span className="label">
+								<span className="label-text">Timeouts per Half</span>
+							</span>
+							<input
+								type="number"
+								min={0}
+								value={timeoutsPerHalf}
+								onChange={(e) => setTimeoutsPerHalf(Number(e.target.value))}
+								className="input input-bordered"
+							/>
+						</label>
+						<label className="form-control">
+							<span className="label">
+								<span className="label-text">Timeout Length (s)</span>
+							</span>
+							<input
+								type="number"
+								min={0}
+								value={timeoutDuration}
+								onChange={(e) => setTimeoutDuration(Number(e.target.value))}
+								className="input input-bordered"
+							/>
+						</label>
+					</div>
+
+					<div className="flex flex-wrap gap-6">
+						<label className="label cursor-pointer gap-2">
+							<input
+								type="checkbox"
+								checked={useSoftCap}
+								onChange={(e) => setUseSoftCap(e.target.checked)}
+								className="checkbox checkbox-primary"
+							/>
+							<span className="label-text">Use time caps</span>
+						</label>
+						<label className="label cursor-pointer gap-2">
+							<input
+								type="checkbox"
+								checked={genderRatioRequired}
+								onChange={(e) => setGenderRatioRequired(e.target.checked)}
+								className="checkbox checkbox-primary"
+							/>
+							<span className="label-text">Mixed division</span>
+						</label>
+					</div>
+
+					{useSoftCap && (
+						<div className="grid grid-cols-2 gap-4">
+							<label className="form-control">
+								<span className="label">
+									<span className="label-text">Soft Cap (minutes)</span>
+								</span>
+								<input
+									type="number"
+									min={1}
+									value={softCapTime}
+									onChange={(e) => setSoftCapTime(Number(e.target.value))}
+									className="input input-bordered"
+								/>
+							</label>
+							<label className="form-control">
+								<span className="label">
+									<span className="label-text">Hard Cap (minutes)</span>
+								</span>
+								<input
+									type="number"
+									min={1}
+									value={hardCapTime}
+									onChange={(e) => setHardCapTime(Number(e.target.value))}
+									className="input input-bordered"
+								/>
+							</label>
+						</div>
+					)}
+
+					<div className="flex justify-end">
+						<button
+							type="submit"
+							disabled={isSubmitting}
+							className="btn btn-primary"
+						>
+							{isSubmitting ? (
+								<span className="loading loading-spinner loading-sm"></span>
+							) : (
+								"Create Tournament"
+							)}
+						</button>
+					</div>
+				</form>
+			)}
+
+			{/* Tournament List */}
+			{tournaments === undefined ? (
+				<div className="text-center py-12 text-base-content/60">
+					<span className="loading loading-spinner loading-lg text-primary"></span>
+				</div>
+			) : tournaments.length > 0 ? (
+				<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+					{tournaments.map((tournament) => (
+						<div key={tournament._id} className="card bg-base-200 shadow-lg">
+							<div className="card-body p-6">
+								<h3 className="card-title text-base-content">
+									{tournament.name}
+								</h3>
+								<p className="text-sm text-base-content/70">
+									{new Date(tournament.startDate).toLocaleDateString()} •{" "}
+									{tournament.venue || "Venue TBA"}
+								</p>
+								<div className="card-actions mt-4 pt-4 border-t border-base-300">
+									<Link
+										to="/admin/tournaments/$tournamentId"
+										params={{ tournamentId: tournament._id }}
+										className="btn btn-primary btn-sm flex-1"
+									>
+										Manage
+									</Link>
+									<Link
+										to="/tournaments/$tournamentId"
+										params={{ tournamentId: tournament._id }}
+										className="btn btn-ghost btn-sm flex-1"
+									>
+										Public Page
+									</Link>
+								</div>
+							</div>
+						</div>
+					))}
+				</div>
+			) : (
+				<div className="card bg-base-200 shadow-lg">
+					<div className="card-body text-center p-12 text-base-content/60">
+						No tournaments yet
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
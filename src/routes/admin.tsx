@@ -92,6 +92,42 @@ function AdminLayout() {
 								>
 									Teams
 								</Link>
+								<Link
+									to="/admin/tournaments"
+									className="btn btn-ghost btn-sm"
+									activeProps={{
+										className: "btn-active",
+									}}
+								>
+									Tournaments
+								</Link>
+								<Link
+									to="/admin/leagues"
+									className="btn btn-ghost btn-sm"
+									activeProps={{
+										className: "btn-active",
+									}}
+								>
+									Leagues
+								</Link>
+								<Link
+									to="/admin/recordings"
+									className="btn btn-ghost btn-sm"
+									activeProps={{
+										className: "btn-active",
+									}}
+								>
+									Recordings
+								</Link>
+								<Link
+									to="/admin/users"
+									className="btn btn-ghost btn-sm"
+									activeProps={{
+										className: "btn-active",
+									}}
+								>
+									Users
+								</Link>
 							</nav>
 						</div>
 
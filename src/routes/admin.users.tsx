@@ -0,0 +1,383 @@
+/**
+ * Admin Users Page
+ *
+ * Search users, change their role and permissions, invite people by email with a
+ * pre-provisioned role, and review the audit log of permission changes. Admins only.
+ */
+
+import { createFileRoute } from "@tanstack/react-router";
+import { useMutation, useQuery } from "convex/react";
+import { Mail, Search, X } from "lucide-react";
+import { useState } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+
+export const Route = createFileRoute("/admin/users")({
+	component: AdminUsersPage,
+});
+
+type UserRole = Doc<"users">["role"];
+
+type Permissions = Pick<
+	Doc<"users">,
+	"role" | "canManageGames" | "canManageTeams"
+>;
+
+const ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+	{ value: "admin", label: "Admin" },
+	{ value: "scorekeeper", label: "Scorekeeper" },
+	{ value: "viewer", label: "Viewer" },
+];
+
+const AUDIT_ACTION_LABELS: Record<Doc<"permissionAudit">["action"], string> = {
+	user_created: "Account created",
+	permissions_changed: "Permissions changed",
+	invited: "Invited",
+	invitation_revoked: "Invitation revoked",
+	invitation_accepted: "Invitation accepted",
+};
+
+// Role changes start from the role's default permissions (see defaultPermissions in convex/users.ts)
+function defaultPermissions(role: UserRole): Permissions {
+	return {
+		role,
+		canManageGames: role === "admin",
+		canManageTeams: role === "admin",
+	};
+}
+
+function AdminUsersPage() {
+	const [search, setSearch] = useState("");
+	const users = useQuery(api.users.listUsers, { search });
+
+	if (users === null) {
+		return (
+			<div className="alert alert-warning">
+				<span>Only admins can manage users.</span>
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-6">
+			{/* Page Header */}
+			<div>
+				<h2 className="text-2xl font-bold text-base-content">Users</h2>
+				<p className="text-base-content/70 mt-1">
+					Roles, permissions and invitations
+				</p>
+			</div>
+
+			{/* Users List */}
+			<div className="card bg-base-200 shadow-lg">
+				<div className="card-body p-4 space-y-4">
+					<label className="input input-bordered flex items-center gap-2 max-w-md">
+						<Search className="h-4 w-4 text-base-content/60" />
+						<input
+							type="search"
+							value={search}
+							onChange={(e) => setSearch(e.target.value)}
+							placeholder="Search by name or email"
+							className="grow"
+						/>
+					</label>
+
+					{users === undefined ? (
+						<div className="py-8 text-center">
+							<span className="loading loading-spinner loading-lg text-primary"></span>
+						</div>
+					) : users.length > 0 ? (
+						<div className="overflow-x-auto">
+							<table className="table">
+								<thead>
+									<tr>
+										<th>User</th>
+										<th>Role</th>
+										<th>Manage games</th>
+										<th>Manage teams</th>
+									</tr>
+								</thead>
+								<tbody>
+									{users.map((user) => (
+										<UserRow key={user._id} user={user} />
+									))}
+								</tbody>
+							</table>
+						</div>
+					) : (
+						<p className="py-4 text-center text-base-content/60">
+							No users match "{search}".
+						</p>
+					)}
+				</div>
+			</div>
+
+			<InvitationsCard />
+			<AuditLogCard />
+		</div>
+	);
+}
+
+// Helper Components
+
+function UserRow({ user }: { user: Doc<"users"> }) {
+	const updateUserPermissions = useMutation(api.users.updateUserPermissions);
+	const [isSaving, setIsSaving] = useState(false);
+
+	const save = async (permissions: Permissions) => {
+		setIsSaving(true);
+		try {
+			await updateUserPermissions({ userId: user._id, ...permissions });
+		} catch (error) {
+			console.error("Failed to update permissions:", error);
+			alert(
+				error instanceof Error ? error.message : "Failed to update permissions",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const current: Permissions = {
+		role: user.role,
+		canManageGames: user.canManageGames,
+		canManageTeams: user.canManageTeams,
+	};
+
+	return (
+		<tr className="hover">
+			<td>
+				<div className="text-sm font-medium text-base-content">{user.name}</div>
+				<div className="text-sm text-base-content/60">{user.email}</div>
+			</td>
+			<td>
+				<select
+					value={user.role}
+					onChange={(e) => save(defaultPermissions(e.target.value as UserRole))}
+					disabled={isSaving}
+					className="select select-bordered select-sm"
+					aria-label={`Role for ${user.name}`}
+				>
+					{ROLE_OPTIONS.map((option) => (
+						<option key={option.value} value={option.value}>
+							{option.label}
+						</option>
+					))}
+				</select>
+			</td>
+			<td>
+				<input
+					type="checkbox"
+					checked={user.canManageGames}
+					onChange={(e) =>
+						save({ ...current, canManageGames: e.target.checked })
+					}
+					disabled={isSaving}
+					className="checkbox checkbox-sm checkbox-primary"
+					aria-label={`${user.name} can manage games`}
+				/>
+			</td>
+			<td>
+				<input
+					type="checkbox"
+					checked={user.canManageTeams}
+					onChange={(e) =>
+						save({ ...current, canManageTeams: e.target.checked })
+					}
+					disabled={isSaving}
+					className="checkbox checkbox-sm checkbox-primary"
+					aria-label={`${user.name} can manage teams`}
+				/>
+			</td>
+		</tr>
+	);
+}
+
+function InvitationsCard() {
+	const invitations = useQuery(api.users.listInvitations, {});
+	const inviteUser = useMutation(api.users.inviteUser);
+	const revokeInvitation = useMutation(api.users.revokeInvitation);
+	const [email, setEmail] = useState("");
+	const [role, setRole] = useState<UserRole>("scorekeeper");
+	const [isSaving, setIsSaving] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const handleInvite = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setError(null);
+		setIsSaving(true);
+		try {
+			await inviteUser({ email, role });
+			setEmail("");
+		} catch (err) {
+			setError(
+				err instanceof Error ? err.message : "Failed to send invitation",
+			);
+		} finally {
+			setIsSaving(false);
+		}
+	};
+
+	const handleRevoke = async (invitationId: Doc<"userInvitations">["_id"]) => {
+		try {
+			await revokeInvitation({ invitationId });
+		} catch (err) {
+			setError(
+				err instanceof Error ? err.message : "Failed to revoke invitation",
+			);
+		}
+	};
+
+	return (
+		<div className="card bg-base-200 shadow-lg">
+			<div className="card-body p-4 space-y-4">
+				<div>
+					<h3 className="card-title text-base-content">Invitations</h3>
+					<p className="text-sm text-base-content/60">
+						Invited people get their role the first time they sign in with that
+						email.
+					</p>
+				</div>
+
+				<form
+					onSubmit={handleInvite}
+					className="flex flex-wrap items-center gap-2"
+				>
+					<input
+						type="email"
+						value={email}
+						onChange={(e) => setEmail(e.target.value)}
+						placeholder="person@example.com"
+						className="input input-bordered input-sm w-64"
+						aria-label="Invitation email"
+						required
+					/>
+					<select
+						value={role}
+						onChange={(e) => setRole(e.target.value as UserRole)}
+						className="select select-bordered select-sm"
+						aria-label="Invitation role"
+					>
+						{ROLE_OPTIONS.map((option) => (
+							<option key={option.value} value={option.value}>
+								{option.label}
+							</option>
+						))}
+					</select>
+					<button
+						type="submit"
+						disabled={isSaving || !email.trim()}
+						className="btn btn-primary btn-sm"
+					>
+						{isSaving ? (
+							<span className="loading loading-spinner loading-xs"></span>
+						) : (
+							<>
+								<Mail className="h-4 w-4" />
+								Invite
+							</>
+						)}
+					</button>
+				</form>
+
+				{error && (
+					<div className="alert alert-error py-2">
+						<span>{error}</span>
+					</div>
+				)}
+
+				{invitations && invitations.length > 0 && (
+					<div className="divide-y divide-base-300">
+						{invitations.map((invitation) => (
+							<div
+								key={invitation._id}
+								className="flex flex-wrap items-center gap-3 py-2"
+							>
+								<span className="font-medium text-base-content flex-1 min-w-0 truncate">
+									{invitation.email}
+								</span>
+								<span className="badge badge-outline capitalize">
+									{invitation.role}
+								</span>
+								<span className="text-sm text-base-content/60">
+									by {invitation.invitedByName}
+								</span>
+								<button
+									type="button"
+									onClick={() => handleRevoke(invitation._id)}
+									className="btn btn-ghost btn-xs"
+								>
+									<X className="h-3 w-3" />
+									Revoke
+								</button>
+							</div>
+						))}
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
+
+function AuditLogCard() {
+	const entries = useQuery(api.users.listPermissionAudit, {});
+
+	return (
+		<div className="card bg-base-200 shadow-lg">
+			<div className="card-body p-4">
+				<h3 className="card-title text-base-content">Permission changes</h3>
+				{entries === undefined ? (
+					<span className="loading loading-spinner loading-md text-primary"></span>
+				) : entries && entries.length > 0 ? (
+					<div className="overflow-x-auto">
+						<table className="table table-sm">
+							<thead>
+								<tr>
+									<th>When</th>
+									<th>Change</th>
+									<th>Who</th>
+									<th>Permissions</th>
+									<th>By</th>
+								</tr>
+							</thead>
+							<tbody>
+								{entries.map((entry) => (
+									<tr key={entry._id}>
+										<td className="whitespace-nowrap text-base-content/70">
+											{new Date(entry.timestamp).toLocaleString()}
+										</td>
+										<td>{AUDIT_ACTION_LABELS[entry.action]}</td>
+										<td>{entry.email}</td>
+										<td className="text-sm">
+											{entry.before && (
+												<span className="text-base-content/60">
+													{formatPermissions(entry.before)} →{" "}
+												</span>
+											)}
+											{entry.after ? formatPermissions(entry.after) : "—"}
+										</td>
+										<td>{entry.changedByName}</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				) : (
+					<p className="text-base-content/60 py-4">No changes recorded yet.</p>
+				)}
+			</div>
+		</div>
+	);
+}
+
+// Helper Functions
+
+function formatPermissions(permissions: Permissions): string {
+	const flags = [
+		permissions.canManageGames && "games",
+		permissions.canManageTeams && "teams",
+	].filter(Boolean);
+	return flags.length > 0
+		? `${permissions.role} (manages ${flags.join(", ")})`
+		: permissions.role;
+}
@@ -1,3 +1,4 @@
+import { clerkClient } from "@clerk/tanstack-react-start/server";
 import { createFileRoute } from "@tanstack/react-router";
 import { autumnHandler } from "autumn-js/tanstack";
 
@@ -5,30 +6,23 @@ import { autumnHandler } from "autumn-js/tanstack";
 const handlers = autumnHandler({
 	secretKey: process.env.AUTUMN_SECRET_KEY,
 	identify: async ({ request }) => {
-		// TEMPORARY: For testing, we'll create a test user
-		// In production, you MUST verify the Clerk session token here
+		// Autumn customers are keyed by Clerk user id so Convex can look up the
+		// signed-in user's plan (convex/billing.ts syncPlan)
+		const clerk = clerkClient();
+		const requestState = await clerk.authenticateRequest(request);
+		const { userId } = requestState.toAuth() ?? {};
 
-		console.log("Autumn API called:", request.url);
-		console.log(
-			"Request headers:",
-			Object.fromEntries(request.headers.entries()),
-		);
+		if (!userId) {
+			return null;
+		}
 
-		// Try to get Clerk session from cookie
-		const cookies = request.headers.get("cookie") || "";
-		console.log("Cookies:", cookies);
-
-		// For now, return a test user to get the flow working
-		// TODO: Replace with proper Clerk authentication
-		const testUserId = `test_user_${Date.now()}`;
-
-		console.log("Using test user ID:", testUserId);
+		const user = await clerk.users.getUser(userId);
 
 		return {
-			customerId: testUserId,
+			customerId: userId,
 			customerData: {
-				name: "Test User",
-				email: "test@example.com",
+				name: user.fullName ?? undefined,
+				email: user.primaryEmailAddress?.emailAddress,
 			},
 		};
 	},
@@ -0,0 +1,150 @@
+/**
+ * Highlight Clip Page
+ *
+ * Shareable page for a highlight cut from a game's replay. The clip plays its range of
+ * the recording and stops at the end; managers of the game can delete it.
+ */
+
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
+import { useMutation, useQuery } from "convex/react";
+import { ArrowLeft, Check, Share2, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+import { formatDuration, RecordingVideo } from "../components/ReplayPlayer";
+
+export const Route = createFileRoute("/clips/$clipId")({
+	component: ClipPage,
+});
+
+function ClipPage() {
+	const { clipId } = Route.useParams();
+	const clip = useQuery(api.clips.getClip, { clipId: clipId as Id<"clips"> });
+	const deleteClip = useMutation(api.clips.deleteClip);
+	const navigate = useNavigate();
+	const [copied, setCopied] = useState(false);
+	const [isDeleting, setIsDeleting] = useState(false);
+
+	const handleShare = async () => {
+		try {
+			await navigator.clipboard.writeText(window.location.href);
+			setCopied(true);
+			setTimeout(() => setCopied(false), 2000);
+		} catch (error) {
+			console.error("Failed to copy URL:", error);
+		}
+	};
+
+	const handleDelete = async () => {
+		if (!clip || !confirm(`Delete the clip "${clip.title}"?`)) return;
+
+		setIsDeleting(true);
+		try {
+			await deleteClip({ clipId: clip._id });
+			navigate({ to: "/games/$gameId", params: { gameId: clip.gameId } });
+		} catch (error) {
+			console.error("Failed to delete clip:", error);
+			alert(error instanceof Error ? error.message : "Failed to delete clip");
+			setIsDeleting(false);
+		}
+	};
+
+	if (clip === undefined) {
+		return (
+			<div className="flex items-center justify-center min-h-screen">
+				<span className="loading loading-spinner loading-lg text-primary"></span>
+			</div>
+		);
+	}
+
+	if (clip === null) {
+		return (
+			<div className="min-h-screen bg-base-100 flex items-center justify-center p-6">
+				<div className="text-center">
+					<div className="text-6xl mb-4">🎬</div>
+					<h1 className="text-2xl font-bold text-base-content/70 mb-2">
+						Clip not found
+					</h1>
+					<p className="text-base-content/50 mb-6">
+						This highlight was deleted or its replay is no longer available.
+					</p>
+					<Link to="/games" className="btn btn-primary">
+						Browse games
+					</Link>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="min-h-screen bg-base-100">
+			{/* Header */}
+			<header className="navbar bg-base-200 border-b border-base-300 px-4 py-3">
+				<div className="max-w-4xl mx-auto flex items-center justify-between w-full gap-4">
+					<div className="min-w-0">
+						<h1 className="text-xl font-bold text-base-content truncate">
+							{clip.title}
+						</h1>
+						<p className="text-sm text-base-content/70 mt-1">
+							{clip.game.homeTeamName} vs {clip.game.awayTeamName} ·{" "}
+							{new Date(clip.game.scheduledStart).toLocaleDateString()}
+						</p>
+					</div>
+					<div className="flex items-center gap-2">
+						<button
+							type="button"
+							onClick={handleShare}
+							className="btn btn-ghost btn-sm"
+							title={copied ? "URL copied!" : "Copy link to share"}
+						>
+							{copied ? (
+								<>
+									<Check className="w-4 h-4 text-success" />
+									<span className="hidden sm:inline">Copied!</span>
+								</>
+							) : (
+								<>
+									<Share2 className="w-4 h-4" />
+									<span className="hidden sm:inline">Share</span>
+								</>
+							)}
+						</button>
+						{clip.canManage && (
+							<button
+								type="button"
+								onClick={handleDelete}
+								disabled={isDeleting}
+								className="btn btn-ghost btn-sm text-error"
+								title="Delete clip"
+							>
+								<Trash2 className="w-4 h-4" />
+							</button>
+						)}
+					</div>
+				</div>
+			</header>
+
+			<main className="max-w-4xl mx-auto px-4 py-6 space-y-4">
+				<RecordingVideo
+					recording={clip.recording}
+					startSeconds={clip.startSeconds}
+					endSeconds={clip.endSeconds}
+				/>
+
+				<div className="flex items-center justify-between gap-4">
+					<span className="text-sm text-base-content/60">
+						{formatDuration(clip.endSeconds - clip.startSeconds)} highlight
+					</span>
+					<Link
+						to="/games/$gameId"
+						params={{ gameId: clip.gameId }}
+						className="btn btn-ghost btn-sm"
+					>
+						<ArrowLeft className="w-4 h-4" />
+						Full game
+					</Link>
+				</div>
+			</main>
+		</div>
+	);
+}
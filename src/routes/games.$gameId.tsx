@@ -6,15 +6,20 @@
  * - SSR for fast initial load and SEO
  * - Real-time updates via Convex subscriptions
  * - Mobile-responsive design for field-side viewing
+ * - Replays of completed games, with plays that jump to their moment in the recording
  */
 
-import { createFileRoute } from "@tanstack/react-router";
-import { useQuery } from "convex/react"; // Changed to Convex's useQuery
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { useMutation, useQuery } from "convex/react"; // Changed to Convex's useQuery
 import { useMemo, useState } from "react";
-import { Share2, Video, VideoOff, Check } from "lucide-react";
+import { Share2, Video, VideoOff, Check, Play, Scissors } from "lucide-react";
 import { api } from "../../convex/_generated/api";
 import type { Id } from "../../convex/_generated/dataModel";
+import { findRecordingAt } from "../../convex/replays";
+import { CapBanner } from "../components/CapBanner";
+import { FollowButton } from "../components/FollowButton";
 import { LiveScoreboard } from "../components/LiveScoreboard";
+import { ReplayPlayer } from "../components/ReplayPlayer";
 import { StreamPlayer } from "../components/StreamPlayer";
 
 // Server-side data loader for SSR
@@ -72,6 +77,15 @@ function GamePage() {
 	const { game: initialGame } = Route.useLoaderData();
 	const [showVideo, setShowVideo] = useState(true);
 	const [copied, setCopied] = useState(false);
+	const [seekTo, setSeekTo] = useState<{
+		recordingId: Id<"recordings">;
+		seconds: number;
+	} | null>(null);
+	const [clippingEventId, setClippingEventId] = useState<Id<"events"> | null>(
+		null,
+	);
+	const navigate = useNavigate();
+	const createClip = useMutation(api.clips.createClip);
 
 	// Real-time subscription to game data
 	// Convex handles SSR hydration automatically
@@ -85,14 +99,53 @@ function GamePage() {
 	});
 
 	// Subscribe to game events (play-by-play)
+	// Completed games list the whole game so any play can be found in the replay
+	const isCompleted = (game ?? initialGame)?.status === "completed";
 	const events =
 		useQuery(api.games.getGameEvents, {
 			gameId: gameId as Id<"games">,
-			limit: 20,
+			limit: isCompleted ? 100 : 20,
 		}) ?? [];
 
+	// Replays of the stream, once the game is over
+	const recordings = useQuery(api.recordings.listGameRecordings, {
+		gameId: gameId as Id<"games">,
+	});
+
+	// Managers can cut highlight clips from the replay
+	const access = useQuery(api.gameStaff.getMyGameAccess, {
+		gameId: gameId as Id<"games">,
+	});
+
 	// Use SSR data as fallback while real-time subscription loads
 	const displayGame = game ?? initialGame;
+	const showReplay = isCompleted && !!recordings?.length;
+
+	// Jump the replay to the moment a play happened
+	const handleSeek = (timestamp: number) => {
+		const position = recordings && findRecordingAt(recordings, timestamp);
+		if (!position) return;
+
+		setShowVideo(true);
+		setSeekTo({
+			recordingId: position.recording._id,
+			seconds: position.offsetSeconds,
+		});
+		window.scrollTo({ top: 0, behavior: "smooth" });
+	};
+
+	const handleCreateClip = async (eventId: Id<"events">) => {
+		setClippingEventId(eventId);
+		try {
+			const clipId = await createClip({ eventId });
+			navigate({ to: "/clips/$clipId", params: { clipId } });
+		} catch (error) {
+			console.error("Failed to create clip:", error);
+			alert(error instanceof Error ? error.message : "Failed to create clip");
+		} finally {
+			setClippingEventId(null);
+		}
+	};
 
 	// Copy URL to clipboard
 	const handleShare = async () => {
@@ -181,6 +234,8 @@ function GamePage() {
 						</p>
 					</div>
 					<div className="flex items-center gap-2">
+						{/* Follow Button */}
+						<FollowButton gameId={gameId as Id<"games">} />
 						{/* Share Button */}
 						<button
 							onClick={handleShare}
@@ -200,7 +255,9 @@ function GamePage() {
 							)}
 						</button>
 						{/* Video Toggle Button */}
-						{(displayGame.streamId || displayGame.webRtcPlaybackUrl) && (
+						{(displayGame.streamId ||
+							displayGame.webRtcPlaybackUrl ||
+							showReplay) && (
 							<button
 								onClick={() => setShowVideo(!showVideo)}
 								className="btn btn-ghost btn-sm"
@@ -225,8 +282,24 @@ function GamePage() {
 
 			{/* Main Content */}
 			<main className="max-w-4xl mx-auto px-4 py-6">
-				{/* Stream Player - Toggleable */}
-				{showVideo && (
+				{/* Soft/Hard Cap Banner */}
+				{displayGame.status === "live" && (
+					<CapBanner
+						capStatus={gameState?.capStatus}
+						cappedTarget={gameState?.cappedTarget}
+						className="mb-6"
+					/>
+				)}
+
+				{/* Stream Player, or the replay once the game is over - Toggleable */}
+				{showVideo && showReplay && recordings && (
+					<ReplayPlayer
+						recordings={recordings}
+						seekTo={seekTo}
+						className="mb-6"
+					/>
+				)}
+				{showVideo && !showReplay && (
 					<div className="mb-6">
 						<StreamPlayer
 							streamId={displayGame.streamId}
@@ -247,10 +320,38 @@ function GamePage() {
 					className="mb-6"
 				/>
 
+				{/* Teams */}
+				<div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+					{[displayGame.homeTeam, displayGame.awayTeam].map(
+						(team) =>
+							team && (
+								<div key={team._id} className="card bg-base-200 shadow">
+									<div className="card-body p-4 flex-row items-center gap-3">
+										<span
+											className="w-10 h-10 rounded-full flex items-center justify-center text-sm font-black text-white shrink-0"
+											style={{ backgroundColor: team.colors.primary }}
+										>
+											{team.abbreviation}
+										</span>
+										<span className="font-semibold text-base-content flex-1 min-w-0 truncate">
+											{team.name}
+										</span>
+										<FollowButton teamId={team._id} size="xs" />
+									</div>
+								</div>
+							),
+					)}
+				</div>
+
 				{/* Play-by-Play */}
 				<div className="card bg-base-200 shadow-lg">
 					<div className="card-header px-6 py-4 border-b border-base-300">
 						<h2 className="card-title text-base-content">Play-by-Play</h2>
+						{showReplay && (
+							<p className="text-sm text-base-content/60">
+								Select a play to watch it in the replay
+							</p>
+						)}
 					</div>
 
 					<div className="divide-y divide-base-300">
@@ -266,6 +367,40 @@ function GamePage() {
 											: event.scoringTeam === "away"
 												? displayGame.awayTeam?.name || "Away Team"
 												: null;
+									const inReplay =
+										showReplay &&
+										!!recordings &&
+										!!findRecordingAt(recordings, event.timestamp);
+									const details = (
+										<div className="flex items-start gap-2">
+											{event.type === "goal" && (
+												<span className="text-lg leading-none mt-0.5">🥏</span>
+											)}
+											<div className="flex-1 min-w-0">
+												<p className="text-sm text-base-content">
+													{formatEventDescription(event, teamName)}
+												</p>
+												<div className="flex items-center gap-2 mt-1.5">
+													<p className="text-xs text-base-content/60">
+														{formatGameTime(
+															event,
+															displayGame.format,
+															event.scoreAtEvent,
+														)}
+													</p>
+													<span className="text-xs text-base-content/30">
+														•
+													</span>
+													<p className="text-xs text-base-content/60">
+														{formatTimestamp(event.timestamp)}
+													</p>
+													{inReplay && (
+														<Play className="w-3 h-3 text-primary" />
+													)}
+												</div>
+											</div>
+										</div>
+									);
 
 									return (
 										<div
@@ -273,38 +408,39 @@ function GamePage() {
 											className="px-6 py-3 hover:bg-base-300 transition-colors"
 										>
 											<div className="flex items-start justify-between gap-4">
-												<div className="flex-1 min-w-0">
-													<div className="flex items-start gap-2">
-														{event.type === "goal" && (
-															<span className="text-lg leading-none mt-0.5">
-																🥏
-															</span>
-														)}
-														<div className="flex-1 min-w-0">
-															<p className="text-sm text-base-content">
-																{formatEventDescription(event, teamName)}
-															</p>
-															<div className="flex items-center gap-2 mt-1.5">
-																<p className="text-xs text-base-content/60">
-																	{formatGameTime(
-																		event,
-																		displayGame.format,
-																		event.scoreAtEvent,
-																	)}
-																</p>
-																<span className="text-xs text-base-content/30">
-																	•
-																</span>
-																<p className="text-xs text-base-content/60">
-																	{formatTimestamp(event.timestamp)}
-																</p>
-															</div>
-														</div>
-													</div>
-												</div>
+												{inReplay ? (
+													<button
+														type="button"
+														onClick={() => handleSeek(event.timestamp)}
+														className="flex-1 min-w-0 text-left cursor-pointer"
+														title="Watch in replay"
+													>
+														{details}
+													</button>
+												) : (
+													<div className="flex-1 min-w-0">{details}</div>
+												)}
 												{event.type === "goal" && (
-													<div className="ml-4 text-xs font-semibold text-success whitespace-nowrap">
-														GOAL
+													<div className="ml-4 flex items-center gap-2">
+														{inReplay && access?.canManage && (
+															<button
+																type="button"
+																onClick={() => handleCreateClip(event._id)}
+																disabled={clippingEventId !== null}
+																className="btn btn-ghost btn-xs"
+																title="Create a highlight clip of this goal"
+															>
+																{clippingEventId === event._id ? (
+																	<span className="loading loading-spinner loading-xs"></span>
+																) : (
+																	<Scissors className="w-3 h-3" />
+																)}
+																Clip
+															</button>
+														)}
+														<span className="text-xs font-semibold text-success whitespace-nowrap">
+															GOAL
+														</span>
 													</div>
 												)}
 											</div>
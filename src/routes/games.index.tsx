@@ -1,6 +1,14 @@
 import { createFileRoute, Link } from "@tanstack/react-router";
 import { useQuery } from "convex/react";
-import { Calendar, Clock, MapPin, Radio, Users } from "lucide-react";
+import {
+	Calendar,
+	Clock,
+	LayoutGrid,
+	ListOrdered,
+	MapPin,
+	Radio,
+	Users,
+} from "lucide-react";
 import { api } from "../../convex/_generated/api";
 import type { Doc } from "../../convex/_generated/dataModel";
 
@@ -41,14 +49,20 @@ function BrowseGames() {
 		<div className="min-h-screen bg-base-100 p-6">
 			<div className="max-w-6xl mx-auto">
 				{/* Header */}
-				<div className="mb-8">
-					<h1 className="text-4xl md:text-5xl font-black text-base-content mb-4">
-						<span className="text-primary">Browse</span>{" "}
-						<span className="text-base-content/70">Games</span>
-					</h1>
-					<p className="text-base-content/60 text-lg">
-						Watch live games or see what's coming up next
-					</p>
+				<div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+					<div>
+						<h1 className="text-4xl md:text-5xl font-black text-base-content mb-4">
+							<span className="text-primary">Browse</span>{" "}
+							<span className="text-base-content/70">Games</span>
+						</h1>
+						<p className="text-base-content/60 text-lg">
+							Watch live games or see what's coming up next
+						</p>
+					</div>
+					<Link to="/standings" className="btn btn-outline btn-primary">
+						<ListOrdered className="w-4 h-4" />
+						League Standings
+					</Link>
 				</div>
 
 				{/* Live Games Section */}
@@ -59,6 +73,15 @@ function BrowseGames() {
 							<h2 className="text-2xl font-bold text-base-content">
 								Live Now ({liveGames.length})
 							</h2>
+							{liveGames.some((game) => game.streamStatus === "live") && (
+								<Link
+									to="/games/live"
+									className="btn btn-sm btn-outline ml-auto"
+								>
+									<LayoutGrid className="w-4 h-4" />
+									Multi-view
+								</Link>
+							)}
 						</div>
 						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
 							{liveGames.map((game) => (
@@ -192,7 +215,8 @@ function GameCard({ game, isLive, isCompleted }: GameCardProps) {
 								<div
 									className="w-3 h-3 rounded-full"
 									style={{
-										backgroundColor: game.homeTeam?.colors?.primary || "#3b82f6",
+										backgroundColor:
+											game.homeTeam?.colors?.primary || "#3b82f6",
 									}}
 								/>
 								<span className="text-lg font-semibold text-base-content truncate">
@@ -211,7 +235,8 @@ function GameCard({ game, isLive, isCompleted }: GameCardProps) {
 								<div
 									className="w-3 h-3 rounded-full"
 									style={{
-										backgroundColor: game.awayTeam?.colors?.primary || "#ef4444",
+										backgroundColor:
+											game.awayTeam?.colors?.primary || "#ef4444",
 									}}
 								/>
 								<span className="text-lg font-semibold text-base-content truncate">
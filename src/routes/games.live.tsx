@@ -0,0 +1,106 @@
+/**
+ * Live Multi-view Page
+ *
+ * Watch every game that is streaming right now, tiled with its live scoreboard.
+ * Players start muted; unmute the one you want to hear from its controls.
+ */
+
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "convex/react";
+import { ArrowLeft, MapPin, Radio } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import { LiveScoreboard } from "../components/LiveScoreboard";
+import { StreamPlayer } from "../components/StreamPlayer";
+
+export const Route = createFileRoute("/games/live")({
+	component: MultiViewPage,
+});
+
+function MultiViewPage() {
+	const streams = useQuery(api.streams.listActiveStreams, {});
+
+	return (
+		<div className="min-h-screen bg-base-100 p-6">
+			<div className="max-w-7xl mx-auto">
+				{/* Header */}
+				<div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+					<div>
+						<h1 className="text-4xl md:text-5xl font-black text-base-content mb-4">
+							<span className="text-primary">Live</span>{" "}
+							<span className="text-base-content/70">Multi-view</span>
+						</h1>
+						<p className="text-base-content/60 text-lg">
+							Every field that's streaming, side by side
+						</p>
+					</div>
+					<Link to="/games" className="btn btn-ghost">
+						<ArrowLeft className="w-4 h-4" />
+						All games
+					</Link>
+				</div>
+
+				{streams === undefined ? (
+					<div className="grid grid-cols-1 xl:grid-cols-2 gap-6 animate-pulse">
+						{[1, 2].map((i) => (
+							<div key={i} className="aspect-video bg-base-200 rounded-xl" />
+						))}
+					</div>
+				) : streams.length > 0 ? (
+					<div
+						className={`grid grid-cols-1 gap-6 ${streams.length > 1 ? "xl:grid-cols-2" : ""}`}
+					>
+						{streams.map((game) => (
+							<section key={game._id} className="space-y-3">
+								<div className="flex items-center justify-between gap-3">
+									<div className="flex items-center gap-2 min-w-0">
+										<Radio className="w-4 h-4 text-error animate-pulse shrink-0" />
+										<span className="font-bold text-base-content truncate">
+											{game.field ?? game.venue}
+										</span>
+										{game.field && (
+											<span className="text-sm text-base-content/60 truncate">
+												<MapPin className="inline w-3 h-3 mr-1" />
+												{game.venue}
+											</span>
+										)}
+									</div>
+									<Link
+										to="/games/$gameId"
+										params={{ gameId: game._id }}
+										className="btn btn-ghost btn-xs"
+									>
+										Game page
+									</Link>
+								</div>
+								<StreamPlayer
+									streamId={game.streamId}
+									streamUrl={game.streamUrl}
+									webRtcPlaybackUrl={game.webRtcPlaybackUrl}
+									streamStatus={game.streamStatus}
+									autoPlay
+									muted
+									className="w-full"
+								/>
+								<LiveScoreboard
+									game={game}
+									gameState={game.state}
+									gameId={game._id}
+								/>
+							</section>
+						))}
+					</div>
+				) : (
+					<div className="text-center py-16">
+						<div className="text-6xl mb-4">📺</div>
+						<h3 className="text-2xl font-bold text-base-content/70 mb-2">
+							Nothing is streaming right now
+						</h3>
+						<p className="text-base-content/50">
+							Live games show up here as soon as their stream starts.
+						</p>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
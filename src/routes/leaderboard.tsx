@@ -0,0 +1,199 @@
+/**
+ * Leaderboard Page
+ *
+ * Top players and team totals for a stat, per league season or across all games.
+ * Advanced analytics are a Pro/Premium feature.
+ */
+
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "convex/react";
+import { BarChart3 } from "lucide-react";
+import { useState } from "react";
+import { UpgradeButton } from "@/components/autumn/UpgradeButton";
+import { useFeatureAccess } from "@/utils/feature-gates";
+import { STAT_OPTIONS, type StatKey } from "@/utils/player-stats";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+export const Route = createFileRoute("/leaderboard")({
+	component: LeaderboardPage,
+});
+
+function LeaderboardPage() {
+	const { hasAdvancedAnalytics } = useFeatureAccess();
+	const [stat, setStat] = useState<StatKey>("goals");
+	const [seasonId, setSeasonId] = useState<Id<"seasons"> | "">("");
+
+	const leagues = useQuery(api.leagues.listLeagues, {});
+	const leaderboard = useQuery(
+		api.stats.getLeaderboard,
+		hasAdvancedAnalytics ? { stat, seasonId: seasonId || undefined } : "skip",
+	);
+
+	if (!hasAdvancedAnalytics) {
+		return (
+			<div className="min-h-screen bg-base-100 p-6">
+				<div className="max-w-2xl mx-auto card bg-base-200 shadow-lg">
+					<div className="card-body text-center p-12 items-center">
+						<BarChart3 className="w-12 h-12 text-primary mb-2" />
+						<h1 className="text-2xl font-bold text-base-content">
+							Leaderboards are part of Advanced Analytics
+						</h1>
+						<p className="text-base-content/70 mb-4">
+							Goals, assists, Ds, turnovers and plus/minus for every player, by
+							season or across all games.
+						</p>
+						<UpgradeButton productId="pro" />
+					</div>
+				</div>
+			</div>
+		);
+	}
+
+	const statLabel = STAT_OPTIONS.find((option) => option.key === stat)?.label;
+
+	return (
+		<div className="min-h-screen bg-base-100 p-6">
+			<div className="max-w-6xl mx-auto">
+				{/* Header */}
+				<div className="mb-8 flex flex-wrap items-end justify-between gap-4">
+					<div>
+						<h1 className="text-4xl md:text-5xl font-black text-base-content mb-4">
+							<span className="text-primary">Stat</span>{" "}
+							<span className="text-base-content/70">Leaders</span>
+						</h1>
+						<p className="text-base-content/60 text-lg">
+							Updated live as games are scored
+						</p>
+					</div>
+					<select
+						value={seasonId}
+						onChange={(e) => setSeasonId(e.target.value as Id<"seasons">)}
+						className="select select-bordered"
+						aria-label="Season"
+					>
+						<option value="">All games</option>
+						{leagues?.map((league) => (
+							<optgroup key={league._id} label={league.name}>
+								{league.seasons.map((season) => (
+									<option key={season._id} value={season._id}>
+										{season.name}
+									</option>
+								))}
+							</optgroup>
+						))}
+					</select>
+				</div>
+
+				{/* Stat Tabs */}
+				<div role="tablist" className="tabs tabs-boxed mb-6 flex-wrap">
+					{STAT_OPTIONS.map((option) => (
+						<button
+							key={option.key}
+							type="button"
+							role="tab"
+							aria-selected={stat === option.key}
+							onClick={() => setStat(option.key)}
+							className={`tab ${stat === option.key ? "tab-active" : ""}`}
+						>
+							{option.label}
+						</button>
+					))}
+				</div>
+
+				{leaderboard === undefined ? (
+					<div className="flex justify-center py-12">
+						<span className="loading loading-spinner loading-lg text-primary"></span>
+					</div>
+				) : leaderboard.players.length === 0 ? (
+					<div className="text-center py-16 text-base-content/60">
+						No stats recorded yet
+					</div>
+				) : (
+					<div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+						{/* Players */}
+						<div className="card bg-base-200 shadow-lg lg:col-span-2">
+							<div className="card-body p-4 overflow-x-auto">
+								<h2 className="card-title text-base-content">Players</h2>
+								<table className="table table-sm">
+									<thead>
+										<tr>
+											<th>#</th>
+											<th>Player</th>
+											<th>Team</th>
+											<th className="text-right">GP</th>
+											<th className="text-right">{statLabel}</th>
+										</tr>
+									</thead>
+									<tbody>
+										{leaderboard.players.map((row, index) => (
+											<tr key={row._id}>
+												<td>{index + 1}</td>
+												<td>
+													{row.player ? (
+														<Link
+															to="/players/$playerId"
+															params={{ playerId: row.playerId }}
+															className="link link-hover font-medium"
+														>
+															#{row.player.jerseyNumber} {row.player.firstName}{" "}
+															{row.player.lastName}
+														</Link>
+													) : (
+														<span className="text-base-content/60">
+															Former player
+														</span>
+													)}
+												</td>
+												<td>{row.team?.abbreviation ?? "—"}</td>
+												<td className="text-right tabular-nums">
+													{row.gamesPlayed}
+												</td>
+												<td className="text-right tabular-nums font-bold">
+													{row[stat]}
+												</td>
+											</tr>
+										))}
+									</tbody>
+								</table>
+							</div>
+						</div>
+
+						{/* Teams */}
+						<div className="card bg-base-200 shadow-lg">
+							<div className="card-body p-4">
+								<h2 className="card-title text-base-content">Team Totals</h2>
+								<table className="table table-sm">
+									<tbody>
+										{leaderboard.teams.map((row) => (
+											<tr key={row.teamId}>
+												<td>
+													<div className="flex items-center gap-2">
+														{row.team && (
+															<span
+																className="w-3 h-3 rounded-full shrink-0"
+																style={{
+																	backgroundColor: row.team.colors.primary,
+																}}
+															/>
+														)}
+														<span className="font-medium">
+															{row.team?.name ?? "Unknown"}
+														</span>
+													</div>
+												</td>
+												<td className="text-right tabular-nums font-bold">
+													{row[stat]}
+												</td>
+											</tr>
+										))}
+									</tbody>
+								</table>
+							</div>
+						</div>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,346 @@
+/**
+ * My Following Page
+ *
+ * Teams and games the signed-in user follows, with upcoming and live games for
+ * each followed team, per-subscription notification toggles and delivery channels.
+ */
+
+import { SignInButton } from "@clerk/clerk-react";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useMutation, useQuery } from "convex/react";
+import { Bell, BellOff, Clock } from "lucide-react";
+import { useEffect, useState } from "react";
+import { api } from "../../convex/_generated/api";
+import type { Doc } from "../../convex/_generated/dataModel";
+
+export const Route = createFileRoute("/me")({
+	component: MePage,
+});
+
+type NotifyOn = Doc<"subscriptions">["notifyOn"];
+
+const NOTIFY_ON_OPTIONS: { key: keyof NotifyOn; label: string }[] = [
+	{ key: "goals", label: "Goals" },
+	{ key: "periodEnd", label: "Halftime / period end" },
+	{ key: "gameEnd", label: "Final score" },
+	{ key: "scheduleChanges", label: "Schedule changes" },
+];
+
+function MePage() {
+	const following = useQuery(api.notifications.getMyFollowing, {});
+
+	if (following === undefined) {
+		return (
+			<div className="flex items-center justify-center min-h-screen">
+				<span className="loading loading-spinner loading-lg text-primary"></span>
+			</div>
+		);
+	}
+
+	if (following === null) {
+		return (
+			<div className="min-h-screen bg-base-100 p-6">
+				<div className="max-w-2xl mx-auto card bg-base-200 shadow-lg">
+					<div className="card-body text-center p-12 items-center">
+						<Bell className="w-12 h-12 text-primary mb-2" />
+						<h1 className="text-2xl font-bold text-base-content">
+							Follow your teams
+						</h1>
+						<p className="text-base-content/70 mb-4">
+							Sign in to follow teams and games and get notified about goals and
+							final scores.
+						</p>
+						<SignInButton mode="modal">
+							<button type="button" className="btn btn-primary">
+								Sign In
+							</button>
+						</SignInButton>
+					</div>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="min-h-screen bg-base-100 p-6">
+			<div className="max-w-4xl mx-auto space-y-6">
+				{/* Header */}
+				<div>
+					<h1 className="text-4xl md:text-5xl font-black text-base-content mb-4">
+						<span className="text-primary">My</span>{" "}
+						<span className="text-base-content/70">Following</span>
+					</h1>
+					<p className="text-base-content/60 text-lg">
+						Teams and games you get notifications for
+					</p>
+				</div>
+
+				<NotificationChannels preferences={following.preferences} />
+
+				{/* Teams */}
+				<div className="card bg-base-200 shadow-lg">
+					<div className="card-body p-4">
+						<h2 className="card-title text-base-content">Teams</h2>
+						{following.teams.length > 0 ? (
+							<div className="divide-y divide-base-300">
+								{following.teams.map(({ subscription, team, games }) => (
+									<div key={subscription._id} className="py-4 space-y-3">
+										<div className="flex flex-wrap items-center gap-3">
+											<span
+												className="w-3 h-3 rounded-full shrink-0"
+												style={{ backgroundColor: team?.colors.primary }}
+											/>
+											<span className="font-semibold text-base-content flex-1">
+												{team?.name}
+											</span>
+											<UnfollowButton subscription={subscription} />
+										</div>
+										<NotifyOnToggles subscription={subscription} />
+										{games.length > 0 ? (
+											<div className="space-y-2">
+												{games.map((game) => (
+													<FollowedGameRow key={game._id} game={game} />
+												))}
+											</div>
+										) : (
+											<p className="text-sm text-base-content/60">
+												No upcoming games
+											</p>
+										)}
+									</div>
+								))}
+							</div>
+						) : (
+							<p className="text-base-content/60 py-4">
+								You aren't following any teams yet. Use the Follow button on a
+								team from any{" "}
+								<Link to="/games" className="link link-primary">
+									game page
+								</Link>
+								.
+							</p>
+						)}
+					</div>
+				</div>
+
+				{/* Games */}
+				<div className="card bg-base-200 shadow-lg">
+					<div className="card-body p-4">
+						<h2 className="card-title text-base-content">Games</h2>
+						{following.games.length > 0 ? (
+							<div className="divide-y divide-base-300">
+								{following.games.map(
+									({ subscription, game }) =>
+										game && (
+											<div key={subscription._id} className="py-4 space-y-3">
+												<div className="flex items-center gap-3">
+													<div className="flex-1 min-w-0">
+														<FollowedGameRow game={game} />
+													</div>
+													<UnfollowButton subscription={subscription} />
+												</div>
+												<NotifyOnToggles subscription={subscription} />
+											</div>
+										),
+								)}
+							</div>
+						) : (
+							<p className="text-base-content/60 py-4">
+								You aren't following any games yet.
+							</p>
+						)}
+					</div>
+				</div>
+			</div>
+		</div>
+	);
+}
+
+interface NotificationChannelsProps {
+	preferences: { email: boolean; sms: boolean; phone?: string };
+}
+
+function NotificationChannels({ preferences }: NotificationChannelsProps) {
+	const updatePreferences = useMutation(
+		api.notifications.updateNotificationPreferences,
+	);
+	const [phone, setPhone] = useState(preferences.phone ?? "");
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		setPhone(preferences.phone ?? "");
+	}, [preferences.phone]);
+
+	const save = async (next: {
+		email: boolean;
+		sms: boolean;
+		phone: string;
+	}) => {
+		setError(null);
+		try {
+			await updatePreferences({
+				email: next.email,
+				sms: next.sms,
+				phone: next.phone.trim() || undefined,
+			});
+		} catch (err) {
+			setError(
+				err instanceof Error ? err.message : "Failed to save preferences",
+			);
+		}
+	};
+
+	return (
+		<div className="card bg-base-200 shadow-lg">
+			<div className="card-body p-4">
+				<h2 className="card-title text-base-content">
+					Deliver notifications by
+				</h2>
+				<div className="flex flex-wrap items-center gap-6">
+					<label className="label cursor-pointer gap-2">
+						<input
+							type="checkbox"
+							className="toggle toggle-primary"
+							checked={preferences.email}
+							onChange={(e) =>
+								save({ ...preferences, email: e.target.checked, phone })
+							}
+						/>
+						<span className="label-text">Email</span>
+					</label>
+					<label className="label cursor-pointer gap-2">
+						<input
+							type="checkbox"
+							className="toggle toggle-primary"
+							checked={preferences.sms}
+							onChange={(e) =>
+								save({ ...preferences, sms: e.target.checked, phone })
+							}
+						/>
+						<span className="label-text">Text message</span>
+					</label>
+					<label className="flex items-center gap-2">
+						<span className="label-text">Phone</span>
+						<input
+							type="tel"
+							value={phone}
+							onChange={(e) => setPhone(e.target.value)}
+							onBlur={() => {
+								if (phone.trim() !== (preferences.phone ?? "")) {
+									save({ ...preferences, phone });
+								}
+							}}
+							placeholder="+15551234567"
+							className="input input-bordered input-sm w-44"
+						/>
+					</label>
+				</div>
+				{error && (
+					<div className="alert alert-error mt-2">
+						<span>{error}</span>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
+
+interface SubscriptionProps {
+	subscription: Doc<"subscriptions">;
+}
+
+function NotifyOnToggles({ subscription }: SubscriptionProps) {
+	const updateSubscription = useMutation(api.notifications.updateSubscription);
+
+	return (
+		<div className="flex flex-wrap gap-x-4 gap-y-1">
+			{NOTIFY_ON_OPTIONS.map((option) => (
+				<label
+					key={option.key}
+					className="label cursor-pointer gap-2 justify-start py-0"
+				>
+					<input
+						type="checkbox"
+						className="checkbox checkbox-sm checkbox-primary"
+						checked={subscription.notifyOn[option.key]}
+						onChange={(e) =>
+							updateSubscription({
+								subscriptionId: subscription._id,
+								notifyOn: {
+									...subscription.notifyOn,
+									[option.key]: e.target.checked,
+								},
+							})
+						}
+					/>
+					<span className="label-text">{option.label}</span>
+				</label>
+			))}
+		</div>
+	);
+}
+
+function UnfollowButton({ subscription }: SubscriptionProps) {
+	const unsubscribe = useMutation(api.notifications.unsubscribe);
+
+	return (
+		<button
+			type="button"
+			onClick={() => unsubscribe({ subscriptionId: subscription._id })}
+			className="btn btn-ghost btn-xs"
+		>
+			<BellOff className="w-4 h-4" />
+			Unfollow
+		</button>
+	);
+}
+
+interface FollowedGameRowProps {
+	game: Doc<"games"> & {
+		homeTeam: Doc<"teams"> | null;
+		awayTeam: Doc<"teams"> | null;
+		state: Doc<"gameState"> | null;
+	};
+}
+
+function FollowedGameRow({ game }: FollowedGameRowProps) {
+	const isLive = game.status === "live";
+
+	return (
+		<Link
+			to="/games/$gameId"
+			params={{ gameId: game._id }}
+			className="flex flex-wrap items-center gap-3 rounded-lg bg-base-100 px-3 py-2 hover:bg-base-300 transition-colors"
+		>
+			{isLive ? (
+				<span className="badge badge-error badge-sm gap-1">
+					<span className="w-2 h-2 bg-base-100 rounded-full animate-pulse" />
+					LIVE
+				</span>
+			) : game.status === "completed" ? (
+				<span className="badge badge-ghost badge-sm">FINAL</span>
+			) : (
+				<span className="badge badge-info badge-sm">UPCOMING</span>
+			)}
+			<span className="font-medium text-base-content flex-1 min-w-0 truncate">
+				{game.homeTeam?.name ?? "Home Team"} vs{" "}
+				{game.awayTeam?.name ?? "Away Team"}
+			</span>
+			{game.status === "upcoming" ? (
+				<span className="flex items-center gap-1 text-sm text-base-content/60">
+					<Clock size={14} />
+					{new Date(game.scheduledStart).toLocaleDateString("en-US", {
+						month: "short",
+						day: "numeric",
+						hour: "numeric",
+						minute: "2-digit",
+					})}
+				</span>
+			) : (
+				<span className="font-bold tabular-nums text-base-content">
+					{game.state?.homeScore ?? 0} – {game.state?.awayScore ?? 0}
+				</span>
+			)}
+		</Link>
+	);
+}
@@ -0,0 +1,234 @@
+/**
+ * Player Profile Page
+ *
+ * Career and season totals plus a game log for one player.
+ * Advanced analytics are a Pro/Premium feature.
+ */
+
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "convex/react";
+import { ArrowLeft, BarChart3 } from "lucide-react";
+import { UpgradeButton } from "@/components/autumn/UpgradeButton";
+import { useFeatureAccess } from "@/utils/feature-gates";
+import { STAT_OPTIONS } from "@/utils/player-stats";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+export const Route = createFileRoute("/players/$playerId")({
+	component: PlayerProfilePage,
+});
+
+function PlayerProfilePage() {
+	const { playerId } = Route.useParams();
+	const { hasAdvancedAnalytics } = useFeatureAccess();
+	const profile = useQuery(
+		api.stats.getPlayerProfile,
+		hasAdvancedAnalytics ? { playerId: playerId as Id<"players"> } : "skip",
+	);
+
+	if (!hasAdvancedAnalytics) {
+		return (
+			<div className="min-h-screen bg-base-100 p-6">
+				<div className="max-w-2xl mx-auto card bg-base-200 shadow-lg">
+					<div className="card-body text-center p-12 items-center">
+						<BarChart3 className="w-12 h-12 text-primary mb-2" />
+						<h1 className="text-2xl font-bold text-base-content">
+							Player profiles are part of Advanced Analytics
+						</h1>
+						<p className="text-base-content/70 mb-4">
+							Career and season stats with a game-by-game log.
+						</p>
+						<UpgradeButton productId="pro" />
+					</div>
+				</div>
+			</div>
+		);
+	}
+
+	if (profile === undefined) {
+		return (
+			<div className="flex items-center justify-center min-h-screen">
+				<span className="loading loading-spinner loading-lg text-primary"></span>
+			</div>
+		);
+	}
+
+	if (profile === null) {
+		return (
+			<div className="min-h-screen bg-base-100 p-6">
+				<div className="max-w-4xl mx-auto text-center py-16">
+					<h1 className="text-2xl font-bold text-base-content mb-4">
+						Player not found
+					</h1>
+					<Link to="/leaderboard" className="btn btn-primary">
+						Leaderboard
+					</Link>
+				</div>
+			</div>
+		);
+	}
+
+	const { player, team, career, seasons, gameLog } = profile;
+
+	return (
+		<div className="min-h-screen bg-base-100 p-6">
+			<div className="max-w-5xl mx-auto space-y-6">
+				<Link to="/leaderboard" className="btn btn-ghost btn-sm">
+					<ArrowLeft className="w-4 h-4" />
+					Leaderboard
+				</Link>
+
+				{/* Header */}
+				<div className="flex items-center gap-4">
+					<div
+						className="w-16 h-16 rounded-full flex items-center justify-center text-2xl font-black text-white shrink-0"
+						style={{ backgroundColor: team?.colors.primary ?? "#3b82f6" }}
+					>
+						{player.jerseyNumber}
+					</div>
+					<div>
+						<h1 className="text-3xl md:text-4xl font-black text-base-content">
+							{player.firstName} {player.lastName}
+						</h1>
+						<p className="text-base-content/60 capitalize">
+							{team?.name ?? "Unknown team"} • {player.position}
+							{!player.isActive && " • Inactive"}
+						</p>
+					</div>
+				</div>
+
+				{/* Career Totals */}
+				<div className="stats stats-vertical md:stats-horizontal shadow bg-base-200 w-full">
+					<div className="stat">
+						<div className="stat-title">Games</div>
+						<div className="stat-value text-2xl">
+							{career?.gamesPlayed ?? 0}
+						</div>
+					</div>
+					{STAT_OPTIONS.map((option) => (
+						<div key={option.key} className="stat">
+							<div className="stat-title">{option.label}</div>
+							<div className="stat-value text-2xl">
+								{career?.[option.key] ?? 0}
+							</div>
+						</div>
+					))}
+				</div>
+
+				{/* Seasons */}
+				{seasons.length > 0 && (
+					<div className="card bg-base-200 shadow-lg">
+						<div className="card-body p-4 overflow-x-auto">
+							<h2 className="card-title text-base-content">Seasons</h2>
+							<table className="table table-sm">
+								<thead>
+									<tr>
+										<th>Season</th>
+										<th className="text-right">GP</th>
+										{STAT_OPTIONS.map((option) => (
+											<th
+												key={option.key}
+												className="text-right"
+												title={option.label}
+											>
+												{option.short}
+											</th>
+										))}
+									</tr>
+								</thead>
+								<tbody>
+									{seasons.map((row) => (
+										<tr key={row._id}>
+											<td>
+												{row.season && (
+													<Link
+														to="/standings/$seasonId"
+														params={{ seasonId: row.season._id }}
+														className="link link-hover"
+													>
+														{row.league?.name} {row.season.name}
+													</Link>
+												)}
+											</td>
+											<td className="text-right tabular-nums">
+												{row.gamesPlayed}
+											</td>
+											{STAT_OPTIONS.map((option) => (
+												<td
+													key={option.key}
+													className="text-right tabular-nums"
+												>
+													{row[option.key]}
+												</td>
+											))}
+										</tr>
+									))}
+								</tbody>
+							</table>
+						</div>
+					</div>
+				)}
+
+				{/* Game Log */}
+				<div className="card bg-base-200 shadow-lg">
+					<div className="card-body p-4 overflow-x-auto">
+						<h2 className="card-title text-base-content">Game Log</h2>
+						{gameLog.length > 0 ? (
+							<table className="table table-sm">
+								<thead>
+									<tr>
+										<th>Date</th>
+										<th>Opponent</th>
+										{STAT_OPTIONS.map((option) => (
+											<th
+												key={option.key}
+												className="text-right"
+												title={option.label}
+											>
+												{option.short}
+											</th>
+										))}
+									</tr>
+								</thead>
+								<tbody>
+									{gameLog.map((row) => (
+										<tr key={row._id}>
+											<td>
+												<Link
+													to="/games/$gameId"
+													params={{ gameId: row.gameId }}
+													className="link link-hover"
+												>
+													{row.game &&
+														new Date(
+															row.game.scheduledStart,
+														).toLocaleDateString("en-US", {
+															month: "short",
+															day: "numeric",
+														})}
+												</Link>
+											</td>
+											<td>vs {row.opponent?.abbreviation ?? "—"}</td>
+											{STAT_OPTIONS.map((option) => (
+												<td
+													key={option.key}
+													className="text-right tabular-nums"
+												>
+													{row[option.key]}
+												</td>
+											))}
+										</tr>
+									))}
+								</tbody>
+							</table>
+						) : (
+							<div className="text-center py-6 text-base-content/60">
+								No games recorded yet
+							</div>
+						)}
+					</div>
+				</div>
+			</div>
+		</div>
+	);
+}
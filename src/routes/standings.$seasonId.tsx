@@ -0,0 +1,151 @@
+/**
+ * Public Season Standings Page
+ *
+ * League table for a season, ranked by win percentage with head-to-head,
+ * point differential and points scored as tiebreakers.
+ */
+
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "convex/react";
+import { ArrowLeft, ListOrdered } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+export const Route = createFileRoute("/standings/$seasonId")({
+	component: SeasonStandingsPage,
+});
+
+function SeasonStandingsPage() {
+	const { seasonId } = Route.useParams();
+	const data = useQuery(api.leagues.getStandings, {
+		seasonId: seasonId as Id<"seasons">,
+	});
+
+	if (data === undefined) {
+		return (
+			<div className="flex items-center justify-center min-h-screen">
+				<span className="loading loading-spinner loading-lg text-primary"></span>
+			</div>
+		);
+	}
+
+	if (data === null) {
+		return (
+			<div className="min-h-screen bg-base-100 p-6">
+				<div className="max-w-4xl mx-auto text-center py-16">
+					<h1 className="text-2xl font-bold text-base-content mb-4">
+						Season not found
+					</h1>
+					<Link to="/standings" className="btn btn-primary">
+						All Standings
+					</Link>
+				</div>
+			</div>
+		);
+	}
+
+	const { season, league, standings } = data;
+	const showTies = standings.some((row) => row.ties > 0);
+
+	return (
+		<div className="min-h-screen bg-base-100 p-6">
+			<div className="max-w-4xl mx-auto">
+				<Link to="/standings" className="btn btn-ghost btn-sm mb-4">
+					<ArrowLeft className="w-4 h-4" />
+					All Standings
+				</Link>
+
+				{/* Header */}
+				<div className="mb-6">
+					<h1 className="text-3xl md:text-4xl font-black text-base-content flex items-center gap-3">
+						<ListOrdered className="w-8 h-8 text-primary" />
+						{league?.name ?? "League"}
+					</h1>
+					<p className="text-base-content/60 text-lg mt-1">
+						{season.name} • {data.gamesPlayed} played, {data.gamesRemaining}{" "}
+						remaining
+					</p>
+				</div>
+
+				{standings.length > 0 ? (
+					<div className="card bg-base-200 shadow-lg">
+						<div className="card-body p-4 overflow-x-auto">
+							<table className="table">
+								<thead>
+									<tr>
+										<th>#</th>
+										<th>Team</th>
+										<th className="text-right">GP</th>
+										<th className="text-right">W</th>
+										<th className="text-right">L</th>
+										{showTies && <th className="text-right">T</th>}
+										<th className="text-right">PF</th>
+										<th className="text-right">PA</th>
+										<th className="text-right">+/-</th>
+									</tr>
+								</thead>
+								<tbody>
+									{standings.map((row, index) => (
+										<tr key={row.teamId}>
+											<td>{index + 1}</td>
+											<td>
+												<div className="flex items-center gap-2">
+													{row.team && (
+														<span
+															className="w-3 h-3 rounded-full shrink-0"
+															style={{
+																backgroundColor: row.team.colors.primary,
+															}}
+														/>
+													)}
+													<span className="font-medium">
+														{row.team?.name ?? "Unknown"}
+													</span>
+													{row.headToHead && (
+														<span
+															className="badge badge-ghost badge-sm"
+															title="Head-to-head record against tied teams"
+														>
+															H2H {row.headToHead.wins}-{row.headToHead.losses}
+														</span>
+													)}
+												</div>
+											</td>
+											<td className="text-right tabular-nums">
+												{row.gamesPlayed}
+											</td>
+											<td className="text-right tabular-nums">{row.wins}</td>
+											<td className="text-right tabular-nums">{row.losses}</td>
+											{showTies && (
+												<td className="text-right tabular-nums">{row.ties}</td>
+											)}
+											<td className="text-right tabular-nums">
+												{row.pointsFor}
+											</td>
+											<td className="text-right tabular-nums">
+												{row.pointsAgainst}
+											</td>
+											<td className="text-right tabular-nums">
+												{row.pointDiff > 0
+													? `+${row.pointDiff}`
+													: row.pointDiff}
+											</td>
+										</tr>
+									))}
+								</tbody>
+							</table>
+							<p className="text-xs text-base-content/60 mt-2">
+								Ties in the table are broken by head-to-head record, then point
+								differential, then points scored.
+							</p>
+						</div>
+					</div>
+				) : (
+					<div className="text-center py-16 text-base-content/60">
+						No games have been scheduled for this season yet
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
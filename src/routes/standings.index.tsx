@@ -0,0 +1,91 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "convex/react";
+import { ChevronRight, ListOrdered } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+
+export const Route = createFileRoute("/standings/")({
+	component: BrowseStandings,
+});
+
+function BrowseStandings() {
+	const leagues = useQuery(api.leagues.listLeagues, {});
+
+	if (leagues === undefined) {
+		return (
+			<div className="min-h-screen bg-base-100 p-6">
+				<div className="max-w-4xl mx-auto">
+					<div className="animate-pulse">
+						<div className="h-12 bg-base-300 rounded-lg w-64 mb-8" />
+						{[1, 2].map((i) => (
+							<div key={i} className="h-32 bg-base-200 rounded-xl mb-6" />
+						))}
+					</div>
+				</div>
+			</div>
+		);
+	}
+
+	const leaguesWithSeasons = leagues.filter(
+		(league) => league.seasons.length > 0,
+	);
+
+	return (
+		<div className="min-h-screen bg-base-100 p-6">
+			<div className="max-w-4xl mx-auto">
+				{/* Header */}
+				<div className="mb-8">
+					<h1 className="text-4xl md:text-5xl font-black text-base-content mb-4">
+						<span className="text-primary">League</span>{" "}
+						<span className="text-base-content/70">Standings</span>
+					</h1>
+					<p className="text-base-content/60 text-lg">
+						Season tables updated as games finish
+					</p>
+				</div>
+
+				{leaguesWithSeasons.length > 0 ? (
+					<div className="space-y-6">
+						{leaguesWithSeasons.map((league) => (
+							<div key={league._id} className="card bg-base-200 shadow-lg">
+								<div className="card-body p-6">
+									<h2 className="card-title text-base-content">
+										<ListOrdered className="w-5 h-5 text-primary" />
+										{league.name}
+									</h2>
+									{league.description && (
+										<p className="text-sm text-base-content/70">
+											{league.description}
+										</p>
+									)}
+									<div className="mt-2 space-y-2">
+										{league.seasons.map((season) => (
+											<Link
+												key={season._id}
+												to="/standings/$seasonId"
+												params={{ seasonId: season._id }}
+												className="flex items-center justify-between p-3 rounded-lg bg-base-100 hover:bg-base-300 transition-colors"
+											>
+												<span className="font-medium">{season.name}</span>
+												<ChevronRight className="w-4 h-4 text-base-content/60" />
+											</Link>
+										))}
+									</div>
+								</div>
+							</div>
+						))}
+					</div>
+				) : (
+					<div className="text-center py-16">
+						<div className="text-6xl mb-4">📊</div>
+						<h3 className="text-2xl font-bold text-base-content/70 mb-2">
+							No league seasons yet
+						</h3>
+						<p className="text-base-content/50">
+							Standings will appear here once a season starts.
+						</p>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
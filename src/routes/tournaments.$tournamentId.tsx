@@ -0,0 +1,295 @@
+/**
+ * Public Tournament Page
+ *
+ * Pool standings, the pool play schedule and the bracket for a tournament.
+ * Everything updates live as games are scored.
+ */
+
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { Calendar, MapPin, Trophy } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
+
+export const Route = createFileRoute("/tournaments/$tournamentId")({
+	component: TournamentPage,
+});
+
+type Tournament = NonNullable<
+	FunctionReturnType<typeof api.tournaments.getTournament>
+>;
+type Pool = Tournament["pools"][number];
+type BracketSlot = Tournament["bracket"][number];
+
+function TournamentPage() {
+	const { tournamentId } = Route.useParams();
+	const tournament = useQuery(api.tournaments.getTournament, {
+		tournamentId: tournamentId as Id<"tournaments">,
+	});
+
+	if (tournament === undefined) {
+		return (
+			<div className="flex items-center justify-center min-h-screen">
+				<span className="loading loading-spinner loading-lg text-primary"></span>
+			</div>
+		);
+	}
+
+	if (tournament === null) {
+		return (
+			<div className="min-h-screen bg-base-100 p-6">
+				<div className="max-w-4xl mx-auto text-center py-16">
+					<h1 className="text-2xl font-bold text-base-content mb-4">
+						Tournament not found
+					</h1>
+					<Link to="/tournaments" className="btn btn-primary">
+						Browse Tournaments
+					</Link>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="min-h-screen bg-base-100">
+			{/* Header */}
+			<header className="navbar bg-base-200 border-b border-base-300 px-4 py-3">
+				<div className="max-w-6xl mx-auto w-full">
+					<h1 className="text-2xl font-bold text-base-content flex items-center gap-2">
+						<Trophy className="w-6 h-6 text-primary" />
+						{tournament.name}
+					</h1>
+					<div className="flex flex-wrap gap-4 text-sm text-base-content/70 mt-1">
+						<span className="flex items-center gap-1">
+							<Calendar className="w-4 h-4" />
+							{new Date(tournament.startDate).toLocaleDateString("en-US", {
+								month: "short",
+								day: "numeric",
+								year: "numeric",
+							})}
+						</span>
+						<span className="flex items-center gap-1">
+							<MapPin className="w-4 h-4" />
+							{tournament.venue || "Venue TBA"}
+						</span>
+					</div>
+				</div>
+			</header>
+
+			<main className="max-w-6xl mx-auto px-4 py-6 space-y-8">
+				{/* Bracket */}
+				{tournament.bracket.length > 0 && (
+					<section>
+						<h2 className="text-2xl font-bold text-base-content mb-4">
+							Bracket
+						</h2>
+						<BracketView slots={tournament.bracket} />
+					</section>
+				)}
+
+				{/* Pools */}
+				{tournament.pools.length > 0 && (
+					<section>
+						<h2 className="text-2xl font-bold text-base-content mb-4">
+							Pool Play
+						</h2>
+						<div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+							{tournament.pools.map((pool) => (
+								<PoolCard key={pool._id} pool={pool} />
+							))}
+						</div>
+					</section>
+				)}
+
+				{tournament.bracket.length === 0 && tournament.pools.length === 0 && (
+					<div className="text-center py-16 text-base-content/60">
+						The schedule hasn't been posted yet
+					</div>
+				)}
+			</main>
+		</div>
+	);
+}
+
+function PoolCard({ pool }: { pool: Pool }) {
+	return (
+		<div className="card bg-base-200 shadow-lg">
+			<div className="card-body p-4">
+				<h3 className="card-title text-base-content">{pool.name}</h3>
+
+				{/* Standings */}
+				<div className="overflow-x-auto">
+					<table className="table table-sm">
+						<thead>
+							<tr>
+								<th>#</th>
+								<th>Team</th>
+								<th className="text-right">W</th>
+								<th className="text-right">L</th>
+								<th className="text-right">+/-</th>
+							</tr>
+						</thead>
+						<tbody>
+							{pool.standings.map((row, index) => (
+								<tr key={row.teamId}>
+									<td>{index + 1}</td>
+									<td className="font-medium">{row.team?.name ?? "Unknown"}</td>
+									<td className="text-right tabular-nums">{row.wins}</td>
+									<td className="text-right tabular-nums">{row.losses}</td>
+									<td className="text-right tabular-nums">
+										{row.pointDiff > 0 ? `+${row.pointDiff}` : row.pointDiff}
+									</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+
+				{/* Schedule */}
+				{pool.games.length > 0 && (
+					<div className="mt-4 space-y-2">
+						<h4 className="text-sm font-semibold text-base-content/70">
+							Games
+						</h4>
+						{pool.games.map((game) => (
+							<Link
+								key={game._id}
+								to="/games/$gameId"
+								params={{ gameId: game._id }}
+								className="flex items-center justify-between gap-2 p-2 rounded-lg bg-base-100 hover:bg-base-300 transition-colors text-sm"
+							>
+								<span className="truncate">
+									{game.homeTeam?.abbreviation ?? "HOME"} vs{" "}
+									{game.awayTeam?.abbreviation ?? "AWAY"}
+								</span>
+								{game.status === "upcoming" ? (
+									<span className="text-base-content/60">
+										{new Date(game.scheduledStart).toLocaleTimeString("en-US", {
+											hour: "numeric",
+											minute: "2-digit",
+										})}
+									</span>
+								) : (
+									<span className="flex items-center gap-2">
+										{game.status === "live" && (
+											<span className="badge badge-error badge-sm">LIVE</span>
+										)}
+										<span className="font-mono tabular-nums">
+											{game.state?.homeScore ?? 0}-{game.state?.awayScore ?? 0}
+										</span>
+									</span>
+								)}
+							</Link>
+						))}
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
+
+function BracketView({ slots }: { slots: BracketSlot[] }) {
+	const roundCount = Math.max(...slots.map((slot) => slot.round));
+	const rounds = Array.from({ length: roundCount }, (_, index) =>
+		slots
+			.filter((slot) => slot.round === index + 1)
+			.sort((a, b) => a.position - b.position),
+	);
+
+	return (
+		<div className="overflow-x-auto">
+			<div className="flex gap-6 min-w-max">
+				{rounds.map((roundSlots, index) => (
+					<div key={roundSlots[0]?._id ?? index} className="flex flex-col w-56">
+						<h3 className="text-sm font-semibold text-base-content/70 mb-3 text-center">
+							{formatRoundName(index + 1, roundCount)}
+						</h3>
+						<div className="flex flex-col justify-around flex-1 gap-4">
+							{roundSlots.map((slot) => (
+								<BracketMatchup key={slot._id} slot={slot} />
+							))}
+						</div>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
+
+function BracketMatchup({ slot }: { slot: BracketSlot }) {
+	const rows = [
+		{
+			side: "home" as const,
+			team: slot.homeTeam,
+			teamId: slot.homeTeamId,
+			label: slot.homeSeedLabel,
+			score: slot.game?.state?.homeScore,
+		},
+		{
+			side: "away" as const,
+			team: slot.awayTeam,
+			teamId: slot.awayTeamId,
+			label: slot.awaySeedLabel,
+			score: slot.game?.state?.awayScore,
+		},
+	];
+
+	const content = (
+		<div
+			className={`card bg-base-200 border shadow ${
+				slot.game?.status === "live" ? "border-error" : "border-base-300"
+			}`}
+		>
+			{rows.map((row) => {
+				const isWinner =
+					!!slot.winnerTeamId && slot.winnerTeamId === row.teamId;
+				return (
+					<div
+						key={row.side}
+						className={`flex items-center justify-between px-3 py-2 text-sm ${
+							isWinner ? "font-bold text-base-content" : "text-base-content/80"
+						}`}
+					>
+						<span className="flex items-center gap-2 truncate">
+							{row.team && (
+								<span
+									className="w-2 h-2 rounded-full shrink-0"
+									style={{ backgroundColor: row.team.colors.primary }}
+								/>
+							)}
+							<span className="truncate">
+								{row.team?.name ?? row.label ?? "TBD"}
+							</span>
+						</span>
+						{slot.game && slot.game.status !== "upcoming" && (
+							<span className="font-mono tabular-nums">{row.score ?? 0}</span>
+						)}
+					</div>
+				);
+			})}
+		</div>
+	);
+
+	if (!slot.gameId) {
+		return content;
+	}
+
+	return (
+		<Link
+			to="/games/$gameId"
+			params={{ gameId: slot.gameId }}
+			className="block hover:opacity-80 transition-opacity"
+		>
+			{content}
+		</Link>
+	);
+}
+
+function formatRoundName(round: number, roundCount: number): string {
+	const remaining = roundCount - round;
+	if (remaining === 0) return "Final";
+	if (remaining === 1) return "Semifinals";
+	if (remaining === 2) return "Quarterfinals";
+	return `Round ${round}`;
+}
@@ -0,0 +1,92 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useQuery } from "convex/react";
+import { Calendar, MapPin, Trophy } from "lucide-react";
+import { api } from "../../convex/_generated/api";
+
+export const Route = createFileRoute("/tournaments/")({
+	component: BrowseTournaments,
+});
+
+function BrowseTournaments() {
+	const tournaments = useQuery(api.tournaments.listTournaments, {});
+
+	if (tournaments === undefined) {
+		return (
+			<div className="min-h-screen bg-base-100 p-6">
+				<div className="max-w-6xl mx-auto">
+					<div className="animate-pulse">
+						<div className="h-12 bg-base-300 rounded-lg w-64 mb-8" />
+						<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+							{[1, 2].map((i) => (
+								<div key={i} className="h-32 bg-base-200 rounded-xl" />
+							))}
+						</div>
+					</div>
+				</div>
+			</div>
+		);
+	}
+
+	return (
+		<div className="min-h-screen bg-base-100 p-6">
+			<div className="max-w-6xl mx-auto">
+				{/* Header */}
+				<div className="mb-8">
+					<h1 className="text-4xl md:text-5xl font-black text-base-content mb-4">
+						<span className="text-primary">Tournaments</span>
+					</h1>
+					<p className="text-base-content/60 text-lg">
+						Pool standings, schedules and brackets
+					</p>
+				</div>
+
+				{tournaments.length > 0 ? (
+					<div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+						{tournaments.map((tournament) => (
+							<Link
+								key={tournament._id}
+								to="/tournaments/$tournamentId"
+								params={{ tournamentId: tournament._id }}
+								className="block group"
+							>
+								<div className="card bg-base-200 border border-base-300 shadow-lg transition-all duration-300 hover:scale-[1.02] hover:border-primary">
+									<div className="card-body p-6">
+										<div className="flex items-center gap-3 mb-2">
+											<Trophy className="w-5 h-5 text-primary" />
+											<h2 className="text-xl font-bold text-base-content truncate">
+												{tournament.name}
+											</h2>
+										</div>
+										<div className="space-y-1 text-sm text-base-content/70">
+											<div className="flex items-center gap-2">
+												<Calendar className="w-4 h-4" />
+												{new Date(tournament.startDate).toLocaleDateString(
+													"en-US",
+													{ month: "short", day: "numeric", year: "numeric" },
+												)}
+											</div>
+											<div className="flex items-center gap-2">
+												<MapPin className="w-4 h-4" />
+												{tournament.venue || "Venue TBA"}
+											</div>
+										</div>
+									</div>
+								</div>
+							</Link>
+						))}
+					</div>
+				) : (
+					<div className="text-center py-16">
+						<div className="text-6xl mb-4">🏆</div>
+						<h3 className="text-2xl font-bold text-base-content/70 mb-2">
+							No tournaments yet
+						</h3>
+						<p className="text-base-content/50">
+							Check back soon for upcoming tournaments!
+						</p>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -1,4 +1,6 @@
 import { useCustomer } from "autumn-js/react";
+import { ConvexError } from "convex/values";
+import type { PlanLimitErrorData } from "../../convex/billing";
 
 export function useFeatureAccess() {
 	const { customer } = useCustomer();
@@ -27,12 +29,25 @@ export function useFeatureAccess() {
 		hasCustomBranding: !!isPremium,
 		hasPrioritySupport: !!isPremium,
 
-		// Usage limits for free tier
+		// Usage limits for free tier (enforced server-side in convex/billing.ts)
 		maxGames: isPro || isPremium ? Infinity : 5,
 		maxTeams: isPro || isPremium ? Infinity : 2,
+		maxLiveStreams: isPremium ? 8 : isPro ? 2 : 0,
 	};
 }
 
+/**
+ * The plan limit or missing feature a Convex function rejected a call with, if that's what failed.
+ * Limits are enforced server-side (convex/billing.ts); render with <PaymentAlert planLimit />.
+ */
+export function getPlanLimitError(error: unknown): PlanLimitErrorData | null {
+	if (!(error instanceof ConvexError)) return null;
+	const data = error.data as PlanLimitErrorData | undefined;
+	return data?.code === "PLAN_LIMIT" || data?.code === "PLAN_FEATURE"
+		? data
+		: null;
+}
+
 export function useHasFailedPayment() {
 	const { customer } = useCustomer();
 	return customer?.products?.some((p) => p.status === "past_due") ?? false;
@@ -0,0 +1,15 @@
+/**
+ * Display labels for the player stat columns materialized by convex/stats.ts
+ */
+export const STAT_OPTIONS = [
+	{ key: "goals", label: "Goals", short: "G" },
+	{ key: "assists", label: "Assists", short: "A" },
+	{ key: "hockeyAssists", label: "Hockey Assists", short: "HA" },
+	{ key: "blocks", label: "Ds", short: "D" },
+	{ key: "turnovers", label: "Turnovers", short: "TO" },
+	{ key: "completionImpact", label: "Completion Impact", short: "CI" },
+	{ key: "plusMinus", label: "Plus/Minus", short: "+/-" },
+	{ key: "pointsPlayed", label: "Points Played", short: "PP" },
+] as const;
+
+export type StatKey = (typeof STAT_OPTIONS)[number]["key"];